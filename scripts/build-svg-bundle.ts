@@ -0,0 +1,241 @@
+#!/usr/bin/env tsx
+/**
+ * Offline SVG Bundle Builder
+ *
+ * Downloads every SVG a generation run needs - for one commit and variant
+ * profile - into a single gzipped, content-addressed bundle. Loading the bundle
+ * in the plugin (SVG source → Offline bundle) lets a whole set be generated
+ * without a network request, and the same bundle always produces the same
+ * components.
+ *
+ * This script:
+ * 1. Resolves the icons (all icons, one set, or an explicit list)
+ * 2. Fetches each profile variant at --ref (GitHub raw, or --svg-mirror)
+ * 3. Stores identical SVGs once (keyed by hashSvg) with an index keyed by
+ *    icon, style and generateFilename output
+ * 4. Writes the gzipped JSON bundle
+ *
+ * Usage:
+ *   tsx scripts/build-svg-bundle.ts [--ref=<commit sha>] [--set=1 | --icons=home,search]
+ *     [--styles=rounded] [--weights=300,400,500] [--fills=0,1] [--grades=0] [--sizes=24]
+ *     [--svg-mirror=http://localhost:8787] [--out=svg-bundle.json.gz]
+ *     [--owner=acme] [--repo=material-design-icons] [--path=symbols/web]
+ *     [--filename-pattern={icon}{modifiers}_{size}px.svg]
+ *
+ * --ref and the repository default to the commit and repository in
+ * src/lib/icons/icon-list-metadata.json, so the bundle matches the plugin's
+ * icon list. Omitted profile axes include every value.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { fileURLToPath } from 'url';
+import {
+  setGitHubRef,
+  setIconRepository,
+  type IconRepository,
+} from '../src/lib/github/url-generator';
+import { GitHubRawSvgSource, HttpSvgSource, type SvgSource } from '../src/lib/github/svg-source';
+import { buildSvgBundle, type SvgBundleEntry } from '../src/lib/github/svg-bundle';
+import {
+  batchFetchSVGs,
+  describeFetchFailures,
+  type FetchFailure,
+  type FetchItem,
+} from '../src/lib/icons/batch-fetcher';
+import { getAllIcons, getIconRange } from '../src/lib/icons/all-icons';
+import {
+  describeVariantProfile,
+  getProfileVariants,
+  normalizeVariantProfile,
+  type VariantProfile,
+} from '../src/lib/icons/variant-profile';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Icons fetched per batchFetchSVGs call (bounds memory for in-flight requests)
+const ICONS_PER_FETCH = 10;
+
+/**
+ * Set range from categories-summary.json
+ */
+interface CategorySummary {
+  name: string;
+  firstIcon: string;
+  lastIconExclusive: string;
+}
+
+/**
+ * Read a JSON file relative to the repo root
+ */
+function readJson<T>(...segments: string[]): T {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, '..', ...segments), 'utf-8'));
+}
+
+/**
+ * Read a comma-separated flag (`--name=a,b`)
+ */
+function readListArg(args: string[], name: string): string[] | undefined {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split('=')[1].split(',').filter(Boolean) : undefined;
+}
+
+/**
+ * Read a single-value flag (`--name=value`)
+ */
+function readArg(args: string[], name: string): string | undefined {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.substring(arg.indexOf('=') + 1) : undefined;
+}
+
+/**
+ * Repository from the icon list metadata, overridden by --owner/--repo/--path/--filename-pattern
+ */
+function resolveRepository(
+  args: string[],
+  listRepository: Partial<IconRepository> = {}
+): Partial<IconRepository> {
+  const flags: Partial<IconRepository> = {
+    owner: readArg(args, 'owner'),
+    repo: readArg(args, 'repo'),
+    path: readArg(args, 'path'),
+    filenamePattern: readArg(args, 'filename-pattern'),
+  };
+
+  const repository: Partial<IconRepository> = { ...listRepository };
+  for (const key of Object.keys(flags) as Array<keyof IconRepository>) {
+    if (flags[key]) {
+      repository[key] = flags[key];
+    }
+  }
+  return repository;
+}
+
+/**
+ * Resolve the icons to bundle from --set / --icons (default: every icon)
+ */
+function resolveIcons(args: string[]): { icons: string[]; description: string } {
+  const explicit = readListArg(args, 'icons');
+  if (explicit) {
+    return { icons: explicit, description: `${explicit.length} listed icon(s)` };
+  }
+
+  const setArg = readListArg(args, 'set');
+  if (setArg) {
+    const setNumber = parseInt(setArg[0], 10);
+    const prefix = `Set ${String(setNumber).padStart(2, '0')}:`;
+    const category = readJson<CategorySummary[]>('src', 'data', 'categories-summary.json').find(
+      (c) => c.name.startsWith(prefix)
+    );
+    if (!category) {
+      throw new Error(`Unknown set: ${setArg[0]}`);
+    }
+    return {
+      icons: getIconRange(category.firstIcon, category.lastIconExclusive),
+      description: category.name,
+    };
+  }
+
+  return { icons: getAllIcons(), description: 'all icons' };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const listMetadata = readJson<{ commitSha: string; repository?: Partial<IconRepository> }>(
+    'src',
+    'lib',
+    'icons',
+    'icon-list-metadata.json'
+  );
+  const commitSha = readArg(args, 'ref') ?? listMetadata.commitSha;
+  const mirrorArg = args.find((arg) => arg.startsWith('--svg-mirror='));
+  const outArg = args.find((arg) => arg.startsWith('--out='));
+  const outPath = path.resolve(
+    outArg ? outArg.split('=')[1] : `svg-bundle-${commitSha.substring(0, 7)}.json.gz`
+  );
+
+  const profile: VariantProfile = normalizeVariantProfile({
+    styles: readListArg(args, 'styles') as VariantProfile['styles'] | undefined,
+    weights: readListArg(args, 'weights')?.map(Number) as VariantProfile['weights'] | undefined,
+    fills: readListArg(args, 'fills')?.map(Number) as VariantProfile['fills'] | undefined,
+    grades: readListArg(args, 'grades')?.map(Number) as VariantProfile['grades'] | undefined,
+    opticalSizes: readListArg(args, 'sizes')?.map(Number) as
+      | VariantProfile['opticalSizes']
+      | undefined,
+  });
+
+  try {
+    const { icons, description } = resolveIcons(args);
+
+    setGitHubRef(commitSha);
+    const repository = setIconRepository(resolveRepository(args, listMetadata.repository));
+    const source: SvgSource = mirrorArg
+      ? new HttpSvgSource(mirrorArg.split('=')[1])
+      : new GitHubRawSvgSource();
+
+    console.log('=====================================');
+    console.log('Material Symbols SVG Bundle Builder');
+    console.log('=====================================');
+    console.log(`Repo:    ${repository.owner}/${repository.repo} (${repository.path})`);
+    console.log(`Commit:  ${commitSha}`);
+    console.log(`Icons:   ${description} (${icons.length})`);
+    console.log(`Profile: ${describeVariantProfile(profile)}`);
+    console.log(`Source:  ${source.label}`);
+    console.log('');
+
+    const variants = getProfileVariants(profile);
+    const results: SvgBundleEntry[] = [];
+    const failures: FetchFailure[] = [];
+
+    for (let i = 0; i < icons.length; i += ICONS_PER_FETCH) {
+      const items: FetchItem[] = icons.slice(i, i + ICONS_PER_FETCH).flatMap((iconName) =>
+        variants.map(({ style, variant }) => ({
+          url: source.getUrl(iconName, style, variant),
+          iconName,
+          style,
+          variant,
+        }))
+      );
+
+      const { results: fetched, failures: failed } = await batchFetchSVGs(items, { source });
+      results.push(...fetched);
+      failures.push(...failed);
+
+      console.log(
+        `Fetched ${Math.min(i + ICONS_PER_FETCH, icons.length)}/${icons.length} icons` +
+          (failures.length > 0 ? ` (${describeFetchFailures(failures)})` : '')
+      );
+    }
+
+    const bundle = buildSvgBundle({ commitSha, profile, results });
+    const json = JSON.stringify(bundle);
+    fs.writeFileSync(outPath, zlib.gzipSync(json));
+
+    console.log(`\n✅ Written bundle to: ${path.relative(process.cwd(), outPath)}`);
+    console.log(
+      `   Variants: ${bundle.variantCount} (${Object.keys(bundle.blobs).length} unique SVGs)`
+    );
+    console.log(`   Size: ${(fs.statSync(outPath).size / 1024 / 1024).toFixed(1)} MB gzipped`);
+
+    if (failures.length > 0) {
+      console.log(
+        `\n⚠️  WARNING: ${failures.length} variant(s) could not be fetched and are not in the bundle:`
+      );
+      console.log(`   ${describeFetchFailures(failures)}`);
+      for (const failure of failures.filter((f) => f.reason === 'not-found').slice(0, 10)) {
+        console.log(`   - ${failure.item.url}: variant does not exist upstream`);
+      }
+      console.log('Generating those variants from this bundle will fail.');
+    }
+  } catch (error) {
+    console.error('❌ Error:', error);
+    if (error instanceof Error) {
+      console.error('Stack:', error.stack);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -7,8 +7,14 @@
  *
  * Usage:
  *   tsx scripts/check-icon-changes.ts <old-commit> <new-commit>
+ *     [--owner=acme] [--repo=material-design-icons] [--path=symbols/web]
+ *     [--filename-pattern={icon}{modifiers}_{size}px.svg]
  *   tsx scripts/check-icon-changes.ts HEAD~1 HEAD
  *
+ * The repository defaults to the one in src/lib/icons/icon-list-metadata.json
+ * (google/material-design-icons unless the list was built from a fork); the
+ * flags override it.
+ *
  * Output: icon-changes.json
  * {
  *   "oldCommit": "abc123...",
@@ -24,6 +30,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import {
+  getGitHubApiUrl,
+  getIconNameFromRepoPath,
+  setIconRepository,
+  type IconRepository,
+} from '../src/lib/github/url-generator';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -45,9 +57,7 @@ async function checkIconChanges(oldCommit: string, newCommit: string): Promise<I
   console.log(`New commit: ${newCommit}\n`);
 
   // GitHub API endpoint for comparing commits
-  const owner = 'google';
-  const repo = 'material-design-icons';
-  const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${oldCommit}...${newCommit}`;
+  const compareUrl = `${getGitHubApiUrl()}/compare/${oldCommit}...${newCommit}`;
 
   console.log(`Fetching changes from GitHub API...`);
   console.log(`URL: ${compareUrl}\n`);
@@ -78,11 +88,13 @@ async function checkIconChanges(oldCommit: string, newCommit: string): Promise<I
     };
 
     for (const file of data.files || []) {
-      // File paths look like: symbols/src/rounded/alarm/materialsymbolsrounded-alarm-20px.svg
+      // File paths look like: symbols/web/alarm/materialsymbolsrounded/alarm_20px.svg
+      // (under the repository's icon path) or symbols/src/rounded/alarm/...
       // We want to extract the icon name (e.g., "alarm")
-      const match = file.filename.match(/symbols\/src\/[^/]+\/([^/]+)\//);
-      if (match) {
-        const iconName = match[1];
+      const iconName =
+        getIconNameFromRepoPath(file.filename) ??
+        file.filename.match(/symbols\/src\/[^/]+\/([^/]+)\//)?.[1];
+      if (iconName) {
         changedIconsSet.add(iconName);
 
         if (file.status === 'added') {
@@ -168,15 +180,45 @@ async function checkIconChanges(oldCommit: string, newCommit: string): Promise<I
   }
 }
 
+/**
+ * Repository from the icon list metadata, overridden by --owner/--repo/--path/--filename-pattern
+ */
+function resolveRepository(args: string[]): Partial<IconRepository> {
+  const metadataPath = path.join(__dirname, '..', 'src', 'lib', 'icons', 'icon-list-metadata.json');
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+  const flag = (name: string) => {
+    const arg = args.find((a) => a.startsWith(`--${name}=`));
+    return arg ? arg.substring(arg.indexOf('=') + 1) : undefined;
+  };
+
+  const flags: Partial<IconRepository> = {
+    owner: flag('owner'),
+    repo: flag('repo'),
+    path: flag('path'),
+    filenamePattern: flag('filename-pattern'),
+  };
+
+  const repository: Partial<IconRepository> = { ...metadata.repository };
+  for (const key of Object.keys(flags) as Array<keyof IconRepository>) {
+    if (flags[key]) {
+      repository[key] = flags[key];
+    }
+  }
+  return repository;
+}
+
 // CLI usage
 const args = process.argv.slice(2);
-if (args.length < 2) {
-  console.error('Usage: tsx scripts/check-icon-changes.ts <old-commit> <new-commit>');
+const positional = args.filter((arg) => !arg.startsWith('--'));
+if (positional.length < 2) {
+  console.error('Usage: tsx scripts/check-icon-changes.ts <old-commit> <new-commit> [--owner=…]');
   console.error('Example: tsx scripts/check-icon-changes.ts abc123 def456');
   process.exit(1);
 }
 
-const [oldCommit, newCommit] = args;
+const [oldCommit, newCommit] = positional;
+const repository = setIconRepository(resolveRepository(args));
+console.log(`Repository: ${repository.owner}/${repository.repo} (${repository.path})`);
 checkIconChanges(oldCommit, newCommit).catch((error) => {
   console.error('Failed:', error);
   process.exit(1);
@@ -10,13 +10,24 @@
  * This enables CI/CD automation and handles skipped versions.
  *
  * Usage:
- *   tsx scripts/compare-and-generate.ts
+ *   tsx scripts/compare-and-generate.ts [--owner=acme] [--repo=material-design-icons]
+ *     [--path=symbols/web] [--filename-pattern={icon}{modifiers}_{size}px.svg]
+ *
+ * Changes are compared in the repository recorded in icon-list-metadata.json
+ * (google/material-design-icons unless the list was built from a fork); the
+ * flags override it.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import { fileURLToPath } from 'url';
+import {
+  getGitHubApiUrl,
+  getIconNameFromRepoPath,
+  setIconRepository,
+  type IconRepository,
+} from '../src/lib/github/url-generator';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -65,18 +76,43 @@ async function getCommitFromGitHistory(): Promise<string | null> {
   }
 }
 
-async function getCurrentCommit(): Promise<string> {
+function readListMetadata(): { commitSha: string; repository?: Partial<IconRepository> } {
   const metadataPath = path.join(__dirname, '..', 'src', 'lib', 'icons', 'icon-list-metadata.json');
-  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
-  return metadata.commitSha;
+  return JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+}
+
+async function getCurrentCommit(): Promise<string> {
+  return readListMetadata().commitSha;
+}
+
+/**
+ * Repository from the icon list metadata, overridden by --owner/--repo/--path/--filename-pattern
+ */
+function resolveRepository(args: string[]): Partial<IconRepository> {
+  const flag = (name: string) => {
+    const arg = args.find((a) => a.startsWith(`--${name}=`));
+    return arg ? arg.substring(arg.indexOf('=') + 1) : undefined;
+  };
+  const flags: Partial<IconRepository> = {
+    owner: flag('owner'),
+    repo: flag('repo'),
+    path: flag('path'),
+    filenamePattern: flag('filename-pattern'),
+  };
+
+  const repository: Partial<IconRepository> = { ...readListMetadata().repository };
+  for (const key of Object.keys(flags) as Array<keyof IconRepository>) {
+    if (flags[key]) {
+      repository[key] = flags[key];
+    }
+  }
+  return repository;
 }
 
 async function fetchIconChanges(oldCommit: string, newCommit: string): Promise<IconChangeDelta> {
   console.log(`\n🔍 Fetching changes: ${oldCommit.substring(0, 7)} → ${newCommit.substring(0, 7)}`);
 
-  const owner = 'google';
-  const repo = 'material-design-icons';
-  const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${oldCommit}...${newCommit}`;
+  const compareUrl = `${getGitHubApiUrl()}/compare/${oldCommit}...${newCommit}`;
 
   const response = await fetch(compareUrl, {
     headers: {
@@ -95,9 +131,10 @@ async function fetchIconChanges(oldCommit: string, newCommit: string): Promise<I
   const newIconsSet = new Set<string>();
 
   for (const file of data.files || []) {
-    const match = file.filename.match(/symbols\/src\/[^/]+\/([^/]+)\//);
-    if (match) {
-      const iconName = match[1];
+    const iconName =
+      getIconNameFromRepoPath(file.filename) ??
+      file.filename.match(/symbols\/src\/[^/]+\/([^/]+)\//)?.[1];
+    if (iconName) {
       changedIconsSet.add(iconName);
 
       if (file.status === 'added') {
@@ -270,6 +307,9 @@ async function main() {
   console.log('COMPARE & GENERATE CATEGORIES');
   console.log('═══════════════════════════════════════\n');
 
+  const repository = setIconRepository(resolveRepository(process.argv.slice(2)));
+  console.log(`Repository: ${repository.owner}/${repository.repo} (${repository.path})`);
+
   // Get previous and current commit SHAs
   const previousCommit = await getCommitFromGitHistory();
   const currentCommit = await getCurrentCommit();
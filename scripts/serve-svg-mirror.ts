@@ -0,0 +1,148 @@
+#!/usr/bin/env tsx
+/**
+ * Local SVG Mirror
+ *
+ * Serves a checked-out `symbols/web` tree of the Material Design Icons repo
+ * over HTTP, so the plugin can download variants from localhost instead of
+ * raw.githubusercontent.com (select "Local mirror" under SVG source).
+ *
+ * URLs follow the upstream layout used by the plugin:
+ *   http://localhost:8787/home/materialsymbolsrounded/home_24px.svg
+ *
+ * With --legacy-dir (a checkout of the repo's `src/`), legacy Material Icons are
+ * served at the same category-less paths the plugin requests:
+ *   http://localhost:8787/home/materialiconsround/24px.svg → src/action/home/materialiconsround/24px.svg
+ *
+ * This script:
+ * 1. Serves GET and HEAD for files under --dir (no directory listings)
+ * 2. Sends `Access-Control-Allow-Origin: *` (the plugin runs in a null-origin iframe)
+ * 3. Rejects paths that escape --dir
+ *
+ * Usage:
+ *   git clone --depth 1 --filter=blob:none --sparse https://github.com/google/material-design-icons
+ *   (cd material-design-icons && git sparse-checkout set symbols/web)
+ *   tsx scripts/serve-svg-mirror.ts --dir=material-design-icons/symbols/web [--port=8787]
+ *     [--legacy-dir=material-design-icons/src]
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+const DEFAULT_PORT = 8787;
+
+/**
+ * Resolve a request path inside the root directory
+ *
+ * @returns Absolute file path, or null if the path escapes the root
+ */
+function resolveRequestPath(root: string, requestUrl: string): string | null {
+  const pathname = decodeURIComponent(new URL(requestUrl, 'http://localhost').pathname);
+  const filePath = path.resolve(root, `.${pathname}`);
+  return filePath.startsWith(root + path.sep) ? filePath : null;
+}
+
+/**
+ * Legacy Material Icons request: `/{icon}/materialicons…/{file}`
+ */
+const LEGACY_REQUEST = /^\/([^/]+)\/(materialicons[a-z]*\/[^/]+)$/;
+
+/**
+ * Map each legacy icon to its category directory (`src/{category}/{icon}`)
+ */
+function indexLegacyIcons(legacyRoot: string): Map<string, string> {
+  const categories = new Map<string, string>();
+  for (const category of fs.readdirSync(legacyRoot, { withFileTypes: true })) {
+    if (!category.isDirectory()) continue;
+    for (const icon of fs.readdirSync(path.join(legacyRoot, category.name))) {
+      categories.set(icon, category.name);
+    }
+  }
+  return categories;
+}
+
+/**
+ * Rewrite a legacy icon request to its categorised path under --legacy-dir
+ *
+ * @returns Absolute file path, or null if the request is not a known legacy icon
+ */
+function resolveLegacyPath(
+  legacyRoot: string,
+  categories: Map<string, string>,
+  requestUrl: string
+): string | null {
+  const pathname = decodeURIComponent(new URL(requestUrl, 'http://localhost').pathname);
+  const match = LEGACY_REQUEST.exec(pathname);
+  const category = match && categories.get(match[1]);
+  return category ? resolveRequestPath(legacyRoot, `/${category}/${match[1]}/${match[2]}`) : null;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const dirArg = args.find((arg) => arg.startsWith('--dir='));
+  const portArg = args.find((arg) => arg.startsWith('--port='));
+  const legacyArg = args.find((arg) => arg.startsWith('--legacy-dir='));
+  const port = portArg ? parseInt(portArg.split('=')[1], 10) : DEFAULT_PORT;
+
+  if (!dirArg) {
+    console.error('❌ Missing --dir=<path to symbols/web>');
+    process.exit(1);
+  }
+
+  const root = path.resolve(dirArg.split('=')[1]);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    console.error(`❌ Not a directory: ${root}`);
+    process.exit(1);
+  }
+
+  const legacyRoot = legacyArg ? path.resolve(legacyArg.split('=')[1]) : null;
+  if (legacyRoot && (!fs.existsSync(legacyRoot) || !fs.statSync(legacyRoot).isDirectory())) {
+    console.error(`❌ Not a directory: ${legacyRoot}`);
+    process.exit(1);
+  }
+  const legacyCategories = legacyRoot ? indexLegacyIcons(legacyRoot) : new Map<string, string>();
+
+  const server = http.createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const filePath =
+      (legacyRoot && resolveLegacyPath(legacyRoot, legacyCategories, req.url || '/')) ||
+      resolveRequestPath(root, req.url || '/');
+    if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': filePath.endsWith('.svg') ? 'image/svg+xml' : 'application/octet-stream',
+      'Content-Length': fs.statSync(filePath).size,
+    });
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    fs.createReadStream(filePath).pipe(res);
+  });
+
+  server.listen(port, () => {
+    console.log('=====================================');
+    console.log('Material Symbols SVG Mirror');
+    console.log('=====================================');
+    console.log(`Serving: ${root}`);
+    if (legacyRoot) {
+      console.log(`Legacy:  ${legacyRoot} (${legacyCategories.size} icons)`);
+    }
+    console.log(`URL:     http://localhost:${port}`);
+    console.log('\nIn the plugin, set SVG source to "Local mirror" with this URL.');
+    console.log('Press Ctrl+C to stop.');
+  });
+}
+
+main();
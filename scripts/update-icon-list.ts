@@ -10,21 +10,163 @@
  * 3. Writes the validated icon list to:
  *    - all-icons.txt (for reference)
  *    - src/lib/all-icons-data.json (for runtime usage)
+ * 4. Captures codepoints (upstream codepoints file) and tags/categories
+ *    (Google Fonts icon metadata) into src/lib/icons/icon-metadata-data.json,
+ *    which the plugin writes into ComponentSet descriptions (optional)
+ * 5. Maps legacy Material Icons (src/{category}/{icon}) to their category in
+ *    src/lib/github/legacy-icon-categories.json, which legacy-* style URLs
+ *    need (optional)
  *
  * This is the ONLY script that should fetch icons from GitHub.
  * Other scripts should read from all-icons-data.json.
  *
  * Usage:
- *   tsx scripts/update-icon-list.ts [--ref=master|4.0.0] [--skip-verify]
+ *   tsx scripts/update-icon-list.ts [--ref=master|4.0.0] [--skip-verify] [--skip-metadata]
+ *     [--skip-legacy] [--svg-mirror=http://localhost:8787]
+ *     [--owner=acme] [--repo=material-design-icons] [--path=symbols/web]
+ *     [--filename-pattern={icon}{modifiers}_{size}px.svg]
+ *
+ * --owner/--repo/--path/--filename-pattern build the list from a fork with the
+ * same layout (e.g. extra brand glyphs). The repository is recorded in
+ * icon-list-metadata.json, so the plugin and the change detection scripts
+ * follow it.
+ *
+ * --svg-mirror verifies SVGs against a local mirror (scripts/serve-svg-mirror.ts)
+ * instead of raw.githubusercontent.com; the icon list still comes from GitHub.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { GitHubIconAPI } from '../src/lib/github/api';
-import { setGitHubRef } from '../src/lib/github/url-generator';
+import { HttpSvgSource } from '../src/lib/github/svg-source';
+import { getGitHubApiUrl, setGitHubRef, setIconRepository } from '../src/lib/github/url-generator';
 
 // Configuration
 const DEFAULT_REF = 'master'; // Could be 'master', 'main', or a tag like '4.0.0'
+const GOOGLE_FONTS_METADATA_URL =
+  'https://fonts.google.com/metadata/icons?key=material_symbols&incomplete=true';
+
+/**
+ * Icon entry in the Google Fonts metadata response (fields we use)
+ */
+interface GoogleFontsIcon {
+  name: string;
+  codepoint?: number;
+  tags?: string[];
+  categories?: string[];
+}
+
+/**
+ * Bundled metadata entry (see src/lib/icons/icon-metadata.ts)
+ */
+interface IconMetadataEntry {
+  codepoint?: string;
+  tags?: string[];
+  categories?: string[];
+}
+
+interface GitTreeItem {
+  path: string;
+  type: 'blob' | 'tree';
+}
+
+interface GitTree {
+  tree: GitTreeItem[];
+  truncated: boolean;
+}
+
+/**
+ * Fetch one level of a directory in the icon repository
+ */
+async function fetchTree(ref: string, dir: string): Promise<GitTree> {
+  const response = await fetch(`${getGitHubApiUrl()}/git/trees/${ref}:${dir}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch tree ${dir}: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Map every legacy Material Icon to its category directory under `src/`
+ *
+ * One request for the category list plus one per category (~20 in total).
+ */
+async function fetchLegacyIconCategories(ref: string): Promise<Record<string, string>> {
+  const entries: Array<[string, string]> = [];
+  const root = await fetchTree(ref, 'src');
+
+  for (const category of root.tree.filter((item) => item.type === 'tree')) {
+    const icons = await fetchTree(ref, `src/${category.path}`);
+    for (const icon of icons.tree.filter((item) => item.type === 'tree')) {
+      entries.push([icon.path, category.path]);
+    }
+  }
+
+  // Sorted by icon name so regenerated files diff cleanly
+  const categories: Record<string, string> = {};
+  for (const [iconName, category] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+    categories[iconName] = category;
+  }
+  return categories;
+}
+
+/**
+ * Fetch tags and categories from the Google Fonts icon metadata
+ *
+ * The response is JSON prefixed with `)]}'` to prevent JSON hijacking.
+ */
+async function fetchGoogleFontsMetadata(): Promise<Map<string, GoogleFontsIcon>> {
+  const response = await fetch(GOOGLE_FONTS_METADATA_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch icon metadata: ${response.status} ${response.statusText}`);
+  }
+
+  const text = await response.text();
+  const data: { icons: GoogleFontsIcon[] } = JSON.parse(text.replace(/^\)\]\}'\s*/, ''));
+
+  return new Map(data.icons.map((icon) => [icon.name, icon]));
+}
+
+/**
+ * Build the bundled metadata for the given icons
+ *
+ * Codepoints come from the upstream codepoints file, falling back to the
+ * Google Fonts value. Tags are deduplicated and exclude the icon's own name.
+ */
+function buildIconMetadata(
+  icons: string[],
+  codepoints: Map<string, string>,
+  fontsMetadata: Map<string, GoogleFontsIcon>
+): Record<string, IconMetadataEntry> {
+  const result: Record<string, IconMetadataEntry> = {};
+
+  for (const iconName of icons) {
+    const fontsIcon = fontsMetadata.get(iconName);
+    const entry: IconMetadataEntry = {};
+
+    const codepoint = codepoints.get(iconName) ?? fontsIcon?.codepoint?.toString(16);
+    if (codepoint) {
+      entry.codepoint = codepoint.toLowerCase();
+    }
+
+    const tags = [...new Set(fontsIcon?.tags ?? [])].filter(
+      (tag) => tag && tag !== iconName && tag !== iconName.replace(/_/g, ' ')
+    );
+    if (tags.length > 0) {
+      entry.tags = tags;
+    }
+
+    if (fontsIcon?.categories && fontsIcon.categories.length > 0) {
+      entry.categories = fontsIcon.categories;
+    }
+
+    if (Object.keys(entry).length > 0) {
+      result[iconName] = entry;
+    }
+  }
+
+  return result;
+}
 
 /**
  * Main execution
@@ -35,17 +177,38 @@ async function main() {
   const refArg = args.find((arg) => arg.startsWith('--ref='));
   const ref = refArg ? refArg.split('=')[1] : DEFAULT_REF;
   const skipVerify = args.includes('--skip-verify');
+  const skipMetadata = args.includes('--skip-metadata');
+  const skipLegacy = args.includes('--skip-legacy');
+  const mirrorArg = args.find((arg) => arg.startsWith('--svg-mirror='));
+  const mirrorUrl = mirrorArg ? mirrorArg.split('=')[1] : null;
+  const flag = (name: string) => {
+    const arg = args.find((a) => a.startsWith(`--${name}=`));
+    return arg ? arg.substring(arg.indexOf('=') + 1) : undefined;
+  };
+  const repository = setIconRepository({
+    owner: flag('owner'),
+    repo: flag('repo'),
+    path: flag('path'),
+    filenamePattern: flag('filename-pattern'),
+  });
 
   console.log('=====================================');
   console.log('Material Symbols Icon List Updater');
   console.log('=====================================');
+  console.log(`Repository: ${repository.owner}/${repository.repo} (${repository.path})`);
   console.log(`Using ref: ${ref}`);
   console.log(`Skip verification: ${skipVerify}`);
+  console.log(`Skip metadata: ${skipMetadata}`);
+  console.log(`Skip legacy icons: ${skipLegacy}`);
+  console.log(`SVG source: ${mirrorUrl ?? 'GitHub'}`);
   console.log('');
 
   try {
     // Initialize API with the specified ref
-    const api = new GitHubIconAPI({ ref });
+    const api = new GitHubIconAPI({
+      ref,
+      svgSource: mirrorUrl ? new HttpSvgSource(mirrorUrl) : undefined,
+    });
 
     // Also update the URL generator to use this ref
     setGitHubRef(ref);
@@ -56,27 +219,10 @@ async function main() {
     console.log(`✅ Using commit: ${commitSha.substring(0, 7)} (${commitSha})\n`);
 
     // Step 1: Fetch ALL icons from the repo directly (symbols/web directories)
-    console.log('Fetching icon list from GitHub repo (symbols/web directories)...');
+    console.log(`Fetching icon list from GitHub repo (${repository.path} directories)...`);
     console.log('This is the source of truth for what actually exists.\n');
 
-    const GITHUB_API = 'https://api.github.com/repos/google/material-design-icons';
-    const treeResponse = await fetch(`${GITHUB_API}/git/trees/${ref}:symbols/web`);
-
-    if (!treeResponse.ok) {
-      throw new Error(`Failed to fetch tree: ${treeResponse.status} ${treeResponse.statusText}`);
-    }
-
-    interface GitTreeItem {
-      path: string;
-      type: 'blob' | 'tree';
-    }
-
-    interface GitTree {
-      tree: GitTreeItem[];
-      truncated: boolean;
-    }
-
-    const treeData: GitTree = await treeResponse.json();
+    const treeData = await fetchTree(ref, repository.path);
 
     if (treeData.truncated) {
       console.warn('⚠️  WARNING: Tree was truncated by GitHub. Results may be incomplete.');
@@ -149,17 +295,76 @@ async function main() {
       console.log(`✅ Written ${invalidIcons.length} invalid icons to: invalid-icons.txt`);
     }
 
+    // Write icon search metadata (tags, categories, codepoints)
+    let iconsWithMetadata = 0;
+    if (skipMetadata) {
+      console.log('\n⚠️  Skipping icon metadata (--skip-metadata flag)');
+    } else {
+      console.log('\nFetching icon metadata (codepoints, tags, categories)...');
+
+      const codepoints = new Map<string, string>();
+      for (const icon of await api.fetchAllIcons()) {
+        if (icon.codepoint) {
+          codepoints.set(icon.name, icon.codepoint);
+        }
+      }
+
+      const iconMetadata = buildIconMetadata(
+        validIcons,
+        codepoints,
+        await fetchGoogleFontsMetadata()
+      );
+      iconsWithMetadata = Object.keys(iconMetadata).length;
+
+      const iconMetadataPath = path.join(
+        outputDir,
+        'src',
+        'lib',
+        'icons',
+        'icon-metadata-data.json'
+      );
+      fs.writeFileSync(iconMetadataPath, JSON.stringify(iconMetadata) + '\n');
+      console.log(
+        `✅ Written metadata for ${iconsWithMetadata} icons to: src/lib/icons/icon-metadata-data.json`
+      );
+    }
+
+    // Write legacy Material Icons categories (needed for legacy-* style URLs)
+    let legacyIcons = 0;
+    if (skipLegacy) {
+      console.log('\n⚠️  Skipping legacy Material Icons (--skip-legacy flag)');
+    } else {
+      console.log('\nFetching legacy Material Icons categories (src/)...');
+      const legacyCategories = await fetchLegacyIconCategories(ref);
+      legacyIcons = Object.keys(legacyCategories).length;
+
+      const legacyPath = path.join(
+        outputDir,
+        'src',
+        'lib',
+        'github',
+        'legacy-icon-categories.json'
+      );
+      fs.writeFileSync(legacyPath, JSON.stringify(legacyCategories, null, 2) + '\n');
+      console.log(
+        `✅ Written ${legacyIcons} legacy icons to: src/lib/github/legacy-icon-categories.json`
+      );
+    }
+
     // Write metadata
     const metadataPath = path.join(outputDir, 'src', 'lib', 'icons', 'icon-list-metadata.json');
     const metadata = {
       generatedAt: new Date().toISOString(),
       ref: ref,
       commitSha: commitSha,
+      repository,
       source: 'repo-directories', // Changed from codepoints
       totalIconDirectories: allIcons.length,
       validIcons: validIcons.length,
       invalidIcons: invalidIcons.length,
       skipVerify: skipVerify,
+      iconsWithMetadata: skipMetadata ? 'N/A' : iconsWithMetadata,
+      legacyIcons: skipLegacy ? 'N/A' : legacyIcons,
       successRate: skipVerify
         ? 'N/A'
         : `${Math.round((validIcons.length / allIcons.length) * 100)}%`,
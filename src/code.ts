@@ -9,15 +9,99 @@
  */
 
 import { MessageHandler } from '@lib/message-handler';
-import { setGitHubRef } from '@lib/github';
+import {
+  ArchiveSvgSource,
+  BundleSvgSource,
+  createSvgSource,
+  getIconRepository,
+  normalizeIconRepository,
+  setGitHubRef,
+  setIconRepository,
+  type ArchiveFile,
+  type IconRepository,
+  type IconStyle,
+  type SvgBundleIndex,
+  type SvgBundleMeta,
+  type SvgSource,
+  type SvgSourceSettings,
+} from '@lib/github';
+import {
+  FULL_VARIANT_PROFILE,
+  describeVariantProfile,
+  isProfileSubset,
+  normalizeVariantProfile,
+  type VariantProfile,
+} from '@lib/icons/variant-profile';
+import {
+  formatUnknownIcon,
+  getIconCategory,
+  parseIconList,
+  validateIconNames,
+} from '@lib/icons/icon-lookup';
+import { SvgCache } from '@lib/icons/svg-cache';
+import { validateInterpolationAxes, type InterpolationAxes } from '@lib/icons/svg-interpolation';
+import {
+  DEFAULT_VARIANT_SCHEMA,
+  getVariantSchema,
+  isSameVariantSchema,
+  normalizeVariantSchema,
+  setVariantSchema,
+  validateVariantSchema,
+  type VariantSchema,
+} from '@lib/icons/variant-schema';
+import { getDefaultVariantName } from '@lib/icons/variant-formatter';
+import { hasIconMetadata } from '@lib/icons/icon-metadata';
+import {
+  DEFAULT_COMPONENT_SET_LAYOUT,
+  isComponentSetLayout,
+  type ComponentSetLayout,
+} from '@lib/icons/set-layout';
+import {
+  getIconColor,
+  getIconPaint,
+  setIconColor,
+  type IconColorSettings,
+} from '@lib/tokens/icon-color';
+import {
+  getStoredStylingProfile,
+  getStylingProfile,
+  setStoredStylingProfile,
+  setStylingProfile,
+  type StylingProfileInput,
+} from '@lib/tokens/styling-profile';
+import { CLIENT_STORAGE_KEYS, FEATURE_FLAGS } from '@lib/constants';
 import { logger } from '@lib/utils';
-import { PLUGIN_MESSAGES, type UIMessage } from '@/types';
 import {
+  PLUGIN_MESSAGES,
+  type GenerationConfig,
+  type RepairScope,
+  type SvgSourceState,
+  type UIMessage,
+} from '@/types';
+import {
+  GenerationQueue,
+  auditFile,
+  collectRepairTargets,
+  findResumableCheckpoints,
   handleCategoryGeneration,
+  importCustomIcons,
+  interpolateComponentSets,
+  jumpToComponentSet,
   logCumulativeChangeStatus,
+  rebindIconColor,
+  renameVariantsInComponentSets,
+  repairComponentSets,
+  resolveGenerationConfig,
+  searchIconsInFile,
+  splitComponentSets,
+  validateGenerationConfig,
   type CategoryGenerationConfig,
+  type CategoryRange,
   type CumulativeChangeData,
+  type QueueJobInput,
 } from '@/handlers';
+// @ts-ignore - JSON import
+import categoriesData from '@/data/categories-summary.json';
 
 /**
  * Icon list metadata generated by scripts/update-icon-list.ts
@@ -71,6 +155,16 @@ const COMMIT_SHA = (iconListMetadata as { commitSha: string }).commitSha;
 setGitHubRef(COMMIT_SHA);
 logger.info(`Plugin initialized with commit SHA: ${COMMIT_SHA.substring(0, 7)}`);
 
+/**
+ * Repository the icon list was built from (a fork when the list was generated
+ * with --owner/--repo); used unless another repository is saved in clientStorage
+ * @const {IconRepository}
+ */
+const LIST_REPOSITORY = normalizeIconRepository(
+  (iconListMetadata as { repository?: Partial<IconRepository> }).repository
+);
+setIconRepository(LIST_REPOSITORY);
+
 // Log icon changes delta if available for optimization tracking
 logCumulativeChangeStatus(iconChangesData, iconChangesCumulative);
 
@@ -85,17 +179,237 @@ figma.showUI(__html__, {
   themeColors: true,
 });
 
+/**
+ * Persistent generation queue (multi-set runs)
+ * Loaded from clientStorage on startup so an interrupted run can be resumed
+ * @type {GenerationQueue}
+ */
+const generationQueue = new GenerationQueue();
+const queueLoaded = generationQueue.load();
+
+/**
+ * Variant profile used for generation (subset of the 504-variant matrix)
+ * Persisted in clientStorage so the choice survives plugin restarts
+ * @type {VariantProfile}
+ */
+let variantProfile: VariantProfile = FULL_VARIANT_PROFILE;
+const variantProfileLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.VARIANT_PROFILE)
+  .then((stored) => {
+    if (stored) {
+      variantProfile = normalizeVariantProfile(stored as Partial<VariantProfile>);
+      logger.info(`Loaded variant profile: ${describeVariantProfile(variantProfile)}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load variant profile, using full profile:', error);
+  });
+
+/**
+ * Uploaded SVG archive (session only - too large for clientStorage)
+ * @type {ArchiveSvgSource}
+ */
+const svgArchive = new ArchiveSvgSource();
+
+/**
+ * Loaded offline SVG bundle (session only, see scripts/build-svg-bundle.ts)
+ * @type {BundleSvgSource}
+ */
+const svgBundle = new BundleSvgSource();
+
+/**
+ * Custom SVG files being uploaded for import (arrive in chunks, cleared after the import)
+ * @type {ArchiveFile[]}
+ */
+let customIconFiles: ArchiveFile[] = [];
+
+/**
+ * Where variant SVGs are downloaded from (GitHub raw, local mirror or archive)
+ * The choice is persisted in clientStorage; archive contents are not
+ * @type {SvgSource}
+ */
+let svgSourceSettings: SvgSourceSettings = { kind: 'github' };
+let svgSource: SvgSource = createSvgSource(svgSourceSettings, svgArchive, svgBundle);
+const svgSourceLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.SVG_SOURCE)
+  .then((stored) => {
+    if (stored) {
+      svgSourceSettings = stored as SvgSourceSettings;
+      svgSource = createSvgSource(svgSourceSettings, svgArchive, svgBundle);
+      logger.info(`Loaded SVG source: ${svgSource.label}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load SVG source, using GitHub:', error);
+  });
+
+/**
+ * Repository icons are fetched from (owner, repo, icon path, filename pattern)
+ * Persisted in clientStorage; an invalid stored value falls back to the list's repository
+ */
+const iconRepositoryLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.ICON_REPOSITORY)
+  .then((stored) => {
+    if (stored) {
+      const repository = setIconRepository(stored as Partial<IconRepository>);
+      logger.info(`Loaded icon repository: ${repository.owner}/${repository.repo}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load icon repository, using the icon list repository:', error);
+  });
+
+/**
+ * Variant naming schema (property names, value formats, order)
+ * Persisted in clientStorage; an invalid stored value falls back to the default schema
+ */
+const variantSchemaLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.VARIANT_SCHEMA)
+  .then((stored) => {
+    if (stored) {
+      setVariantSchema(stored as VariantSchema);
+      logger.info(`Loaded variant naming schema: ${getDefaultVariantName()}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load variant naming schema, using the default schema:', error);
+  });
+
+/**
+ * Switch variant naming schema, persist it and tell the UI
+ * @param {VariantSchema | null} schema - New schema (null resets to the default schema)
+ * @returns {Promise<void>}
+ * @throws {Error} If the schema is invalid (the current schema is kept)
+ */
+async function saveVariantSchema(schema: VariantSchema | null): Promise<void> {
+  if (schema) {
+    const saved = setVariantSchema(schema);
+    await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.VARIANT_SCHEMA, saved);
+  } else {
+    setVariantSchema(DEFAULT_VARIANT_SCHEMA);
+    await figma.clientStorage.deleteAsync(CLIENT_STORAGE_KEYS.VARIANT_SCHEMA);
+  }
+  logger.info(`Variant naming schema set: ${getDefaultVariantName()}`);
+  figma.ui.postMessage({
+    type: PLUGIN_MESSAGES.VARIANT_SCHEMA_STATE,
+    variantSchema: getVariantSchema(),
+  });
+}
+
+/**
+ * ComponentSet layout: one set per icon, or one set per style
+ * Persisted in clientStorage; an unknown stored value falls back to the combined layout
+ * @type {ComponentSetLayout}
+ */
+let setLayout: ComponentSetLayout = DEFAULT_COMPONENT_SET_LAYOUT;
+const setLayoutLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.COMPONENT_SET_LAYOUT)
+  .then((stored) => {
+    if (isComponentSetLayout(stored)) {
+      setLayout = stored;
+      logger.info(`Loaded component set layout: ${setLayout}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load component set layout, using combined sets:', error);
+  });
+
+/**
+ * Icon colour (colour variable with a fallback hex) painted onto variant vectors
+ * Persisted in clientStorage; the variable is resolved on startup and whenever it changes
+ */
+const iconColorLoaded = figma.clientStorage
+  .getAsync(CLIENT_STORAGE_KEYS.ICON_COLOR)
+  .then(async (stored) => {
+    if (stored) {
+      const { settings, boundVariable } = await setIconColor(stored as Partial<IconColorSettings>);
+      logger.info(`Loaded icon colour: ${boundVariable ?? settings?.fallback}`);
+    }
+  })
+  .catch((error) => {
+    logger.warn('Failed to load icon colour, keeping the SVG colour:', error);
+  });
+
+/**
+ * Styling profile (container colours, radii, spacing, frame width) of this document
+ * Stored as plugin data on the document; its variables are resolved on startup and whenever it changes
+ */
+const stylingProfileLoaded = setStylingProfile(getStoredStylingProfile(figma.root))
+  .then(({ unresolved }) => {
+    logger.info(
+      `Loaded styling profile${unresolved.length > 0 ? ` (${unresolved.length} variable(s) not found)` : ''}`
+    );
+  })
+  .catch((error) => {
+    logger.warn('Failed to load styling profile, using the default styling:', error);
+  });
+
+/**
+ * Every persisted setting above, plus the queue, loaded once on startup
+ * Awaited before INIT and at the top of every UI message, so no handler runs on
+ * defaults and a late load can't overwrite a setting the user just changed
+ */
+const settingsLoaded = Promise.all([
+  queueLoaded,
+  variantProfileLoaded,
+  svgSourceLoaded,
+  iconRepositoryLoaded,
+  variantSchemaLoaded,
+  setLayoutLoaded,
+  iconColorLoaded,
+  stylingProfileLoaded,
+]);
+
+/**
+ * Persistent cache of SVGs downloaded from GitHub (keyed by commit and file)
+ * @type {SvgCache}
+ */
+const svgCache = new SvgCache();
+
+/**
+ * Snapshot of the SVG source for the UI
+ * @returns {SvgSourceState}
+ */
+function getSvgSourceState(): SvgSourceState {
+  return {
+    kind: svgSource.kind,
+    label: svgSource.label,
+    mirrorUrl: svgSourceSettings.mirrorUrl,
+    archiveFiles: svgArchive.size,
+    bundle: svgBundle.metadata,
+  };
+}
+
 /**
  * Send initial data to UI after a short delay to ensure UI is fully loaded
- * Includes page names for smart category selection dropdown
+ * Includes page names for smart category selection dropdown, the persisted queue
+ * and any resumable category checkpoints
  */
-setTimeout(() => {
+setTimeout(async () => {
   const pageNames = figma.root.children.map((page) => page.name);
+  const [queue] = await settingsLoaded;
   figma.ui.postMessage({
     type: PLUGIN_MESSAGES.INIT,
     message: 'Plugin initialized',
     pageNames,
+    queue,
+    checkpoints: findResumableCheckpoints(),
+    variantProfile,
+    svgSource: getSvgSourceState(),
+    svgCacheStats: await svgCache.getStats(),
+    iconRepository: getIconRepository(),
+    variantSchema: getVariantSchema(),
+    setLayout,
+    iconColor: getIconColor(),
+    stylingProfile: getStylingProfile(),
   });
+
+  if (FEATURE_FLAGS.ENABLE_ICON_METADATA && !hasIconMetadata()) {
+    const message =
+      'Icon metadata is enabled but not bundled - run pnpm icons:update so descriptions include tags and codepoints';
+    logger.warn(message);
+    figma.ui.postMessage({ type: PLUGIN_MESSAGES.WARNING, message });
+  }
 }, 100);
 
 /**
@@ -107,11 +421,94 @@ setTimeout(() => {
 let isCancelled = false;
 
 /**
- * Message handler for non-generation messages (testing, utilities, etc.)
- * Handles: CHECK_EXISTING, RUN_PERFORMANCE_TEST, TEST_SINGLE_ICON
+ * Sets from categories-summary.json (used to resolve GenerationConfig runs)
+ * @type {CategoryRange[]}
+ */
+const categories = categoriesData as CategoryRange[];
+
+/**
+ * Message handler for config-driven generation and non-generation messages
+ * Handles: START_GENERATION (with GenerationConfig), CHECK_EXISTING, RUN_PERFORMANCE_TEST,
+ * TEST_SINGLE_ICON
  * @type {MessageHandler}
  */
-const messageHandler = new MessageHandler();
+const messageHandler = new MessageHandler({
+  validateConfig: (config) => validateGenerationConfig(config, categories),
+  runGeneration: runConfiguredGeneration,
+});
+
+/**
+ * Build the category generation config shared by single runs and the queue
+ * @returns {CategoryGenerationConfig}
+ */
+function createGenerationConfig(): CategoryGenerationConfig {
+  return {
+    commitSha: COMMIT_SHA,
+    iconChangesData,
+    iconChangesCumulative,
+    isCancelled: () => isCancelled,
+    variantProfile,
+    svgSource,
+    svgCache,
+    setLayout,
+  };
+}
+
+/**
+ * Run all pending queue jobs, one category after another
+ * @returns {Promise<void>}
+ */
+async function runGenerationQueue(): Promise<void> {
+  isCancelled = false;
+  await settingsLoaded;
+
+  const genConfig = createGenerationConfig();
+  await generationQueue.run(
+    (job) =>
+      handleCategoryGeneration(
+        { ...job, resume: true },
+        { ...genConfig, variantProfile: job.variantProfile ?? genConfig.variantProfile }
+      ),
+    () => isCancelled
+  );
+}
+
+/**
+ * Run a GenerationConfig from the UI
+ *
+ * The config is resolved into pages (one queue job each) with its own variant
+ * profile, then run through the generation queue so it can be resumed.
+ *
+ * @param {GenerationConfig} config - Validated config
+ * @returns {Promise<void>}
+ */
+async function runConfiguredGeneration(config: GenerationConfig): Promise<void> {
+  await settingsLoaded;
+
+  const resolved = resolveGenerationConfig(config, categories, variantProfile);
+
+  if (resolved.unknownIcons.length > 0) {
+    figma.ui.postMessage({
+      type: PLUGIN_MESSAGES.WARNING,
+      message: `Skipping ${resolved.unknownIcons.length} unknown icon(s): ${resolved.unknownIcons.map(formatUnknownIcon).join('; ')}`,
+    });
+  }
+
+  if (resolved.unplacedIcons.length > 0) {
+    figma.ui.postMessage({
+      type: PLUGIN_MESSAGES.WARNING,
+      message: `Skipping ${resolved.unplacedIcons.length} icon(s) outside the selected sets: ${resolved.unplacedIcons.join(', ')}`,
+    });
+  }
+
+  logger.info(
+    `Configured run: ${resolved.jobs.length} page(s), ${resolved.totalIcons} icons, ` +
+      describeVariantProfile(resolved.variantProfile)
+  );
+
+  await generationQueue.enqueue(resolved.jobs);
+  await runGenerationQueue();
+}
 
 /**
  * Message structure for START_GENERATION command
@@ -124,12 +521,29 @@ const messageHandler = new MessageHandler();
  * @property {string} categoryData.firstIcon - First icon in category (inclusive)
  * @property {string} categoryData.lastIconExclusive - Last icon boundary (exclusive)
  * @property {number} [testIconCount] - Optional: limit icon count for testing
+ * @property {boolean} [resume] - Optional: continue from the category's checkpoint
+ * @property {boolean} [planOnly] - Optional: post a dry-run plan instead of generating
  */
 interface StartGenerationMessage {
   type: 'START_GENERATION';
   category: string;
   categoryData: { firstIcon: string; lastIconExclusive: string };
   testIconCount?: number;
+  resume?: boolean;
+  planOnly?: boolean;
+}
+
+/**
+ * Message structure for QUEUE_START command
+ * Sent from UI to queue several categories and start running them
+ *
+ * @interface QueueStartMessage
+ * @property {string} type - Always 'QUEUE_START'
+ * @property {QueueJobInput[]} categories - Categories to queue, in run order
+ */
+interface QueueStartMessage {
+  type: 'QUEUE_START';
+  categories: QueueJobInput[];
 }
 
 /**
@@ -137,6 +551,24 @@ interface StartGenerationMessage {
  * Supports:
  * - INIT: Plugin initialization status
  * - START_GENERATION: Category-based icon generation
+ * - QUEUE_START / QUEUE_RESUME / QUEUE_CLEAR: Multi-set generation queue
+ * - SET_VARIANT_PROFILE: Choose which variants to generate
+ * - SET_SVG_SOURCE / LOAD_SVG_ARCHIVE / LOAD_SVG_BUNDLE: Choose where SVGs are downloaded from
+ * - GET_SVG_CACHE_STATS / CLEAR_SVG_CACHE: Persistent SVG cache panel
+ * - SET_ICON_REPOSITORY: Fetch icons from a fork (persisted), or reset to the list's repository
+ * - VALIDATE_ICONS: Check a pasted icon list (suggestions for unknown names, target sets)
+ * - SEARCH_ICONS / JUMP_TO_ICON: Browse panel search and navigation
+ * - AUDIT_FILE: File-wide icon health report
+ * - REPAIR_ICONS: Fix selected/page/audited icons in place
+ * - INTERPOLATE_VARIANTS: Add in-between weights/grades to selected/page icons
+ * - SET_VARIANT_SCHEMA: Choose how variant names are built and parsed (persisted)
+ * - RENAME_VARIANTS: Rename selected/page/document variants from one naming schema to another
+ * - SET_COMPONENT_SET_LAYOUT: One ComponentSet per icon or per style (persisted)
+ * - SPLIT_COMPONENT_SETS: Split selected/page combined sets into one set per style
+ * - SET_ICON_COLOR: Choose the colour variable painted onto variant vectors (persisted)
+ * - REBIND_ICON_COLOR: Repaint selected/page variants with the icon colour in use
+ * - SET_STYLING_PROFILE: Choose container colours, radii, spacing and width (stored in the document)
+ * - IMPORT_CUSTOM_ICONS: Build ComponentSets from the user's own SVG files
  * - CANCEL: User cancellation request
  * - Other: Delegated to MessageHandler
  *
@@ -147,6 +579,9 @@ figma.ui.onmessage = async (msg: { type: string; [key: string]: unknown }) => {
   logger.info('Received from UI:', { type: msg.type });
 
   try {
+    // Persisted settings must be in place before any handler reads or changes them
+    await settingsLoaded;
+
     switch (msg.type) {
       case 'INIT':
         figma.ui.postMessage({
@@ -159,22 +594,425 @@ figma.ui.onmessage = async (msg: { type: string; [key: string]: unknown }) => {
         // Reset cancellation flag
         isCancelled = false;
 
+        // Config-driven runs (style, weights, page strategy, ...) go through MessageHandler
+        if (msg.config) {
+          await messageHandler.handleMessage(msg as UIMessage);
+          break;
+        }
+
         // Type assertion - msg is checked at runtime via switch
         const startMsg = msg as unknown as StartGenerationMessage;
 
-        // Create generation config
-        const genConfig: CategoryGenerationConfig = {
+        // Call extracted handler
+        await handleCategoryGeneration(startMsg, createGenerationConfig());
+        break;
+      }
+
+      case PLUGIN_MESSAGES.QUEUE_START: {
+        const queueMsg = msg as unknown as QueueStartMessage;
+        await generationQueue.enqueue(queueMsg.categories || []);
+        await runGenerationQueue();
+        break;
+      }
+
+      case PLUGIN_MESSAGES.QUEUE_RESUME:
+        await runGenerationQueue();
+        break;
+
+      case PLUGIN_MESSAGES.SET_VARIANT_PROFILE: {
+        variantProfile = normalizeVariantProfile(msg.variantProfile as Partial<VariantProfile>);
+        await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.VARIANT_PROFILE, variantProfile);
+        logger.info(`Variant profile set: ${describeVariantProfile(variantProfile)}`);
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SET_SVG_SOURCE: {
+        svgSourceSettings = msg.settings as SvgSourceSettings;
+        svgSource = createSvgSource(svgSourceSettings, svgArchive, svgBundle);
+        await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.SVG_SOURCE, svgSourceSettings);
+        logger.info(`SVG source set: ${svgSource.label}`);
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.SVG_SOURCE_STATE,
+          svgSource: getSvgSourceState(),
+        });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.LOAD_SVG_ARCHIVE: {
+        // Archives arrive in chunks: the first clears the previous upload
+        if (msg.reset) {
+          svgArchive.clear();
+        }
+        svgArchive.addFiles((msg.files as Record<string, string>) || {});
+        if (msg.done) {
+          logger.info(`Loaded SVG archive: ${svgArchive.size} files`);
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.SVG_SOURCE_STATE,
+            svgSource: getSvgSourceState(),
+          });
+        }
+        break;
+      }
+
+      case PLUGIN_MESSAGES.LOAD_SVG_BUNDLE: {
+        // Bundles arrive in chunks of icons: the first carries the metadata
+        if (msg.meta) {
+          svgBundle.load(msg.meta as SvgBundleMeta);
+        }
+        svgBundle.addEntries(
+          (msg.index as SvgBundleIndex) || {},
+          (msg.blobs as Record<string, string>) || {}
+        );
+        if (msg.done) {
+          const bundleMeta = svgBundle.metadata;
+          if (bundleMeta && bundleMeta.commitSha !== COMMIT_SHA) {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.WARNING,
+              message: `Bundle was built at ${bundleMeta.commitSha.substring(0, 7)} but the icon list is at ${COMMIT_SHA.substring(0, 7)} - rebuild it with --ref=${COMMIT_SHA}`,
+            });
+          }
+          if (bundleMeta && !isProfileSubset(variantProfile, bundleMeta.profile)) {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.WARNING,
+              message: `Bundle only covers ${describeVariantProfile(bundleMeta.profile)} - variants outside it will fail`,
+            });
+          }
+          logger.info(`Loaded SVG bundle: ${svgBundle.label}`);
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.SVG_SOURCE_STATE,
+            svgSource: getSvgSourceState(),
+          });
+        }
+        break;
+      }
+
+      case PLUGIN_MESSAGES.GET_SVG_CACHE_STATS:
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.SVG_CACHE_STATS,
+          svgCacheStats: await svgCache.getStats(),
+        });
+        break;
+
+      case PLUGIN_MESSAGES.SET_ICON_REPOSITORY: {
+        // null resets to the repository the icon list was built from
+        if (msg.repository) {
+          const repository = setIconRepository(msg.repository as Partial<IconRepository>);
+          await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.ICON_REPOSITORY, repository);
+        } else {
+          setIconRepository(LIST_REPOSITORY);
+          await figma.clientStorage.deleteAsync(CLIENT_STORAGE_KEYS.ICON_REPOSITORY);
+        }
+        const { owner, repo, path } = getIconRepository();
+        logger.info(`Icon repository set: ${owner}/${repo}/${path}`);
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.ICON_REPOSITORY_STATE,
+          iconRepository: getIconRepository(),
+        });
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.SVG_SOURCE_STATE,
+          svgSource: getSvgSourceState(),
+        });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.CLEAR_SVG_CACHE:
+        await svgCache.clear();
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.SVG_CACHE_STATS,
+          svgCacheStats: await svgCache.getStats(),
+        });
+        break;
+
+      case PLUGIN_MESSAGES.VALIDATE_ICONS: {
+        const validation = validateIconNames(parseIconList(String(msg.text || '')));
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.ICON_VALIDATION,
+          iconValidation: {
+            valid: validation.valid.map((name) => ({ name, category: getIconCategory(name) })),
+            unknown: validation.unknown,
+          },
+        });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SEARCH_ICONS: {
+        const query = String(msg.query || '');
+        figma.ui.postMessage({
+          type: PLUGIN_MESSAGES.ICON_SEARCH_RESULTS,
+          query,
+          searchResults: searchIconsInFile(query),
+        });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.JUMP_TO_ICON: {
+        const found = await jumpToComponentSet(String(msg.nodeId));
+        if (!found) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: 'Component set no longer exists - search again to refresh',
+          });
+        }
+        break;
+      }
+
+      case PLUGIN_MESSAGES.AUDIT_FILE: {
+        const report = await auditFile({
           commitSha: COMMIT_SHA,
-          iconChangesData,
-          iconChangesCumulative,
+          onProgress: (pageName, pageIndex, totalPages) => {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.PROGRESS_UPDATE,
+              message: `Auditing ${pageName} (${pageIndex}/${totalPages})...`,
+              progress: Math.round(((pageIndex - 1) / totalPages) * 100),
+            });
+          },
+        });
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.AUDIT_REPORT, auditReport: report });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.REPAIR_ICONS: {
+        isCancelled = false;
+        const targets = collectRepairTargets(
+          (msg.scope as RepairScope) || 'selection',
+          (msg.nodeIds as string[]) || []
+        );
+        if (targets.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: 'Nothing to repair - select icon component sets first',
+          });
+          figma.ui.postMessage({ type: PLUGIN_MESSAGES.REPAIR_RESULT, repairLog: [] });
+          break;
+        }
+
+        const repairLog = await repairComponentSets(targets, {
+          svgSource,
           isCancelled: () => isCancelled,
-        };
+          onProgress: (iconName, index, total) => {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.PROGRESS_UPDATE,
+              message: `Repairing ${iconName} (${index}/${total})...`,
+            });
+          },
+        });
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.REPAIR_RESULT, repairLog });
+        break;
+      }
 
-        // Call extracted handler
-        await handleCategoryGeneration(startMsg, genConfig);
+      case PLUGIN_MESSAGES.INTERPOLATE_VARIANTS: {
+        isCancelled = false;
+        const axes = msg.axes as InterpolationAxes;
+        const axisErrors = validateInterpolationAxes(axes);
+        const targets =
+          axisErrors.length === 0
+            ? collectRepairTargets((msg.scope as RepairScope) || 'selection')
+            : [];
+        if (axisErrors.length > 0 || targets.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message:
+              axisErrors.length > 0
+                ? axisErrors.join('; ')
+                : 'Nothing to interpolate - select icon component sets first',
+          });
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.INTERPOLATION_RESULT,
+            interpolationLog: [],
+          });
+          break;
+        }
+
+        const interpolationLog = await interpolateComponentSets(targets, {
+          axes,
+          svgSource,
+          isCancelled: () => isCancelled,
+          onProgress: (iconName, index, total) => {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.PROGRESS_UPDATE,
+              message: `Interpolating ${iconName} (${index}/${total})...`,
+            });
+          },
+        });
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.INTERPOLATION_RESULT, interpolationLog });
         break;
       }
 
+      case PLUGIN_MESSAGES.IMPORT_CUSTOM_ICONS: {
+        // Files arrive in chunks: the first clears the previous upload
+        if (msg.reset) {
+          customIconFiles = [];
+        }
+        customIconFiles.push(...((msg.files as ArchiveFile[]) || []));
+        if (!msg.done) {
+          break;
+        }
+
+        isCancelled = false;
+        const files = customIconFiles;
+        customIconFiles = [];
+        const customImport = await importCustomIcons(files, {
+          pageName: msg.pageName as string | undefined,
+          defaultStyle: msg.style as IconStyle | undefined,
+          setLayout,
+          isCancelled: () => isCancelled,
+          onProgress: (iconName, index, total) => {
+            figma.ui.postMessage({
+              type: PLUGIN_MESSAGES.PROGRESS_UPDATE,
+              message: `Importing ${iconName} (${index}/${total})...`,
+            });
+          },
+        });
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.CUSTOM_IMPORT_RESULT, customImport });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SET_VARIANT_SCHEMA:
+        // null resets to the default schema
+        await saveVariantSchema(
+          msg.variantSchema
+            ? normalizeVariantSchema(msg.variantSchema as Partial<VariantSchema>)
+            : null
+        );
+        break;
+
+      case PLUGIN_MESSAGES.RENAME_VARIANTS: {
+        // Renames from `from` (default: the schema in use) to `to`. Only a document-wide rename
+        // makes `to` the schema in use; otherwise sets outside the scope would no longer parse
+        const from = normalizeVariantSchema(
+          (msg.from as Partial<VariantSchema>) || getVariantSchema()
+        );
+        const to = normalizeVariantSchema(msg.to as Partial<VariantSchema>);
+        const schemaErrors = [...validateVariantSchema(from), ...validateVariantSchema(to)];
+        if (schemaErrors.length === 0 && isSameVariantSchema(from, to)) {
+          schemaErrors.push('Both naming schemas are the same - nothing to rename');
+        }
+        const targets =
+          schemaErrors.length === 0
+            ? collectRepairTargets((msg.scope as RepairScope) || 'selection')
+            : [];
+        if (schemaErrors.length > 0 || targets.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message:
+              schemaErrors.length > 0
+                ? schemaErrors.join('; ')
+                : 'Nothing to rename - select icon component sets first',
+          });
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.VARIANT_RENAME_RESULT,
+            variantRenameLog: [],
+          });
+          break;
+        }
+
+        const variantRenameLog = renameVariantsInComponentSets(targets, { from, to });
+        if (msg.scope === 'document') {
+          await saveVariantSchema(to);
+        } else if (!isSameVariantSchema(to, getVariantSchema())) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message:
+              'Renamed sets no longer match the saved naming schema - rename the document to switch schemas',
+          });
+        }
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.VARIANT_RENAME_RESULT, variantRenameLog });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SET_COMPONENT_SET_LAYOUT: {
+        setLayout = isComponentSetLayout(msg.setLayout)
+          ? msg.setLayout
+          : DEFAULT_COMPONENT_SET_LAYOUT;
+        await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.COMPONENT_SET_LAYOUT, setLayout);
+        logger.info(`Component set layout set: ${setLayout}`);
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.COMPONENT_SET_LAYOUT_STATE, setLayout });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SPLIT_COMPONENT_SETS: {
+        const targets = collectRepairTargets((msg.scope as RepairScope) || 'selection');
+        if (targets.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: 'Nothing to split - select icon component sets first',
+          });
+          figma.ui.postMessage({ type: PLUGIN_MESSAGES.SET_SPLIT_RESULT, setSplitLog: [] });
+          break;
+        }
+
+        const setSplitLog = splitComponentSets(targets);
+        if (setSplitLog.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: 'Nothing to split - these icons already have one set per style',
+          });
+        }
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.SET_SPLIT_RESULT, setSplitLog });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SET_ICON_COLOR: {
+        // null keeps the SVG colour
+        const settings = msg.iconColor ? (msg.iconColor as Partial<IconColorSettings>) : null;
+        const iconColor = await setIconColor(settings);
+        if (iconColor.settings) {
+          await figma.clientStorage.setAsync(CLIENT_STORAGE_KEYS.ICON_COLOR, iconColor.settings);
+        } else {
+          await figma.clientStorage.deleteAsync(CLIENT_STORAGE_KEYS.ICON_COLOR);
+        }
+        if (iconColor.settings?.variable && !iconColor.boundVariable) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: `Variable "${iconColor.settings.variable}" not found - icons use ${iconColor.settings.fallback}`,
+          });
+        }
+        logger.info(`Icon colour set: ${iconColor.boundVariable ?? iconColor.settings?.fallback}`);
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.ICON_COLOR_STATE, iconColor });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.REBIND_ICON_COLOR: {
+        const paint = getIconPaint();
+        const targets = paint
+          ? collectRepairTargets((msg.scope as RepairScope) || 'selection')
+          : [];
+        if (!paint || targets.length === 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: paint
+              ? 'Nothing to repaint - select icon component sets first'
+              : 'Choose an icon colour first',
+          });
+          figma.ui.postMessage({ type: PLUGIN_MESSAGES.ICON_COLOR_REBIND_RESULT });
+          break;
+        }
+
+        const iconColorRebind = rebindIconColor(targets, paint, getIconColor().boundVariable);
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.ICON_COLOR_REBIND_RESULT, iconColorRebind });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.SET_STYLING_PROFILE: {
+        // null resets to the default styling
+        const input = msg.stylingProfile ? (msg.stylingProfile as StylingProfileInput) : null;
+        const stylingProfile = await setStylingProfile(input);
+        setStoredStylingProfile(figma.root, input ? stylingProfile.profile : null);
+        if (stylingProfile.unresolved.length > 0) {
+          figma.ui.postMessage({
+            type: PLUGIN_MESSAGES.WARNING,
+            message: `Styling variables not found - fallbacks used: ${stylingProfile.unresolved.join(', ')}`,
+          });
+        }
+        logger.info('Styling profile saved; applies to component sets and frames on the next run');
+        figma.ui.postMessage({ type: PLUGIN_MESSAGES.STYLING_PROFILE_STATE, stylingProfile });
+        break;
+      }
+
+      case PLUGIN_MESSAGES.QUEUE_CLEAR:
+        await generationQueue.clear();
+        break;
+
       case 'CANCEL':
         logger.info('Cancellation requested');
         isCancelled = true;
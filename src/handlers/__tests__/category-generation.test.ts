@@ -19,6 +19,8 @@ import { getFinalSetName } from '../cumulative-changes';
 import { RateLimiter } from '../category-generation/rate-limiter';
 import { ProgressTracker } from '../category-generation/progress-tracker';
 import { IconProcessor } from '../category-generation/icon-processor';
+import { getCheckpointScope } from '../category-generation/checkpoint';
+import { FULL_VARIANT_PROFILE } from '@lib/icons/variant-profile';
 import { PLUGIN_MESSAGES } from '@/types';
 import { PLUGIN_DATA_KEYS } from '@lib/constants';
 
@@ -376,6 +378,34 @@ describe('category-generation', () => {
       expect(getDeprecationSummary).toHaveBeenCalled();
     });
 
+    it('should only process requested icons but keep the full range on the page', async () => {
+      const msg = {
+        category: 'Set 01: test',
+        categoryData: {
+          firstIcon: 'home',
+          lastIconExclusive: 'star',
+        },
+        icons: ['star', 'home', 'unknown'],
+      };
+
+      const config: CategoryGenerationConfig = {
+        commitSha: 'abc123',
+        iconChangesData: null,
+        iconChangesCumulative: null,
+        isCancelled: () => false,
+      };
+
+      mockProcessor.processIcon.mockResolvedValue({ action: 'created' });
+
+      await handleCategoryGeneration(msg, config);
+
+      expect(mockProcessor.processIcon.mock.calls.map((call: any[]) => call[0])).toEqual([
+        'home',
+        'star',
+      ]);
+      expect(handleDeprecatedIcons).toHaveBeenCalledWith(mockPage, ['home', 'search', 'star']);
+    });
+
     it('should create IconGenerator with correct config', async () => {
       const msg = {
         category: 'Set 01: test',
@@ -524,10 +554,11 @@ describe('category-generation', () => {
         isCancelled: () => false,
       };
 
-      await handleCategoryGeneration(msg, config);
+      const result = await handleCategoryGeneration(msg, config);
 
-      // Should notify with 2 completed (failed doesn't count)
-      expect(figma.notify).toHaveBeenCalledWith(expect.stringContaining('2 icons'));
+      // 2 completed (failed doesn't count); the failure fails the run
+      expect(result).toMatchObject({ status: 'failed', completedIcons: 2, totalIcons: 3 });
+      expect(figma.notify).toHaveBeenCalledWith(expect.stringContaining('1 icon(s) failed'));
     });
 
     it('should check for cancellation before each icon', async () => {
@@ -776,4 +807,257 @@ describe('category-generation', () => {
       vi.useRealTimers();
     });
   });
+
+  describe('checkpoints', () => {
+    const msg = {
+      category: 'Set 01: test',
+      categoryData: {
+        firstIcon: 'home',
+        lastIconExclusive: 'star',
+      },
+    };
+
+    const config: CategoryGenerationConfig = {
+      commitSha: 'abc123',
+      iconChangesData: null,
+      iconChangesCumulative: null,
+      isCancelled: () => false,
+    };
+
+    const storedCheckpoint = (overrides: Record<string, unknown> = {}) =>
+      JSON.stringify({
+        category: 'Set 01: test',
+        commitSha: 'abc123',
+        scope: getCheckpointScope(['home', 'search', 'star'], FULL_VARIANT_PROFILE),
+        status: 'in-progress',
+        lastCompletedIcon: 'home',
+        processedIcons: 1,
+        totalIcons: 3,
+        counts: { created: 1, updated: 0, skipped: 0, failed: 0 },
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      mockTracker.setCompletedCount = vi.fn();
+      (mockProcessor.processIcon as Mock).mockResolvedValue({ action: 'created' });
+    });
+
+    const lastCheckpoint = () => {
+      const calls = (mockPage.setPluginData as Mock).mock.calls.filter(
+        ([key]) => key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT
+      );
+      return JSON.parse(calls[calls.length - 1][1]);
+    };
+
+    it('should record a completed checkpoint with per-action counts', async () => {
+      (mockProcessor.processIcon as Mock)
+        .mockResolvedValueOnce({ action: 'created' })
+        .mockResolvedValueOnce({ action: 'skipped-up-to-date' })
+        .mockResolvedValueOnce({ action: 'updated' });
+
+      await handleCategoryGeneration(msg, config);
+
+      expect(lastCheckpoint()).toMatchObject({
+        status: 'completed',
+        commitSha: 'abc123',
+        lastCompletedIcon: 'star',
+        processedIcons: 3,
+        counts: { created: 1, updated: 1, skipped: 1, failed: 0 },
+      });
+    });
+
+    it('should keep the resume point before a failed icon', async () => {
+      let callCount = 0;
+      const isCancelled = () => ++callCount > 2;
+      (mockProcessor.processIcon as Mock)
+        .mockResolvedValueOnce({ action: 'failed' })
+        .mockResolvedValueOnce({ action: 'created' });
+
+      await handleCategoryGeneration(msg, { ...config, isCancelled });
+
+      expect(lastCheckpoint()).toMatchObject({
+        status: 'in-progress',
+        lastCompletedIcon: null,
+        processedIcons: 0,
+        counts: { created: 1, updated: 0, skipped: 0, failed: 1 },
+      });
+    });
+
+    it('should count icons after a failure without moving the resume point', async () => {
+      (mockProcessor.processIcon as Mock)
+        .mockResolvedValueOnce({ action: 'created' })
+        .mockResolvedValueOnce({ action: 'failed' })
+        .mockResolvedValueOnce({ action: 'updated' });
+
+      await handleCategoryGeneration(msg, config);
+
+      expect(lastCheckpoint()).toMatchObject({
+        lastCompletedIcon: 'home',
+        processedIcons: 1,
+        counts: { created: 1, updated: 1, skipped: 0, failed: 1 },
+        resumeCounts: { created: 1, updated: 0, skipped: 0, failed: 0 },
+      });
+    });
+
+    it('should restore the counts at the resume point when resuming', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT
+          ? storedCheckpoint({
+              counts: { created: 1, updated: 1, skipped: 0, failed: 1 },
+              resumeCounts: { created: 1, updated: 0, skipped: 0, failed: 0 },
+            })
+          : ''
+      );
+
+      await handleCategoryGeneration({ ...msg, resume: true }, config);
+
+      expect(mockProcessor.processIcon).toHaveBeenNthCalledWith(1, 'search', 1);
+      expect(lastCheckpoint().counts).toEqual({ created: 3, updated: 0, skipped: 0, failed: 0 });
+    });
+
+    it('should fail a run with failed icons and resume it from the first of them', async () => {
+      (mockProcessor.processIcon as Mock)
+        .mockResolvedValueOnce({ action: 'created' })
+        .mockResolvedValueOnce({ action: 'failed' })
+        .mockResolvedValueOnce({ action: 'created' });
+
+      const result = await handleCategoryGeneration(msg, config);
+
+      expect(result.status).toBe('failed');
+      const checkpoint = lastCheckpoint();
+      expect(checkpoint).toMatchObject({ status: 'in-progress', lastCompletedIcon: 'home' });
+
+      vi.clearAllMocks();
+      (mockProcessor.processIcon as Mock).mockResolvedValue({ action: 'created' });
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT ? JSON.stringify(checkpoint) : ''
+      );
+
+      const resumed = await handleCategoryGeneration({ ...msg, resume: true }, config);
+
+      expect(resumed.status).toBe('completed');
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(2);
+      expect(mockProcessor.processIcon).toHaveBeenNthCalledWith(1, 'search', 1);
+      expect(lastCheckpoint()).toMatchObject({
+        status: 'completed',
+        processedIcons: 3,
+        counts: { created: 3, updated: 0, skipped: 0, failed: 0 },
+      });
+    });
+
+    it('should leave an in-progress checkpoint when cancelled', async () => {
+      let callCount = 0;
+      const isCancelled = () => ++callCount > 1;
+
+      const result = await handleCategoryGeneration(msg, { ...config, isCancelled });
+
+      expect(result.status).toBe('cancelled');
+      expect(lastCheckpoint()).toMatchObject({
+        status: 'in-progress',
+        lastCompletedIcon: 'home',
+      });
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PLUGIN_MESSAGES.CHECKPOINT_STATE })
+      );
+    });
+
+    it('should resume after the last completed icon', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT ? storedCheckpoint() : ''
+      );
+
+      await handleCategoryGeneration({ ...msg, resume: true }, config);
+
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(2);
+      expect(mockProcessor.processIcon).toHaveBeenNthCalledWith(1, 'search', 1);
+      expect(mockTracker.setCompletedCount).toHaveBeenCalledWith(1);
+      expect(lastCheckpoint().counts.created).toBe(3);
+    });
+
+    it('should start from the beginning when the checkpoint commit differs', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT
+          ? storedCheckpoint({ commitSha: 'old999' })
+          : ''
+      );
+
+      await handleCategoryGeneration({ ...msg, resume: true }, config);
+
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(3);
+    });
+
+    it('should start from the beginning when the variant profile differs', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT ? storedCheckpoint() : ''
+      );
+
+      await handleCategoryGeneration(
+        { ...msg, resume: true },
+        { ...config, variantProfile: { ...FULL_VARIANT_PROFILE, styles: ['rounded'] } }
+      );
+
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not read or write the page checkpoint for specific icons', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT ? storedCheckpoint() : ''
+      );
+
+      await handleCategoryGeneration({ ...msg, icons: ['home', 'search'], resume: true }, config);
+
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(2);
+      expect(mockPage.setPluginData).not.toHaveBeenCalledWith(
+        PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT,
+        expect.anything()
+      );
+    });
+
+    it('should ignore the checkpoint when not resuming', async () => {
+      (mockPage.getPluginData as Mock).mockImplementation((key: string) =>
+        key === PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT ? storedCheckpoint() : ''
+      );
+
+      await handleCategoryGeneration(msg, config);
+
+      expect(mockProcessor.processIcon).toHaveBeenCalledTimes(3);
+      expect(lastCheckpoint().counts.created).toBe(3);
+    });
+
+    it('should not write checkpoints in test mode', async () => {
+      await handleCategoryGeneration({ ...msg, testIconCount: 1 }, config);
+
+      expect(mockPage.setPluginData).not.toHaveBeenCalledWith(
+        PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('plan mode', () => {
+    it('should post a plan without touching the document', async () => {
+      const result = await handleCategoryGeneration(
+        {
+          category: 'Set 01: test',
+          categoryData: { firstIcon: 'home', lastIconExclusive: 'star' },
+          planOnly: true,
+        },
+        {
+          commitSha: 'abc123',
+          iconChangesData: null,
+          iconChangesCumulative: null,
+          isCancelled: () => false,
+        }
+      );
+
+      expect(pageManager.getOrCreatePage).not.toHaveBeenCalled();
+      expect(handleDeprecatedIcons).not.toHaveBeenCalled();
+      expect(mockProcessor.processIcon).not.toHaveBeenCalled();
+      expect(result.plan?.create).toEqual(['home', 'search', 'star']);
+      expect(figma.ui.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PLUGIN_MESSAGES.GENERATION_PLAN })
+      );
+    });
+  });
 });
@@ -0,0 +1,123 @@
+/**
+ * @module @figma/handlers/__tests__/custom-icon-import
+ *
+ * Tests for importing custom SVG icons: page, generator options and the report.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { importCustomIcons } from '../custom-icon-import';
+import { IconGenerator } from '@lib/icons/generator';
+import { PageManager } from '@lib/pages/manager';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const generateIcon = vi.fn();
+const getOrCreatePage = vi.fn(async (name: string) => ({ name }));
+
+vi.mock('@lib/icons/generator', () => ({
+  IconGenerator: vi.fn(() => ({ generateIcon })),
+}));
+
+vi.mock('@lib/pages/manager', () => ({
+  PageManager: vi.fn(() => ({ getOrCreatePage })),
+}));
+
+const SVG = '<svg viewBox="0 0 24 24" width="24"><path d="M1 1"/></svg>';
+
+describe('importCustomIcons', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generateIcon.mockImplementation(async (iconName: string, variants: any[]) => ({
+      componentSet: { id: `id-${iconName}` },
+      variantsCreated: variants.length,
+      variantsUpdated: 0,
+      variantsSkipped: 0,
+      invalidVariants: [],
+    }));
+  });
+
+  it('should build each icon on the custom icons page without removing variants', async () => {
+    const report = await importCustomIcons(
+      [
+        { path: 'logo_24px.svg', content: SVG },
+        { path: 'logo_fill1_24px.svg', content: SVG },
+        { path: 'arrow_rounded_400_0.svg', content: SVG },
+      ],
+      { defaultStyle: 'sharp' }
+    );
+
+    expect(PageManager).toHaveBeenCalledTimes(1);
+    expect(getOrCreatePage).toHaveBeenCalledWith('Custom icons', { autoSwitch: true });
+    expect(IconGenerator).toHaveBeenCalledWith({
+      page: { name: 'Custom icons' },
+      checkContentChanges: true,
+      removeUnrequestedVariants: false,
+      setLayout: 'combined',
+    });
+    expect(generateIcon.mock.calls.map(([name, variants]) => [name, variants.length])).toEqual([
+      ['arrow', 1],
+      ['logo', 2],
+    ]);
+    expect(generateIcon.mock.calls[1][1][0].style).toBe('sharp');
+    expect(report).toEqual({
+      pageName: 'Custom icons',
+      icons: [
+        { name: 'arrow', nodeId: 'id-arrow', created: 1, updated: 0, unchanged: 0, invalid: [] },
+        { name: 'logo', nodeId: 'id-logo', created: 2, updated: 0, unchanged: 0, invalid: [] },
+      ],
+      skipped: [],
+    });
+  });
+
+  it('should build icons with the configured component set layout', async () => {
+    await importCustomIcons([{ path: 'logo_24px.svg', content: SVG }], { setLayout: 'per-style' });
+
+    expect(IconGenerator).toHaveBeenCalledWith(expect.objectContaining({ setLayout: 'per-style' }));
+  });
+
+  it('should record failed icons and carry on', async () => {
+    generateIcon.mockRejectedValueOnce(new Error('boom'));
+
+    const report = await importCustomIcons(
+      [
+        { path: 'arrow_24px.svg', content: SVG },
+        { path: 'logo_24px.svg', content: SVG },
+      ],
+      { pageName: 'Brand' }
+    );
+
+    expect(getOrCreatePage).toHaveBeenCalledWith('Brand', { autoSwitch: true });
+    expect(report.icons.map((entry) => [entry.name, entry.error])).toEqual([
+      ['arrow', 'boom'],
+      ['logo', undefined],
+    ]);
+  });
+
+  it('should not touch the file when no file can be imported', async () => {
+    const report = await importCustomIcons([{ path: 'readme.svg', content: SVG }]);
+
+    expect(getOrCreatePage).not.toHaveBeenCalled();
+    expect(report.icons).toEqual([]);
+    expect(report.skipped).toHaveLength(1);
+  });
+
+  it('should stop between icons when cancelled', async () => {
+    const report = await importCustomIcons(
+      [
+        { path: 'arrow_24px.svg', content: SVG },
+        { path: 'logo_24px.svg', content: SVG },
+      ],
+      { isCancelled: () => generateIcon.mock.calls.length > 0 }
+    );
+
+    expect(report.icons.map((entry) => entry.name)).toEqual(['arrow']);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @module @figma/handlers/__tests__/file-audit
+ *
+ * Tests for the file-wide icon health audit.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { auditFile, isSetPage, summarizeAuditReport } from '../file-audit';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { getProfileVariantNames, type VariantProfile } from '@lib/icons/variant-profile';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const CURRENT_SHA = 'current1234';
+
+// Two variants per icon, so incompleteness is easy to produce
+const PROFILE: VariantProfile = {
+  styles: ['rounded'],
+  weights: [400],
+  fills: [0, 1],
+  grades: [0],
+  opticalSizes: [24],
+};
+const [VARIANT_A, VARIANT_B] = getProfileVariantNames(PROFILE);
+
+/**
+ * Variant with a stored hash, vector content and no fills unless overridden
+ */
+function variant(name: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    type: 'COMPONENT',
+    name,
+    fills: [],
+    children: [{ type: 'VECTOR' }],
+    getPluginData: vi.fn((key: string) => (key === PLUGIN_DATA_KEYS.SVG_HASH ? 'hash' : '')),
+    ...overrides,
+  };
+}
+
+/**
+ * ComponentSet with the test profile and a commit SHA
+ */
+function componentSet(
+  id: string,
+  name: string,
+  children: any[],
+  sha: string | null = CURRENT_SHA
+): any {
+  const data: Record<string, string> = {
+    [PLUGIN_DATA_KEYS.VARIANT_PROFILE]: JSON.stringify(PROFILE),
+    [PLUGIN_DATA_KEYS.GIT_COMMIT_SHA]: sha ?? '',
+  };
+  return {
+    id,
+    name,
+    type: 'COMPONENT_SET',
+    children,
+    getPluginData: vi.fn((key: string) => data[key] ?? ''),
+  };
+}
+
+function page(name: string, sets: any[]): any {
+  return { type: 'PAGE', name, findAllWithCriteria: vi.fn(() => sets) };
+}
+
+describe('file-audit', () => {
+  let pages: any[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    pages = [
+      page('Set 01: add-bol', [
+        componentSet('1:1', 'add', [variant(VARIANT_A), variant(VARIANT_B)]),
+        componentSet('1:2', 'alarm', [variant(VARIANT_A)], 'old5678'),
+        componentSet('1:3', 'deprecated_apps', [variant(VARIANT_A)]),
+      ]),
+      page('Set 02: bol-cam', [
+        componentSet('2:1', 'bolt', [
+          variant(VARIANT_A, { getPluginData: vi.fn(() => '') }),
+          variant(VARIANT_B, {
+            fills: [{ type: 'SOLID' }],
+            children: [{ type: 'FRAME' }],
+          }),
+        ]),
+        componentSet('2:2', 'add', [variant(VARIANT_A), variant(VARIANT_B)]),
+      ]),
+      page('Scratch: review', [componentSet('9:1', 'add', [variant(VARIANT_A)], null)]),
+    ];
+
+    (global as any).figma = { root: { children: pages } };
+  });
+
+  describe('isSetPage', () => {
+    it('should match set, legacy category and alphabetical pages only', () => {
+      expect(isSetPage({ name: 'Set 01: add-bol' } as PageNode)).toBe(true);
+      expect(isSetPage({ name: 'Cat 01: add-bol' } as PageNode)).toBe(true);
+      expect(isSetPage({ name: 'Icons 03: cal-cam' } as PageNode)).toBe(true);
+      expect(isSetPage({ name: 'Scratch: review' } as PageNode)).toBe(false);
+      expect(isSetPage({ name: 'Cover' } as PageNode)).toBe(false);
+    });
+  });
+
+  describe('auditFile', () => {
+    it('should only scan set pages', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+
+      expect(report.pagesScanned).toBe(2);
+      expect(report.componentSetsScanned).toBe(5);
+      expect(pages[2].findAllWithCriteria).not.toHaveBeenCalled();
+    });
+
+    it('should report incomplete sets with the missing variant names', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+
+      expect(report.incomplete).toEqual([
+        {
+          name: 'alarm',
+          pageName: 'Set 01: add-bol',
+          nodeId: '1:2',
+          expected: 2,
+          missing: [VARIANT_B],
+        },
+      ]);
+    });
+
+    it('should report stale commit SHAs', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+
+      expect(report.staleCommitSha).toEqual([
+        { name: 'alarm', pageName: 'Set 01: add-bol', nodeId: '1:2', commitSha: 'old5678' },
+      ]);
+    });
+
+    it('should report malformed variants', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+      const bolt = { name: 'bolt', pageName: 'Set 02: bol-cam', nodeId: '2:1' };
+
+      expect(report.missingSvgHash).toEqual([{ ...bolt, variants: [VARIANT_A] }]);
+      expect(report.extraFrames).toEqual([{ ...bolt, variants: [VARIANT_B] }]);
+      expect(report.leftoverFills).toEqual([{ ...bolt, variants: [VARIANT_B] }]);
+    });
+
+    it('should report duplicates across pages and deprecated sets', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+
+      expect(report.duplicates).toEqual([
+        {
+          name: 'add',
+          locations: [
+            { name: 'add', pageName: 'Set 01: add-bol', nodeId: '1:1' },
+            { name: 'add', pageName: 'Set 02: bol-cam', nodeId: '2:2' },
+          ],
+        },
+      ]);
+      expect(report.deprecated).toEqual([
+        { name: 'deprecated_apps', pageName: 'Set 01: add-bol', nodeId: '1:3' },
+      ]);
+    });
+
+    it('should report progress per page', async () => {
+      const onProgress = vi.fn();
+      await auditFile({ commitSha: CURRENT_SHA, onProgress });
+
+      expect(onProgress.mock.calls).toEqual([
+        ['Set 01: add-bol', 1, 2],
+        ['Set 02: bol-cam', 2, 2],
+      ]);
+    });
+  });
+
+  describe('summarizeAuditReport', () => {
+    it('should count every issue type', async () => {
+      const report = await auditFile({ commitSha: CURRENT_SHA });
+
+      expect(summarizeAuditReport(report)).toBe(
+        'Audited 5 sets on 2 pages: 1 incomplete, 1 stale SHA, 1 missing svg_hash, ' +
+          '1 extra frames, 1 leftover fills, 1 duplicates, 1 deprecated'
+      );
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @module @figma/handlers/__tests__/generation-config
+ *
+ * Tests for resolving a UI GenerationConfig into generation jobs.
+ * Tests validation, page strategies, specific icons and the variant profile.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  resolveGenerationConfig,
+  validateGenerationConfig,
+  type CategoryRange,
+} from '../generation-config';
+import { FULL_VARIANT_PROFILE } from '@lib/icons/variant-profile';
+import type { GenerationConfig } from '@/types';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/icons/all-icons', () => {
+  const ALL_ICONS = ['add', 'alarm', 'apps', 'bolt', 'book', 'cake', 'call', 'camera'];
+  return {
+    ALL_ICONS,
+    iconExists: (iconName: string) => ALL_ICONS.includes(iconName),
+    getIconRange: (first: string, lastExclusive: string) =>
+      ALL_ICONS.slice(
+        ALL_ICONS.indexOf(first),
+        lastExclusive === '__END__' ? undefined : ALL_ICONS.indexOf(lastExclusive)
+      ),
+  };
+});
+
+vi.mock('../../../category-mapping.json', () => ({
+  default: {
+    add: 'Set 01: add-app',
+    alarm: 'Set 01: add-app',
+    apps: 'Set 01: add-app',
+    bolt: 'Set 02: bol-boo',
+    book: 'Set 02: bol-boo',
+    cake: 'Set 03: cak-cam',
+    call: 'Set 03: cak-cam',
+    camera: 'Set 03: cak-cam',
+  },
+}));
+
+const CATEGORIES: CategoryRange[] = [
+  { name: 'Set 01: add-app', firstIcon: 'add', lastIconExclusive: 'bolt' },
+  { name: 'Set 02: bol-boo', firstIcon: 'bolt', lastIconExclusive: 'cake' },
+  { name: 'Set 03: cak-cam', firstIcon: 'cake', lastIconExclusive: '__END__' },
+];
+
+const baseConfig = (overrides: Partial<GenerationConfig> = {}): GenerationConfig => ({
+  style: 'rounded',
+  weights: [400],
+  pageStrategy: 'category',
+  ...overrides,
+});
+
+describe('generation-config', () => {
+  describe('validateGenerationConfig', () => {
+    it('should accept a valid config', () => {
+      expect(validateGenerationConfig(baseConfig(), CATEGORIES)).toEqual([]);
+    });
+
+    it('should report every invalid field', () => {
+      const errors = validateGenerationConfig(
+        baseConfig({
+          weights: [400, 450],
+          iconsPerPage: 0,
+          categories: ['Set 99: nope'],
+          specificIcons: ['not_an_icon'],
+        }),
+        CATEGORIES
+      );
+
+      expect(errors).toEqual([
+        'Unsupported weight(s): 450',
+        'Icons per page must be a positive whole number (got 0)',
+        'Unknown set(s): Set 99: nope',
+        'None of the requested icons exist in the icon list',
+      ]);
+    });
+
+    it('should reject scratch pages that look like set pages or have no icons', () => {
+      expect(
+        validateGenerationConfig(
+          baseConfig({ specificIcons: ['add'], scratchPage: 'Set 01: mine' }),
+          CATEGORIES
+        )
+      ).toEqual(['Scratch page name must not look like a set page: Set 01: mine']);
+      expect(validateGenerationConfig(baseConfig({ scratchPage: 'Scratch' }), CATEGORIES)).toEqual([
+        'A scratch page needs a list of specific icons',
+      ]);
+    });
+
+    it('should require at least one weight', () => {
+      expect(validateGenerationConfig(baseConfig({ weights: [] }), CATEGORIES)).toContain(
+        'At least one weight must be selected'
+      );
+    });
+  });
+
+  describe('resolveGenerationConfig', () => {
+    it('should replace style and weights of the base profile', () => {
+      const { variantProfile } = resolveGenerationConfig(
+        baseConfig({ style: 'sharp', weights: [500, 300] }),
+        CATEGORIES,
+        { ...FULL_VARIANT_PROFILE, opticalSizes: [24] }
+      );
+
+      expect(variantProfile.styles).toEqual(['sharp']);
+      expect(variantProfile.weights).toEqual([300, 500]);
+      expect(variantProfile.opticalSizes).toEqual([24]);
+    });
+
+    it('should create one job per selected set for the category strategy', () => {
+      const { jobs, totalIcons } = resolveGenerationConfig(
+        baseConfig({ categories: ['Set 02: bol-boo', 'Set 03: cak-cam'] }),
+        CATEGORIES
+      );
+
+      expect(jobs.map((job) => job.category)).toEqual(['Set 02: bol-boo', 'Set 03: cak-cam']);
+      expect(jobs[0].categoryData).toEqual({ firstIcon: 'bolt', lastIconExclusive: 'cake' });
+      expect(jobs[0].icons).toBeUndefined();
+      expect(totalIcons).toBe(5);
+    });
+
+    it('should chunk icons into alphabetical pages', () => {
+      const { jobs } = resolveGenerationConfig(
+        baseConfig({ pageStrategy: 'alphabetical', iconsPerPage: 3 }),
+        CATEGORIES
+      );
+
+      expect(jobs.map((job) => job.category)).toEqual([
+        'Icons 01: add-app',
+        'Icons 02: bol-cak',
+        'Icons 03: cal-cam',
+      ]);
+      expect(jobs[1].categoryData).toEqual({ firstIcon: 'bolt', lastIconExclusive: 'call' });
+      expect(jobs[2].categoryData).toEqual({ firstIcon: 'call', lastIconExclusive: '__END__' });
+    });
+
+    it('should split only large sets for the hybrid strategy', () => {
+      const { jobs } = resolveGenerationConfig(
+        baseConfig({ pageStrategy: 'hybrid', iconsPerPage: 2 }),
+        CATEGORIES
+      );
+
+      expect(jobs.map((job) => job.category)).toEqual([
+        'Set 01: add-app (1/2)',
+        'Set 01: add-app (2/2)',
+        'Set 02: bol-boo',
+        'Set 03: cak-cam (1/2)',
+        'Set 03: cak-cam (2/2)',
+      ]);
+      expect(jobs[1].categoryData).toEqual({ firstIcon: 'apps', lastIconExclusive: 'bolt' });
+    });
+
+    it('should restrict jobs to specific icons and report unknown names', () => {
+      const { jobs, unknownIcons, totalIcons } = resolveGenerationConfig(
+        baseConfig({ specificIcons: ['camera', 'alarm', 'typo_icon'] }),
+        CATEGORIES
+      );
+
+      expect(jobs.map((job) => [job.category, job.icons])).toEqual([
+        ['Set 01: add-app', ['alarm']],
+        ['Set 03: cak-cam', ['camera']],
+      ]);
+      expect(unknownIcons.map((entry) => entry.name)).toEqual(['typo_icon']);
+      expect(totalIcons).toBe(2);
+    });
+
+    it('should suggest replacements for unknown icons', () => {
+      const { unknownIcons } = resolveGenerationConfig(
+        baseConfig({ specificIcons: ['book', 'cakes'] }),
+        CATEGORIES
+      );
+
+      expect(unknownIcons).toEqual([{ name: 'cakes', suggestions: ['cake'] }]);
+    });
+
+    it('should report specific icons whose set is not selected', () => {
+      const { jobs, unplacedIcons } = resolveGenerationConfig(
+        baseConfig({ categories: ['Set 02: bol-boo'], specificIcons: ['book', 'call'] }),
+        CATEGORIES
+      );
+
+      expect(jobs.map((job) => job.category)).toEqual(['Set 02: bol-boo']);
+      expect(unplacedIcons).toEqual(['call']);
+    });
+
+    it('should put every specific icon on the scratch page', () => {
+      const { jobs } = resolveGenerationConfig(
+        baseConfig({ specificIcons: ['camera', 'add'], scratchPage: 'Scratch: review' }),
+        CATEGORIES
+      );
+
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({
+        category: 'Scratch: review',
+        categoryData: { firstIcon: 'add', lastIconExclusive: '__END__' },
+        icons: ['add', 'camera'],
+      });
+    });
+
+    it('should keep alphabetical page boundaries independent of specific icons', () => {
+      const { jobs } = resolveGenerationConfig(
+        baseConfig({ pageStrategy: 'alphabetical', iconsPerPage: 3, specificIcons: ['call'] }),
+        CATEGORIES
+      );
+
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].category).toBe('Icons 03: cal-cam');
+      expect(jobs[0].icons).toEqual(['call']);
+    });
+
+    it('should attach the resolved profile to every job', () => {
+      const { jobs, variantProfile } = resolveGenerationConfig(baseConfig(), CATEGORIES);
+
+      expect(jobs.every((job) => job.variantProfile === variantProfile)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @module @figma/handlers/__tests__/generation-queue
+ *
+ * Tests for the persistent multi-set generation queue.
+ * Tests persistence, resume after reload, and job status transitions.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GenerationQueue, type QueueStorage, type QueueJobInput } from '../generation-queue';
+import { CLIENT_STORAGE_KEYS } from '@lib/constants';
+import { PLUGIN_MESSAGES, type QueueState } from '@/types';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+/**
+ * In-memory stand-in for figma.clientStorage
+ */
+function createMemoryStorage(): QueueStorage & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    getAsync: vi.fn(async (key: string) => data.get(key)),
+    setAsync: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+    deleteAsync: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+  };
+}
+
+const SET_1: QueueJobInput = {
+  category: 'Set 01: 10k-air',
+  categoryData: { firstIcon: '10k', lastIconExclusive: 'airline_seat_flat' },
+};
+const SET_2: QueueJobInput = {
+  category: 'Set 02: airline-arrow',
+  categoryData: { firstIcon: 'airline_seat_flat', lastIconExclusive: 'arrow_back' },
+};
+const SET_3: QueueJobInput = {
+  category: 'Set 03: arrow-bat',
+  categoryData: { firstIcon: 'arrow_back', lastIconExclusive: 'battery_0_bar' },
+};
+
+describe('GenerationQueue', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+  let postMessage: ReturnType<typeof vi.fn>;
+  let queue: GenerationQueue;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    postMessage = vi.fn();
+    queue = new GenerationQueue({ storage, postMessage });
+  });
+
+  describe('enqueue', () => {
+    it('should add sets as pending and persist them', async () => {
+      const state = await queue.enqueue([SET_1, SET_2]);
+
+      expect(state.jobs.map((job) => job.status)).toEqual(['pending', 'pending']);
+      const stored = storage.data.get(CLIENT_STORAGE_KEYS.GENERATION_QUEUE) as QueueState;
+      expect(stored.jobs.map((job) => job.category)).toEqual([SET_1.category, SET_2.category]);
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PLUGIN_MESSAGES.QUEUE_STATE })
+      );
+    });
+
+    it('should not duplicate sets that are already pending', async () => {
+      await queue.enqueue([SET_1]);
+      const state = await queue.enqueue([SET_1, SET_2]);
+
+      expect(state.jobs).toHaveLength(2);
+    });
+
+    it('should replace the settings of a pending set', async () => {
+      await queue.enqueue([{ ...SET_1, icons: ['10k', 'abc'] }]);
+      const state = await queue.enqueue([{ ...SET_1, icons: ['10k'] }]);
+
+      expect(state.jobs).toHaveLength(1);
+      expect(state.jobs[0].icons).toEqual(['10k']);
+    });
+
+    it('should reject a set that is running with a warning', async () => {
+      await queue.enqueue([SET_1]);
+      let state: QueueState | undefined;
+      await queue.run(
+        async () => {
+          state = await queue.enqueue([{ ...SET_1, icons: ['10k'] }]);
+          return { status: 'completed', completedIcons: 5, totalIcons: 5 };
+        },
+        () => false
+      );
+
+      expect(state?.jobs[0].icons).toBeUndefined();
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: PLUGIN_MESSAGES.WARNING })
+      );
+    });
+
+    it('should reset finished sets to pending when queued again', async () => {
+      await queue.enqueue([SET_1]);
+      await queue.run(
+        async () => ({ status: 'completed', completedIcons: 5, totalIcons: 5 }),
+        () => false
+      );
+
+      const state = await queue.enqueue([SET_1]);
+
+      expect(state.jobs[0].status).toBe('pending');
+      expect(state.jobs[0].completedIcons).toBeUndefined();
+    });
+  });
+
+  describe('run', () => {
+    it('should run pending sets in order and mark them done', async () => {
+      await queue.enqueue([SET_1, SET_2]);
+      const runner = vi.fn(async () => ({
+        status: 'completed' as const,
+        completedIcons: 10,
+        totalIcons: 10,
+      }));
+
+      const state = await queue.run(runner, () => false);
+
+      expect(runner.mock.calls.map((call) => (call as unknown[])[0])).toEqual([SET_1, SET_2]);
+      expect(state.jobs.map((job) => job.status)).toEqual(['done', 'done']);
+      expect(state.jobs[0].completedIcons).toBe(10);
+      expect(queue.hasPendingJobs()).toBe(false);
+    });
+
+    it('should mark failed sets and continue with the next one', async () => {
+      await queue.enqueue([SET_1, SET_2]);
+      const runner = vi
+        .fn()
+        .mockResolvedValueOnce({
+          status: 'failed',
+          completedIcons: 0,
+          totalIcons: 0,
+          error: 'boom',
+        })
+        .mockResolvedValueOnce({ status: 'completed', completedIcons: 3, totalIcons: 3 });
+
+      const state = await queue.run(runner, () => false);
+
+      expect(state.jobs[0]).toMatchObject({ status: 'failed', error: 'boom' });
+      expect(state.jobs[1].status).toBe('done');
+    });
+
+    it('should treat a thrown runner error as a failed set', async () => {
+      await queue.enqueue([SET_1]);
+
+      const state = await queue.run(
+        async () => {
+          throw new Error('network down');
+        },
+        () => false
+      );
+
+      expect(state.jobs[0].status).toBe('failed');
+      expect(state.jobs[0].error).toContain('network down');
+    });
+
+    it('should leave a cancelled set pending and stop', async () => {
+      await queue.enqueue([SET_1, SET_2]);
+      const runner = vi.fn(async () => ({
+        status: 'cancelled' as const,
+        completedIcons: 4,
+        totalIcons: 10,
+      }));
+
+      const state = await queue.run(runner, () => false);
+
+      expect(runner).toHaveBeenCalledTimes(1);
+      expect(state.jobs.map((job) => job.status)).toEqual(['pending', 'pending']);
+      expect(state.jobs[0].completedIcons).toBe(4);
+    });
+
+    it('should not start when already cancelled', async () => {
+      await queue.enqueue([SET_1]);
+      const runner = vi.fn();
+
+      await queue.run(runner, () => true);
+
+      expect(runner).not.toHaveBeenCalled();
+    });
+
+    it('should persist the running status before each set starts', async () => {
+      await queue.enqueue([SET_1]);
+      let statusDuringRun: string | undefined;
+
+      await queue.run(
+        async () => {
+          const stored = storage.data.get(CLIENT_STORAGE_KEYS.GENERATION_QUEUE) as QueueState;
+          statusDuringRun = stored.jobs[0].status;
+          return { status: 'completed', completedIcons: 1, totalIcons: 1 };
+        },
+        () => false
+      );
+
+      expect(statusDuringRun).toBe('running');
+    });
+  });
+
+  describe('load', () => {
+    it('should resume a set that was running when the plugin closed', async () => {
+      await queue.enqueue([SET_1, SET_2, SET_3]);
+      void queue.run(
+        async (job) => {
+          if (job.category === SET_2.category) {
+            // Simulate the plugin closing mid-run: never resolves before reload
+            return new Promise(() => {});
+          }
+          return { status: 'completed', completedIcons: 1, totalIcons: 1 };
+        },
+        () => false
+      );
+
+      // Let the first job finish and the second start
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const reopened = new GenerationQueue({ storage, postMessage });
+      const state = await reopened.load();
+
+      expect(state.jobs.map((job) => job.status)).toEqual(['done', 'pending', 'pending']);
+      expect(reopened.hasPendingJobs()).toBe(true);
+    });
+
+    it('should start empty when nothing is stored', async () => {
+      const state = await queue.load();
+
+      expect(state.jobs).toEqual([]);
+    });
+
+    it('should start empty when storage fails', async () => {
+      storage.getAsync = vi.fn().mockRejectedValue(new Error('quota'));
+
+      const state = await queue.load();
+
+      expect(state.jobs).toEqual([]);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove all jobs and the persisted state', async () => {
+      await queue.enqueue([SET_1, SET_2]);
+
+      await queue.clear();
+
+      expect(queue.getState().jobs).toEqual([]);
+      expect(storage.data.has(CLIENT_STORAGE_KEYS.GENERATION_QUEUE)).toBe(false);
+    });
+  });
+});
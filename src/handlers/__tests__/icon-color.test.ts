@@ -0,0 +1,50 @@
+/**
+ * @module @figma/handlers/__tests__/icon-color
+ *
+ * Tests for repainting existing variants with the icon colour.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import { rebindIconColor } from '../icon-color';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const PAINT: SolidPaint = { type: 'SOLID', color: { r: 0.1, g: 0.1, b: 0.1 } };
+
+function variant(fillCount: number): any {
+  const layers = Array.from({ length: fillCount }, () => ({
+    type: 'VECTOR',
+    fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }],
+  }));
+  return {
+    type: 'COMPONENT',
+    name: 'Style=Rounded',
+    layers,
+    findAll: (match: (node: any) => boolean) => layers.filter(match),
+  };
+}
+
+describe('icon colour rebind', () => {
+  it('should repaint every variant and count what changed', () => {
+    const home = { name: 'home', children: [variant(1), variant(2), { type: 'FRAME' }] } as any;
+    const empty = { name: 'search', children: [variant(0)] } as any;
+
+    const result = rebindIconColor([home, empty], PAINT, 'sys/color/on-surface');
+
+    expect(result).toEqual({
+      componentSets: 2,
+      variants: 2,
+      layers: 3,
+      boundVariable: 'sys/color/on-surface',
+    });
+    expect(home.children[1].layers[1].fills).toEqual([{ ...PAINT, opacity: 1, visible: true }]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * @module @figma/handlers/__tests__/icon-repair
+ *
+ * Tests for the repair command: target selection, fixes applied and the change log.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { collectRepairTargets, repairComponentSet, repairComponentSets } from '../icon-repair';
+import {
+  addVariantToComponentSet,
+  cleanupExtraFramesInComponentSet,
+  cleanupVariantFillsInComponentSet,
+  reorderComponentSetVariants,
+} from '@lib/icons/incremental-updater';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { HttpSvgSource } from '@lib/github';
+import { getProfileVariantNames, type VariantProfile } from '@lib/icons/variant-profile';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/icons/incremental-updater', () => ({
+  addVariantToComponentSet: vi.fn(async (componentSet: any, _svg: string, key: any) => {
+    componentSet.children.push({
+      id: `new-${key.variant.fill}`,
+      name: `added fill ${key.variant.fill}`,
+    });
+  }),
+  cleanupExtraFramesInComponentSet: vi.fn(() => 0),
+  cleanupVariantFillsInComponentSet: vi.fn(() => 0),
+  reorderComponentSetVariants: vi.fn(),
+}));
+
+vi.mock('@lib/icons/variant-formatter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/icons/variant-formatter')>()),
+  ensureDefaultVariantFirst: vi.fn(),
+}));
+
+const PROFILE: VariantProfile = {
+  styles: ['rounded'],
+  weights: [400],
+  fills: [0, 1],
+  grades: [0],
+  opticalSizes: [24],
+};
+const [VARIANT_A] = getProfileVariantNames(PROFILE);
+
+function componentSet(id: string, name: string, variantNames: string[], parent?: any): any {
+  return {
+    id,
+    name,
+    type: 'COMPONENT_SET',
+    parent,
+    children: variantNames.map((variantName, index) => ({
+      id: `${id}-${index}`,
+      name: variantName,
+      type: 'COMPONENT',
+    })),
+    getPluginData: vi.fn((key: string) =>
+      key === PLUGIN_DATA_KEYS.VARIANT_PROFILE ? JSON.stringify(PROFILE) : ''
+    ),
+  };
+}
+
+describe('icon-repair', () => {
+  let page: any;
+  let home: any;
+  let star: any;
+  let deprecated: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    page = { type: 'PAGE', name: 'Set 12: hei-ios', parent: null, selection: [] };
+    home = componentSet('1:1', 'home', [VARIANT_A], page);
+    star = componentSet('1:2', 'star', [VARIANT_A], page);
+    deprecated = componentSet('1:3', 'deprecated_old', [VARIANT_A], page);
+    page.findAllWithCriteria = vi.fn(() => [home, star, deprecated]);
+
+    (global as any).figma = {
+      currentPage: page,
+      getNodeById: vi.fn((id: string) => [home, star, deprecated].find((n) => n.id === id) ?? null),
+    };
+  });
+
+  describe('collectRepairTargets', () => {
+    it('should resolve selected variants to their component set once', () => {
+      page.selection = [home.children[0], home, star];
+
+      expect(collectRepairTargets('selection')).toEqual([home, star]);
+    });
+
+    it('should take every non-deprecated set on the page', () => {
+      expect(collectRepairTargets('page')).toEqual([home, star]);
+    });
+
+    it('should take every non-deprecated set in the document', () => {
+      const otherPage: any = { type: 'PAGE', name: 'Set 13: id-lock', parent: null };
+      const lock = componentSet('2:1', 'lock', [VARIANT_A], otherPage);
+      otherPage.findAllWithCriteria = vi.fn(() => [lock]);
+      (global as any).figma.root = { children: [page, otherPage] };
+
+      expect(collectRepairTargets('document')).toEqual([home, star, lock]);
+    });
+
+    it('should resolve node IDs and skip missing nodes', () => {
+      expect(collectRepairTargets('nodes', ['1:2', 'gone', '1:3'])).toEqual([star]);
+    });
+  });
+
+  describe('repairComponentSet', () => {
+    it('should record cleanup counts and download only missing variants', async () => {
+      vi.mocked(cleanupExtraFramesInComponentSet).mockReturnValueOnce(2);
+      vi.mocked(cleanupVariantFillsInComponentSet).mockReturnValueOnce(1);
+      const fetchSvgs = vi.fn(async (items: any[]) => ({
+        results: items.map((item) => ({ ...item, svgContent: '<svg/>' })),
+      }));
+
+      const entry = await repairComponentSet(home, { fetchSvgs });
+
+      expect(fetchSvgs).toHaveBeenCalledTimes(1);
+      const items = fetchSvgs.mock.calls[0][0];
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ iconName: 'home', style: 'rounded' });
+      expect(items[0].variant.fill).toBe(1);
+      expect(addVariantToComponentSet).toHaveBeenCalledTimes(1);
+      expect(entry).toEqual({
+        name: 'home',
+        nodeId: '1:1',
+        changes: [
+          'Removed extra frame from 2 variant(s)',
+          'Removed leftover fills from 1 variant(s)',
+          'Added 1 missing variant(s)',
+        ],
+        errors: [],
+      });
+    });
+
+    it('should report variants that could not be downloaded', async () => {
+      const entry = await repairComponentSet(home, {
+        fetchSvgs: vi.fn(async () => ({ results: [] })),
+      });
+
+      expect(entry.errors).toEqual(['Could not download 1 missing variant(s)']);
+      expect(addVariantToComponentSet).not.toHaveBeenCalled();
+    });
+
+    it('should not download variants recorded as unavailable upstream', async () => {
+      const [, variantB] = getProfileVariantNames(PROFILE);
+      home.getPluginData = vi.fn((key: string) => {
+        if (key === PLUGIN_DATA_KEYS.UNAVAILABLE_VARIANTS) return JSON.stringify([variantB]);
+        return key === PLUGIN_DATA_KEYS.VARIANT_PROFILE ? JSON.stringify(PROFILE) : '';
+      });
+      const fetchSvgs = vi.fn(async () => ({ results: [] }));
+
+      const entry = await repairComponentSet(home, { fetchSvgs });
+
+      expect(fetchSvgs).not.toHaveBeenCalled();
+      expect(entry.errors).toEqual([]);
+    });
+
+    it('should skip gap filling for sets built at another commit', async () => {
+      home.getPluginData = vi.fn((key: string) =>
+        key === PLUGIN_DATA_KEYS.GIT_COMMIT_SHA ? 'aaaaaaa1111' : JSON.stringify(PROFILE)
+      );
+      const fetchSvgs = vi.fn(async () => ({ results: [] }));
+
+      const entry = await repairComponentSet(home, { commitSha: 'bbbbbbb2222', fetchSvgs });
+
+      expect(fetchSvgs).not.toHaveBeenCalled();
+      expect(entry.errors).toEqual([
+        'Skipped 1 missing variant(s): set is at aaaaaaa but downloads come from bbbbbbb - regenerate it instead',
+      ]);
+    });
+
+    it('should fill gaps for sets built at the download commit', async () => {
+      home.getPluginData = vi.fn((key: string) =>
+        key === PLUGIN_DATA_KEYS.GIT_COMMIT_SHA ? 'bbbbbbb2222' : JSON.stringify(PROFILE)
+      );
+      const fetchSvgs = vi.fn(async () => ({ results: [] }));
+
+      await repairComponentSet(home, { commitSha: 'bbbbbbb2222', fetchSvgs });
+
+      expect(fetchSvgs).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build download URLs from the configured SVG source', async () => {
+      const fetchSvgs = vi.fn(async () => ({ results: [] }));
+
+      await repairComponentSet(home, {
+        svgSource: new HttpSvgSource('http://localhost:8787'),
+        fetchSvgs,
+      });
+
+      expect((fetchSvgs.mock.calls[0] as any)[0][0].url).toMatch(
+        /^http:\/\/localhost:8787\/home\/materialsymbolsrounded\//
+      );
+    });
+
+    it('should note when the variant order changed', async () => {
+      vi.mocked(reorderComponentSetVariants).mockImplementationOnce((set: any) => {
+        set.children.reverse();
+      });
+      home.children.push({ id: 'x', name: 'other', type: 'COMPONENT' });
+
+      const entry = await repairComponentSet(home, { fillMissing: false });
+
+      expect(entry.changes).toEqual(['Reordered variants (default first)']);
+    });
+  });
+
+  describe('repairComponentSets', () => {
+    it('should repair every set and stop when cancelled', async () => {
+      let cancelled = false;
+      const onProgress = vi.fn(() => {
+        cancelled = true;
+      });
+
+      const log = await repairComponentSets([home, star], {
+        fillMissing: false,
+        onProgress,
+        isCancelled: () => cancelled,
+      });
+
+      expect(onProgress).toHaveBeenCalledWith('home', 1, 2);
+      expect(log.map((entry) => entry.name)).toEqual(['home']);
+    });
+  });
+});
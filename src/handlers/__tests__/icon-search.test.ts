@@ -0,0 +1,113 @@
+/**
+ * @module @figma/handlers/__tests__/icon-search
+ *
+ * Tests for the icon browse panel: file lookup of search hits and jump-to-component.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { searchIconsInFile, jumpToComponentSet } from '../icon-search';
+import { pageManager } from '@lib/pages/manager';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/pages/manager', () => ({
+  pageManager: {
+    switchToPage: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/icons/icon-lookup', () => ({
+  searchIcons: vi.fn(() => ['shopping_cart', 'shopping_bag']),
+  getIconCategory: vi.fn((name: string) => (name === 'shopping_cart' ? 'Set 21: sea-sho' : null)),
+}));
+
+/**
+ * Minimal ComponentSet with variants and a stored commit SHA
+ */
+function componentSet(id: string, name: string, variants: number, sha: string, parent?: any): any {
+  return {
+    id,
+    name,
+    type: 'COMPONENT_SET',
+    parent,
+    children: new Array(variants).fill({ type: 'COMPONENT' }),
+    getPluginData: vi.fn((key: string) => (key === PLUGIN_DATA_KEYS.GIT_COMMIT_SHA ? sha : '')),
+  };
+}
+
+describe('icon-search', () => {
+  let page: any;
+  let cart: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    page = { type: 'PAGE', name: 'Set 21: sea-sho', selection: [] };
+    const frame = { type: 'FRAME', parent: page };
+    cart = componentSet('1:2', 'shopping_cart', 504, 'abc1234def', frame);
+    page.findAllWithCriteria = vi.fn(() => [cart]);
+
+    const scratch = {
+      type: 'PAGE',
+      name: 'Scratch',
+      findAllWithCriteria: vi.fn(() => [componentSet('9:9', 'shopping_cart', 6, 'old')]),
+    };
+
+    (global as any).figma = {
+      root: { children: [page, scratch] },
+      getNodeById: vi.fn((id: string) => (id === cart.id ? cart : null)),
+      viewport: { scrollAndZoomIntoView: vi.fn() },
+    };
+  });
+
+  describe('searchIconsInFile', () => {
+    it('should report set, presence, variant count and SHA for each hit', () => {
+      const hits = searchIconsInFile('shopping');
+
+      expect(hits).toEqual([
+        {
+          name: 'shopping_cart',
+          category: 'Set 21: sea-sho',
+          componentSet: {
+            id: '1:2',
+            pageName: 'Set 21: sea-sho',
+            variantCount: 504,
+            commitSha: 'abc1234def',
+          },
+        },
+        { name: 'shopping_bag', category: null, componentSet: null },
+      ]);
+    });
+
+    it('should only index component sets', () => {
+      searchIconsInFile('shopping');
+
+      expect(page.findAllWithCriteria).toHaveBeenCalledWith({ types: ['COMPONENT_SET'] });
+    });
+  });
+
+  describe('jumpToComponentSet', () => {
+    it('should switch page, select and zoom to the component set', async () => {
+      const found = await jumpToComponentSet('1:2');
+
+      expect(found).toBe(true);
+      expect(pageManager.switchToPage).toHaveBeenCalledWith(page);
+      expect(page.selection).toEqual([cart]);
+      expect((global as any).figma.viewport.scrollAndZoomIntoView).toHaveBeenCalledWith([cart]);
+    });
+
+    it('should return false when the node no longer exists', async () => {
+      expect(await jumpToComponentSet('missing')).toBe(false);
+      expect(pageManager.switchToPage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @module @figma/handlers/__tests__/plan
+ *
+ * Tests for dry-run generation planning.
+ * Tests icon classification, deprecation reporting and download estimates.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import { buildGenerationPlan, type GenerationPlanInput } from '../category-generation/plan';
+import { checkIconNeedsUpdate } from '@lib/icons/metadata-helpers';
+import { handleDeprecatedIcons } from '@lib/icons/deprecation-handler';
+import { FULL_VARIANT_PROFILE } from '@lib/icons/variant-profile';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/icons/metadata-helpers', () => ({
+  checkIconNeedsUpdate: vi.fn(),
+}));
+
+vi.mock('@lib/icons/deprecation-handler', () => ({
+  handleDeprecatedIcons: vi.fn(),
+}));
+
+/**
+ * Minimal ComponentSet stand-in with a stored commit SHA
+ */
+function componentSet(name: string, sha: string | null): any {
+  return { name, getPluginData: vi.fn(() => sha ?? '') };
+}
+
+describe('buildGenerationPlan', () => {
+  let page: any;
+  let input: GenerationPlanInput;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    page = { name: 'Set 01: test', children: [] };
+    (global as any).figma = { root: { children: [page] } };
+
+    input = {
+      category: 'Set 01: test',
+      icons: ['home', 'search', 'star', 'menu', 'close'],
+      commitSha: 'new456',
+      iconChangesData: { changedIcons: ['menu'] },
+      iconChangesCumulative: null,
+      variantProfile: FULL_VARIANT_PROFILE,
+    };
+
+    (handleDeprecatedIcons as Mock).mockResolvedValue({
+      existingComponents: [],
+      matchingComponents: [],
+      deprecatedComponents: [componentSet('old_icon', 'old123')],
+      renamedCount: 0,
+    });
+
+    (checkIconNeedsUpdate as Mock).mockImplementation((_page, iconName: string) => {
+      switch (iconName) {
+        case 'home':
+          return { needsUpdate: true, existingComponentSet: null, existingVariantCount: 0 };
+        case 'search':
+          return {
+            needsUpdate: true,
+            fillGapsOnly: true,
+            existingComponentSet: componentSet('search', 'new456'),
+            existingVariantCount: 300,
+          };
+        case 'star':
+          return {
+            needsUpdate: false,
+            existingComponentSet: componentSet('star', 'new456'),
+            existingVariantCount: 504,
+          };
+        case 'menu':
+          return {
+            needsUpdate: true,
+            reason: 'Commit SHA mismatch',
+            existingComponentSet: componentSet('menu', 'old123'),
+            existingVariantCount: 504,
+          };
+        default:
+          return {
+            needsUpdate: true,
+            reason: 'Commit SHA mismatch',
+            existingComponentSet: componentSet(iconName, 'old123'),
+            existingVariantCount: 504,
+          };
+      }
+    });
+  });
+
+  it('should classify each icon like a real run would', async () => {
+    const plan = await buildGenerationPlan(input);
+
+    expect(plan.create).toEqual(['home']);
+    expect(plan.fillGaps).toEqual([{ iconName: 'search', existingVariants: 300 }]);
+    expect(plan.upToDate).toEqual(['star']);
+    expect(plan.update).toEqual([{ iconName: 'menu', reason: 'Commit SHA mismatch' }]);
+    expect(plan.fastForward).toEqual(['close']);
+  });
+
+  it('should report deprecations without renaming', async () => {
+    const plan = await buildGenerationPlan(input);
+
+    expect(handleDeprecatedIcons).toHaveBeenCalledWith(page, input.icons, { dryRun: true });
+    expect(plan.deprecate).toEqual(['old_icon']);
+  });
+
+  it('should estimate downloads for icons that fetch variants', async () => {
+    const plan = await buildGenerationPlan(input);
+
+    // home (create) + search (fill gaps) + menu (update)
+    expect(plan.estimatedDownloads).toBe(3 * 504);
+  });
+
+  it('should plan every icon as new when the page does not exist', async () => {
+    (global as any).figma.root.children = [];
+
+    const plan = await buildGenerationPlan(input);
+
+    expect(plan.pageExists).toBe(false);
+    expect(plan.create).toEqual(input.icons);
+    expect(checkIconNeedsUpdate).not.toHaveBeenCalled();
+    expect(handleDeprecatedIcons).not.toHaveBeenCalled();
+  });
+
+  it('should report a page that would be renamed', async () => {
+    page.name = 'Cat 01: test';
+
+    const plan = await buildGenerationPlan(input);
+
+    expect(plan.pageExists).toBe(true);
+    expect(plan.renamePageFrom).toBe('Cat 01: test');
+  });
+
+  it('should not report a rename the run would not make', async () => {
+    page.name = 'Set 01: other';
+    page.getPluginData = vi.fn(() => 'old123');
+
+    const plan = await buildGenerationPlan(input);
+
+    expect(plan.pageExists).toBe(false);
+    expect(plan.renamePageFrom).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @module @figma/handlers/__tests__/rate-limiter
+ *
+ * Unit tests for RateLimiter retry selection: only retryable failures are retried.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimiter } from '../category-generation/rate-limiter';
+import type { FetchFailure, FetchItem, FetchResult } from '@lib/icons';
+
+vi.mock('@lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/utils')>()),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const CONTEXT = { iconName: 'home', completedIcons: 0, currentIconProgress: 50 };
+
+function item(name: string): FetchItem {
+  return {
+    url: `https://example.test/${name}.svg`,
+    iconName: 'home',
+    style: 'rounded',
+    variant: { weight: 400, fill: 0, grade: 0, opticalSize: 24 },
+  };
+}
+
+function outcome(results: FetchItem[], failures: FetchFailure[]) {
+  const total = results.length + failures.length;
+  return {
+    results: results.map((i): FetchResult => ({ ...i, svgContent: '<svg></svg>' })),
+    failures,
+    stats: {
+      total,
+      successful: results.length,
+      failed: failures.length,
+      duration: 0,
+      successRate: Math.round((results.length / total) * 100),
+    },
+  };
+}
+
+describe('RateLimiter', () => {
+  it('should not wait or retry when every failure is permanent', async () => {
+    const limiter = new RateLimiter();
+    const missing: FetchFailure = {
+      item: item('b'),
+      reason: 'not-found',
+      status: 404,
+      message: '',
+    };
+    const fetchFunction = vi.fn(async () => outcome([item('a')], [missing]));
+
+    const result = await limiter.executeWithRetry([item('a'), item('b')], fetchFunction, CONTEXT);
+
+    expect(fetchFunction).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ retriesUsed: 0, failures: [missing] });
+  });
+
+  it('should retry only retryable failures and keep permanent ones', async () => {
+    vi.useFakeTimers();
+    try {
+      const limiter = new RateLimiter({ maxRetries: 1 });
+      const missing: FetchFailure = { item: item('b'), reason: 'not-found', message: '' };
+      const limited: FetchFailure = { item: item('c'), reason: 'rate-limited', message: '' };
+      const fetchFunction = vi
+        .fn()
+        .mockResolvedValueOnce(outcome([item('a')], [missing, limited]))
+        .mockResolvedValueOnce(outcome([item('c')], []));
+
+      const pending = limiter.executeWithRetry(
+        [item('a'), item('b'), item('c')],
+        fetchFunction,
+        CONTEXT
+      );
+      await vi.runAllTimersAsync();
+      const result = await pending;
+
+      expect(fetchFunction).toHaveBeenLastCalledWith([item('c')]);
+      expect(result.results).toHaveLength(2);
+      expect(result.failures).toEqual([missing]);
+      expect(result.stats).toMatchObject({ successful: 2, failed: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @module @figma/handlers/__tests__/set-layout-conversion
+ *
+ * Tests for splitting combined ComponentSets into one set per style.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { splitComponentSet, splitComponentSets } from '../set-layout-conversion';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const ROUNDED = 'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp';
+const ROUNDED_FILLED = 'Style=Rounded, Weight=400, Fill=On, Grade=Normal, Optical size=24dp';
+const SHARP = 'Style=Sharp, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp';
+const OUTLINED = 'Style=Outlined, Weight=700, Fill=Off, Grade=Normal, Optical size=24dp';
+
+// Node whose children can be moved between containers
+function container(type: string, name: string, children: any[] = []): any {
+  const data: Record<string, string> = {};
+  const node: any = {
+    id: `id-${name}`,
+    type,
+    name,
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    children: [],
+    getPluginData: (key: string) => data[key] || '',
+    setPluginData: vi.fn((key: string, value: string) => {
+      data[key] = value;
+    }),
+    resize: vi.fn(),
+    insertChild: (index: number, child: any) => {
+      node.children = node.children.filter((c: any) => c !== child);
+      node.children.splice(index, 0, child);
+    },
+    appendChild: (child: any) => {
+      if (child.parent) {
+        child.parent.children = child.parent.children.filter((c: any) => c !== child);
+      }
+      child.parent = node;
+      node.children.push(child);
+    },
+  };
+  for (const child of children) {
+    node.appendChild(child);
+  }
+  return node;
+}
+
+function component(name: string): any {
+  return { type: 'COMPONENT', name, parent: null };
+}
+
+describe('set layout conversion', () => {
+  let page: any;
+
+  beforeEach(() => {
+    page = container('PAGE', 'Page');
+    let setCount = 0;
+    vi.stubGlobal('figma', {
+      combineAsVariants: vi.fn((components: any[], parent: any, index: number) => {
+        const set = container('COMPONENT_SET', `Component ${++setCount}`, components);
+        parent.insertChild(index, set);
+        set.parent = parent;
+        return set;
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should move each style into its own set', () => {
+    const set = container('COMPONENT_SET', 'home', [
+      component(ROUNDED),
+      component(SHARP),
+      component(ROUNDED_FILLED),
+      component(OUTLINED),
+    ]);
+    set.setPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA, 'abc123');
+    page.appendChild(set);
+    const sharp = set.children[1];
+
+    const entry = splitComponentSet(set);
+
+    expect(entry).toEqual({
+      name: 'home',
+      nodeId: 'id-home',
+      sets: ['home / Rounded', 'home / Sharp', 'home / Outlined'],
+      unparsed: [],
+    });
+    expect(page.children.map((node: any) => node.name)).toEqual(entry.sets);
+    expect(set.children.map((node: any) => node.name)).toEqual([ROUNDED, ROUNDED_FILLED]);
+
+    const sharpSet = page.children[1];
+    expect(sharpSet.children).toEqual([sharp]);
+    expect(sharpSet.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA)).toBe('abc123');
+    expect(sharpSet.x).toBe(124);
+    expect(JSON.parse(sharpSet.getPluginData(PLUGIN_DATA_KEYS.VARIANT_PROFILE)).styles).toEqual([
+      'sharp',
+    ]);
+    expect(JSON.parse(set.getPluginData(PLUGIN_DATA_KEYS.VARIANT_PROFILE)).styles).toEqual([
+      'rounded',
+    ]);
+  });
+
+  it('should keep unreadable variants in the original set', () => {
+    const set = container('COMPONENT_SET', 'home', [
+      component('Property 1=Default'),
+      component(SHARP),
+    ]);
+    page.appendChild(set);
+
+    const entry = splitComponentSet(set);
+
+    expect(entry).toMatchObject({ sets: ['home / Sharp'], unparsed: ['Property 1=Default'] });
+    expect(set.children).toHaveLength(2);
+    expect(figma.combineAsVariants).not.toHaveBeenCalled();
+  });
+
+  it('should report sets that cannot be split', () => {
+    const orphan = container('COMPONENT_SET', 'orphan', [component(ROUNDED)]);
+    const unreadable = container('COMPONENT_SET', 'unreadable', [component('Size=Large')]);
+    page.appendChild(unreadable);
+
+    expect(splitComponentSet(orphan).error).toBe('Component set is not in the document');
+    expect(splitComponentSet(unreadable).error).toMatch(/No variant name could be read/);
+  });
+
+  it('should leave sets that are already split out of the log', () => {
+    const combined = container('COMPONENT_SET', 'home', [component(ROUNDED)]);
+    const split = container('COMPONENT_SET', 'search / Sharp', [component(SHARP)]);
+    page.appendChild(combined);
+    page.appendChild(split);
+
+    const log = splitComponentSets([combined, split]);
+
+    expect(log.map((entry) => entry.sets)).toEqual([['home / Rounded']]);
+    expect(split.name).toBe('search / Sharp');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @module @figma/handlers/__tests__/variant-interpolation
+ *
+ * Tests for the interpolate command: neighbour downloads, variant metadata and the log.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { interpolateComponentSet, interpolateComponentSets } from '../variant-interpolation';
+import { addVariantToComponentSet } from '@lib/icons/incremental-updater';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { HttpSvgSource } from '@lib/github';
+import { getVariantName } from '@lib/icons/variant-formatter';
+import type { FetchItem } from '@lib/icons/batch-fetcher';
+import type { VariantProfile } from '@lib/icons/variant-profile';
+
+vi.mock('@lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/utils')>()),
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('@lib/icons/incremental-updater', () => ({
+  addVariantToComponentSet: vi.fn(async (componentSet: any, _svg: string, key: any) => {
+    const name = getVariantName({ iconName: componentSet.name, ...key, svgContent: '' });
+    const existing = componentSet.children.find((child: any) => child.name === name);
+    if (existing) return existing;
+    const component = variantNode(name);
+    componentSet.children.push(component);
+    return component;
+  }),
+  reorderComponentSetVariants: vi.fn(),
+}));
+
+vi.mock('@lib/icons/variant-formatter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/icons/variant-formatter')>()),
+  ensureDefaultVariantFirst: vi.fn(),
+}));
+
+const PROFILE: VariantProfile = {
+  styles: ['rounded'],
+  weights: [400],
+  fills: [0],
+  grades: [0],
+  opticalSizes: [24],
+};
+
+const svg = (d: string) => `<svg viewBox="0 0 24 24" width="24"><path d="${d}"/></svg>`;
+
+function variantNode(name: string): any {
+  const data: Record<string, string> = {};
+  return {
+    type: 'COMPONENT',
+    name,
+    getPluginData: (key: string) => data[key] ?? '',
+    setPluginData: (key: string, value: string) => {
+      data[key] = value;
+    },
+  };
+}
+
+function componentSet(name: string): any {
+  return {
+    id: `id-${name}`,
+    name,
+    type: 'COMPONENT_SET',
+    children: [],
+    getPluginData: (key: string) =>
+      key === PLUGIN_DATA_KEYS.VARIANT_PROFILE ? JSON.stringify(PROFILE) : '',
+  };
+}
+
+/** Fetcher serving `M{weight} 0` outlines (or a different structure for `broken`) */
+function fetcher(broken = false) {
+  return vi.fn(async (items: FetchItem[]) => ({
+    results: items.map((item) => ({
+      ...item,
+      svgContent: svg(
+        broken && item.variant.weight === 400 ? 'M0 0h1' : `M${item.variant.weight} 0`
+      ),
+    })),
+  }));
+}
+
+describe('variant interpolation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should download each neighbour once and add tagged variants', async () => {
+    const set = componentSet('home');
+    const fetchSvgs = fetcher();
+
+    const entry = await interpolateComponentSet(set, {
+      axes: { weights: [350, 450], grades: [] },
+      svgSource: new HttpSvgSource('http://mirror'),
+      fetchSvgs,
+    });
+
+    expect(fetchSvgs).toHaveBeenCalledTimes(1);
+    expect(fetchSvgs.mock.calls[0][0].map((item) => item.variant.weight)).toEqual([300, 400, 500]);
+    expect(fetchSvgs.mock.calls[0][0][0].url).toContain('http://mirror/');
+    expect(entry).toEqual({
+      name: 'home',
+      nodeId: 'id-home',
+      added: 2,
+      updated: 0,
+      unchanged: 0,
+      failed: [],
+    });
+
+    const added = set.children.find((child: any) => child.name.includes('Weight=350'));
+    expect(addVariantToComponentSet).toHaveBeenCalledWith(set, svg('M350 0'), expect.anything());
+    expect(JSON.parse(added.getPluginData(PLUGIN_DATA_KEYS.INTERPOLATED_FROM))).toEqual({
+      weights: [300, 400],
+      grades: [0, 0],
+      weightT: 0.5,
+      gradeT: 0,
+    });
+    expect(added.getPluginData(PLUGIN_DATA_KEYS.SVG_HASH)).not.toBe('');
+  });
+
+  it('should leave unchanged outlines alone on a second run', async () => {
+    const set = componentSet('home');
+    const options = { axes: { weights: [350], grades: [] }, fetchSvgs: fetcher() };
+
+    await interpolateComponentSet(set, options);
+    const entry = await interpolateComponentSet(set, options);
+
+    expect(entry).toMatchObject({ added: 0, updated: 0, unchanged: 1 });
+    expect(addVariantToComponentSet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report variants whose neighbours do not line up', async () => {
+    const entry = await interpolateComponentSet(componentSet('home'), {
+      axes: { weights: [350], grades: [] },
+      fetchSvgs: fetcher(true),
+    });
+
+    expect(entry.added).toBe(0);
+    expect(entry.failed).toEqual([
+      'Style=Rounded, Weight=350, Fill=Off, Grade=Normal, Optical size=24dp: weights 300 and 400 are not compatible (path 1: 1 vs 2 commands)',
+    ]);
+  });
+
+  it('should report neighbours that could not be downloaded', async () => {
+    const entry = await interpolateComponentSet(componentSet('home'), {
+      axes: { weights: [], grades: [100] },
+      fetchSvgs: vi.fn(async () => ({ results: [], failures: [] })),
+    });
+
+    expect(entry.failed).toEqual([
+      'Style=Rounded, Weight=400, Fill=Off, Grade=100, Optical size=24dp: neighbour weight 400, grade 0 is not available',
+    ]);
+  });
+
+  it('should log every set and stop when cancelled', async () => {
+    const onProgress = vi.fn();
+    let cancelled = false;
+
+    const log = await interpolateComponentSets([componentSet('a'), componentSet('b')], {
+      axes: { weights: [350], grades: [] },
+      fetchSvgs: fetcher(),
+      onProgress: (...args) => {
+        onProgress(...args);
+        cancelled = true;
+      },
+      isCancelled: () => cancelled,
+    });
+
+    expect(log.map((entry) => entry.name)).toEqual(['a']);
+    expect(onProgress).toHaveBeenCalledWith('a', 1, 2);
+  });
+});
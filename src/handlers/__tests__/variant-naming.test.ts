@@ -0,0 +1,85 @@
+/**
+ * @module @figma/handlers/__tests__/variant-naming
+ *
+ * Tests for renaming existing variants from one naming schema to another.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renameComponentSetVariants, renameVariantsInComponentSets } from '../variant-naming';
+import { VARIANT_SCHEMA_PRESETS } from '@lib/icons/variant-schema';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const { material, library } = VARIANT_SCHEMA_PRESETS;
+
+function componentSet(name: string, variantNames: string[]): any {
+  return {
+    id: `id-${name}`,
+    name,
+    type: 'COMPONENT_SET',
+    children: variantNames.map((variantName, index) => ({
+      id: `${name}-${index}`,
+      type: 'COMPONENT',
+      name: variantName,
+    })),
+  };
+}
+
+describe('variant naming', () => {
+  it('should rename variants in place', () => {
+    const set = componentSet('home', [
+      'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp',
+      'Style=Sharp, Weight=700, Fill=On, Grade=Emphasis, Optical size=48dp',
+    ]);
+    const [first, second] = set.children;
+
+    const entry = renameComponentSetVariants(set, { from: material, to: library });
+
+    expect(entry).toEqual({
+      name: 'home',
+      nodeId: 'id-home',
+      renamed: 2,
+      unchanged: 0,
+      unparsed: [],
+    });
+    expect(set.children[0]).toBe(first);
+    expect(first.name).toBe('style=rounded, weight=400, filled=false, grade=0, size=24');
+    expect(second.name).toBe('style=sharp, weight=700, filled=true, grade=200, size=48');
+  });
+
+  it('should count renamed variants as unchanged and report unknown names', () => {
+    const set = componentSet('home', [
+      'style=rounded, weight=400, filled=false, grade=0, size=24',
+      'Style=Rounded, Weight=400, Fill=On, Grade=Normal, Optical size=24dp',
+      'Property 1=Default',
+    ]);
+
+    const entry = renameComponentSetVariants(set, { from: material, to: library });
+
+    expect(entry).toMatchObject({ renamed: 1, unchanged: 1, unparsed: ['Property 1=Default'] });
+    expect(set.children[2].name).toBe('Property 1=Default');
+  });
+
+  it('should log every set', () => {
+    const log = renameVariantsInComponentSets(
+      [
+        componentSet('a', ['Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp']),
+        componentSet('b', []),
+      ],
+      { from: material, to: library }
+    );
+
+    expect(log.map((entry) => [entry.name, entry.renamed])).toEqual([
+      ['a', 1],
+      ['b', 0],
+    ]);
+  });
+});
@@ -75,16 +75,35 @@
 import { logger } from '@lib/utils';
 import { pageManager } from '@lib/pages/manager';
 import { IconGenerator } from '@lib/icons/generator';
-import { type IconVariant, type IconStyle } from '@lib/github';
-import { PLUGIN_MESSAGES } from '@/types';
+import {
+  FULL_VARIANT_PROFILE,
+  describeVariantProfile,
+  getProfileVariantCount,
+  normalizeVariantProfile,
+  type VariantProfile,
+} from '@lib/icons/variant-profile';
+import { PLUGIN_MESSAGES, type GenerationPlan } from '@/types';
 import { PLUGIN_DATA_KEYS } from '@lib/constants';
 import { getIconRange } from '@lib/icons/all-icons';
+import type { SvgSource } from '@lib/github';
+import type { SvgCache } from '@lib/icons/svg-cache';
+import type { ComponentSetLayout } from '@lib/icons/set-layout';
 import { handleDeprecatedIcons, getDeprecationSummary } from '@lib/icons/deprecation-handler';
 import { organizePageIntoFrame } from './page-organization';
-import { getFinalSetName } from './cumulative-changes';
 import { RateLimiter } from './category-generation/rate-limiter';
 import { ProgressTracker } from './category-generation/progress-tracker';
 import { IconProcessor } from './category-generation/icon-processor';
+import { buildGenerationPlan } from './category-generation/plan';
+import { findPageToRename } from './category-generation/page-rename';
+import {
+  createCheckpoint,
+  getCheckpointScope,
+  getResumeIndex,
+  readCheckpoint,
+  recordIconResult,
+  resumeFromCheckpoint,
+  writeCheckpoint,
+} from './category-generation/checkpoint';
 
 /**
  * Configuration for category generation
@@ -97,6 +116,12 @@ import { IconProcessor } from './category-generation/icon-processor';
  * @property {object | null} iconChangesCumulative - Multi-commit change tracking data
  *   Supports version skipping (e.g., A→C when B was skipped)
  * @property {Function} isCancelled - Function to check if user cancelled generation
+ * @property {VariantProfile} [variantProfile] - Subset of variants to generate; completeness
+ *   and skip checks are measured against it (defaults to all 504)
+ * @property {SvgSource} [svgSource] - Where variant SVGs are downloaded from (defaults to GitHub raw)
+ * @property {SvgCache} [svgCache] - Persistent SVG cache (GitHub downloads only)
+ * @property {ComponentSetLayout} [setLayout] - One ComponentSet per icon ('combined', the
+ *   default) or one per style ('per-style'); combined sets are split as they are processed
  *
  * @example Simple configuration
  * ```typescript
@@ -154,6 +179,35 @@ export interface CategoryGenerationConfig {
   } | null;
   /** Cancellation check function */
   isCancelled: () => boolean;
+  /** Variants to generate per icon (defaults to the full 504-variant profile) */
+  variantProfile?: VariantProfile;
+  /** Source of variant SVGs (defaults to raw.githubusercontent.com) */
+  svgSource?: SvgSource;
+  /** Persistent cache of downloaded SVGs */
+  svgCache?: SvgCache;
+  /** One ComponentSet per icon or per style (defaults to 'combined') */
+  setLayout?: ComponentSetLayout;
+}
+
+/**
+ * Outcome of a category generation run
+ *
+ * Returned so callers that chain several runs (e.g. the generation queue) can
+ * tell a finished set from a cancelled or failed one.
+ *
+ * @interface CategoryGenerationResult
+ * @property {string} status - 'completed', 'cancelled' or 'failed'
+ * @property {number} completedIcons - Icons processed successfully (created, updated or skipped)
+ * @property {number} totalIcons - Icons in the category range (0 if the range failed to load)
+ * @property {string} [error] - Error message when status is 'failed'
+ * @property {GenerationPlan} [plan] - Dry-run plan when `planOnly` was requested
+ */
+export interface CategoryGenerationResult {
+  status: 'completed' | 'cancelled' | 'failed';
+  completedIcons: number;
+  totalIcons: number;
+  error?: string;
+  plan?: GenerationPlan;
 }
 
 /**
@@ -173,6 +227,16 @@ export interface CategoryGenerationConfig {
  *    - Apply M3 variable bindings
  * 5. **Organize**: Move components into styled frame with auto-layout
  *
+ * **Plan Mode**:
+ * - With `msg.planOnly`, icons are classified (create / fill gaps / fast-forward /
+ *   update / deprecate) and a `GENERATION_PLAN` message is posted instead
+ *
+ * **Checkpoints**:
+ * - Progress is checkpointed on the page after every icon (see `checkpoint.ts`)
+ * - With `msg.resume`, a matching in-progress checkpoint (same commit, icon list and
+ *   variant profile) skips straight to the icon after the last one completed
+ * - Runs restricted to `msg.icons` neither read nor write the page checkpoint
+ *
  * **Smart Skip Logic**:
  * - If icon has 504 variants and matching commit SHA → skip entirely
  * - If icon changed between commits → update
@@ -196,8 +260,11 @@ export interface CategoryGenerationConfig {
  * @param {string} msg.categoryData.firstIcon - First icon in range (inclusive)
  * @param {string} msg.categoryData.lastIconExclusive - Last icon in range (exclusive)
  * @param {number} [msg.testIconCount] - Optional: limit to N icons for testing
+ * @param {string[]} [msg.icons] - Optional: only generate these icons from the range
+ * @param {boolean} [msg.resume] - Optional: continue from the page's checkpoint if it matches
+ * @param {boolean} [msg.planOnly] - Optional: only build and post a dry-run plan (no document changes, no downloads)
  * @param {CategoryGenerationConfig} config - Generation configuration
- * @returns {Promise<void>} Resolves when generation completes or user cancels
+ * @returns {Promise<CategoryGenerationResult>} Resolves when generation completes, fails or user cancels
  * @throws {Error} If category range is invalid or initial setup fails
  *
  * @example Generate full category
@@ -239,11 +306,14 @@ export async function handleCategoryGeneration(
     category: string;
     categoryData: { firstIcon: string; lastIconExclusive: string };
     testIconCount?: number;
+    icons?: string[];
+    resume?: boolean;
+    planOnly?: boolean;
   },
   config: CategoryGenerationConfig
-): Promise<void> {
+): Promise<CategoryGenerationResult> {
   try {
-    const { category, categoryData, testIconCount } = msg;
+    const { category, categoryData, testIconCount, icons, resume, planOnly } = msg;
     const { commitSha, iconChangesData, iconChangesCumulative, isCancelled } = config;
 
     logger.info(`Starting category generation: ${category}`);
@@ -265,7 +335,22 @@ export async function handleCategoryGeneration(
         type: PLUGIN_MESSAGES.ERROR,
         message: `Failed to load icon list: ${error}`,
       });
-      return;
+      return {
+        status: 'failed',
+        completedIcons: 0,
+        totalIcons: 0,
+        error: `Failed to load icon list: ${error}`,
+      };
+    }
+
+    // Icons in the full range still belong on the page (deprecation scan must not remove them)
+    const rangeIcons = iconsInCategory;
+
+    // Restrict to specific icons (GenerationConfig.specificIcons), keeping range order
+    if (icons) {
+      const requested = new Set(icons);
+      iconsInCategory = iconsInCategory.filter((iconName) => requested.has(iconName));
+      logger.info(`Restricted to ${iconsInCategory.length} requested icon(s) in range`);
     }
 
     // Limit icons if in test mode
@@ -274,6 +359,35 @@ export async function handleCategoryGeneration(
       logger.info(`Test mode: generating ${testIconCount} icon(s): ${iconsInCategory.join(', ')}`);
     }
 
+    // Variant profile (defaults to all 504: 3 styles × 7 weights × 2 fills × 3 grades × 4 sizes)
+    const variantProfile = normalizeVariantProfile(config.variantProfile ?? FULL_VARIANT_PROFILE);
+    const totalVariantsPerIcon = getProfileVariantCount(variantProfile);
+    logger.info(
+      `Will generate ${totalVariantsPerIcon} variants per icon: ${describeVariantProfile(variantProfile)}`
+    );
+
+    // Plan-only mode: classify icons and report, without touching the document
+    if (planOnly) {
+      const plan = await buildGenerationPlan({
+        category,
+        icons: iconsInCategory,
+        pageIcons: icons ? rangeIcons : undefined,
+        commitSha,
+        iconChangesData,
+        iconChangesCumulative,
+        variantProfile,
+        setLayout: config.setLayout,
+      });
+
+      figma.ui.postMessage({
+        type: PLUGIN_MESSAGES.GENERATION_PLAN,
+        message: `Plan ready for ${category}`,
+        plan,
+      });
+
+      return { status: 'completed', completedIcons: 0, totalIcons: iconsInCategory.length, plan };
+    }
+
     // Create progress tracker for UI updates
     const tracker = new ProgressTracker({
       totalIcons: iconsInCategory.length,
@@ -282,92 +396,37 @@ export async function handleCategoryGeneration(
 
     tracker.init();
 
-    // Define all 504 variants (3 styles × 7 weights × 2 fills × 3 grades × 4 optical sizes)
-    const styles: IconStyle[] = ['rounded', 'outlined', 'sharp'];
-    const weights: IconVariant['weight'][] = [100, 200, 300, 400, 500, 600, 700];
-    const fills: (0 | 1)[] = [0, 1];
-    const grades: IconVariant['grade'][] = [-25, 0, 200];
-    const opticalSizes: IconVariant['opticalSize'][] = [20, 24, 40, 48];
-
-    const totalVariantsPerIcon =
-      styles.length * weights.length * fills.length * grades.length * opticalSizes.length;
-    logger.info(`Will generate ${totalVariantsPerIcon} variants per icon`);
-
     // Create or get the page for this category
     let pageName = category;
 
     // Handle set renames across commits AND Cat→Set transition
-    const setNumberMatch = category.match(/^Set (\d+):/);
-    if (setNumberMatch) {
-      const setNumber = parseInt(setNumberMatch[1]);
-
-      // Check if any existing pages match this set number with a different name
-      // This includes both "Set 26: xxx-yyy" → "Set 26: xxx-zzz" AND "Cat 26: xxx-yyy" → "Set 26: xxx-yyy"
-      for (const existingPage of figma.root.children) {
-        // Match both "Set NN:" and "Cat NN:" patterns
-        const existingMatch = existingPage.name.match(/^(?:Set|Cat) (\d+):/);
-        if (
-          existingMatch &&
-          parseInt(existingMatch[1]) === setNumber &&
-          existingPage.name !== category
-        ) {
-          // Found old page with same number but different name (could be Cat→Set or boundary shift)
-
-          let shouldRename = false;
-          let renameReason = '';
-
-          // Check if this is a Cat→Set transition
-          if (existingPage.name.startsWith('Cat ') && category.startsWith('Set ')) {
-            shouldRename = true;
-            renameReason = 'Cat→Set naming transition';
-            logger.info(`Found Cat→Set transition: "${existingPage.name}" → "${category}"`);
-          } else if (iconChangesCumulative && iconChangesCumulative.setRenames) {
-            // Check if it's a boundary shift rename
-            const oldPageCommit = existingPage.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA);
-            if (oldPageCommit && oldPageCommit !== commitSha) {
-              const finalName = getFinalSetName(
-                setNumber,
-                existingPage.name,
-                oldPageCommit,
-                commitSha,
-                iconChangesCumulative
-              );
-              if (finalName === category) {
-                shouldRename = true;
-                renameReason = 'icon boundaries shifted';
-                logger.info(`Found boundary shift: "${existingPage.name}" → "${category}"`);
-              }
-            }
-          }
-
-          if (shouldRename) {
-            // Rename the page
-            logger.info(`Renaming page: "${existingPage.name}" → "${category}" (${renameReason})`);
-            existingPage.name = category;
-
-            // Find and rename the frame inside the page
-            for (const child of existingPage.children) {
-              if (child.type === 'FRAME') {
-                // Frame name might be old page name or old category name - rename it
-                if (child.name.match(/^(?:Set|Cat) \d+:/)) {
-                  child.name = category;
-                  logger.info(`Renamed frame to: "${category}"`);
-                }
-              }
-            }
-
-            // Update page's commit SHA
-            existingPage.setPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA, commitSha);
-
-            tracker.update({
-              message: `✓ Renamed "${existingPage.name}" to "${category}" (${renameReason})`,
-              currentIcon: '',
-            });
-
-            break;
+    const rename = findPageToRename(category, commitSha, iconChangesCumulative);
+    if (rename) {
+      const { page: existingPage, reason: renameReason } = rename;
+      const oldPageName = existingPage.name;
+
+      // Rename the page
+      logger.info(`Renaming page: "${oldPageName}" → "${category}" (${renameReason})`);
+      existingPage.name = category;
+
+      // Find and rename the frame inside the page
+      for (const child of existingPage.children) {
+        if (child.type === 'FRAME') {
+          // Frame name might be old page name or old category name - rename it
+          if (child.name.match(/^(?:Set|Cat) \d+:/)) {
+            child.name = category;
+            logger.info(`Renamed frame to: "${category}"`);
           }
         }
       }
+
+      // Update page's commit SHA
+      existingPage.setPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA, commitSha);
+
+      tracker.update({
+        message: `✓ Renamed "${oldPageName}" to "${category}" (${renameReason})`,
+        currentIcon: '',
+      });
     }
 
     const page = await pageManager.getOrCreatePage(pageName, {
@@ -386,7 +445,10 @@ export async function handleCategoryGeneration(
       currentIcon: '',
     });
 
-    const deprecationResult = await handleDeprecatedIcons(page, iconsInCategory);
+    const deprecationResult = await handleDeprecatedIcons(
+      page,
+      icons ? rangeIcons : iconsInCategory
+    );
     const deprecationSummary = getDeprecationSummary(deprecationResult);
 
     logger.info(`Deprecation scan complete: ${deprecationSummary}`);
@@ -402,6 +464,7 @@ export async function handleCategoryGeneration(
       checkContentChanges: true,
       removeUnrequestedVariants: true,
       commitSha: commitSha,
+      setLayout: config.setLayout,
       layout: {
         startX: 100,
         startY: 100,
@@ -433,27 +496,54 @@ export async function handleCategoryGeneration(
       commitSha,
       iconChangesData,
       iconChangesCumulative,
-      variantConfig: {
-        styles,
-        weights,
-        fills,
-        grades,
-        opticalSizes,
-      },
+      variantConfig: variantProfile,
+      svgSource: config.svgSource,
+      svgCache: config.svgCache,
+      setLayout: config.setLayout,
     });
 
     // Process each icon
     let completedIcons = 0;
     const totalIcons = iconsInCategory.length;
 
-    for (const iconName of iconsInCategory) {
+    // Resume from checkpoint (test runs and specific-icon runs never read or write
+    // the page checkpoint, which tracks the full category)
+    const usesCheckpoint = !testIconCount && !icons;
+    const scope = getCheckpointScope(iconsInCategory, variantProfile);
+    const storedCheckpoint = usesCheckpoint ? readCheckpoint(page) : null;
+    const startIndex = resume
+      ? getResumeIndex(storedCheckpoint, iconsInCategory, category, commitSha, scope)
+      : 0;
+    const checkpoint =
+      startIndex > 0 && storedCheckpoint
+        ? resumeFromCheckpoint(storedCheckpoint)
+        : createCheckpoint(category, commitSha, totalIcons, scope);
+    checkpoint.totalIcons = totalIcons;
+
+    if (startIndex > 0) {
+      completedIcons = checkpoint.processedIcons;
+      tracker.setCompletedCount(completedIcons);
+      tracker.update({
+        message: `↻ Resuming ${category} after ${checkpoint.lastCompletedIcon} (${startIndex}/${totalIcons} icons already processed)`,
+        currentIcon: '',
+      });
+    }
+
+    const saveCheckpoint = () => {
+      if (!usesCheckpoint) return;
+      writeCheckpoint(page, checkpoint);
+      figma.ui.postMessage({ type: PLUGIN_MESSAGES.CHECKPOINT_STATE, checkpoint });
+    };
+
+    for (const iconName of iconsInCategory.slice(startIndex)) {
       // Check for cancellation
       if (isCancelled()) {
         logger.info('Generation cancelled by user');
+        saveCheckpoint();
         tracker.complete(
           `Cancelled after ${tracker.getCompletedCount()}/${tracker.getTotalCount()} icons`
         );
-        return;
+        return { status: 'cancelled', completedIcons, totalIcons };
       }
 
       try {
@@ -467,15 +557,29 @@ export async function handleCategoryGeneration(
           completedIcons++;
         }
 
+        recordIconResult(checkpoint, iconName, result.action);
+
         // Small delay to prevent UI blocking
         await new Promise((resolve) => setTimeout(resolve, 10));
       } catch (error) {
         logger.error(`Failed to generate ${iconName}:`, error);
         tracker.error(`Failed to generate ${iconName}: ${error}`);
+        recordIconResult(checkpoint, iconName, 'failed');
         // Continue with next icon
       }
+
+      if (usesCheckpoint) {
+        writeCheckpoint(page, checkpoint);
+      }
     }
 
+    // Failed icons keep the checkpoint resumable from the first of them
+    const failedIcons = checkpoint.counts.failed;
+    if (failedIcons === 0) {
+      checkpoint.status = 'completed';
+    }
+    saveCheckpoint();
+
     // Organize components into a styled frame
     try {
       tracker.update({
@@ -494,7 +598,15 @@ export async function handleCategoryGeneration(
     // Generation complete
     tracker.complete();
 
+    if (failedIcons > 0) {
+      const error = `${failedIcons} icon(s) failed - ${usesCheckpoint ? 'resume' : 'run again'} to retry them`;
+      figma.notify(`⚠️ ${category}: ${error}`);
+      return { status: 'failed', completedIcons, totalIcons, error };
+    }
+
     figma.notify(`✅ Generated ${completedIcons} icons in ${category}`);
+
+    return { status: 'completed', completedIcons, totalIcons };
   } catch (error) {
     logger.error('Category generation failed:', error);
     // Can't use tracker here if it wasn't created yet
@@ -502,5 +614,11 @@ export async function handleCategoryGeneration(
       type: PLUGIN_MESSAGES.ERROR,
       message: `Generation failed: ${error}`,
     });
+    return {
+      status: 'failed',
+      completedIcons: 0,
+      totalIcons: 0,
+      error: `Generation failed: ${error}`,
+    };
   }
 }
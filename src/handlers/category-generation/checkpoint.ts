@@ -0,0 +1,228 @@
+/**
+ * @module @figma/handlers/category-generation/checkpoint
+ *
+ * Resumable checkpoints for a single category run.
+ *
+ * Without a checkpoint, a cancelled or crashed run restarts at the first icon
+ * and relies on `checkIconNeedsUpdate` to skip finished work, which still costs
+ * a scan and cleanup pass per icon. The checkpoint records exactly how far the
+ * run got so it can continue from the next icon.
+ *
+ * **Storage**:
+ * - JSON `GenerationCheckpoint` in document plugin data on the category page
+ *   (`PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT`)
+ * - Lives with the file, so anyone opening the document can resume
+ *
+ * **Validity**:
+ * A checkpoint is only resumed when it is still `in-progress`, belongs to the
+ * same category, commit SHA and scope (icon list and variant profile, see
+ * `getCheckpointScope`), and its last icon is still in the icon list.
+ * Anything else starts the run from the beginning. Runs restricted to specific
+ * icons don't use the page checkpoint at all.
+ *
+ * **Failures**:
+ * The resume point stops before the first failed icon, so a resumed run
+ * retries it (icons after it are re-checked, and skipped if up to date). A run
+ * that finishes with failures leaves its checkpoint `in-progress` for that.
+ *
+ * @example Resume a run
+ * ```typescript
+ * const checkpoint = readCheckpoint(page);
+ * const scope = getCheckpointScope(icons, variantProfile);
+ * const startIndex = getResumeIndex(checkpoint, icons, category, commitSha, scope);
+ *
+ * for (const iconName of icons.slice(startIndex)) {
+ *   const result = await processor.processIcon(iconName, completed);
+ *   recordIconResult(checkpoint, iconName, result.action);
+ *   writeCheckpoint(page, checkpoint);
+ * }
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { hashContent } from '@lib/utils/hash';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import type { VariantProfile } from '@lib/icons/variant-profile';
+import type { GenerationCheckpoint } from '@/types';
+import type { IconProcessResult } from './icon-processor';
+
+/**
+ * Identify what a run generates (icon list and variant profile)
+ *
+ * @param {string[]} icons - Icons in processing order
+ * @param {VariantProfile} variantProfile - Normalised profile of the run
+ * @returns {string} Hash stored in the checkpoint and compared on resume
+ */
+export function getCheckpointScope(icons: string[], variantProfile: VariantProfile): string {
+  return hashContent(JSON.stringify({ icons, variantProfile }));
+}
+
+/**
+ * Create a fresh checkpoint for a run
+ *
+ * @param {string} category - Category name
+ * @param {string} commitSha - Commit SHA being generated
+ * @param {number} totalIcons - Icons in the category
+ * @param {string} scope - Icon list and profile of the run (see `getCheckpointScope`)
+ * @returns {GenerationCheckpoint} Empty in-progress checkpoint
+ */
+export function createCheckpoint(
+  category: string,
+  commitSha: string,
+  totalIcons: number,
+  scope: string
+): GenerationCheckpoint {
+  return {
+    category,
+    commitSha,
+    scope,
+    status: 'in-progress',
+    lastCompletedIcon: null,
+    processedIcons: 0,
+    totalIcons,
+    counts: { created: 0, updated: 0, skipped: 0, failed: 0 },
+    resumeCounts: { created: 0, updated: 0, skipped: 0, failed: 0 },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the checkpoint stored on a page
+ *
+ * @param {PageNode} page - Category page
+ * @returns {GenerationCheckpoint | null} Stored checkpoint, or null if absent/corrupt
+ */
+export function readCheckpoint(page: PageNode): GenerationCheckpoint | null {
+  const raw = page.getPluginData(PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as GenerationCheckpoint;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable checkpoint on page "${page.name}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Store a checkpoint on a page
+ *
+ * @param {PageNode} page - Category page
+ * @param {GenerationCheckpoint} checkpoint - Checkpoint to store
+ */
+export function writeCheckpoint(page: PageNode, checkpoint: GenerationCheckpoint): void {
+  checkpoint.updatedAt = new Date().toISOString();
+  page.setPluginData(PLUGIN_DATA_KEYS.GENERATION_CHECKPOINT, JSON.stringify(checkpoint));
+}
+
+/**
+ * Determine where a run should start
+ *
+ * @param {GenerationCheckpoint | null} checkpoint - Stored checkpoint
+ * @param {string[]} icons - Icons in the category, in processing order
+ * @param {string} category - Category being generated
+ * @param {string} commitSha - Commit SHA being generated
+ * @param {string} scope - Icon list and profile of the run (see `getCheckpointScope`)
+ * @returns {number} Index of the first icon to process (0 when not resumable)
+ */
+export function getResumeIndex(
+  checkpoint: GenerationCheckpoint | null,
+  icons: string[],
+  category: string,
+  commitSha: string,
+  scope: string
+): number {
+  if (
+    !checkpoint ||
+    checkpoint.status !== 'in-progress' ||
+    checkpoint.category !== category ||
+    checkpoint.commitSha !== commitSha ||
+    checkpoint.scope !== scope ||
+    !checkpoint.lastCompletedIcon
+  ) {
+    return 0;
+  }
+
+  const index = icons.indexOf(checkpoint.lastCompletedIcon);
+  return index === -1 ? 0 : index + 1;
+}
+
+/**
+ * Record the outcome of one icon in a checkpoint
+ *
+ * Every outcome is counted. Once an icon has failed, later icons no longer
+ * move the resume point (`lastCompletedIcon`, `processedIcons` and
+ * `resumeCounts`), so a resume starts at the failed icon and
+ * `resumeFromCheckpoint` drops the counts of the icons it processes again.
+ *
+ * @param {GenerationCheckpoint} checkpoint - Checkpoint to update
+ * @param {string} iconName - Icon that was processed
+ * @param {IconProcessResult['action']} action - Processing outcome
+ */
+export function recordIconResult(
+  checkpoint: GenerationCheckpoint,
+  iconName: string,
+  action: IconProcessResult['action']
+): void {
+  switch (action) {
+    case 'created':
+      checkpoint.counts.created++;
+      break;
+    case 'updated':
+      checkpoint.counts.updated++;
+      break;
+    case 'skipped-unchanged':
+    case 'skipped-up-to-date':
+      checkpoint.counts.skipped++;
+      break;
+    case 'failed':
+      checkpoint.counts.failed++;
+      break;
+  }
+
+  if (checkpoint.counts.failed > 0) {
+    return;
+  }
+
+  checkpoint.lastCompletedIcon = iconName;
+  checkpoint.processedIcons++;
+  checkpoint.resumeCounts = { ...checkpoint.counts };
+}
+
+/**
+ * Prepare a stored checkpoint to continue a run
+ *
+ * Icons after the resume point (the failed ones and any processed after them)
+ * are processed again, so the counts go back to those at the resume point.
+ *
+ * @param {GenerationCheckpoint} checkpoint - Checkpoint being resumed
+ * @returns {GenerationCheckpoint} The same checkpoint
+ */
+export function resumeFromCheckpoint(checkpoint: GenerationCheckpoint): GenerationCheckpoint {
+  checkpoint.counts = checkpoint.resumeCounts
+    ? { ...checkpoint.resumeCounts }
+    : { ...checkpoint.counts, failed: 0 };
+  return checkpoint;
+}
+
+/**
+ * Find in-progress checkpoints across all pages in the document
+ *
+ * Used to offer "Resume" in the UI when the plugin opens.
+ *
+ * @returns {GenerationCheckpoint[]} Checkpoints that can be resumed
+ */
+export function findResumableCheckpoints(): GenerationCheckpoint[] {
+  const checkpoints: GenerationCheckpoint[] = [];
+
+  for (const page of figma.root.children) {
+    const checkpoint = readCheckpoint(page);
+    if (checkpoint && checkpoint.status === 'in-progress' && checkpoint.lastCompletedIcon) {
+      checkpoints.push(checkpoint);
+    }
+  }
+
+  return checkpoints;
+}
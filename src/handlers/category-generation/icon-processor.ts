@@ -21,6 +21,14 @@
  * - Icon missing variants → fill gaps
  * - Icon commit SHA mismatch → compare hashes and update
  *
+ * **Per-Style Layout**:
+ * With `setLayout: 'per-style'` an icon spans one ComponentSet per style (see
+ * `set-layout.ts`). Skip checks are measured across all of them, a combined
+ * set found on the page is split first, and updates go through the
+ * generator, which handles each style set on its own. Like the incremental
+ * update of a combined set, an update keeps style sets and variants outside
+ * the profile and only widens their stored profiles.
+ *
  * **Result Types**:
  * - `skipped-unchanged`: Icon unchanged, only SHA updated
  * - `skipped-up-to-date`: Icon already up-to-date
@@ -56,11 +64,47 @@
  */
 
 import { logger } from '@lib/utils';
+import { SvgValidationError } from '@lib/utils/errors';
 import type { IconGenerator, VariantData } from '@lib/icons';
-import { generateGitHubUrl, type IconVariant, type IconStyle } from '@lib/github';
-import { batchFetchSVGs } from '@lib/icons';
+import {
+  GitHubRawSvgSource,
+  generateFilename,
+  type IconVariant,
+  type IconStyle,
+  type SvgSource,
+} from '@lib/github';
+import {
+  batchFetchSVGs,
+  ConcurrencyController,
+  describeFetchFailures,
+  isRetryableFailure,
+  type SvgCache,
+} from '@lib/icons';
 import { PLUGIN_DATA_KEYS, FEATURE_FLAGS } from '@lib/constants';
-import { checkIconNeedsUpdate, logUpdateCheckResult } from '@lib/icons/metadata-helpers';
+import {
+  checkIconNeedsUpdate,
+  findComponentSet,
+  findComponentSets,
+  logUpdateCheckResult,
+  setUnavailableVariantNames,
+} from '@lib/icons/metadata-helpers';
+import {
+  getProfileVariantCount,
+  getProfileVariantName,
+  getProfileVariants,
+  getStoredVariantProfile,
+  setStoredVariantProfile,
+  widenStoredVariantProfile,
+  type VariantProfile,
+} from '@lib/icons/variant-profile';
+import { pairFillVariants, syncFillProperty } from '@lib/icons/fill-property';
+import { applyIconMetadata } from '@lib/icons/component-factory';
+import {
+  DEFAULT_COMPONENT_SET_LAYOUT,
+  getStyleSetProfile,
+  parseStyleSetName,
+  type ComponentSetLayout,
+} from '@lib/icons/set-layout';
 import {
   analyzeComponentForUpdate,
   updateVariantComponent,
@@ -72,26 +116,17 @@ import {
   type VariantKey,
 } from '@lib/icons/incremental-updater';
 import { hasIconChangedCumulatively } from '../cumulative-changes';
+import { splitComponentSet } from '../set-layout-conversion';
 import type { RateLimiter } from './rate-limiter';
 import type { ProgressTracker } from './progress-tracker';
 
 /**
  * Variant configuration for icon generation
  *
- * @interface VariantConfig
- * @property {IconStyle[]} styles - Icon styles (rounded, outlined, sharp)
- * @property {number[]} weights - Font weights (100-700)
- * @property {(0|1)[]} fills - Fill states (0=unfilled, 1=filled)
- * @property {number[]} grades - Optical grades (-25, 0, 200)
- * @property {number[]} opticalSizes - Optical sizes (20, 24, 40, 48)
+ * The variant profile to generate (see `@lib/icons/variant-profile`). Completeness,
+ * skip checks and fetch validation are all measured against this profile.
  */
-export interface VariantConfig {
-  styles: IconStyle[];
-  weights: IconVariant['weight'][];
-  fills: (0 | 1)[];
-  grades: IconVariant['grade'][];
-  opticalSizes: IconVariant['opticalSize'][];
-}
+export type VariantConfig = VariantProfile;
 
 /**
  * Icon processor configuration
@@ -105,6 +140,12 @@ export interface VariantConfig {
  * @property {object | null} iconChangesData - Direct commit-to-commit changes
  * @property {object | null} iconChangesCumulative - Multi-commit change tracking
  * @property {VariantConfig} variantConfig - Variant generation configuration
+ * @property {SvgSource} [svgSource] - Where variant SVGs are downloaded from (defaults to GitHub raw)
+ * @property {SvgCache} [svgCache] - Persistent cache for GitHub downloads at `commitSha`
+ * @property {ConcurrencyController} [concurrency] - Download concurrency shared by every icon
+ *   (a new controller per processor when omitted)
+ * @property {ComponentSetLayout} [setLayout='combined'] - One ComponentSet per icon or per style
+ *   (must match the generator's)
  */
 export interface IconProcessorConfig {
   generator: IconGenerator;
@@ -122,6 +163,10 @@ export interface IconProcessorConfig {
     direct?: Record<string, { changedIcons: string[]; newIcons?: string[] }>;
   } | null;
   variantConfig: VariantConfig;
+  svgSource?: SvgSource;
+  svgCache?: SvgCache;
+  concurrency?: ConcurrencyController;
+  setLayout?: ComponentSetLayout;
 }
 
 /**
@@ -147,6 +192,18 @@ export interface IconProcessResult {
   };
 }
 
+/**
+ * Fetched variants of one icon
+ *
+ * @interface FetchedIconVariants
+ * @property {VariantData[]} variants - Variant data ready for component creation
+ * @property {VariantKey[]} unavailable - Variants that do not exist upstream (404)
+ */
+interface FetchedIconVariants {
+  variants: VariantData[];
+  unavailable: VariantKey[];
+}
+
 /**
  * Icon processor for orchestrating icon generation workflow
  *
@@ -174,7 +231,11 @@ export class IconProcessor {
   private readonly iconChangesData: IconProcessorConfig['iconChangesData'];
   private readonly iconChangesCumulative: IconProcessorConfig['iconChangesCumulative'];
   private readonly variantConfig: VariantConfig;
+  private readonly svgSource: SvgSource;
+  private readonly svgCache?: SvgCache;
+  private readonly concurrency: ConcurrencyController;
   private readonly totalVariantsPerIcon: number;
+  private readonly setLayout: ComponentSetLayout;
 
   /**
    * Create a new icon processor
@@ -210,14 +271,13 @@ export class IconProcessor {
     this.iconChangesData = config.iconChangesData;
     this.iconChangesCumulative = config.iconChangesCumulative;
     this.variantConfig = config.variantConfig;
+    this.svgSource = config.svgSource ?? new GitHubRawSvgSource();
+    this.svgCache = config.svgCache;
+    this.concurrency = config.concurrency ?? new ConcurrencyController();
+    this.setLayout = config.setLayout ?? DEFAULT_COMPONENT_SET_LAYOUT;
 
     // Calculate total variants per icon
-    this.totalVariantsPerIcon =
-      config.variantConfig.styles.length *
-      config.variantConfig.weights.length *
-      config.variantConfig.fills.length *
-      config.variantConfig.grades.length *
-      config.variantConfig.opticalSizes.length;
+    this.totalVariantsPerIcon = getProfileVariantCount(config.variantConfig);
   }
 
   /**
@@ -274,34 +334,51 @@ export class IconProcessor {
       progress: 0,
     });
 
+    // Files generated with the combined layout are converted as they are updated
+    if (this.setLayout === 'per-style') {
+      this.splitCombinedSet(iconName);
+    }
+
     // Smart skip/update check using metadata
-    const updateCheck = checkIconNeedsUpdate(this.page, iconName, this.commitSha);
+    const updateCheck = checkIconNeedsUpdate(
+      this.page,
+      iconName,
+      this.commitSha,
+      this.variantConfig,
+      this.setLayout
+    );
     logUpdateCheckResult(iconName, updateCheck);
 
-    // Extract existing component set for later use
+    // Extract existing component set(s) for later use
     const existingComponentSet = updateCheck.existingComponentSet;
+    const existingComponentSets = updateCheck.existingComponentSets;
 
     // Clean up any extra frame wrappers BEFORE skip check
-    if (existingComponentSet) {
-      const fixedFrames = cleanupExtraFramesInComponentSet(existingComponentSet);
+    for (const componentSet of existingComponentSets) {
+      const fixedFrames = cleanupExtraFramesInComponentSet(componentSet);
       if (fixedFrames > 0) {
-        logger.info(`Cleaned up ${fixedFrames} variants with extra frames in ${iconName}`);
+        logger.info(`Cleaned up ${fixedFrames} variants with extra frames in ${componentSet.name}`);
       }
     }
 
     // Clean up unnecessary fills from variant frames BEFORE skip check
     // This ensures cleanup runs even on unchanged icons with 504 variants
-    if (existingComponentSet && FEATURE_FLAGS.ENABLE_VARIANT_CLEANUP) {
-      const cleanedCount = cleanupVariantFillsInComponentSet(existingComponentSet);
-      if (cleanedCount > 0) {
-        logger.info(`Cleaned up fills on ${cleanedCount} variant frame(s) in ${iconName}`);
+    if (FEATURE_FLAGS.ENABLE_VARIANT_CLEANUP) {
+      for (const componentSet of existingComponentSets) {
+        const cleanedCount = cleanupVariantFillsInComponentSet(componentSet);
+        if (cleanedCount > 0) {
+          logger.info(
+            `Cleaned up fills on ${cleanedCount} variant frame(s) in ${componentSet.name}`
+          );
+        }
       }
     }
 
     // OPTIMIZATION: Check if icon changed between commits (supports cumulative tracking)
-    if (existingComponentSet && updateCheck.existingVariantCount === 504) {
-      // Get the icon's current commit SHA
-      const iconCurrentCommit = existingComponentSet.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA);
+    // (complete = has every variant of the profile)
+    if (existingComponentSet && !updateCheck.fillGapsOnly) {
+      // Get the icon's current commit SHA (the outdated one if its style sets disagree)
+      const iconCurrentCommit = updateCheck.storedCommitSha;
 
       // Check if icon has changed using cumulative tracking
       if (iconCurrentCommit && iconCurrentCommit !== this.commitSha) {
@@ -316,7 +393,11 @@ export class IconProcessor {
         if (!iconChanged) {
           // Icon exists, has all variants, and hasn't changed across any commits
           // Just update the commit SHA metadata without re-downloading
-          existingComponentSet.setPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA, this.commitSha);
+          for (const componentSet of existingComponentSets) {
+            componentSet.setPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA, this.commitSha);
+            widenStoredVariantProfile(componentSet, this.getSetProfile(componentSet));
+            applyIconMetadata(componentSet, iconName);
+          }
 
           const oldShort = iconCurrentCommit.substring(0, 7);
           const newShort = this.commitSha.substring(0, 7);
@@ -383,10 +464,10 @@ export class IconProcessor {
     }
 
     // Build variant URLs and fetch SVGs
-    const variantData = await this.buildAndFetchVariants(iconName, completedIcons);
+    const fetched = await this.buildAndFetchVariants(iconName, completedIcons);
 
     // Validate fetch results
-    if (!variantData) {
+    if (!fetched) {
       // Validation failed, warnings already issued by buildAndFetchVariants
       return {
         action: 'failed',
@@ -397,63 +478,149 @@ export class IconProcessor {
     }
 
     // Process icon: incremental update or new creation
-    if (existingComponentSet) {
-      return await this.updateExistingIcon(
-        iconName,
-        variantData,
-        existingComponentSet,
-        completedIcons
-      );
+    // Switching Fill between variant axis and component property replaces the
+    // variants, which the generator's update does (it removes unrequested ones);
+    // per-style icons always go through the generator, one style set at a time,
+    // keeping what lies outside the profile like the incremental update does
+    const replacesVariants =
+      existingComponentSet !== null && this.changesFillStructure(existingComponentSet);
+    const result =
+      existingComponentSet && this.setLayout === 'combined' && !replacesVariants
+        ? await this.updateExistingIcon(
+            iconName,
+            fetched.variants,
+            existingComponentSet,
+            completedIcons
+          )
+        : await this.createNewIcon(
+            iconName,
+            fetched.variants,
+            replacesVariants ? [] : existingComponentSets,
+            existingComponentSet !== null
+          );
+
+    this.recordUnavailableVariants(iconName, fetched.unavailable);
+    return result;
+  }
+
+  /**
+   * Record the variants that do not exist upstream on the icon's ComponentSets
+   *
+   * Completeness checks leave them out, so the next run doesn't fetch the icon
+   * again just to get the same 404s. Every fetch rewrites the list.
+   *
+   * @private
+   * @param {string} iconName - Icon name
+   * @param {VariantKey[]} unavailable - Variants that returned 404
+   */
+  private recordUnavailableVariants(iconName: string, unavailable: VariantKey[]): void {
+    const componentSets =
+      this.setLayout === 'per-style'
+        ? findComponentSets(this.page, iconName)
+        : [findComponentSet(this.page, iconName)].filter(
+            (componentSet): componentSet is ComponentSetNode => componentSet !== null
+          );
+
+    for (const componentSet of componentSets) {
+      const style = parseStyleSetName(componentSet.name)?.style;
+      const profile = this.getSetProfile(componentSet);
+      const names = unavailable
+        .filter((key) => !style || key.style === style)
+        .map((key) => getProfileVariantName(profile, key));
+      setUnavailableVariantNames(componentSet, Array.from(new Set(names)));
+    }
+  }
+
+  /**
+   * Split the icon's combined ComponentSet by style, if the page still has one
+   *
+   * @private
+   * @param {string} iconName - Icon name
+   */
+  private splitCombinedSet(iconName: string): void {
+    const combined = findComponentSet(this.page, iconName);
+    if (!combined) {
+      return;
+    }
+
+    const entry = splitComponentSet(combined);
+    if (entry.error) {
+      this.tracker.warning(`⚠️ ${iconName}: could not split by style (${entry.error})`);
     } else {
-      return await this.createNewIcon(iconName, variantData);
+      logger.info(`Split ${iconName} into ${entry.sets.join(', ')}`);
     }
   }
 
+  /**
+   * Variant profile to store on one of the icon's ComponentSets
+   *
+   * @private
+   * @param {ComponentSetNode} componentSet - Combined or style set
+   * @returns {VariantProfile} The profile, restricted to the set's style for style sets
+   */
+  private getSetProfile(componentSet: ComponentSetNode): VariantProfile {
+    const parsed = parseStyleSetName(componentSet.name);
+    return parsed ? getStyleSetProfile(this.variantConfig, parsed.style) : this.variantConfig;
+  }
+
+  /**
+   * Check whether the profile switches Fill between variant axis and component property
+   *
+   * @private
+   * @param {ComponentSetNode} componentSet - Existing component set
+   * @returns {boolean} True if the set was built with the other structure
+   */
+  private changesFillStructure(componentSet: ComponentSetNode): boolean {
+    const stored = getStoredVariantProfile(componentSet).fillProperty === true;
+    if (stored === (this.variantConfig.fillProperty === true)) {
+      return false;
+    }
+    logger.info(
+      `${componentSet.name}: converting Fill to a ${stored ? 'variant axis' : 'component property'}`
+    );
+    return true;
+  }
+
   /**
    * Build variant URLs and fetch SVG content
    *
    * @private
    * @param {string} iconName - Icon name
    * @param {number} completedIcons - Completed icon count for progress tracking
-   * @returns {Promise<VariantData[] | null>} Variant data or null if fetch failed
+   * @returns {Promise<FetchedIconVariants | null>} Variant data (fill pairs merged for a Fill
+   *   property profile) and the variants that do not exist upstream, or null if fetch failed
    */
   private async buildAndFetchVariants(
     iconName: string,
     completedIcons: number
-  ): Promise<VariantData[] | null> {
+  ): Promise<FetchedIconVariants | null> {
     // Build all variant URLs for this icon
     const variants: Array<IconVariant & { style: IconStyle; url: string }> = [];
     let variantIndex = 0;
-    const totalVariants = this.totalVariantsPerIcon;
-
-    for (const style of this.variantConfig.styles) {
-      for (const weight of this.variantConfig.weights) {
-        for (const fill of this.variantConfig.fills) {
-          for (const grade of this.variantConfig.grades) {
-            for (const opticalSize of this.variantConfig.opticalSizes) {
-              const variant: IconVariant = { weight, fill, grade, opticalSize };
-              const url = generateGitHubUrl(iconName, style, variant);
-
-              variants.push({
-                ...variant,
-                style,
-                url,
-              });
-
-              variantIndex++;
-
-              // Update progress every 50 variants
-              if (variantIndex % 50 === 0) {
-                const progress = Math.round((variantIndex / totalVariants) * 100);
-                this.tracker.update({
-                  message: `Building variant URLs for ${iconName}...`,
-                  currentIcon: iconName,
-                  progress,
-                });
-              }
-            }
-          }
-        }
+    // Both fills are downloaded even when they end up in one component
+    const profileVariants = getProfileVariants(this.variantConfig);
+    const totalVariants = profileVariants.length;
+
+    // Legacy Material Icons styles only contribute their published variants
+    for (const { style, variant } of profileVariants) {
+      const url = this.svgSource.getUrl(iconName, style, variant);
+
+      variants.push({
+        ...variant,
+        style,
+        url,
+      });
+
+      variantIndex++;
+
+      // Update progress every 50 variants
+      if (variantIndex % 50 === 0) {
+        const progress = Math.round((variantIndex / totalVariants) * 100);
+        this.tracker.update({
+          message: `Building variant URLs for ${iconName}...`,
+          currentIcon: iconName,
+          progress,
+        });
       }
     }
 
@@ -484,20 +651,23 @@ export class IconProcessor {
       fetchItems,
       async (items) =>
         await batchFetchSVGs(items, {
-          batchSize: 20,
-          batchDelay: 100,
-          onProgress: (current, total) => {
+          concurrency: this.concurrency,
+          source: this.svgSource,
+          // Local sources are already fast; only network downloads are worth the quota
+          cache:
+            this.svgSource.kind === 'github' ? this.svgCache?.forCommit(this.commitSha) : undefined,
+          onProgress: (current, total, rate) => {
             // Map download progress from 50% to 75%
             const downloadProgress = 50 + Math.round((current / total) * 25);
             this.tracker.update({
               message: `Downloading ${iconName} (${current}/${total} variants)...`,
               currentIcon: iconName,
               progress: downloadProgress,
+              fetchRate: rate,
             });
           },
         }),
-      { iconName, completedIcons, currentIconProgress: 50 },
-      (result) => generateGitHubUrl(result.iconName, result.style, result.variant)
+      { iconName, completedIcons, currentIconProgress: 50 }
     );
 
     logger.info(
@@ -516,7 +686,7 @@ export class IconProcessor {
       }));
 
     // Validate results
-    const expectedVariantCount = 504;
+    const expectedVariantCount = totalVariants;
 
     if (variantData.length === 0) {
       // Log sample failed URLs for debugging
@@ -528,26 +698,48 @@ export class IconProcessor {
       );
 
       this.tracker.warning(
-        `⚠️ Skipping ${iconName}: All ${svgResults.stats.total} variants failed (GitHub rate limiting or network issue)`
+        `⚠️ Skipping ${iconName}: All ${svgResults.stats.total} variants failed (${describeFetchFailures(svgResults.failures)})`
       );
 
       return null;
     }
 
-    // Check if we have ALL expected variants
-    if (variantData.length < expectedVariantCount) {
+    // Variants that are missing or broken upstream won't appear by retrying - say so precisely
+    const notFound = svgResults.failures.filter((f) => f.reason === 'not-found');
+    if (notFound.length > 0) {
+      const sample = notFound
+        .slice(0, 3)
+        .map((f) => `${f.item.style} ${generateFilename(iconName, f.item.variant, f.item.style)}`)
+        .join(', ');
+      this.tracker.warning(
+        `⚠️ ${iconName}: ${notFound.length} variant(s) do not exist upstream (${sample}${notFound.length > 3 ? ', …' : ''})`
+      );
+    }
+    const invalid = svgResults.failures.filter((f) => f.reason === 'invalid-svg');
+    if (invalid.length > 0) {
+      this.tracker.warning(
+        `⚠️ ${iconName}: ${invalid.length} variant(s) returned an invalid SVG body and were left out`
+      );
+    }
+
+    // Transient failures (rate limits, server/network errors) still left: try again later
+    const transient = svgResults.failures.filter((f) => isRetryableFailure(f.reason));
+    if (transient.length > 0) {
       logger.error(
         `Incomplete icon ${iconName}: only ${variantData.length}/${expectedVariantCount} variants after retries`
       );
 
       this.tracker.warning(
-        `⚠️ Skipping ${iconName}: Incomplete (${variantData.length}/${expectedVariantCount} variants) - GitHub rate limiting too aggressive. Try again later or reduce batch size.`
+        `⚠️ Skipping ${iconName}: Incomplete (${variantData.length}/${expectedVariantCount} variants; ${describeFetchFailures(transient)}). Try again later.`
       );
 
       return null;
     }
 
-    return variantData;
+    return {
+      variants: this.variantConfig.fillProperty ? pairFillVariants(variantData) : variantData,
+      unavailable: notFound.map((f) => ({ style: f.item.style, variant: f.item.variant })),
+    };
   }
 
   /**
@@ -586,7 +778,7 @@ export class IconProcessor {
       expectedVariants.push(key);
       variantUrls.set(
         `${vd.style}-${vd.variant.weight}-${vd.variant.fill}-${vd.variant.grade}-${vd.variant.opticalSize}`,
-        generateGitHubUrl(iconName, vd.style, vd.variant)
+        this.svgSource.getUrl(iconName, vd.style, vd.variant)
       );
     }
 
@@ -608,6 +800,13 @@ export class IconProcessor {
 
     let variantsUpdated = 0;
     let variantsAdded = 0;
+    const invalidVariants: SvgValidationError[] = [];
+
+    // Fill pairs share one component (see pairFillVariants)
+    const fillOptions = (vd: VariantData) => ({
+      fillProperty: vd.fillProperty,
+      filledSvgContent: vd.filledSvgContent,
+    });
 
     // Update stale variants
     for (const staleVariant of updateResult.staleVariants) {
@@ -623,12 +822,20 @@ export class IconProcessor {
         );
 
         if (svgData) {
-          await updateVariantComponent(
-            staleVariant.component,
-            svgData.svgContent,
-            staleVariant.key
-          );
-          variantsUpdated++;
+          try {
+            await updateVariantComponent(
+              staleVariant.component,
+              svgData.svgContent,
+              staleVariant.key,
+              fillOptions(svgData)
+            );
+            variantsUpdated++;
+          } catch (error) {
+            if (!(error instanceof SvgValidationError)) {
+              throw error;
+            }
+            invalidVariants.push(error);
+          }
         }
       }
     }
@@ -646,11 +853,29 @@ export class IconProcessor {
       );
 
       if (svgData) {
-        await addVariantToComponentSet(existingComponentSet, svgData.svgContent, missingVariant);
-        variantsAdded++;
+        try {
+          await addVariantToComponentSet(
+            existingComponentSet,
+            svgData.svgContent,
+            missingVariant,
+            fillOptions(svgData)
+          );
+          variantsAdded++;
+        } catch (error) {
+          if (!(error instanceof SvgValidationError)) {
+            throw error;
+          }
+          invalidVariants.push(error);
+        }
       }
     }
 
+    this.warnInvalidVariants(iconName, invalidVariants);
+
+    if (this.variantConfig.fillProperty) {
+      syncFillProperty(existingComponentSet, true);
+    }
+
     // Reorder variants after all updates: default first, then alphabetically
     reorderComponentSetVariants(existingComponentSet);
 
@@ -663,6 +888,9 @@ export class IconProcessor {
     } catch (error) {
       logger.warn(`Failed to store commit SHA on ${existingComponentSet.name}:`, error);
     }
+    // Variants outside the profile are kept, so the stored profile only widens
+    widenStoredVariantProfile(existingComponentSet, this.getSetProfile(existingComponentSet));
+    applyIconMetadata(existingComponentSet, iconName);
 
     logger.info(
       `✓ ${iconName} (incremental): ${variantsAdded} added, ` +
@@ -686,35 +914,52 @@ export class IconProcessor {
   }
 
   /**
-   * Create new icon component
+   * Create new icon component, or rebuild an existing one through the generator
    *
    * @private
    * @param {string} iconName - Icon name
    * @param {VariantData[]} variantData - Variant SVG data
+   * @param {ComponentSetNode[]} keptComponentSets - Existing sets whose unrequested variants
+   *   (and, for per-style icons, unrequested style sets) are kept; empty to replace them
+   * @param {boolean} [existing=false] - The icon already has ComponentSet(s) (reported as updated)
    * @returns {Promise<IconProcessResult>} Processing result
    */
   private async createNewIcon(
     iconName: string,
-    variantData: VariantData[]
+    variantData: VariantData[],
+    keptComponentSets: ComponentSetNode[],
+    existing = false
   ): Promise<IconProcessResult> {
     this.tracker.update({
-      message: `Creating component for ${iconName}...`,
+      message: `${existing ? 'Updating' : 'Creating'} component for ${iconName}...`,
       currentIcon: iconName,
       progress: 75,
     });
 
-    const result = await this.generator.generateIcon(iconName, variantData);
+    const result = await this.generator.generateIcon(iconName, variantData, {
+      removeUnrequestedVariants: keptComponentSets.length === 0,
+    });
+    for (const componentSet of result.componentSets) {
+      if (keptComponentSets.includes(componentSet)) {
+        widenStoredVariantProfile(componentSet, this.getSetProfile(componentSet));
+      } else {
+        setStoredVariantProfile(componentSet, this.getSetProfile(componentSet));
+      }
+    }
+    this.warnInvalidVariants(iconName, result.invalidVariants);
 
     logger.info(
-      `✓ ${iconName} (new): ${result.variantsCreated} created, ` +
+      `✓ ${iconName} (${existing ? 'regenerated' : 'new'}): ${result.variantsCreated} created, ` +
         `${result.variantsUpdated} updated, ${result.variantsSkipped} skipped`
     );
 
-    const message = `Created ${iconName}`;
+    const message = existing
+      ? `Updated ${iconName}: +${result.variantsCreated} new, ${result.variantsUpdated} refreshed`
+      : `Created ${iconName}`;
     this.tracker.iconComplete(iconName, message);
 
     return {
-      action: 'created',
+      action: existing ? 'updated' : 'created',
       iconName,
       variantsProcessed: result.variantsCreated,
       message,
@@ -725,4 +970,24 @@ export class IconProcessor {
       },
     };
   }
+
+  /**
+   * Report variants whose SVG failed validation (they were left out or unchanged)
+   *
+   * @private
+   * @param {string} iconName - Icon name
+   * @param {SvgValidationError[]} invalidVariants - Rejected variants
+   */
+  private warnInvalidVariants(iconName: string, invalidVariants: SvgValidationError[]): void {
+    if (invalidVariants.length === 0) {
+      return;
+    }
+    for (const error of invalidVariants) {
+      logger.warn(error.message);
+    }
+    const first = invalidVariants[0];
+    this.tracker.warning(
+      `⚠️ ${iconName}: ${invalidVariants.length} variant(s) rejected by SVG validation (${first.variantName}: ${first.problem}${invalidVariants.length > 1 ? ', …' : ''})`
+    );
+  }
 }
@@ -0,0 +1,95 @@
+/**
+ * @module @figma/handlers/category-generation/page-rename
+ *
+ * Decides which existing page a category run renames.
+ *
+ * Set names change across commits (boundary shifts) and older files still use
+ * "Cat NN:" names. A page with the same set number is only renamed when it is a
+ * Cat→Set transition, or when the cumulative set renames lead from the page's
+ * commit to the category's name. Shared by the real run and the dry-run plan,
+ * so the plan never promises a rename the run won't make.
+ *
+ * @example
+ * ```typescript
+ * const rename = findPageToRename('Set 26: mail-map', commitSha, iconChangesCumulative);
+ * if (rename) {
+ *   rename.page.name = 'Set 26: mail-map'; // rename.reason: 'icon boundaries shifted'
+ * }
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { getFinalSetName, type CumulativeChangeData } from '../cumulative-changes';
+
+/**
+ * Page to rename for a category, and why
+ *
+ * @interface PageRename
+ * @property {PageNode} page - Existing page with the same set number
+ * @property {string} reason - "Cat→Set naming transition" or "icon boundaries shifted"
+ */
+export interface PageRename {
+  page: PageNode;
+  reason: string;
+}
+
+/**
+ * Find the existing page a category run would rename
+ *
+ * @param {string} category - Category name (e.g., "Set 26: mail-map")
+ * @param {string} commitSha - Commit SHA being generated
+ * @param {CumulativeChangeData | null} iconChangesCumulative - Multi-commit change tracking
+ * @returns {PageRename | null} Page and reason, or null if no page is renamed
+ */
+export function findPageToRename(
+  category: string,
+  commitSha: string,
+  iconChangesCumulative: CumulativeChangeData | null
+): PageRename | null {
+  const setNumberMatch = category.match(/^Set (\d+):/);
+  if (!setNumberMatch) {
+    return null;
+  }
+  const setNumber = parseInt(setNumberMatch[1]);
+
+  // Check if any existing pages match this set number with a different name
+  // This includes both "Set 26: xxx-yyy" → "Set 26: xxx-zzz" AND "Cat 26: xxx-yyy" → "Set 26: xxx-yyy"
+  for (const existingPage of figma.root.children) {
+    // Match both "Set NN:" and "Cat NN:" patterns
+    const existingMatch = existingPage.name.match(/^(?:Set|Cat) (\d+):/);
+    if (
+      !existingMatch ||
+      parseInt(existingMatch[1]) !== setNumber ||
+      existingPage.name === category
+    ) {
+      continue;
+    }
+
+    // Check if this is a Cat→Set transition
+    if (existingPage.name.startsWith('Cat ')) {
+      logger.info(`Found Cat→Set transition: "${existingPage.name}" → "${category}"`);
+      return { page: existingPage, reason: 'Cat→Set naming transition' };
+    }
+
+    // Check if it's a boundary shift rename
+    if (iconChangesCumulative && iconChangesCumulative.setRenames) {
+      const oldPageCommit = existingPage.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA);
+      if (oldPageCommit && oldPageCommit !== commitSha) {
+        const finalName = getFinalSetName(
+          setNumber,
+          existingPage.name,
+          oldPageCommit,
+          commitSha,
+          iconChangesCumulative
+        );
+        if (finalName === category) {
+          logger.info(`Found boundary shift: "${existingPage.name}" → "${category}"`);
+          return { page: existingPage, reason: 'icon boundaries shifted' };
+        }
+      }
+    }
+  }
+
+  return null;
+}
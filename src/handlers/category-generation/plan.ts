@@ -0,0 +1,200 @@
+/**
+ * @module @figma/handlers/category-generation/plan
+ *
+ * Dry-run planning for category generation.
+ *
+ * Builds a structured plan of what `handleCategoryGeneration` would do for a
+ * category without touching the document or fetching any SVGs, so a reviewer
+ * can approve a run before committing to hours of downloads.
+ *
+ * **Classification** (mirrors `IconProcessor.processIcon`):
+ * - `create`: no ComponentSet exists yet
+ * - `fillGaps`: ComponentSet is incomplete, missing variants will be added
+ * - `fastForward`: complete, SHA differs, icon unchanged across commits → SHA bump only
+ * - `update`: complete but SHA differs and icon changed (or no SHA stored)
+ * - `upToDate`: complete with matching SHA
+ * - `deprecate`: ComponentSets on the page that are no longer in the category
+ *
+ * Every icon in `create`, `fillGaps` and `update` downloads every variant of
+ * the profile, which is what `estimatedDownloads` counts.
+ *
+ * @example
+ * ```typescript
+ * const plan = await buildGenerationPlan({
+ *   category: 'Set 14: list-lock',
+ *   icons: getIconRange('list', 'lock_person'),
+ *   commitSha,
+ *   iconChangesData,
+ *   iconChangesCumulative,
+ *   variantProfile: FULL_VARIANT_PROFILE,
+ * });
+ *
+ * console.log(`${plan.create.length} new icons, ${plan.estimatedDownloads} downloads`);
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { checkIconNeedsUpdate } from '@lib/icons/metadata-helpers';
+import { getProfileVariantCount, type VariantProfile } from '@lib/icons/variant-profile';
+import { handleDeprecatedIcons } from '@lib/icons/deprecation-handler';
+import type { ComponentSetLayout } from '@lib/icons/set-layout';
+import type { GenerationPlan } from '@/types';
+import { hasIconChangedCumulatively, type CumulativeChangeData } from '../cumulative-changes';
+import type { IconProcessorConfig } from './icon-processor';
+import { findPageToRename } from './page-rename';
+
+/**
+ * Inputs for building a generation plan
+ *
+ * @interface GenerationPlanInput
+ * @property {string} category - Category name (also the target page name)
+ * @property {string[]} icons - Icons in the category
+ * @property {string[]} [pageIcons] - Every icon that belongs on the page, when `icons` is a
+ *   subset of the range (defaults to `icons`; used for the deprecation scan)
+ * @property {string} commitSha - Commit SHA that would be generated
+ * @property {object | null} iconChangesData - Direct commit-to-commit changes
+ * @property {object | null} iconChangesCumulative - Multi-commit change tracking
+ * @property {VariantProfile} variantProfile - Variants generated per icon
+ * @property {ComponentSetLayout} [setLayout='combined'] - One ComponentSet per icon or per style
+ */
+export interface GenerationPlanInput {
+  category: string;
+  icons: string[];
+  pageIcons?: string[];
+  commitSha: string;
+  iconChangesData: IconProcessorConfig['iconChangesData'];
+  iconChangesCumulative: CumulativeChangeData | null;
+  variantProfile: VariantProfile;
+  setLayout?: ComponentSetLayout;
+}
+
+/**
+ * Find the page a category would be generated on, without creating or renaming it
+ *
+ * Matches the exact category name first, then the page `handleCategoryGeneration`
+ * would rename (see `findPageToRename`).
+ *
+ * @param {string} category - Category name
+ * @param {string} commitSha - Commit SHA that would be generated
+ * @param {CumulativeChangeData | null} iconChangesCumulative - Multi-commit change tracking
+ * @returns {object} Existing page (if any) and the name it would be renamed from
+ */
+function findCategoryPage(
+  category: string,
+  commitSha: string,
+  iconChangesCumulative: CumulativeChangeData | null
+): {
+  page: PageNode | null;
+  renamePageFrom: string | null;
+} {
+  const exact = figma.root.children.find((page) => page.name === category);
+  if (exact) {
+    return { page: exact, renamePageFrom: null };
+  }
+
+  const rename = findPageToRename(category, commitSha, iconChangesCumulative);
+  if (rename) {
+    return { page: rename.page, renamePageFrom: rename.page.name };
+  }
+
+  return { page: null, renamePageFrom: null };
+}
+
+/**
+ * Build a dry-run plan for a category
+ *
+ * Read-only: runs the same metadata checks as a real run but never modifies
+ * nodes or performs network requests.
+ *
+ * @param {GenerationPlanInput} input - Plan inputs
+ * @returns {Promise<GenerationPlan>} Structured plan
+ */
+export async function buildGenerationPlan(input: GenerationPlanInput): Promise<GenerationPlan> {
+  const { category, icons, commitSha, iconChangesData, iconChangesCumulative, variantProfile } =
+    input;
+  const variantsPerIcon = getProfileVariantCount(variantProfile);
+  const { page, renamePageFrom } = findCategoryPage(category, commitSha, iconChangesCumulative);
+
+  const plan: GenerationPlan = {
+    category,
+    commitSha,
+    pageName: category,
+    pageExists: page !== null,
+    renamePageFrom,
+    totalIcons: icons.length,
+    variantsPerIcon,
+    create: [],
+    fillGaps: [],
+    update: [],
+    fastForward: [],
+    upToDate: [],
+    deprecate: [],
+    estimatedDownloads: 0,
+  };
+
+  if (!page) {
+    plan.create = [...icons];
+  } else {
+    const deprecation = await handleDeprecatedIcons(page, input.pageIcons ?? icons, {
+      dryRun: true,
+    });
+    plan.deprecate = deprecation.deprecatedComponents.map((component) => component.name);
+
+    for (const iconName of icons) {
+      const check = checkIconNeedsUpdate(
+        page,
+        iconName,
+        commitSha,
+        variantProfile,
+        input.setLayout
+      );
+      const existing = check.existingComponentSet;
+
+      if (!existing) {
+        plan.create.push(iconName);
+        continue;
+      }
+
+      if (check.fillGapsOnly) {
+        plan.fillGaps.push({ iconName, existingVariants: check.existingVariantCount });
+        continue;
+      }
+
+      if (!check.needsUpdate) {
+        plan.upToDate.push(iconName);
+        continue;
+      }
+
+      const storedSha = existing.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA);
+      if (
+        storedSha &&
+        storedSha !== commitSha &&
+        !hasIconChangedCumulatively(
+          iconName,
+          storedSha,
+          commitSha,
+          iconChangesData,
+          iconChangesCumulative
+        )
+      ) {
+        plan.fastForward.push(iconName);
+        continue;
+      }
+
+      plan.update.push({ iconName, reason: check.reason });
+    }
+  }
+
+  plan.estimatedDownloads =
+    (plan.create.length + plan.fillGaps.length + plan.update.length) * variantsPerIcon;
+
+  logger.info(
+    `Plan for ${category}: ${plan.create.length} create, ${plan.fillGaps.length} fill gaps, ` +
+      `${plan.update.length} update, ${plan.fastForward.length} fast-forward, ` +
+      `${plan.upToDate.length} up-to-date, ${plan.deprecate.length} deprecate ` +
+      `(~${plan.estimatedDownloads} downloads)`
+  );
+
+  return plan;
+}
@@ -73,7 +73,7 @@
  * ```
  */
 
-import { PLUGIN_MESSAGES } from '@/types';
+import { PLUGIN_MESSAGES, type FetchRate } from '@/types';
 
 /**
  * Configuration for progress tracker
@@ -96,11 +96,13 @@ export interface ProgressTrackerConfig {
  * @property {string} message - Status message to display
  * @property {string} currentIcon - Current icon being processed
  * @property {number} [progress] - Current icon progress (0-100)
+ * @property {FetchRate} [fetchRate] - Live download concurrency and throughput
  */
 export interface ProgressUpdateParams {
   message: string;
   currentIcon: string;
   progress?: number;
+  fetchRate?: FetchRate;
 }
 
 /**
@@ -113,6 +115,7 @@ export interface ProgressUpdateParams {
  * @property {number} [completedIcons] - Number of completed icons
  * @property {number} [totalIcons] - Total number of icons
  * @property {number} [currentIconProgress] - Current icon progress (0-100)
+ * @property {FetchRate} [fetchRate] - Live download concurrency and throughput
  */
 export interface ProgressMessage {
   type: string;
@@ -121,6 +124,7 @@ export interface ProgressMessage {
   completedIcons?: number;
   totalIcons?: number;
   currentIconProgress?: number;
+  fetchRate?: FetchRate;
 }
 
 /**
@@ -232,6 +236,7 @@ export class ProgressTracker {
       completedIcons: this.completedIcons,
       totalIcons: this.totalIcons,
       currentIconProgress: this.currentIconProgress,
+      fetchRate: params.fetchRate,
     });
   }
 
@@ -265,6 +270,18 @@ export class ProgressTracker {
     });
   }
 
+  /**
+   * Set the completed icon count without sending a message
+   *
+   * Used when resuming from a checkpoint so overall progress starts where the
+   * previous run stopped.
+   *
+   * @param {number} count - Icons already completed
+   */
+  setCompletedCount(count: number): void {
+    this.completedIcons = count;
+  }
+
   /**
    * Send warning message to UI
    *
@@ -6,15 +6,17 @@
  * This module handles GitHub rate limiting (429 responses) with exponential backoff
  * and automatic retries. It provides:
  *
- * - **Failure Detection**: Identifies rate limiting from batch fetch results
+ * - **Failure Detection**: Retries only failures classified as retryable
+ *   (rate limited, server or network error); missing variants are not retried
  * - **Exponential Backoff**: 1min → 2min → 4min → 8min → 10min (max)
  * - **Progress Updates**: UI updates every 10 seconds during cooldown
  * - **Retry Logic**: Up to 4 retry attempts with aggregated results
  * - **Cancellation Support**: Can be interrupted by user
  *
  * **Algorithm**:
- * 1. Detect failures in initial batch fetch (any failed = rate limiting)
- * 2. Extract failed URLs by comparing with successful results
+ * 1. Split the initial fetch's failures into retryable and permanent
+ *    (`not-found`, `invalid-svg`) using their classified reason
+ * 2. Return straight away if nothing is retryable
  * 3. Wait with exponential backoff (1, 2, 4, 8, 10 minutes max)
  * 4. Retry failed items only
  * 5. Aggregate results and repeat if still have failures
@@ -24,6 +26,10 @@
  * GitHub rate limits are time-based. Aggressive retries make it worse.
  * Conservative backoff ensures we don't hit limits again immediately.
  *
+ * Short-term throttling is handled inside `batchFetchSVGs` by its
+ * `ConcurrencyController` (halving concurrency, honouring `Retry-After`), so
+ * this backoff only applies to items that still failed after that.
+ *
  * @example Basic usage
  * ```typescript
  * const limiter = new RateLimiter({
@@ -31,16 +37,23 @@
  *   onProgress: (msg) => figma.ui.postMessage({ type: 'PROGRESS', message: msg })
  * });
  *
- * const results = await limiter.executeWithRetry(
+ * const { results, failures } = await limiter.executeWithRetry(
  *   fetchItems,
  *   async (items) => await batchFetchSVGs(items),
- *   { iconName: 'home', completedIcons: 5 }
+ *   { iconName: 'home', completedIcons: 5, currentIconProgress: 50 }
  * );
  * ```
  */
 
 import { logger } from '@lib/utils';
-import type { FetchItem, FetchResult, BatchFetchStats } from '@lib/icons';
+import {
+  describeFetchFailures,
+  isRetryableFailure,
+  type FetchFailure,
+  type FetchItem,
+  type FetchResult,
+  type BatchFetchStats,
+} from '@lib/icons';
 
 /**
  * Configuration for rate limiter
@@ -81,13 +94,14 @@ export interface ProgressContext {
  * @property {FetchResult[]} results - All successfully fetched results (including retries)
  * @property {BatchFetchStats} stats - Aggregated statistics
  * @property {number} retriesUsed - Number of retry attempts that were needed
- * @property {FetchItem[]} failedItems - Items that still failed after all retries
+ * @property {FetchFailure[]} failures - Items that still failed (permanent failures and
+ *   retryable ones that ran out of attempts), with their last classified reason
  */
 export interface BatchFetchWithRetryResult {
   results: FetchResult[];
   stats: BatchFetchStats;
   retriesUsed: number;
-  failedItems: FetchItem[];
+  failures: FetchFailure[];
 }
 
 /**
@@ -124,24 +138,23 @@ export class RateLimiter {
    * @param {FetchItem[]} items - Items to fetch
    * @param {Function} fetchFunction - Function to perform the fetch (e.g., batchFetchSVGs)
    * @param {ProgressContext} context - Context for progress updates
-   * @param {Function} urlExtractor - Function to extract URL from result for comparison
    * @returns {Promise<BatchFetchWithRetryResult>} Fetch results with retry statistics
    *
    * @example
    * ```typescript
    * const results = await limiter.executeWithRetry(
    *   fetchItems,
-   *   (items) => batchFetchSVGs(items, { batchSize: 20 }),
-   *   { iconName: 'home', completedIcons: 5, currentIconProgress: 50 },
-   *   (result) => generateGitHubUrl(result.iconName, result.style, result.variant)
+   *   (items) => batchFetchSVGs(items, { concurrency }),
+   *   { iconName: 'home', completedIcons: 5, currentIconProgress: 50 }
    * );
    * ```
    */
   async executeWithRetry<T extends FetchResult>(
     items: FetchItem[],
-    fetchFunction: (items: FetchItem[]) => Promise<{ results: T[]; stats: BatchFetchStats }>,
-    context: ProgressContext,
-    urlExtractor: (result: T) => string
+    fetchFunction: (
+      items: FetchItem[]
+    ) => Promise<{ results: T[]; failures: FetchFailure[]; stats: BatchFetchStats }>,
+    context: ProgressContext
   ): Promise<BatchFetchWithRetryResult> {
     // Initial fetch attempt
     const initialResult = await fetchFunction(items);
@@ -150,36 +163,35 @@ export class RateLimiter {
       `Initial fetch: ${initialResult.stats.successful} of ${initialResult.stats.total} succeeded`
     );
 
-    // Check if we have any failures (likely rate limiting)
-    const hasAnyFailures = initialResult.stats.failed > 0;
+    // Missing or broken variants won't appear by waiting - only retry the rest
+    const permanentFailures = initialResult.failures.filter((f) => !isRetryableFailure(f.reason));
+    let retryableFailures = initialResult.failures.filter((f) => isRetryableFailure(f.reason));
 
-    if (!hasAnyFailures) {
-      // No failures - return immediately
+    if (permanentFailures.length > 0) {
+      logger.warn(
+        `Not retrying ${permanentFailures.length} variant(s) of ${context.iconName}: ${describeFetchFailures(permanentFailures)}`
+      );
+    }
+
+    if (retryableFailures.length === 0) {
       return {
         results: initialResult.results,
         stats: initialResult.stats,
         retriesUsed: 0,
-        failedItems: [],
+        failures: permanentFailures,
       };
     }
 
     // Rate limiting detected
-    const failureRate = initialResult.stats.failed / initialResult.stats.total;
     logger.warn(
-      `Detected ${initialResult.stats.failed} failed downloads (${Math.round(failureRate * 100)}% failure rate) - retrying with backoff`
+      `Detected ${retryableFailures.length} retryable failed downloads (${describeFetchFailures(retryableFailures)}) - retrying with backoff`
     );
 
-    // Find which items failed by comparing URLs
-    const successfulUrls = new Set(initialResult.results.map(urlExtractor));
-    let remainingFailedItems = items.filter((item) => !successfulUrls.has(item.url));
-
-    logger.info(`Will retry ${remainingFailedItems.length} failed items`);
-
     // Start retry loop
     let retryAttempt = 0;
-    let allResults = [...initialResult.results];
+    const allResults = [...initialResult.results];
 
-    while (remainingFailedItems.length > 0 && retryAttempt < this.maxRetries) {
+    while (retryableFailures.length > 0 && retryAttempt < this.maxRetries) {
       // Check for cancellation
       if (this.isCancelled()) {
         logger.info('Retry cancelled by user');
@@ -193,17 +205,17 @@ export class RateLimiter {
       const waitMs = waitMinutes * 60 * 1000;
 
       logger.info(
-        `Retry attempt ${retryAttempt}/${this.maxRetries}: Waiting ${waitMinutes} minutes before retrying ${remainingFailedItems.length} items`
+        `Retry attempt ${retryAttempt}/${this.maxRetries}: Waiting ${waitMinutes} minutes before retrying ${retryableFailures.length} items`
       );
 
       // Notify about cooldown start
       this.onProgress?.(
-        `⏸️ Rate limited - waiting ${waitMinutes} min before retrying ${remainingFailedItems.length} variants for ${context.iconName}...`,
+        `⏸️ Rate limited - waiting ${waitMinutes} min before retrying ${retryableFailures.length} variants for ${context.iconName}...`,
         { ...context, currentIconProgress: 60 }
       );
 
       // Wait with periodic UI updates
-      await this.waitWithProgress(waitMs, context, remainingFailedItems.length);
+      await this.waitWithProgress(waitMs, context, retryableFailures.length);
 
       // Check for cancellation after wait
       if (this.isCancelled()) {
@@ -213,12 +225,12 @@ export class RateLimiter {
 
       // Notify about retry start
       this.onProgress?.(
-        `🔄 Retrying ${remainingFailedItems.length} failed variants for ${context.iconName}...`,
+        `🔄 Retrying ${retryableFailures.length} failed variants for ${context.iconName}...`,
         { ...context, currentIconProgress: 65 }
       );
 
       // Retry failed items
-      const retryResult = await fetchFunction(remainingFailedItems);
+      const retryResult = await fetchFunction(retryableFailures.map((f) => f.item));
 
       logger.info(
         `Retry ${retryAttempt}: Fetched ${retryResult.stats.successful} of ${retryResult.stats.total} items`
@@ -227,16 +239,16 @@ export class RateLimiter {
       // Add successful retries to results
       allResults.push(...retryResult.results);
 
-      // Update remaining failed items for next retry
-      const newSuccessfulUrls = new Set(retryResult.results.map(urlExtractor));
-      remainingFailedItems = remainingFailedItems.filter(
-        (item) => !newSuccessfulUrls.has(item.url)
-      );
+      // A retry can turn out to be permanent (e.g. 429 first, then 404)
+      permanentFailures.push(...retryResult.failures.filter((f) => !isRetryableFailure(f.reason)));
+      retryableFailures = retryResult.failures.filter((f) => isRetryableFailure(f.reason));
 
-      if (remainingFailedItems.length === 0) {
-        logger.info(`✓ All items successfully fetched after ${retryAttempt} retry attempts`);
+      if (retryableFailures.length === 0) {
+        logger.info(`✓ All retryable items fetched after ${retryAttempt} retry attempts`);
         this.onProgress?.(
-          `✓ All variants fetched for ${context.iconName} after ${retryAttempt} retries`,
+          permanentFailures.length === 0
+            ? `✓ All variants fetched for ${context.iconName} after ${retryAttempt} retries`
+            : `✓ Retried variants fetched for ${context.iconName} after ${retryAttempt} retries`,
           { ...context, currentIconProgress: 75 }
         );
         break;
@@ -244,9 +256,9 @@ export class RateLimiter {
     }
 
     // Check if we still have failures
-    if (remainingFailedItems.length > 0) {
+    if (retryableFailures.length > 0) {
       logger.warn(
-        `Still have ${remainingFailedItems.length} failed items after ${this.maxRetries} retry attempts`
+        `Still have ${retryableFailures.length} failed items after ${retryAttempt} retry attempts`
       );
     }
 
@@ -263,7 +275,7 @@ export class RateLimiter {
       results: allResults,
       stats: finalStats,
       retriesUsed: retryAttempt,
-      failedItems: remainingFailedItems,
+      failures: [...permanentFailures, ...retryableFailures],
     };
   }
 
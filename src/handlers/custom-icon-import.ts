@@ -0,0 +1,116 @@
+/**
+ * @module @figma/handlers/custom-icon-import
+ *
+ * Import command: build ComponentSets from the user's own SVG files.
+ *
+ * Files are grouped by `groupCustomIcons` (see `@lib/icons/custom-icons` for
+ * the accepted filename schemes) and each icon goes through the regular
+ * `IconGenerator`, so custom icons get the same variant properties, SVG
+ * sanitisation and `svg_hash` metadata as Material Symbols. Importing the same
+ * files again only updates the variants whose SVG changed; variants that are
+ * not in the upload are left alone. Icons follow the configured component set
+ * layout, like generated ones.
+ *
+ * Custom icons live on their own page (default "Custom icons"), outside the
+ * `Set NN:` pages, so generation runs and the file audit never touch them.
+ *
+ * @example
+ * ```typescript
+ * const report = await importCustomIcons(files, {
+ *   defaultStyle: 'rounded',
+ *   onProgress: (name, index, total) => logger.info(`Importing ${name} (${index}/${total})`),
+ * });
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import type { ArchiveFile } from '@lib/github/svg-archive';
+import type { IconStyle } from '@lib/github/url-generator';
+import { DEFAULT_CUSTOM_ICONS_PAGE, groupCustomIcons } from '@lib/icons/custom-icons';
+import { IconGenerator } from '@lib/icons/generator';
+import { DEFAULT_COMPONENT_SET_LAYOUT, type ComponentSetLayout } from '@lib/icons/set-layout';
+import { PageManager } from '@lib/pages/manager';
+import type { CustomImportEntry, CustomImportReport } from '@/types';
+
+/**
+ * Import options
+ *
+ * @interface CustomImportOptions
+ * @property {string} [pageName='Custom icons'] - Page to create or update the icons on
+ * @property {IconStyle} [defaultStyle='rounded'] - Style for files whose path doesn't name one
+ * @property {ComponentSetLayout} [setLayout='combined'] - One set per icon or per style
+ * @property {Function} [onProgress] - Called before each icon is built
+ * @property {Function} [isCancelled] - Checked between icons
+ */
+export interface CustomImportOptions {
+  pageName?: string;
+  defaultStyle?: IconStyle;
+  setLayout?: ComponentSetLayout;
+  onProgress?: (iconName: string, index: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Create or update ComponentSets from custom SVG files
+ *
+ * @param {ArchiveFile[]} files - Dropped SVG files (path and content)
+ * @param {CustomImportOptions} [options={}] - Import options
+ * @returns {Promise<CustomImportReport>} Per-icon outcome and skipped files
+ */
+export async function importCustomIcons(
+  files: ArchiveFile[],
+  options: CustomImportOptions = {}
+): Promise<CustomImportReport> {
+  const pageName = options.pageName?.trim() || DEFAULT_CUSTOM_ICONS_PAGE;
+  const { icons, skipped } = groupCustomIcons(files, options.defaultStyle);
+  const report: CustomImportReport = { pageName, icons: [], skipped };
+
+  for (const entry of skipped) {
+    logger.warn(`Skipped ${entry.path}: ${entry.reason}`);
+  }
+  if (icons.size === 0) {
+    return report;
+  }
+
+  const page = await new PageManager().getOrCreatePage(pageName, { autoSwitch: true });
+  const generator = new IconGenerator({
+    page,
+    checkContentChanges: true,
+    removeUnrequestedVariants: false,
+    setLayout: options.setLayout ?? DEFAULT_COMPONENT_SET_LAYOUT,
+  });
+
+  let index = 0;
+  for (const [iconName, variants] of icons) {
+    if (options.isCancelled?.()) {
+      logger.info(`Import cancelled after ${index} of ${icons.size} icons`);
+      break;
+    }
+    options.onProgress?.(iconName, ++index, icons.size);
+
+    const entry: CustomImportEntry = {
+      name: iconName,
+      nodeId: '',
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      invalid: [],
+    };
+
+    try {
+      const result = await generator.generateIcon(iconName, variants);
+      entry.nodeId = result.componentSet.id;
+      entry.created = result.variantsCreated;
+      entry.updated = result.variantsUpdated;
+      entry.unchanged = result.variantsSkipped;
+      entry.invalid = result.invalidVariants.map((error) => error.message);
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to import ${iconName}:`, error);
+    }
+
+    report.icons.push(entry);
+  }
+
+  return report;
+}
@@ -0,0 +1,211 @@
+/**
+ * @module @figma/handlers/file-audit
+ *
+ * File-wide icon health audit.
+ *
+ * Walks every set page and collects, in one report, the problems that are
+ * otherwise only visible through scattered diagnostics or incidental cleanup
+ * during generation.
+ *
+ * **Checks**:
+ * - Incomplete ComponentSets, with the exact missing variant names (measured
+ *   against the profile stored on each set)
+ * - Commit SHA missing or different from the bundled icon list
+ * - Variants without an `svg_hash` (can't be incrementally updated)
+ * - Variants wrapped in an extra Frame (ComponentNode → Frame → Vector)
+ * - Variants with leftover fills on the component frame
+ * - Icon names present more than once across set pages
+ * - `deprecated_` ComponentSets still in the file
+ *
+ * **Set Pages**:
+ * Pages named `Set NN: …`, `Cat NN: …` (legacy) or `Icons NN: …`
+ * (alphabetical strategy). Scratch and documentation pages are ignored.
+ *
+ * The audit is read-only; see the repair command for fixing what it finds.
+ *
+ * @example
+ * ```typescript
+ * const report = await auditFile({
+ *   commitSha: COMMIT_SHA,
+ *   onProgress: (page, index, total) => logger.info(`Auditing ${page} (${index}/${total})`),
+ * });
+ * logger.info(summarizeAuditReport(report));
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { getCommitSha, getMissingVariantNames, getSvgHash } from '@lib/icons/metadata-helpers';
+import { getProfileVariantCount, getStoredVariantProfile } from '@lib/icons/variant-profile';
+import type { AuditIconRef, FileAuditReport } from '@/types';
+
+/**
+ * Page names that hold generated icon sets
+ */
+const SET_PAGE_PATTERN = /^(?:Set|Cat|Icons) \d+:/;
+
+/**
+ * Audit options
+ *
+ * @interface FileAuditOptions
+ * @property {string} commitSha - Commit SHA of the bundled icon list
+ * @property {Function} [onProgress] - Called before each page is audited
+ */
+export interface FileAuditOptions {
+  commitSha: string;
+  onProgress?: (pageName: string, pageIndex: number, totalPages: number) => void;
+}
+
+/**
+ * Check if a page holds generated icon sets
+ *
+ * @param {PageNode} page - Page to check
+ * @returns {boolean} True for `Set NN:`, `Cat NN:` and `Icons NN:` pages
+ */
+export function isSetPage(page: PageNode): boolean {
+  return SET_PAGE_PATTERN.test(page.name);
+}
+
+/**
+ * Check if a variant has the extra Frame wrapper left by `createNodeFromSvg`
+ *
+ * @private
+ */
+function hasExtraFrame(variant: ComponentNode): boolean {
+  return variant.children.length === 1 && variant.children[0].type === 'FRAME';
+}
+
+/**
+ * Check if a variant's component frame still has fills
+ *
+ * @private
+ */
+function hasLeftoverFills(variant: ComponentNode): boolean {
+  return Array.isArray(variant.fills) && variant.fills.length > 0;
+}
+
+/**
+ * Audit a single ComponentSet into the report
+ *
+ * @private
+ */
+function auditComponentSet(
+  componentSet: ComponentSetNode,
+  ref: AuditIconRef,
+  commitSha: string,
+  report: FileAuditReport
+): void {
+  const profile = getStoredVariantProfile(componentSet);
+  const missing = getMissingVariantNames(componentSet, profile);
+  if (missing.length > 0) {
+    report.incomplete.push({ ...ref, expected: getProfileVariantCount(profile), missing });
+  }
+
+  const storedSha = getCommitSha(componentSet);
+  if (storedSha !== commitSha) {
+    report.staleCommitSha.push({ ...ref, commitSha: storedSha });
+  }
+
+  const missingHash: string[] = [];
+  const extraFrames: string[] = [];
+  const leftoverFills: string[] = [];
+
+  for (const child of componentSet.children) {
+    if (child.type !== 'COMPONENT') {
+      continue;
+    }
+    if (!getSvgHash(child)) missingHash.push(child.name);
+    if (hasExtraFrame(child)) extraFrames.push(child.name);
+    if (hasLeftoverFills(child)) leftoverFills.push(child.name);
+  }
+
+  if (missingHash.length > 0) report.missingSvgHash.push({ ...ref, variants: missingHash });
+  if (extraFrames.length > 0) report.extraFrames.push({ ...ref, variants: extraFrames });
+  if (leftoverFills.length > 0) report.leftoverFills.push({ ...ref, variants: leftoverFills });
+}
+
+/**
+ * Audit every set page in the document
+ *
+ * Yields to the event loop between pages so progress messages reach the UI.
+ *
+ * @param {FileAuditOptions} options - Commit SHA and progress callback
+ * @returns {Promise<FileAuditReport>} Report of every issue found
+ */
+export async function auditFile(options: FileAuditOptions): Promise<FileAuditReport> {
+  const report: FileAuditReport = {
+    generatedAt: new Date().toISOString(),
+    commitSha: options.commitSha,
+    pagesScanned: 0,
+    componentSetsScanned: 0,
+    incomplete: [],
+    staleCommitSha: [],
+    missingSvgHash: [],
+    extraFrames: [],
+    leftoverFills: [],
+    duplicates: [],
+    deprecated: [],
+  };
+
+  const pages = figma.root.children.filter(isSetPage);
+  const locations = new Map<string, AuditIconRef[]>();
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i];
+    options.onProgress?.(page.name, i + 1, pages.length);
+
+    const componentSets = page.findAllWithCriteria({ types: ['COMPONENT_SET'] });
+    for (const componentSet of componentSets) {
+      const ref: AuditIconRef = {
+        name: componentSet.name,
+        pageName: page.name,
+        nodeId: componentSet.id,
+      };
+      report.componentSetsScanned++;
+
+      if (componentSet.name.startsWith('deprecated_')) {
+        report.deprecated.push(ref);
+        continue;
+      }
+
+      const existing = locations.get(ref.name);
+      if (existing) {
+        existing.push(ref);
+      } else {
+        locations.set(ref.name, [ref]);
+      }
+
+      auditComponentSet(componentSet, ref, options.commitSha, report);
+    }
+
+    report.pagesScanned++;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  for (const [name, refs] of locations) {
+    if (refs.length > 1) {
+      report.duplicates.push({ name, locations: refs });
+    }
+  }
+
+  logger.info(summarizeAuditReport(report));
+  return report;
+}
+
+/**
+ * One-line summary of an audit report
+ *
+ * @param {FileAuditReport} report - Audit report
+ * @returns {string} e.g. "Audited 3891 sets on 27 pages: 2 incomplete, 0 stale SHA, ..."
+ */
+export function summarizeAuditReport(report: FileAuditReport): string {
+  return (
+    `Audited ${report.componentSetsScanned} sets on ${report.pagesScanned} pages: ` +
+    `${report.incomplete.length} incomplete, ` +
+    `${report.staleCommitSha.length} stale SHA, ` +
+    `${report.missingSvgHash.length} missing svg_hash, ` +
+    `${report.extraFrames.length} extra frames, ` +
+    `${report.leftoverFills.length} leftover fills, ` +
+    `${report.duplicates.length} duplicates, ` +
+    `${report.deprecated.length} deprecated`
+  );
+}
@@ -0,0 +1,313 @@
+/**
+ * @module @figma/handlers/generation-config
+ *
+ * Turns a UI `GenerationConfig` into category generation jobs.
+ *
+ * `GenerationConfig` describes a run declaratively (style, weights, page
+ * layout, which sets, which icons). This module resolves it into the same
+ * `{ category, categoryData }` jobs the generation queue already runs, plus the
+ * variant profile those jobs generate with.
+ *
+ * **Fields**:
+ * - `style` / `weights`: replace the styles and weights axes of the current
+ *   variant profile (fills, grades and optical sizes are kept)
+ * - `categories`: sets from `categories-summary.json` to draw icons from
+ *   (empty or missing → every set)
+ * - `specificIcons`: only these icons are generated; unknown names are reported
+ *   with nearest-match suggestions. With the `category` strategy each icon goes to
+ *   its set page from `category-mapping.json`
+ * - `scratchPage`: put every specific icon on this one page instead
+ * - `pageStrategy`:
+ *   - `category`: one page per set (e.g. "Set 01: 10k-air")
+ *   - `alphabetical`: consecutive pages of `iconsPerPage` icons ("Icons 01: 10k-ala")
+ *   - `hybrid`: one page per set, sets larger than `iconsPerPage` split into
+ *     parts ("Set 03: art-bat (1/2)")
+ *
+ * Page boundaries are computed before `specificIcons` is applied, so the same
+ * icon always lands on the same page regardless of which icons were requested.
+ *
+ * @example
+ * ```typescript
+ * const errors = validateGenerationConfig(config, categories);
+ * if (errors.length === 0) {
+ *   const { jobs, variantProfile } = resolveGenerationConfig(config, categories, storedProfile);
+ *   await generationQueue.enqueue(jobs);
+ * }
+ * ```
+ */
+
+import { DEFAULT_ICONS_PER_PAGE } from '@lib/constants';
+import { ALL_ICONS, getIconRange } from '@lib/icons/all-icons';
+import { getIconCategory, validateIconNames, type UnknownIconName } from '@lib/icons/icon-lookup';
+import {
+  ALL_ICON_STYLES,
+  FULL_VARIANT_PROFILE,
+  normalizeVariantProfile,
+  type VariantProfile,
+} from '@lib/icons/variant-profile';
+import type { GenerationConfig } from '@/types';
+import type { QueueJobInput } from './generation-queue';
+
+/**
+ * Icon range of a set (entry of `categories-summary.json`)
+ *
+ * @interface CategoryRange
+ * @property {string} name - Set name (e.g., "Set 01: 10k-air")
+ * @property {string} firstIcon - First icon (inclusive)
+ * @property {string} lastIconExclusive - Exclusive boundary, or '__END__' for the last set
+ */
+export interface CategoryRange {
+  name: string;
+  firstIcon: string;
+  lastIconExclusive: string;
+}
+
+/**
+ * Jobs and profile for a configured run
+ *
+ * @interface ResolvedGenerationConfig
+ * @property {QueueJobInput[]} jobs - Pages to generate, in order
+ * @property {VariantProfile} variantProfile - Variants generated for every job
+ * @property {UnknownIconName[]} unknownIcons - Requested icons that are not in the icon list
+ * @property {string[]} unplacedIcons - Requested icons whose set is not part of the run
+ * @property {number} totalIcons - Icons across all jobs
+ */
+export interface ResolvedGenerationConfig {
+  jobs: QueueJobInput[];
+  variantProfile: VariantProfile;
+  unknownIcons: UnknownIconName[];
+  unplacedIcons: string[];
+  totalIcons: number;
+}
+
+const PAGE_STRATEGIES: GenerationConfig['pageStrategy'][] = ['category', 'alphabetical', 'hybrid'];
+
+/**
+ * Check a config before resolving it
+ *
+ * @param {GenerationConfig} config - Config from the UI
+ * @param {CategoryRange[]} categories - Known sets
+ * @returns {string[]} Problems found (empty when valid)
+ */
+export function validateGenerationConfig(
+  config: GenerationConfig,
+  categories: CategoryRange[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!ALL_ICON_STYLES.includes(config.style)) {
+    errors.push(`Unknown style: ${config.style}`);
+  }
+
+  if (!config.weights || config.weights.length === 0) {
+    errors.push('At least one weight must be selected');
+  } else {
+    const invalid = config.weights.filter(
+      (weight) => !(FULL_VARIANT_PROFILE.weights as number[]).includes(weight)
+    );
+    if (invalid.length > 0) {
+      errors.push(`Unsupported weight(s): ${invalid.join(', ')}`);
+    }
+  }
+
+  if (!PAGE_STRATEGIES.includes(config.pageStrategy)) {
+    errors.push(`Unknown page strategy: ${config.pageStrategy}`);
+  }
+
+  if (
+    config.iconsPerPage !== undefined &&
+    (!Number.isInteger(config.iconsPerPage) || config.iconsPerPage < 1)
+  ) {
+    errors.push(`Icons per page must be a positive whole number (got ${config.iconsPerPage})`);
+  }
+
+  const knownNames = new Set(categories.map((category) => category.name));
+  const unknownCategories = (config.categories || []).filter((name) => !knownNames.has(name));
+  if (unknownCategories.length > 0) {
+    errors.push(`Unknown set(s): ${unknownCategories.join(', ')}`);
+  }
+
+  if (config.specificIcons && config.specificIcons.length > 0) {
+    const known = new Set(ALL_ICONS);
+    if (!config.specificIcons.some((iconName) => known.has(iconName))) {
+      errors.push('None of the requested icons exist in the icon list');
+    }
+  }
+
+  if (config.scratchPage !== undefined) {
+    if (!config.scratchPage.trim()) {
+      errors.push('Scratch page name must not be empty');
+    } else if (/^(?:Set|Cat) \d+:/.test(config.scratchPage)) {
+      // Set pages are renamed and deprecation-scanned by set number
+      errors.push(`Scratch page name must not look like a set page: ${config.scratchPage}`);
+    }
+
+    if (!config.specificIcons || config.specificIcons.length === 0) {
+      errors.push('A scratch page needs a list of specific icons');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build a job for an icon range, restricted to the wanted icons
+ *
+ * @private
+ */
+function createJob(
+  name: string,
+  firstIcon: string,
+  lastIconExclusive: string,
+  wanted: Set<string> | null
+): QueueJobInput | null {
+  const range = getIconRange(firstIcon, lastIconExclusive);
+  const icons = wanted ? range.filter((iconName) => wanted.has(iconName)) : range;
+
+  if (icons.length === 0) {
+    return null;
+  }
+
+  return {
+    category: name,
+    categoryData: { firstIcon, lastIconExclusive },
+    // Only send an explicit list when it is narrower than the range
+    icons: icons.length === range.length ? undefined : icons,
+  };
+}
+
+/**
+ * Exclusive boundary after the last icon of a page
+ *
+ * @private
+ */
+function boundaryAfter(iconName: string): string {
+  const next = ALL_ICONS[ALL_ICONS.indexOf(iconName) + 1];
+  return next ?? '__END__';
+}
+
+/**
+ * Short page label like the set names: first three letters of the first and last icon
+ *
+ * @private
+ */
+function rangeLabel(icons: string[]): string {
+  return `${icons[0].substring(0, 3)}-${icons[icons.length - 1].substring(0, 3)}`;
+}
+
+/**
+ * Resolve a config into generation jobs
+ *
+ * Call `validateGenerationConfig` first; invalid fields are not re-checked here.
+ *
+ * @param {GenerationConfig} config - Config from the UI
+ * @param {CategoryRange[]} categories - Known sets, in order
+ * @param {VariantProfile} baseProfile - Current profile (axes not covered by the config)
+ * @returns {ResolvedGenerationConfig} Jobs and variant profile for the run
+ */
+export function resolveGenerationConfig(
+  config: GenerationConfig,
+  categories: CategoryRange[],
+  baseProfile: VariantProfile = FULL_VARIANT_PROFILE
+): ResolvedGenerationConfig {
+  const variantProfile = normalizeVariantProfile({
+    ...baseProfile,
+    styles: [config.style],
+    weights: config.weights as VariantProfile['weights'],
+  });
+
+  const categoryNames = config.categories || [];
+  const selected =
+    categoryNames.length > 0
+      ? categories.filter((category) => categoryNames.includes(category.name))
+      : categories;
+
+  const requested = validateIconNames(config.specificIcons || []);
+  const wanted = requested.valid.length > 0 ? new Set(requested.valid) : null;
+  const unplacedIcons: string[] = [];
+
+  const iconsPerPage = config.iconsPerPage || DEFAULT_ICONS_PER_PAGE;
+  const jobs: QueueJobInput[] = [];
+  const addJob = (job: QueueJobInput | null) => {
+    if (job) jobs.push(job);
+  };
+
+  if (wanted && config.scratchPage) {
+    // Everything on one page; the whole list is the range so nothing there is deprecated
+    addJob(createJob(config.scratchPage.trim(), ALL_ICONS[0], '__END__', wanted));
+  } else if (wanted && config.pageStrategy === 'category') {
+    // Each icon on the page of the set it belongs to
+    const bySet = new Map<string, Set<string>>();
+    for (const iconName of requested.valid) {
+      const setName = getIconCategory(iconName);
+      if (!setName || !selected.some((category) => category.name === setName)) {
+        unplacedIcons.push(iconName);
+        continue;
+      }
+      bySet.set(setName, (bySet.get(setName) || new Set<string>()).add(iconName));
+    }
+
+    for (const category of selected) {
+      const setIcons = bySet.get(category.name);
+      if (setIcons) {
+        addJob(createJob(category.name, category.firstIcon, category.lastIconExclusive, setIcons));
+      }
+    }
+  } else if (config.pageStrategy === 'alphabetical') {
+    // Page boundaries over the selected sets' icons, then filtered
+    const universe = selected.reduce<string[]>(
+      (icons, category) =>
+        icons.concat(getIconRange(category.firstIcon, category.lastIconExclusive)),
+      []
+    );
+
+    for (let start = 0, page = 1; start < universe.length; start += iconsPerPage, page++) {
+      const pageIcons = universe.slice(start, start + iconsPerPage);
+      const pageSet = new Set(pageIcons.filter((iconName) => !wanted || wanted.has(iconName)));
+      addJob(
+        createJob(
+          `Icons ${String(page).padStart(2, '0')}: ${rangeLabel(pageIcons)}`,
+          pageIcons[0],
+          boundaryAfter(pageIcons[pageIcons.length - 1]),
+          pageSet
+        )
+      );
+    }
+  } else {
+    for (const category of selected) {
+      const range = getIconRange(category.firstIcon, category.lastIconExclusive);
+
+      if (config.pageStrategy === 'hybrid' && range.length > iconsPerPage) {
+        const parts = Math.ceil(range.length / iconsPerPage);
+        for (let part = 0; part < parts; part++) {
+          const partIcons = range.slice(part * iconsPerPage, (part + 1) * iconsPerPage);
+          addJob(
+            createJob(
+              `${category.name} (${part + 1}/${parts})`,
+              partIcons[0],
+              boundaryAfter(partIcons[partIcons.length - 1]),
+              wanted
+            )
+          );
+        }
+      } else {
+        addJob(createJob(category.name, category.firstIcon, category.lastIconExclusive, wanted));
+      }
+    }
+  }
+
+  for (const job of jobs) {
+    job.variantProfile = variantProfile;
+  }
+
+  const totalIcons = jobs.reduce(
+    (total, job) =>
+      total +
+      (job.icons
+        ? job.icons.length
+        : getIconRange(job.categoryData.firstIcon, job.categoryData.lastIconExclusive).length),
+    0
+  );
+
+  return { jobs, variantProfile, unknownIcons: requested.unknown, unplacedIcons, totalIcons };
+}
@@ -0,0 +1,335 @@
+/**
+ * @module @figma/handlers/generation-queue
+ *
+ * Persistent job queue for running several category generations back-to-back.
+ *
+ * A full regeneration touches every set in `categories-summary.json`, which
+ * takes far longer than anyone wants to watch. The queue accepts a list of
+ * sets, runs them one after another, and persists its state in
+ * `figma.clientStorage` so the run can be resumed after the plugin is closed
+ * and reopened.
+ *
+ * **Job Lifecycle**:
+ * ```
+ * pending → running → done
+ *                   ↘ failed
+ *         ↖ (cancelled or interrupted)
+ * ```
+ *
+ * **Resume Behaviour**:
+ * - A job left `running` when the plugin closed is reset to `pending` on load
+ * - Queued runs resume from the category checkpoint, so work continues at the
+ *   icon after the last one processed
+ *
+ * **Persistence**:
+ * - Stored under `CLIENT_STORAGE_KEYS.GENERATION_QUEUE`
+ * - Saved after every status change so a crash loses at most the running job
+ *
+ * @example Queue two sets and run them
+ * ```typescript
+ * const queue = new GenerationQueue();
+ * await queue.load();
+ * await queue.enqueue([
+ *   { category: 'Set 01: 10k-air', categoryData: { firstIcon: '10k', lastIconExclusive: 'airline_seat_flat' } },
+ *   { category: 'Set 02: airline_seat_flat-arrow', categoryData: { firstIcon: 'airline_seat_flat', lastIconExclusive: 'arrow_back' } },
+ * ]);
+ *
+ * await queue.run(
+ *   (job) => handleCategoryGeneration(job, genConfig),
+ *   () => isCancelled
+ * );
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { CLIENT_STORAGE_KEYS } from '@lib/constants';
+import { PLUGIN_MESSAGES, type QueueJob, type QueueState } from '@/types';
+import type { VariantProfile } from '@lib/icons/variant-profile';
+import type { CategoryGenerationResult } from './category-generation';
+
+/**
+ * Minimal storage interface (subset of `figma.clientStorage`)
+ *
+ * @interface QueueStorage
+ */
+export interface QueueStorage {
+  getAsync(key: string): Promise<unknown>;
+  setAsync(key: string, value: unknown): Promise<void>;
+  deleteAsync(key: string): Promise<void>;
+}
+
+/**
+ * Set to add to the queue
+ *
+ * @interface QueueJobInput
+ * @property {string} category - Category name (e.g., "Set 01: 10k-air")
+ * @property {object} categoryData - Icon range boundaries
+ * @property {string[]} [icons] - Only generate these icons from the range
+ * @property {VariantProfile} [variantProfile] - Variants for this job (overrides the global profile)
+ */
+export interface QueueJobInput {
+  category: string;
+  categoryData: { firstIcon: string; lastIconExclusive: string };
+  icons?: string[];
+  variantProfile?: VariantProfile;
+}
+
+/**
+ * Runs a single queued job (normally wraps `handleCategoryGeneration`)
+ */
+export type QueueJobRunner = (job: QueueJobInput) => Promise<CategoryGenerationResult>;
+
+/**
+ * Configuration for the generation queue
+ *
+ * @interface GenerationQueueConfig
+ * @property {QueueStorage} [storage] - Storage backend (defaults to figma.clientStorage)
+ * @property {Function} [postMessage] - Custom message posting function (for testing)
+ */
+export interface GenerationQueueConfig {
+  storage?: QueueStorage;
+  postMessage?: (message: QueueMessage) => void;
+}
+
+/**
+ * Message posted to the UI: queue state, or a warning about a rejected set
+ */
+type QueueMessage = { type: string; queue?: QueueState; message?: string };
+
+/**
+ * Persistent queue of category generation jobs
+ */
+export class GenerationQueue {
+  private jobs: QueueJob[] = [];
+  private updatedAt = new Date().toISOString();
+  private running = false;
+  private storage: QueueStorage;
+  private postMessage: (message: QueueMessage) => void;
+
+  constructor(config: GenerationQueueConfig = {}) {
+    this.storage = config.storage || figma.clientStorage;
+    this.postMessage = config.postMessage || ((msg) => figma.ui.postMessage(msg));
+  }
+
+  /**
+   * Load persisted queue state
+   *
+   * Jobs left `running` (plugin closed mid-run) are reset to `pending`.
+   *
+   * @returns {Promise<QueueState>} Loaded state
+   */
+  async load(): Promise<QueueState> {
+    try {
+      const stored = (await this.storage.getAsync(CLIENT_STORAGE_KEYS.GENERATION_QUEUE)) as
+        | QueueState
+        | undefined;
+
+      if (stored && Array.isArray(stored.jobs)) {
+        this.jobs = stored.jobs.map((job) =>
+          job.status === 'running' ? { ...job, status: 'pending' } : job
+        );
+        this.updatedAt = stored.updatedAt || this.updatedAt;
+      }
+    } catch (error) {
+      logger.warn('Failed to load generation queue, starting empty:', error);
+      this.jobs = [];
+    }
+
+    const pending = this.jobs.filter((job) => job.status === 'pending').length;
+    if (pending > 0) {
+      logger.info(`Loaded generation queue with ${pending} pending set(s)`);
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Add sets to the queue
+   *
+   * A set already pending takes the new icons and variant profile; finished or
+   * failed sets are reset to pending so they run again. A set that is running
+   * can't change mid-run, so it is rejected with a warning to the UI.
+   *
+   * @param {QueueJobInput[]} inputs - Sets to queue, in run order
+   * @returns {Promise<QueueState>} Updated state
+   */
+  async enqueue(inputs: QueueJobInput[]): Promise<QueueState> {
+    for (const input of inputs) {
+      const existing = this.jobs.find((job) => job.category === input.category);
+
+      if (!existing) {
+        this.jobs.push({
+          category: input.category,
+          categoryData: input.categoryData,
+          icons: input.icons,
+          variantProfile: input.variantProfile,
+          status: 'pending',
+        });
+      } else if (existing.status === 'running') {
+        logger.warn(`Queue: ${input.category} is running, new settings not applied`);
+        this.postMessage({
+          type: PLUGIN_MESSAGES.WARNING,
+          message: `${input.category} is already running - queue it again when it finishes to use the new settings`,
+        });
+      } else {
+        Object.assign(existing, {
+          categoryData: input.categoryData,
+          icons: input.icons,
+          variantProfile: input.variantProfile,
+          status: 'pending',
+          completedIcons: undefined,
+          totalIcons: undefined,
+          error: undefined,
+          startedAt: undefined,
+          finishedAt: undefined,
+        });
+      }
+    }
+
+    await this.save();
+    return this.getState();
+  }
+
+  /**
+   * Remove all jobs from the queue
+   *
+   * A job that is currently running keeps running; it is simply no longer tracked.
+   */
+  async clear(): Promise<void> {
+    this.jobs = [];
+    this.updatedAt = new Date().toISOString();
+
+    try {
+      await this.storage.deleteAsync(CLIENT_STORAGE_KEYS.GENERATION_QUEUE);
+    } catch (error) {
+      logger.warn('Failed to clear persisted generation queue:', error);
+    }
+
+    this.publish();
+  }
+
+  /**
+   * Check whether any job is waiting to run
+   */
+  hasPendingJobs(): boolean {
+    return this.jobs.some((job) => job.status === 'pending');
+  }
+
+  /**
+   * Check whether the queue is currently being processed
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Get a snapshot of the queue state
+   */
+  getState(): QueueState {
+    return {
+      jobs: this.jobs.map((job) => ({ ...job })),
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Process pending jobs in order until the queue is empty or cancelled
+   *
+   * A cancelled job goes back to `pending` so the next run picks it up again.
+   * A failed job is marked `failed` and the queue moves on to the next set.
+   *
+   * @param {QueueJobRunner} runner - Runs one job
+   * @param {Function} isCancelled - Cancellation check
+   * @returns {Promise<QueueState>} Final state
+   */
+  async run(runner: QueueJobRunner, isCancelled: () => boolean): Promise<QueueState> {
+    if (this.running) {
+      logger.warn('Generation queue is already running');
+      return this.getState();
+    }
+
+    this.running = true;
+
+    try {
+      let job = this.nextPendingJob();
+
+      while (job && !isCancelled()) {
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        job.finishedAt = undefined;
+        job.error = undefined;
+        await this.save();
+
+        logger.info(`Queue: starting ${job.category}`);
+
+        let result: CategoryGenerationResult;
+        try {
+          result = await runner({
+            category: job.category,
+            categoryData: job.categoryData,
+            icons: job.icons,
+            variantProfile: job.variantProfile,
+          });
+        } catch (error) {
+          result = { status: 'failed', completedIcons: 0, totalIcons: 0, error: String(error) };
+        }
+
+        // The queue may have been cleared while this job was running
+        if (!this.jobs.includes(job)) {
+          break;
+        }
+
+        job.completedIcons = result.completedIcons;
+        job.totalIcons = result.totalIcons;
+
+        if (result.status === 'cancelled') {
+          job.status = 'pending';
+          await this.save();
+          logger.info(`Queue: ${job.category} cancelled, left pending`);
+          break;
+        }
+
+        job.status = result.status === 'completed' ? 'done' : 'failed';
+        job.error = result.error;
+        job.finishedAt = new Date().toISOString();
+        await this.save();
+
+        logger.info(`Queue: ${job.category} ${job.status}`);
+        job = this.nextPendingJob();
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Find the first pending job
+   */
+  private nextPendingJob(): QueueJob | undefined {
+    return this.jobs.find((job) => job.status === 'pending');
+  }
+
+  /**
+   * Persist state and notify the UI
+   */
+  private async save(): Promise<void> {
+    this.updatedAt = new Date().toISOString();
+
+    try {
+      await this.storage.setAsync(CLIENT_STORAGE_KEYS.GENERATION_QUEUE, this.getState());
+    } catch (error) {
+      logger.warn('Failed to persist generation queue:', error);
+    }
+
+    this.publish();
+  }
+
+  /**
+   * Post the current state to the UI
+   */
+  private publish(): void {
+    this.postMessage({ type: PLUGIN_MESSAGES.QUEUE_STATE, queue: this.getState() });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @module @figma/handlers/icon-color
+ *
+ * Rebind command: repaint existing variants with the icon colour in use.
+ *
+ * New and updated variants are painted when they are built (see
+ * `tokens/icon-color.ts`), but unchanged variants are skipped by change
+ * detection, so switching to another variable doesn't reach them. This
+ * command repaints every variant of the selected or page sets in place; node
+ * IDs, names and content hashes are left alone.
+ *
+ * @example
+ * ```typescript
+ * const targets = collectRepairTargets('page');
+ * const result = rebindIconColor(targets, getIconPaint());
+ * // { componentSets: 12, variants: 6048, layers: 6048, boundVariable: 'sys/color/on-surface' }
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { applyIconColor } from '@lib/tokens/icon-color';
+import type { IconColorRebindResult } from '@/types';
+
+/**
+ * Repaint the variants of several ComponentSets
+ *
+ * @param {ComponentSetNode[]} componentSets - Sets to repaint (see `collectRepairTargets`)
+ * @param {SolidPaint} paint - Icon colour paint (see `getIconPaint`)
+ * @param {string | null} [boundVariable=null] - Name of the variable the paint is bound to
+ * @returns {IconColorRebindResult} Counts of sets, variants and layers repainted
+ */
+export function rebindIconColor(
+  componentSets: ComponentSetNode[],
+  paint: SolidPaint,
+  boundVariable: string | null = null
+): IconColorRebindResult {
+  const result: IconColorRebindResult = {
+    componentSets: componentSets.length,
+    variants: 0,
+    layers: 0,
+    boundVariable,
+  };
+
+  for (const componentSet of componentSets) {
+    for (const child of componentSet.children) {
+      if (child.type !== 'COMPONENT') {
+        continue;
+      }
+      const layers = applyIconColor(child, paint);
+      if (layers > 0) {
+        result.variants++;
+        result.layers += layers;
+      }
+    }
+  }
+
+  logger.info(
+    `Repainted ${result.layers} layer(s) in ${result.variants} variant(s) of ${result.componentSets} component set(s) with ${boundVariable ?? 'the fallback colour'}`
+  );
+
+  return result;
+}
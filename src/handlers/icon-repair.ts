@@ -0,0 +1,306 @@
+/**
+ * @module @figma/handlers/icon-repair
+ *
+ * Repair command: fix existing ComponentSets in place without a regeneration.
+ *
+ * The cleanup helpers in the incremental updater normally only run as a side
+ * effect of `processIcon`. This applies all of them, plus gap filling, to a
+ * chosen set of icons and records what changed for each one.
+ *
+ * **Fixes (in order)**:
+ * 1. Unwrap extra Frames (ComponentNode → Frame → Vector)
+ * 2. Remove leftover fills from variant frames
+ * 3. Add variants missing from the set's stored profile (downloads only those SVGs)
+ *    - Variants recorded as unavailable upstream are not counted as missing
+ *    - Skipped and reported when the set was built at another commit than the
+ *      one downloads come from, so a set never mixes two upstream versions
+ * 4. Reorder variants: default first, then alphabetical
+ *
+ * Stale commit SHAs and missing `svg_hash` values are left alone: fixing them
+ * honestly needs a comparison against upstream content, which is what a
+ * regular generation run does.
+ *
+ * **Targets**:
+ * - `selection`: selected ComponentSets, or the sets containing selected variants
+ * - `page`: every ComponentSet on the current page
+ * - `document`: every ComponentSet on every page
+ * - `nodes`: explicit node IDs (e.g. the icons flagged by the audit)
+ *
+ * @example
+ * ```typescript
+ * const targets = collectRepairTargets('selection');
+ * const log = await repairComponentSets(targets, {
+ *   onProgress: (name, index, total) => logger.info(`Repairing ${name} (${index}/${total})`),
+ * });
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { GitHubRawSvgSource, getGitHubRef, type SvgSource } from '@lib/github';
+import {
+  batchFetchSVGs,
+  describeFetchFailures,
+  type FetchFailure,
+  type FetchItem,
+  type FetchResult,
+} from '@lib/icons/batch-fetcher';
+import {
+  addVariantToComponentSet,
+  cleanupExtraFramesInComponentSet,
+  cleanupVariantFillsInComponentSet,
+  reorderComponentSetVariants,
+} from '@lib/icons/incremental-updater';
+import { ensureDefaultVariantFirst } from '@lib/icons/variant-formatter';
+import {
+  getProfileVariantName,
+  getProfileVariants,
+  getStoredVariantProfile,
+} from '@lib/icons/variant-profile';
+import { pairFillVariants, syncFillProperty } from '@lib/icons/fill-property';
+import { getCommitSha, getUnavailableVariantNames } from '@lib/icons/metadata-helpers';
+import { getSetIconName } from '@lib/icons/set-layout';
+import type { VariantData } from '@lib/icons/generator';
+import type { IconRepairEntry, RepairScope } from '@/types';
+
+/**
+ * Repair options
+ *
+ * @interface RepairOptions
+ * @property {boolean} [fillMissing=true] - Download and add missing variants
+ * @property {SvgSource} [svgSource] - Where missing variants are downloaded from (defaults to GitHub raw)
+ * @property {string} [commitSha] - Commit the downloads come from (defaults to the GitHub ref)
+ * @property {Function} [fetchSvgs] - SVG fetcher (defaults to `batchFetchSVGs` over `svgSource`)
+ * @property {Function} [onProgress] - Called before each icon is repaired
+ * @property {Function} [isCancelled] - Checked between icons
+ */
+export interface RepairOptions {
+  fillMissing?: boolean;
+  svgSource?: SvgSource;
+  commitSha?: string;
+  fetchSvgs?: (
+    items: FetchItem[]
+  ) => Promise<{ results: FetchResult[]; failures?: FetchFailure[] }>;
+  onProgress?: (iconName: string, index: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Find the ComponentSet a node belongs to (the node itself, or an ancestor)
+ *
+ * @private
+ */
+function findOwningComponentSet(node: BaseNode): ComponentSetNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if (current.type === 'COMPONENT_SET') {
+      return current;
+    }
+    current = current.parent;
+  }
+  return null;
+}
+
+/**
+ * Resolve the ComponentSets a repair should run on
+ *
+ * Deprecated sets are never repaired. Each set appears once, in document order
+ * for `page` and `document` and selection order otherwise.
+ *
+ * @param {RepairScope} scope - What to repair
+ * @param {string[]} [nodeIds=[]] - Node IDs for the `nodes` scope
+ * @returns {ComponentSetNode[]} Sets to repair
+ */
+export function collectRepairTargets(
+  scope: RepairScope,
+  nodeIds: string[] = []
+): ComponentSetNode[] {
+  let nodes: BaseNode[];
+  if (scope === 'page') {
+    nodes = figma.currentPage.findAllWithCriteria({ types: ['COMPONENT_SET'] });
+  } else if (scope === 'document') {
+    nodes = [];
+    for (const page of figma.root.children) {
+      nodes.push(...page.findAllWithCriteria({ types: ['COMPONENT_SET'] }));
+    }
+  } else if (scope === 'selection') {
+    nodes = [...figma.currentPage.selection];
+  } else {
+    nodes = nodeIds
+      .map((id) => figma.getNodeById(id))
+      .filter((node): node is BaseNode => node !== null);
+  }
+
+  const targets: ComponentSetNode[] = [];
+  for (const node of nodes) {
+    const componentSet = findOwningComponentSet(node);
+    if (
+      componentSet &&
+      !componentSet.name.startsWith('deprecated_') &&
+      !targets.includes(componentSet)
+    ) {
+      targets.push(componentSet);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Download and add the variants a ComponentSet is missing
+ *
+ * @private
+ */
+async function fillMissingVariants(
+  componentSet: ComponentSetNode,
+  entry: IconRepairEntry,
+  options: RepairOptions
+): Promise<void> {
+  const profile = getStoredVariantProfile(componentSet);
+  // Variants that don't exist upstream can't be filled in
+  const existing = new Set(componentSet.children.map((child) => child.name));
+  getUnavailableVariantNames(componentSet).forEach((name) => existing.add(name));
+  const missing = getProfileVariants(profile).filter(
+    (key) => !existing.has(getProfileVariantName(profile, key))
+  );
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  // Variants from another commit could differ from the ones already in the set
+  const storedSha = getCommitSha(componentSet);
+  const commitSha = options.commitSha ?? getGitHubRef();
+  if (storedSha && storedSha !== commitSha) {
+    entry.errors.push(
+      `Skipped ${missing.length} missing variant(s): set is at ${storedSha.substring(0, 7)} ` +
+        `but downloads come from ${commitSha.substring(0, 7)} - regenerate it instead`
+    );
+    return;
+  }
+
+  // Style sets are named "home / Rounded"; downloads need the icon name
+  const iconName = getSetIconName(componentSet.name);
+  const source = options.svgSource ?? new GitHubRawSvgSource();
+  const fetchSvgs = options.fetchSvgs ?? ((fetchItems) => batchFetchSVGs(fetchItems, { source }));
+  const items: FetchItem[] = missing.map(({ style, variant }) => ({
+    url: source.getUrl(iconName, style, variant),
+    iconName,
+    style,
+    variant,
+  }));
+
+  const { results, failures = [] } = await fetchSvgs(items);
+
+  // Sets with a Fill component property take both downloads of a variant as one component
+  const variants: VariantData[] = profile.fillProperty ? pairFillVariants(results) : results;
+
+  let added = 0;
+  for (const variant of variants) {
+    try {
+      await addVariantToComponentSet(
+        componentSet,
+        variant.svgContent,
+        { style: variant.style, variant: variant.variant },
+        variant
+      );
+      added++;
+    } catch (error) {
+      entry.errors.push(`Failed to add variant: ${error}`);
+    }
+  }
+
+  if (added > 0) {
+    if (profile.fillProperty) {
+      syncFillProperty(componentSet, true);
+    }
+    entry.changes.push(`Added ${added} missing variant(s)`);
+  }
+  if (results.length < missing.length) {
+    entry.errors.push(
+      `Could not download ${missing.length - results.length} missing variant(s)` +
+        (failures.length > 0 ? ` (${describeFetchFailures(failures)})` : '')
+    );
+  }
+}
+
+/**
+ * Apply every applicable fix to a single ComponentSet
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {RepairOptions} [options={}] - Repair options
+ * @returns {Promise<IconRepairEntry>} What was changed (empty `changes` if nothing was needed)
+ */
+export async function repairComponentSet(
+  componentSet: ComponentSetNode,
+  options: RepairOptions = {}
+): Promise<IconRepairEntry> {
+  const entry: IconRepairEntry = {
+    name: componentSet.name,
+    nodeId: componentSet.id,
+    changes: [],
+    errors: [],
+  };
+
+  const framesFixed = cleanupExtraFramesInComponentSet(componentSet);
+  if (framesFixed > 0) {
+    entry.changes.push(`Removed extra frame from ${framesFixed} variant(s)`);
+  }
+
+  const fillsFixed = cleanupVariantFillsInComponentSet(componentSet);
+  if (fillsFixed > 0) {
+    entry.changes.push(`Removed leftover fills from ${fillsFixed} variant(s)`);
+  }
+
+  if (options.fillMissing !== false) {
+    try {
+      await fillMissingVariants(componentSet, entry, options);
+    } catch (error) {
+      entry.errors.push(`Failed to fill missing variants: ${error}`);
+    }
+  }
+
+  const orderBefore = componentSet.children.map((child) => child.id).join(',');
+  reorderComponentSetVariants(componentSet);
+  ensureDefaultVariantFirst(componentSet);
+  if (componentSet.children.map((child) => child.id).join(',') !== orderBefore) {
+    entry.changes.push('Reordered variants (default first)');
+  }
+
+  return entry;
+}
+
+/**
+ * Repair several ComponentSets
+ *
+ * @param {ComponentSetNode[]} componentSets - Sets to repair (see `collectRepairTargets`)
+ * @param {RepairOptions} [options={}] - Repair options
+ * @returns {Promise<IconRepairEntry[]>} Per-icon change log
+ */
+export async function repairComponentSets(
+  componentSets: ComponentSetNode[],
+  options: RepairOptions = {}
+): Promise<IconRepairEntry[]> {
+  const log: IconRepairEntry[] = [];
+
+  for (let i = 0; i < componentSets.length; i++) {
+    if (options.isCancelled?.()) {
+      logger.info(`Repair cancelled after ${i} of ${componentSets.length} icons`);
+      break;
+    }
+
+    const componentSet = componentSets[i];
+    options.onProgress?.(componentSet.name, i + 1, componentSets.length);
+
+    const entry = await repairComponentSet(componentSet, options);
+    log.push(entry);
+
+    if (entry.changes.length > 0) {
+      logger.info(`Repaired ${entry.name}: ${entry.changes.join('; ')}`);
+    }
+    for (const error of entry.errors) {
+      logger.warn(`${entry.name}: ${error}`);
+    }
+  }
+
+  return log;
+}
@@ -0,0 +1,132 @@
+/**
+ * @module @figma/handlers/icon-search
+ *
+ * Icon search and "jump to component" for the browse panel.
+ *
+ * Answers "where does `shopping_cart` live, and has it been generated?" by
+ * combining the fuzzy name search over `ALL_ICONS` with what is actually in
+ * the file.
+ *
+ * **Per hit**:
+ * - Set it belongs to (`category-mapping.json`)
+ * - Whether a ComponentSet with that name exists in the document, on which
+ *   page, its variant count and stored commit SHA
+ *
+ * The document is indexed once per search with `findAllWithCriteria`, which
+ * only matches COMPONENT_SET nodes and is much cheaper than walking every
+ * variant with `findOne`.
+ *
+ * @example
+ * ```typescript
+ * const hits = searchIconsInFile('shopping cart');
+ * figma.ui.postMessage({ type: PLUGIN_MESSAGES.ICON_SEARCH_RESULTS, searchResults: hits });
+ *
+ * await jumpToComponentSet(hits[0].componentSet!.id);
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { getIconCategory, searchIcons } from '@lib/icons/icon-lookup';
+import { pageManager } from '@lib/pages/manager';
+import { getSetIconName } from '@lib/icons/set-layout';
+import type { IconSearchHit } from '@/types';
+
+/**
+ * ComponentSet found in the document
+ *
+ * @private
+ */
+interface IndexedComponentSet {
+  node: ComponentSetNode;
+  page: PageNode;
+  variantCount: number;
+}
+
+/**
+ * Index every ComponentSet in the document by icon name (first occurrence wins)
+ *
+ * Per-style icons (`home / Rounded`, ...) are indexed under the icon name with
+ * their first style set; the variant count covers all of them on that page.
+ *
+ * @returns {Map<string, IndexedComponentSet>} Component sets by icon name
+ */
+export function indexComponentSets(): Map<string, IndexedComponentSet> {
+  const index = new Map<string, IndexedComponentSet>();
+
+  for (const page of figma.root.children) {
+    const componentSets = page.findAllWithCriteria({ types: ['COMPONENT_SET'] });
+    for (const node of componentSets) {
+      const iconName = getSetIconName(node.name);
+      const found = index.get(iconName);
+      if (!found) {
+        index.set(iconName, { node, page, variantCount: node.children.length });
+      } else if (found.page === page && found.node.name !== node.name) {
+        found.variantCount += node.children.length;
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Search icon names and report where each one is in the file
+ *
+ * @param {string} query - Search text (fuzzy)
+ * @param {number} [limit=50] - Maximum results
+ * @returns {IconSearchHit[]} Hits, best match first
+ */
+export function searchIconsInFile(query: string, limit = 50): IconSearchHit[] {
+  const names = searchIcons(query, limit);
+  if (names.length === 0) {
+    return [];
+  }
+
+  const index = indexComponentSets();
+
+  return names.map((name) => {
+    const found = index.get(name);
+
+    return {
+      name,
+      category: getIconCategory(name),
+      componentSet: found
+        ? {
+            id: found.node.id,
+            pageName: found.page.name,
+            variantCount: found.variantCount,
+            commitSha: found.node.getPluginData(PLUGIN_DATA_KEYS.GIT_COMMIT_SHA) || null,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Select a ComponentSet and zoom the viewport to it, switching page if needed
+ *
+ * @param {string} nodeId - ComponentSet node ID
+ * @returns {Promise<boolean>} False if the node no longer exists
+ */
+export async function jumpToComponentSet(nodeId: string): Promise<boolean> {
+  const node = figma.getNodeById(nodeId);
+  if (!node || node.type !== 'COMPONENT_SET') {
+    logger.warn(`Component set ${nodeId} not found`);
+    return false;
+  }
+
+  // Walk up to the page containing the node
+  let parent = node.parent;
+  while (parent && parent.type !== 'PAGE') {
+    parent = parent.parent;
+  }
+
+  if (parent) {
+    await pageManager.switchToPage(parent);
+    parent.selection = [node];
+  }
+
+  figma.viewport.scrollAndZoomIntoView([node]);
+  return true;
+}
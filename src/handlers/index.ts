@@ -5,7 +5,57 @@
  * Extracted from code.ts for better modularity and testability.
  */
 
-export { handleCategoryGeneration, type CategoryGenerationConfig } from './category-generation';
+export {
+  handleCategoryGeneration,
+  type CategoryGenerationConfig,
+  type CategoryGenerationResult,
+} from './category-generation';
+
+export { findResumableCheckpoints } from './category-generation/checkpoint';
+
+export {
+  GenerationQueue,
+  type GenerationQueueConfig,
+  type QueueJobInput,
+  type QueueJobRunner,
+  type QueueStorage,
+} from './generation-queue';
+
+export {
+  resolveGenerationConfig,
+  validateGenerationConfig,
+  type CategoryRange,
+  type ResolvedGenerationConfig,
+} from './generation-config';
+
+export { searchIconsInFile, jumpToComponentSet, indexComponentSets } from './icon-search';
+
+export { auditFile, isSetPage, summarizeAuditReport, type FileAuditOptions } from './file-audit';
+
+export {
+  collectRepairTargets,
+  repairComponentSet,
+  repairComponentSets,
+  type RepairOptions,
+} from './icon-repair';
+
+export {
+  interpolateComponentSet,
+  interpolateComponentSets,
+  type InterpolationOptions,
+} from './variant-interpolation';
+
+export {
+  renameComponentSetVariants,
+  renameVariantsInComponentSets,
+  type VariantRenameOptions,
+} from './variant-naming';
+
+export { splitComponentSet, splitComponentSets } from './set-layout-conversion';
+
+export { rebindIconColor } from './icon-color';
+
+export { importCustomIcons, type CustomImportOptions } from './custom-icon-import';
 
 export { organizePageIntoFrame } from './page-organization';
 
@@ -4,12 +4,14 @@
  * Organizes icon component sets into styled frames with Material Design styling.
  * Features:
  * - Auto layout with wrapping
- * - Design token integration (M3 variables)
+ * - Styling profile (colours, radii, spacing and width, optionally bound to variables)
  * - Alphabetical sorting
  * - Idempotent frame management
  */
 
 import { logger } from '@lib/utils';
+import { applyFrameStyling } from '@lib/tokens/binder';
+import { getStylingProfile } from '@lib/tokens/styling-profile';
 
 /**
  * Organize page components into a styled frame with Material Design styling
@@ -20,7 +22,7 @@ import { logger } from '@lib/utils';
  *
  * Features:
  * - Auto-layout with horizontal wrapping
- * - Material Design 3 color tokens (surface background, outline border)
+ * - Styling profile fill, corner radius, gap and padding (see `applyFrameStyling`)
  * - Alphabetical component sorting
  * - Reuses existing frame if present
  * - Proper spacing and padding
@@ -68,43 +70,27 @@ export async function organizePageIntoFrame(page: PageNode, frameName: string):
     );
 
     // Reuse existing frame or create new one
+    const { profile } = getStylingProfile();
     const frame = existingFrame || figma.createFrame();
     if (!existingFrame) {
       frame.name = frameName;
       frame.x = 0;
       frame.y = 0;
-      frame.resize(2024, 100); // Width 2024, height will be set to HUG by layoutMode
     }
+    // Width from the styling profile (default 2024), height will be set to HUG by layoutMode
+    frame.resize(profile.frameWidth, frame.height || 100);
 
     // Configure auto layout
     frame.layoutMode = 'HORIZONTAL';
     frame.layoutWrap = 'WRAP';
-    frame.primaryAxisSizingMode = 'FIXED'; // Width: fixed at 2024
+    frame.primaryAxisSizingMode = 'FIXED'; // Width: fixed at the profile's frame width
     frame.counterAxisSizingMode = 'AUTO'; // Height: hug contents
     frame.primaryAxisAlignItems = 'MIN'; // Top align
     frame.counterAxisAlignItems = 'MIN'; // Left align
 
-    // Apply spacing (hardcoded for portability)
-    frame.itemSpacing = 24; // Horizontal gap between items
-    frame.counterAxisSpacing = 24; // Vertical gap between rows
-    frame.paddingLeft = 24;
-    frame.paddingRight = 24;
-    frame.paddingTop = 24;
-    frame.paddingBottom = 24;
-    logger.info('Applied spacing values: 24px');
-
-    // Apply corner radius (hardcoded)
-    frame.cornerRadius = 12;
-    logger.info('Applied corner radius: 12px');
-
-    // Apply fill color #F2F2F2 (hardcoded)
-    frame.fills = [
-      {
-        type: 'SOLID',
-        color: { r: 0.949, g: 0.949, b: 0.949 }, // #F2F2F2
-      },
-    ];
-    logger.info('Applied fill color: #F2F2F2');
+    // Apply fill, corner radius, gap and padding from the styling profile
+    applyFrameStyling(frame);
+    logger.info(`Applied styling profile (frame width ${profile.frameWidth}px)`);
 
     // Sort component sets alphabetically by name
     const sortedComponentSets = [...allComponentSets].sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,215 @@
+/**
+ * @module @figma/handlers/set-layout-conversion
+ *
+ * Split command: convert icons from the combined layout (one ComponentSet per
+ * icon) to the per-style layout (one ComponentSet per style, see
+ * `set-layout.ts`).
+ *
+ * Variant components are moved, not recreated, so their node IDs - and every
+ * instance and override pointing at them - are kept. The original set keeps
+ * its first style and is renamed (`home` → `home / Rounded`); each other style
+ * gets a new set next to it with the same appearance, commit SHA, search
+ * metadata and description, and a variant profile restricted to its style.
+ * Variants whose name can't be read stay in the original set and are listed
+ * in the log.
+ *
+ * Category generation with the per-style layout runs the same split on
+ * combined sets it finds, so files can also be converted page by page.
+ *
+ * @example
+ * ```typescript
+ * const targets = collectRepairTargets('page');
+ * const log = splitComponentSets(targets);
+ * // [{ name: 'home', sets: ['home / Rounded', 'home / Outlined', 'home / Sharp'], ... }]
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { parseVariantKey } from '@lib/icons/variant-schema';
+import { ensureDefaultVariantFirst } from '@lib/icons/variant-formatter';
+import { reorderComponentSetVariants } from '@lib/icons/incremental-updater';
+import { getStoredVariantProfile, setStoredVariantProfile } from '@lib/icons/variant-profile';
+import { syncFillProperty } from '@lib/icons/fill-property';
+import {
+  getStyleSetName,
+  getStyleSetProfile,
+  groupVariantsByStyle,
+  parseStyleSetName,
+} from '@lib/icons/set-layout';
+import type { IconStyle } from '@lib/github';
+import type { SetSplitEntry } from '@/types';
+
+/**
+ * Plugin data copied from the original set to every style set
+ *
+ * @private
+ */
+const COPIED_PLUGIN_DATA_KEYS = [
+  PLUGIN_DATA_KEYS.GIT_COMMIT_SHA,
+  PLUGIN_DATA_KEYS.UNAVAILABLE_VARIANTS,
+  PLUGIN_DATA_KEYS.ICON_TAGS,
+  PLUGIN_DATA_KEYS.ICON_CODEPOINT,
+];
+
+/**
+ * Gap between the original set and the new style sets outside auto layout
+ *
+ * @private
+ */
+const STYLE_SET_GAP = 24;
+
+/**
+ * Give a new style set the original set's appearance and metadata
+ *
+ * @private
+ */
+function copySetProperties(from: ComponentSetNode, to: ComponentSetNode): void {
+  to.description = from.description;
+  for (const key of COPIED_PLUGIN_DATA_KEYS) {
+    to.setPluginData(key, from.getPluginData(key));
+  }
+
+  to.layoutMode = from.layoutMode;
+  to.primaryAxisSizingMode = from.primaryAxisSizingMode;
+  to.counterAxisSizingMode = from.counterAxisSizingMode;
+  to.primaryAxisAlignItems = from.primaryAxisAlignItems;
+  to.counterAxisAlignItems = from.counterAxisAlignItems;
+  to.paddingLeft = from.paddingLeft;
+  to.paddingRight = from.paddingRight;
+  to.paddingTop = from.paddingTop;
+  to.paddingBottom = from.paddingBottom;
+  to.itemSpacing = from.itemSpacing;
+  to.clipsContent = from.clipsContent;
+  to.fills = from.fills;
+  to.strokes = from.strokes;
+  to.strokeWeight = from.strokeWeight;
+  to.strokeAlign = from.strokeAlign;
+  if (typeof from.cornerRadius === 'number') {
+    to.cornerRadius = from.cornerRadius;
+  }
+  to.resize(from.width, from.height);
+}
+
+/**
+ * Default variant first, then the rest alphabetically
+ *
+ * @private
+ */
+function orderVariants(componentSet: ComponentSetNode): void {
+  reorderComponentSetVariants(componentSet);
+  ensureDefaultVariantFirst(componentSet);
+}
+
+/**
+ * Split a combined ComponentSet into one set per style
+ *
+ * @param {ComponentSetNode} componentSet - Combined icon ComponentSet (named after the icon)
+ * @returns {SetSplitEntry} Resulting set names, and the variants that could not be read
+ */
+export function splitComponentSet(componentSet: ComponentSetNode): SetSplitEntry {
+  const iconName = componentSet.name;
+  const entry: SetSplitEntry = {
+    name: iconName,
+    nodeId: componentSet.id,
+    sets: [],
+    unparsed: [],
+  };
+
+  const parent = componentSet.parent;
+  if (!parent) {
+    entry.error = 'Component set is not in the document';
+    return entry;
+  }
+
+  const keyed: Array<{ style: IconStyle; component: ComponentNode }> = [];
+  for (const child of componentSet.children) {
+    if (child.type !== 'COMPONENT') {
+      continue;
+    }
+    const key =
+      parseVariantKey(child.name) ?? parseVariantKey(child.name, undefined, { fillProperty: true });
+    if (key) {
+      keyed.push({ style: key.style, component: child });
+    } else {
+      entry.unparsed.push(child.name);
+    }
+  }
+
+  const groups = groupVariantsByStyle(keyed);
+  const styles = Array.from(groups.keys());
+  if (styles.length === 0) {
+    entry.error = 'No variant name could be read with the current naming schema';
+    return entry;
+  }
+
+  const profile = getStoredVariantProfile(componentSet);
+  let index = parent.children.indexOf(componentSet);
+
+  try {
+    // The original set keeps the first style (and the variants that could not be read)
+    const [firstStyle, ...otherStyles] = styles;
+    componentSet.name = getStyleSetName(iconName, firstStyle);
+    setStoredVariantProfile(componentSet, getStyleSetProfile(profile, firstStyle));
+    entry.sets.push(componentSet.name);
+
+    for (const style of otherStyles) {
+      const components = (groups.get(style) ?? []).map(({ component }) => component);
+
+      // Variants leave the original set before they are combined into a new one
+      for (const component of components) {
+        parent.appendChild(component);
+      }
+
+      index++;
+      const styleSet = figma.combineAsVariants(components, parent, index);
+      styleSet.name = getStyleSetName(iconName, style);
+      copySetProperties(componentSet, styleSet);
+      styleSet.x = componentSet.x + (componentSet.width + STYLE_SET_GAP) * entry.sets.length;
+      styleSet.y = componentSet.y;
+      setStoredVariantProfile(styleSet, getStyleSetProfile(profile, style));
+      if (profile.fillProperty) {
+        syncFillProperty(styleSet, true);
+      }
+      orderVariants(styleSet);
+      entry.sets.push(styleSet.name);
+    }
+
+    orderVariants(componentSet);
+  } catch (error) {
+    entry.error = `Failed to split: ${error}`;
+  }
+
+  return entry;
+}
+
+/**
+ * Split several combined ComponentSets
+ *
+ * Sets already in the per-style layout are left out of the log.
+ *
+ * @param {ComponentSetNode[]} componentSets - Sets to split (see `collectRepairTargets`)
+ * @returns {SetSplitEntry[]} Per-icon log
+ */
+export function splitComponentSets(componentSets: ComponentSetNode[]): SetSplitEntry[] {
+  const combined = componentSets.filter((componentSet) => !parseStyleSetName(componentSet.name));
+  if (combined.length < componentSets.length) {
+    logger.info(`${componentSets.length - combined.length} set(s) are already split by style`);
+  }
+
+  const log = combined.map((componentSet) => splitComponentSet(componentSet));
+
+  const created = log.reduce((sum, entry) => sum + Math.max(entry.sets.length - 1, 0), 0);
+  logger.info(`Split ${log.length} icon(s) into ${created} new style set(s)`);
+  for (const entry of log) {
+    if (entry.error) {
+      logger.warn(`${entry.name}: ${entry.error}`);
+    } else if (entry.unparsed.length > 0) {
+      logger.warn(
+        `${entry.name}: ${entry.unparsed.length} variant(s) could not be read and stayed in ${entry.sets[0]}`
+      );
+    }
+  }
+
+  return log;
+}
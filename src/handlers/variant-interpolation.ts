@@ -0,0 +1,229 @@
+/**
+ * @module @figma/handlers/variant-interpolation
+ *
+ * Interpolate command: add in-between weights/grades to existing icons.
+ *
+ * For each ComponentSet the intermediate variants follow from its stored
+ * variant profile plus the requested axis values (see
+ * `getInterpolationTargets`). The upstream neighbours of those variants are
+ * downloaded, blended with `interpolateIconSvg`, and added as ordinary
+ * variants tagged with `PLUGIN_DATA_KEYS.INTERPOLATED_FROM`. Running it again
+ * after an upstream update refreshes the outlines that changed.
+ *
+ * Icons whose neighbours don't share a point structure can't be interpolated;
+ * every variant that fails is listed in the icon's log entry. Sets that expose
+ * Fill as a component property (see `fill-property.ts`) are reported and left
+ * alone: their components pair two glyphs, and each would need interpolating.
+ *
+ * @example
+ * ```typescript
+ * const targets = collectRepairTargets('selection');
+ * const log = await interpolateComponentSets(targets, {
+ *   axes: { weights: [350, 450], grades: [] },
+ * });
+ * ```
+ */
+
+import { hashSvg, logger } from '@lib/utils';
+import { SvgInterpolationError, SvgValidationError } from '@lib/utils/errors';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { GitHubRawSvgSource, type IconStyle, type IconVariant, type SvgSource } from '@lib/github';
+import {
+  batchFetchSVGs,
+  describeFetchFailures,
+  type FetchFailure,
+  type FetchItem,
+  type FetchResult,
+} from '@lib/icons/batch-fetcher';
+import {
+  addVariantToComponentSet,
+  reorderComponentSetVariants,
+} from '@lib/icons/incremental-updater';
+import { ensureDefaultVariantFirst, getVariantName } from '@lib/icons/variant-formatter';
+import { getStoredVariantProfile } from '@lib/icons/variant-profile';
+import { getSetIconName } from '@lib/icons/set-layout';
+import {
+  getInterpolationCorners,
+  getInterpolationSource,
+  getInterpolationTargets,
+  interpolateIconSvg,
+  type InterpolationAxes,
+} from '@lib/icons/svg-interpolation';
+import type { InterpolationEntry } from '@/types';
+
+/**
+ * Interpolation options
+ *
+ * @interface InterpolationOptions
+ * @property {InterpolationAxes} axes - Intermediate weights/grades to add
+ * @property {SvgSource} [svgSource] - Where neighbour SVGs are downloaded from (defaults to GitHub raw)
+ * @property {Function} [fetchSvgs] - SVG fetcher (defaults to `batchFetchSVGs` over `svgSource`)
+ * @property {Function} [onProgress] - Called before each icon is interpolated
+ * @property {Function} [isCancelled] - Checked between icons
+ */
+export interface InterpolationOptions {
+  axes: InterpolationAxes;
+  svgSource?: SvgSource;
+  fetchSvgs?: (
+    items: FetchItem[]
+  ) => Promise<{ results: FetchResult[]; failures?: FetchFailure[] }>;
+  onProgress?: (iconName: string, index: number, total: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Lookup key for a downloaded neighbour
+ *
+ * @private
+ */
+function neighbourKey(style: IconStyle, variant: IconVariant): string {
+  return `${style}-${variant.weight}-${variant.fill}-${variant.grade}-${variant.opticalSize}`;
+}
+
+/**
+ * Add or refresh the interpolated variants of a single ComponentSet
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {InterpolationOptions} options - Axes and download options
+ * @returns {Promise<InterpolationEntry>} Counts, and the variants that could not be interpolated
+ */
+export async function interpolateComponentSet(
+  componentSet: ComponentSetNode,
+  options: InterpolationOptions
+): Promise<InterpolationEntry> {
+  const iconName = getSetIconName(componentSet.name);
+  const entry: InterpolationEntry = {
+    name: componentSet.name,
+    nodeId: componentSet.id,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: [],
+  };
+
+  const profile = getStoredVariantProfile(componentSet);
+  if (profile.fillProperty) {
+    entry.failed.push('Fill is a component property on this set; interpolation needs a Fill axis');
+    return entry;
+  }
+
+  const targets = getInterpolationTargets(profile, options.axes);
+  if (targets.length === 0) {
+    return entry;
+  }
+
+  // Download each neighbour once, however many targets share it
+  const source = options.svgSource ?? new GitHubRawSvgSource();
+  const fetchSvgs = options.fetchSvgs ?? ((fetchItems) => batchFetchSVGs(fetchItems, { source }));
+  const items = new Map<string, FetchItem>();
+  for (const { style, variant } of targets) {
+    for (const corner of getInterpolationCorners(variant)) {
+      items.set(neighbourKey(style, corner), {
+        url: source.getUrl(iconName, style, corner),
+        iconName,
+        style,
+        variant: corner,
+      });
+    }
+  }
+
+  const { results, failures = [] } = await fetchSvgs(Array.from(items.values()));
+  const neighbours = new Map<string, string>();
+  for (const result of results) {
+    neighbours.set(neighbourKey(result.style, result.variant), result.svgContent);
+  }
+  if (failures.length > 0) {
+    logger.warn(
+      `${iconName}: ${failures.length} neighbour SVG(s) not downloaded (${describeFetchFailures(failures)})`
+    );
+  }
+
+  const components = new Map<string, ComponentNode>();
+  for (const child of componentSet.children) {
+    if (child.type === 'COMPONENT') {
+      components.set(child.name, child);
+    }
+  }
+
+  for (const { style, variant } of targets) {
+    // Weight/grade may be off the upstream grid; naming and node creation only format them
+    const key = { style, variant: variant as IconVariant };
+    const variantName = getVariantName({ iconName, ...key, svgContent: '' });
+
+    try {
+      const svg = interpolateIconSvg(iconName, style, variant, (corner) =>
+        neighbours.get(neighbourKey(style, corner))
+      );
+
+      const hash = hashSvg(svg);
+      const existing = components.get(variantName);
+      if (existing && existing.getPluginData(PLUGIN_DATA_KEYS.SVG_HASH) === hash) {
+        entry.unchanged++;
+        continue;
+      }
+
+      const component = await addVariantToComponentSet(componentSet, svg, key);
+      component.setPluginData(PLUGIN_DATA_KEYS.SVG_HASH, hash);
+      component.setPluginData(
+        PLUGIN_DATA_KEYS.INTERPOLATED_FROM,
+        JSON.stringify(getInterpolationSource(variant))
+      );
+      if (existing) {
+        entry.updated++;
+      } else {
+        entry.added++;
+      }
+    } catch (error) {
+      if (error instanceof SvgInterpolationError) {
+        entry.failed.push(`${error.variantName}: ${error.reason}`);
+      } else if (error instanceof SvgValidationError) {
+        entry.failed.push(error.message);
+      } else {
+        entry.failed.push(`${variantName}: ${error}`);
+      }
+    }
+  }
+
+  if (entry.added > 0) {
+    reorderComponentSetVariants(componentSet);
+    ensureDefaultVariantFirst(componentSet);
+  }
+
+  return entry;
+}
+
+/**
+ * Interpolate several ComponentSets
+ *
+ * @param {ComponentSetNode[]} componentSets - Sets to extend (see `collectRepairTargets`)
+ * @param {InterpolationOptions} options - Axes and download options
+ * @returns {Promise<InterpolationEntry[]>} Per-icon log
+ */
+export async function interpolateComponentSets(
+  componentSets: ComponentSetNode[],
+  options: InterpolationOptions
+): Promise<InterpolationEntry[]> {
+  const log: InterpolationEntry[] = [];
+
+  for (let i = 0; i < componentSets.length; i++) {
+    if (options.isCancelled?.()) {
+      logger.info(`Interpolation cancelled after ${i} of ${componentSets.length} icons`);
+      break;
+    }
+
+    const componentSet = componentSets[i];
+    options.onProgress?.(componentSet.name, i + 1, componentSets.length);
+
+    const entry = await interpolateComponentSet(componentSet, options);
+    log.push(entry);
+
+    logger.info(
+      `Interpolated ${entry.name}: ${entry.added} added, ${entry.updated} updated, ${entry.unchanged} unchanged`
+    );
+    if (entry.failed.length > 0) {
+      logger.warn(`${entry.name}: ${entry.failed.length} variant(s) could not be interpolated`);
+    }
+  }
+
+  return log;
+}
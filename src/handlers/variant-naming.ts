@@ -0,0 +1,142 @@
+/**
+ * @module @figma/handlers/variant-naming
+ *
+ * Rename command: move existing ComponentSets from one variant naming schema
+ * to another.
+ *
+ * Each variant component is parsed with the old schema and renamed with the
+ * new one. Nodes are renamed in place, so instances, overrides and plugin data
+ * are kept. Variants already in the new schema are counted as unchanged;
+ * names neither schema can read are listed in the log and left alone.
+ *
+ * Sets with a Fill component property (see `fill-property.ts`) have names
+ * without Fill; those are renamed as such, and the property itself is renamed
+ * to the new schema's fill property name.
+ *
+ * @example
+ * ```typescript
+ * const targets = collectRepairTargets('page');
+ * const log = renameVariantsInComponentSets(targets, {
+ *   from: VARIANT_SCHEMA_PRESETS.material,
+ *   to: VARIANT_SCHEMA_PRESETS.library,
+ * });
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import {
+  formatVariantKey,
+  parseVariantKey,
+  type VariantNameOptions,
+  type VariantSchema,
+} from '@lib/icons/variant-schema';
+import { syncFillProperty } from '@lib/icons/fill-property';
+import type { VariantKey } from '@lib/icons/incremental-updater';
+import type { VariantRenameEntry } from '@/types';
+
+/**
+ * Schemas to rename between
+ *
+ * @interface VariantRenameOptions
+ * @property {VariantSchema} from - Schema the variants are named with now
+ * @property {VariantSchema} to - Schema to rename them to
+ */
+export interface VariantRenameOptions {
+  from: VariantSchema;
+  to: VariantSchema;
+}
+
+/**
+ * Parse a name with Fill, or without it (sets with a Fill component property)
+ *
+ * @private
+ */
+function parseWithFillOptions(
+  name: string,
+  schema: VariantSchema
+): { key: VariantKey; nameOptions: VariantNameOptions } | null {
+  for (const nameOptions of [{}, { fillProperty: true }]) {
+    const key = parseVariantKey(name, schema, nameOptions);
+    if (key) {
+      return { key, nameOptions };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rename the variants of a single ComponentSet
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {VariantRenameOptions} options - Old and new schema
+ * @returns {VariantRenameEntry} Counts, and the names that could not be read
+ */
+export function renameComponentSetVariants(
+  componentSet: ComponentSetNode,
+  options: VariantRenameOptions
+): VariantRenameEntry {
+  const entry: VariantRenameEntry = {
+    name: componentSet.name,
+    nodeId: componentSet.id,
+    renamed: 0,
+    unchanged: 0,
+    unparsed: [],
+  };
+
+  let fillProperty = false;
+  for (const child of componentSet.children) {
+    if (child.type !== 'COMPONENT') {
+      continue;
+    }
+
+    const parsed = parseWithFillOptions(child.name, options.from);
+    if (!parsed) {
+      if (parseWithFillOptions(child.name, options.to)) {
+        entry.unchanged++;
+      } else {
+        entry.unparsed.push(child.name);
+      }
+      continue;
+    }
+
+    fillProperty = fillProperty || parsed.nameOptions.fillProperty === true;
+    const name = formatVariantKey(parsed.key, options.to, parsed.nameOptions);
+    if (name === child.name) {
+      entry.unchanged++;
+    } else {
+      child.name = name;
+      entry.renamed++;
+    }
+  }
+
+  if (fillProperty) {
+    syncFillProperty(componentSet, true, options.to.properties.fill.name);
+  }
+
+  return entry;
+}
+
+/**
+ * Rename the variants of several ComponentSets
+ *
+ * @param {ComponentSetNode[]} componentSets - Sets to rename (see `collectRepairTargets`)
+ * @param {VariantRenameOptions} options - Old and new schema
+ * @returns {VariantRenameEntry[]} Per-icon log
+ */
+export function renameVariantsInComponentSets(
+  componentSets: ComponentSetNode[],
+  options: VariantRenameOptions
+): VariantRenameEntry[] {
+  const log = componentSets.map((componentSet) =>
+    renameComponentSetVariants(componentSet, options)
+  );
+
+  const renamed = log.reduce((sum, entry) => sum + entry.renamed, 0);
+  const unparsed = log.reduce((sum, entry) => sum + entry.unparsed.length, 0);
+  logger.info(`Renamed ${renamed} variant(s) in ${log.length} component set(s)`);
+  if (unparsed > 0) {
+    logger.warn(`${unparsed} variant name(s) matched neither naming schema and were left alone`);
+  }
+
+  return log;
+}
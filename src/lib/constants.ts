@@ -18,14 +18,123 @@ export const PLUGIN_DATA_KEYS = {
    * DJB2 hash of the normalized SVG content used to create this variant
    */
   SVG_HASH: 'svg_hash',
+
+  /**
+   * Generation checkpoint stored on the category PageNode
+   * JSON GenerationCheckpoint: last processed icon, commit SHA and per-action counts
+   */
+  GENERATION_CHECKPOINT: 'generation_checkpoint',
+
+  /**
+   * Variant profile stored on ComponentSetNode
+   * JSON VariantProfile the icon was generated with; completeness is measured against it
+   */
+  VARIANT_PROFILE: 'variant_profile',
+
+  /**
+   * Variants that do not exist upstream, stored on ComponentSetNode
+   * JSON string array of variant names that returned 404 when the icon was last fetched;
+   * completeness checks and repairs leave them out
+   */
+  UNAVAILABLE_VARIANTS: 'unavailable_variants',
+
+  /**
+   * Search tags stored on ComponentSetNode
+   * JSON string array from the bundled upstream icon metadata
+   */
+  ICON_TAGS: 'icon_tags',
+
+  /**
+   * Font codepoint stored on ComponentSetNode
+   * Lower-case hex (e.g. "e9b2") from the upstream codepoints file
+   */
+  ICON_CODEPOINT: 'icon_codepoint',
+
+  /**
+   * Interpolation source stored on interpolated ComponentNodes (variants)
+   * JSON InterpolationSource: the upstream weights/grades the outline was blended from
+   */
+  INTERPOLATED_FROM: 'interpolated_from',
+
+  /**
+   * Styling profile stored on the DocumentNode
+   * JSON StylingProfile: container colours, radii, spacing and frame width for this file
+   */
+  STYLING_PROFILE: 'styling_profile',
+} as const;
+
+/**
+ * clientStorage keys for data persisted per user (survives plugin close/reopen)
+ * Unlike plugin data, these values are not stored in the document
+ */
+export const CLIENT_STORAGE_KEYS = {
+  /**
+   * Persistent generation queue (QueueState)
+   * Lets multi-set runs resume after the plugin is closed and reopened
+   */
+  GENERATION_QUEUE: 'generation_queue',
+
+  /**
+   * User's chosen variant profile (VariantProfile)
+   * Subset of styles/weights/fills/grades/optical sizes to generate
+   */
+  VARIANT_PROFILE: 'variant_profile',
+
+  /**
+   * Selected SVG source (SvgSourceSettings)
+   * GitHub raw, a local mirror URL or an uploaded archive
+   */
+  SVG_SOURCE: 'svg_source',
+
+  /**
+   * Icon repository settings (IconRepository)
+   * Owner, repo, icon path and filename pattern of a fork to fetch icons from
+   */
+  ICON_REPOSITORY: 'icon_repository',
+
+  /**
+   * Variant naming schema (VariantSchema)
+   * Property names, value formats and order used to build and parse variant names
+   */
+  VARIANT_SCHEMA: 'variant_schema',
+
+  /**
+   * Component set layout (ComponentSetLayout)
+   * One ComponentSet per icon ('combined') or one per style ('per-style')
+   */
+  COMPONENT_SET_LAYOUT: 'component_set_layout',
+
+  /**
+   * Icon colour (IconColorSettings)
+   * Colour variable painted onto variant vectors, with a fallback hex
+   */
+  ICON_COLOR: 'icon_color',
+
+  /**
+   * SVG cache index ([key, size] pairs, least recently used first)
+   * See `@lib/icons/svg-cache`
+   */
+  SVG_CACHE_INDEX: 'svg_cache_index',
+
+  /**
+   * Prefix of cached SVG entries (followed by "<commitSha>:<svg path>")
+   */
+  SVG_CACHE_PREFIX: 'svg_cache:',
 } as const;
 
 /**
- * Expected variant count for a complete Material Icons component
+ * Expected variant count for a complete Material Icons component (full variant profile)
  * 3 styles × 7 weights × 2 fills × 3 grades × 4 optical sizes = 504
+ * Icons generated with a smaller profile are measured against `getProfileVariantCount()`
  */
 export const EXPECTED_VARIANT_COUNT = 504;
 
+/**
+ * Default page size for the 'alphabetical' and 'hybrid' page strategies
+ * Roughly the size of a set in categories-summary.json
+ */
+export const DEFAULT_ICONS_PER_PAGE = 150;
+
 /**
  * Feature Flags
  */
@@ -42,4 +151,13 @@ export const FEATURE_FLAGS = {
    * Can be disabled once existing components have been cleaned up.
    */
   ENABLE_VARIANT_CLEANUP: true,
+
+  /**
+   * Write upstream tags, categories and codepoints to ComponentSet descriptions
+   *
+   * Off until `src/lib/icons/icon-metadata-data.json` is generated by
+   * `pnpm icons:update` at the icon list's commit; the committed file is empty.
+   * Turn it on in the same change that commits the data.
+   */
+  ENABLE_ICON_METADATA: false,
 } as const;
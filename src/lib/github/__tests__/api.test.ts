@@ -9,6 +9,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { GitHubIconAPI } from '../api';
+import { HttpSvgSource } from '../svg-source';
+import { setIconRepository } from '../url-generator';
 
 // Mock logger
 vi.mock('@lib/utils', () => ({
@@ -27,6 +29,7 @@ describe('GitHubIconAPI', () => {
 
   beforeEach(() => {
     // Create fresh API instance
+    setIconRepository({});
     api = new GitHubIconAPI();
 
     // Mock global fetch
@@ -354,6 +357,18 @@ star e838
 
       expect(url).toContain('materialsymbolsoutlined');
     });
+
+    it('should check the configured SVG source', async () => {
+      fetchMock.mockResolvedValue({ ok: true });
+      api.setSvgSource(new HttpSvgSource('http://localhost:8787'));
+
+      await api.testIconExists('home', 'rounded');
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8787/home/materialsymbolsrounded/home_24px.svg',
+        { method: 'HEAD' }
+      );
+    });
   });
 
   describe('batchTestIcons', () => {
@@ -497,6 +512,21 @@ star e838
       expect(url).toContain('/commits/4.0.0');
     });
 
+    it('should follow the current icon repository unless owner/repo are configured', async () => {
+      fetchMock.mockResolvedValue({ ok: true, json: async () => ({ sha: 'xyz789' }) });
+      setIconRepository({ owner: 'acme', repo: 'brand-icons' });
+
+      await api.fetchCurrentCommitSha();
+      await new GitHubIconAPI({ owner: 'other', repo: 'icons' }).fetchCurrentCommitSha();
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://api.github.com/repos/acme/brand-icons/commits/master'
+      );
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        'https://api.github.com/repos/other/icons/commits/master'
+      );
+    });
+
     it('should throw on API error', async () => {
       fetchMock.mockResolvedValueOnce({
         ok: false,
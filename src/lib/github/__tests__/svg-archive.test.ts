@@ -0,0 +1,86 @@
+/**
+ * @module @figma/github/__tests__/svg-archive
+ *
+ * Unit tests for the tar reader used by archive uploads.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTarArchive } from '../svg-archive';
+
+const encoder = new TextEncoder();
+
+/**
+ * Build one tar entry (header + padded data)
+ */
+function tarEntry(name: string, content: string, type = '0', prefix = ''): Uint8Array {
+  const data = encoder.encode(content);
+  const header = new Uint8Array(512);
+  header.set(encoder.encode(name), 0);
+  header.set(encoder.encode(data.length.toString(8).padStart(11, '0')), 124);
+  header[156] = type.charCodeAt(0);
+  header.set(encoder.encode('ustar'), 257);
+  header.set(encoder.encode(prefix), 345);
+
+  const entry = new Uint8Array(512 + Math.ceil(data.length / 512) * 512);
+  entry.set(header, 0);
+  entry.set(data, 512);
+  return entry;
+}
+
+function tarArchive(...entries: Uint8Array[]): Uint8Array {
+  const parts = [...entries, new Uint8Array(1024)];
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+describe('svg-archive', () => {
+  describe('parseTarArchive', () => {
+    it('should extract SVG files and skip other entries', () => {
+      const files = parseTarArchive(
+        tarArchive(
+          tarEntry('web/', '', '5'),
+          tarEntry('web/README.md', '# readme'),
+          tarEntry('web/home/materialsymbolsrounded/home_24px.svg', '<svg>home</svg>')
+        )
+      );
+
+      expect(files).toEqual([
+        { path: 'web/home/materialsymbolsrounded/home_24px.svg', content: '<svg>home</svg>' },
+      ]);
+    });
+
+    it('should join the ustar name prefix', () => {
+      const files = parseTarArchive(
+        tarArchive(tarEntry('home_24px.svg', '<svg/>', '0', 'repo/symbols/web/home/x'))
+      );
+
+      expect(files[0].path).toBe('repo/symbols/web/home/x/home_24px.svg');
+    });
+
+    it('should use GNU long names and pax paths', () => {
+      const longPath = `repo/symbols/web/${'a'.repeat(120)}/icon_24px.svg`;
+      const paxPath = `repo/symbols/web/${'b'.repeat(120)}/icon_24px.svg`;
+      const paxRecord = ` path=${paxPath}\n`;
+
+      const files = parseTarArchive(
+        tarArchive(
+          tarEntry('././@LongLink', `${longPath}\0`, 'L'),
+          tarEntry('truncated.svg', '<svg>a</svg>'),
+          tarEntry('PaxHeader', `${paxRecord.length + 3}${paxRecord}`, 'x'),
+          tarEntry('truncated.svg', '<svg>b</svg>')
+        )
+      );
+
+      expect(files.map((file) => file.path)).toEqual([longPath, paxPath]);
+    });
+
+    it('should return nothing for an empty archive', () => {
+      expect(parseTarArchive(tarArchive())).toEqual([]);
+    });
+  });
+});
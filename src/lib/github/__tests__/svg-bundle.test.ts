@@ -0,0 +1,142 @@
+/**
+ * @module @figma/github/__tests__/svg-bundle
+ *
+ * Unit tests for offline SVG bundles: building, validation, chunking and loading.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BundleSvgSource,
+  buildSvgBundle,
+  getSvgBundleMeta,
+  splitSvgBundle,
+  validateSvgBundle,
+  type SvgBundleEntry,
+} from '../svg-bundle';
+import { hashSvg } from '@lib/utils';
+import type { IconVariant } from '../url-generator';
+import type { VariantProfile } from '@lib/icons/variant-profile';
+
+const PROFILE: VariantProfile = {
+  styles: ['rounded'],
+  weights: [400],
+  fills: [0, 1],
+  grades: [0],
+  opticalSizes: [24],
+};
+const OUTLINE: IconVariant = { weight: 400, fill: 0, grade: 0, opticalSize: 24 };
+const FILLED: IconVariant = { ...OUTLINE, fill: 1 };
+
+function entry(iconName: string, variant: IconVariant, svgContent: string): SvgBundleEntry {
+  return { iconName, style: 'rounded', variant, svgContent };
+}
+
+describe('svg-bundle', () => {
+  describe('buildSvgBundle', () => {
+    it('should index variants by filename and store identical SVGs once', () => {
+      const bundle = buildSvgBundle({
+        commitSha: 'abc1234def',
+        profile: PROFILE,
+        results: [
+          entry('home', OUTLINE, '<svg>same</svg>'),
+          entry('home', FILLED, '<svg>same</svg>\n'),
+          entry('star', OUTLINE, '<svg>star</svg>'),
+        ],
+      });
+
+      const homeKey = hashSvg('<svg>same</svg>');
+      expect(bundle.index).toEqual({
+        home: { rounded: { 'home_24px.svg': homeKey, 'home_fill1_24px.svg': homeKey } },
+        star: { rounded: { 'star_24px.svg': hashSvg('<svg>star</svg>') } },
+      });
+      expect(Object.keys(bundle.blobs)).toHaveLength(2);
+      expect(bundle).toMatchObject({ commitSha: 'abc1234def', iconCount: 2, variantCount: 3 });
+    });
+
+    it('should keep different SVGs apart when their hashes collide', () => {
+      // "Aa" and "B@" have the same DJB2 hash
+      expect(hashSvg('<svg>Aa</svg>')).toBe(hashSvg('<svg>B@</svg>'));
+
+      const bundle = buildSvgBundle({
+        commitSha: 'abc1234def',
+        profile: PROFILE,
+        results: [entry('home', OUTLINE, '<svg>Aa</svg>'), entry('home', FILLED, '<svg>B@</svg>')],
+      });
+
+      const files = bundle.index.home.rounded ?? {};
+      expect(files['home_24px.svg']).not.toBe(files['home_fill1_24px.svg']);
+      expect(bundle.blobs[files['home_fill1_24px.svg']]).toBe('<svg>B@</svg>');
+    });
+  });
+
+  describe('validateSvgBundle', () => {
+    it('should accept a built bundle and reject anything else', () => {
+      const bundle = buildSvgBundle({ commitSha: 'abc', profile: PROFILE, results: [] });
+
+      expect(validateSvgBundle(JSON.parse(JSON.stringify(bundle)))).toEqual(bundle);
+      expect(() => validateSvgBundle({ icons: [] })).toThrow('Not an SVG bundle');
+      expect(() => validateSvgBundle({ ...bundle, version: 99 })).toThrow('version 99');
+      expect(() => validateSvgBundle({ ...bundle, blobs: undefined })).toThrow('incomplete');
+    });
+  });
+
+  describe('splitSvgBundle', () => {
+    it('should send each blob once, with the first icon that uses it', () => {
+      const bundle = buildSvgBundle({
+        commitSha: 'abc',
+        profile: PROFILE,
+        results: [
+          entry('add', OUTLINE, '<svg>shared</svg>'),
+          entry('home', OUTLINE, '<svg>shared</svg>'),
+          entry('home', FILLED, '<svg>home</svg>'),
+        ],
+      });
+
+      const chunks = splitSvgBundle(bundle, 1);
+
+      expect(chunks.map((chunk) => Object.keys(chunk.index))).toEqual([['add'], ['home']]);
+      expect(Object.values(chunks[0].blobs)).toEqual(['<svg>shared</svg>']);
+      expect(Object.values(chunks[1].blobs)).toEqual(['<svg>home</svg>']);
+    });
+  });
+
+  describe('BundleSvgSource', () => {
+    it('should serve variants from loaded chunks', async () => {
+      const bundle = buildSvgBundle({
+        commitSha: 'abc1234def',
+        profile: PROFILE,
+        results: [entry('home', OUTLINE, '<svg>home</svg>')],
+      });
+      const source = new BundleSvgSource();
+
+      source.load(getSvgBundleMeta(bundle));
+      for (const chunk of splitSvgBundle(bundle, 50)) {
+        source.addEntries(chunk.index, chunk.blobs);
+      }
+
+      const url = source.getUrl('home', 'rounded', OUTLINE);
+      expect(url).toBe('bundle:home/rounded/home_24px.svg');
+      expect(await (await source.fetchSvg(url)).text()).toBe('<svg>home</svg>');
+      expect((await source.fetchSvg(source.getUrl('home', 'rounded', FILLED))).status).toBe(404);
+      await expect(source.exists('home', 'rounded', OUTLINE)).resolves.toBe(true);
+      expect(source.label).toBe('Bundle (abc1234, 1 SVGs)');
+    });
+
+    it('should drop the previous bundle on load and clear', async () => {
+      const source = new BundleSvgSource();
+      const bundle = buildSvgBundle({
+        commitSha: 'abc',
+        profile: PROFILE,
+        results: [entry('home', OUTLINE, '<svg>home</svg>')],
+      });
+      source.load(getSvgBundleMeta(bundle));
+      source.addEntries(bundle.index, bundle.blobs);
+
+      source.load({ ...getSvgBundleMeta(bundle), commitSha: 'def' });
+      await expect(source.exists('home', 'rounded', OUTLINE)).resolves.toBe(false);
+
+      source.clear();
+      expect(source.metadata).toBeNull();
+    });
+  });
+});
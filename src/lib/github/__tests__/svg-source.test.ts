@@ -0,0 +1,177 @@
+/**
+ * @module @figma/github/__tests__/svg-source
+ *
+ * Unit tests for the pluggable SVG sources (GitHub raw, local mirror, archive).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ArchiveSvgSource,
+  GitHubRawSvgSource,
+  HttpSvgSource,
+  DEFAULT_MIRROR_URL,
+  createSvgSource,
+  normalizeArchivePath,
+} from '../svg-source';
+import { BundleSvgSource } from '../svg-bundle';
+import {
+  generateGitHubUrl,
+  setGitHubRef,
+  setIconRepository,
+  type IconVariant,
+} from '../url-generator';
+
+const DEFAULT_VARIANT: IconVariant = { weight: 400, fill: 0, grade: 0, opticalSize: 24 };
+
+describe('svg-source', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setGitHubRef('master');
+    setIconRepository({});
+    fetchMock = vi.fn();
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GitHubRawSvgSource', () => {
+    it('should produce the same URLs as generateGitHubUrl', () => {
+      const source = new GitHubRawSvgSource();
+
+      expect(source.getUrl('home', 'sharp', DEFAULT_VARIANT)).toBe(
+        generateGitHubUrl('home', 'sharp', DEFAULT_VARIANT)
+      );
+    });
+
+    it('should follow the current GitHub ref', () => {
+      const source = new GitHubRawSvgSource();
+      setGitHubRef('bb04090f19c0e9dcfdb4812c987f4f05ef89669b');
+
+      expect(source.getUrl('home', 'rounded', DEFAULT_VARIANT)).toContain(
+        '/bb04090f19c0e9dcfdb4812c987f4f05ef89669b/symbols/web/'
+      );
+      expect(source.label).toBe('GitHub (bb04090)');
+    });
+
+    it('should follow the current icon repository', () => {
+      const source = new GitHubRawSvgSource();
+      setIconRepository({ owner: 'acme', repo: 'brand-icons', path: 'icons' });
+
+      expect(source.getUrl('acme_logo', 'rounded', DEFAULT_VARIANT)).toBe(
+        'https://raw.githubusercontent.com/acme/brand-icons/master/icons/acme_logo/materialsymbolsrounded/acme_logo_24px.svg'
+      );
+      expect(source.label).toBe('GitHub (acme/brand-icons@master)');
+    });
+  });
+
+  describe('HttpSvgSource', () => {
+    it('should build URLs under the mirror base URL', () => {
+      const source = new HttpSvgSource('http://localhost:8787/');
+
+      expect(source.getUrl('home', 'rounded', DEFAULT_VARIANT)).toBe(
+        'http://localhost:8787/home/materialsymbolsrounded/home_24px.svg'
+      );
+    });
+
+    it('should check existence with a HEAD request', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 404 });
+      const source = new HttpSvgSource('http://localhost:8787');
+
+      await expect(source.exists('nope', 'rounded', DEFAULT_VARIANT)).resolves.toBe(false);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:8787/nope/materialsymbolsrounded/nope_24px.svg',
+        { method: 'HEAD' }
+      );
+    });
+  });
+
+  describe('normalizeArchivePath', () => {
+    it('should strip everything up to symbols/web', () => {
+      expect(
+        normalizeArchivePath('material-design-icons-master/symbols/web/home/x/home_24px.svg')
+      ).toBe('home/x/home_24px.svg');
+    });
+
+    it("should strip everything up to a fork's icon path", () => {
+      setIconRepository({ path: 'brand/svg' });
+
+      expect(normalizeArchivePath('brand-icons-main/brand/svg/home/x/home_24px.svg')).toBe(
+        'home/x/home_24px.svg'
+      );
+    });
+
+    it('should accept paths relative to symbols/web', () => {
+      expect(normalizeArchivePath('./home/x/home_24px.svg')).toBe('home/x/home_24px.svg');
+      expect(normalizeArchivePath('home\\x\\home_24px.svg')).toBe('home/x/home_24px.svg');
+    });
+
+    it('should drop the category from legacy Material Icons paths', () => {
+      expect(
+        normalizeArchivePath(
+          'material-design-icons-master/src/action/home/materialiconsround/24px.svg'
+        )
+      ).toBe('home/materialiconsround/24px.svg');
+    });
+  });
+
+  describe('ArchiveSvgSource', () => {
+    let archive: ArchiveSvgSource;
+
+    beforeEach(() => {
+      archive = new ArchiveSvgSource();
+      archive.addFiles({
+        'repo/symbols/web/home/materialsymbolsrounded/home_24px.svg': '<svg>home</svg>',
+      });
+    });
+
+    it('should serve loaded files without network access', async () => {
+      const url = archive.getUrl('home', 'rounded', DEFAULT_VARIANT);
+      const response = await archive.fetchSvg(url);
+
+      expect(url).toBe('archive:home/materialsymbolsrounded/home_24px.svg');
+      expect(response.ok).toBe(true);
+      expect(await response.text()).toBe('<svg>home</svg>');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for files not in the archive', async () => {
+      const response = await archive.fetchSvg(archive.getUrl('home', 'sharp', DEFAULT_VARIANT));
+
+      expect(response.ok).toBe(false);
+      expect(response.status).toBe(404);
+      await expect(archive.exists('home', 'sharp', DEFAULT_VARIANT)).resolves.toBe(false);
+      await expect(archive.exists('home', 'rounded', DEFAULT_VARIANT)).resolves.toBe(true);
+    });
+
+    it('should report and clear its size', () => {
+      expect(archive.size).toBe(1);
+      expect(archive.label).toBe('Archive (1 SVGs)');
+
+      archive.clear();
+
+      expect(archive.size).toBe(0);
+    });
+  });
+
+  describe('createSvgSource', () => {
+    it('should create the source for each setting', () => {
+      const archive = new ArchiveSvgSource();
+      const bundle = new BundleSvgSource();
+
+      expect(createSvgSource({ kind: 'github' }, archive, bundle)).toBeInstanceOf(
+        GitHubRawSvgSource
+      );
+      expect(createSvgSource({ kind: 'archive' }, archive, bundle)).toBe(archive);
+      expect(createSvgSource({ kind: 'bundle' }, archive, bundle)).toBe(bundle);
+
+      const mirror = createSvgSource({ kind: 'mirror' }, archive, bundle);
+      expect(mirror.kind).toBe('mirror');
+      expect(mirror.label).toBe(`Mirror (${DEFAULT_MIRROR_URL})`);
+    });
+  });
+});
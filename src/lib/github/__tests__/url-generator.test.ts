@@ -5,21 +5,39 @@
  * Tests filename generation, URL construction, and variant helpers.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   generateFilename,
   generateGitHubUrl,
+  generateSvgPath,
   generateAllVariants,
   generateCommonVariants,
   setGitHubRef,
   getGitHubRef,
+  isLegacyStyle,
+  isVariantAvailable,
+  setIconRepository,
+  getIconRepository,
+  normalizeIconRepository,
+  validateIconRepository,
+  isDefaultIconRepository,
+  getGitHubApiUrl,
+  getIconNameFromRepoPath,
+  hasLegacyIconCategories,
+  DEFAULT_ICON_REPOSITORY,
   type IconVariant,
 } from '../url-generator';
+import legacyCategories from '../legacy-icon-categories.json';
+
+vi.mock('../legacy-icon-categories.json', () => ({
+  default: { home: 'action', search: 'action' },
+}));
 
 describe('url-generator', () => {
   // Reset GitHub ref before each test
   beforeEach(() => {
     setGitHubRef('master');
+    setIconRepository({});
   });
 
   describe('generateFilename', () => {
@@ -253,6 +271,66 @@ describe('url-generator', () => {
     });
   });
 
+  describe('legacy Material Icons', () => {
+    const variant: IconVariant = { fill: 0, weight: 400, grade: 0, opticalSize: 24 };
+
+    it('should name files by size only', () => {
+      expect(generateFilename('home', variant, 'legacy-round')).toBe('24px.svg');
+      expect(generateFilename('home', { ...variant, opticalSize: 20 }, 'legacy-two-tone')).toBe(
+        '20px.svg'
+      );
+      expect(generateFilename('home', variant, 'rounded')).toBe('home_24px.svg');
+    });
+
+    it('should keep the category out of plugin-side paths', () => {
+      expect(generateSvgPath('home', 'legacy-filled', variant)).toBe('home/materialicons/24px.svg');
+      expect(generateSvgPath('home', 'legacy-two-tone', variant)).toBe(
+        'home/materialiconstwotone/24px.svg'
+      );
+    });
+
+    it('should build GitHub URLs under src/{category}', () => {
+      expect(generateGitHubUrl('home', 'legacy-round', variant)).toBe(
+        'https://raw.githubusercontent.com/google/material-design-icons/master/src/action/home/materialiconsround/24px.svg'
+      );
+    });
+
+    it('should point icons without a legacy version at a missing path', () => {
+      expect(generateGitHubUrl('10k', 'legacy-sharp', variant)).toContain(
+        '/src/_unknown/10k/materialiconssharp/24px.svg'
+      );
+    });
+
+    it('should refuse to build GitHub URLs when no legacy categories are bundled', () => {
+      const categories = legacyCategories as Record<string, string>;
+      const bundled = { ...categories };
+      Object.keys(bundled).forEach((iconName) => delete categories[iconName]);
+
+      try {
+        expect(hasLegacyIconCategories()).toBe(false);
+        expect(() => generateGitHubUrl('home', 'legacy-round', variant)).toThrow(
+          /Legacy icon categories are not bundled/
+        );
+        expect(generateGitHubUrl('home', 'rounded', variant)).toContain('/symbols/web/home/');
+      } finally {
+        Object.assign(categories, bundled);
+      }
+      expect(hasLegacyIconCategories()).toBe(true);
+    });
+
+    it('should only have default weight, fill and grade at 20/24px', () => {
+      expect(isLegacyStyle('legacy-outlined')).toBe(true);
+      expect(isLegacyStyle('outlined')).toBe(false);
+      expect(isVariantAvailable('legacy-round', variant)).toBe(true);
+      expect(isVariantAvailable('legacy-round', { ...variant, opticalSize: 48 })).toBe(false);
+      expect(isVariantAvailable('legacy-round', { ...variant, weight: 300 })).toBe(false);
+      expect(isVariantAvailable('legacy-round', { ...variant, fill: 1 })).toBe(false);
+      expect(isVariantAvailable('rounded', { ...variant, weight: 300, opticalSize: 48 })).toBe(
+        true
+      );
+    });
+  });
+
   describe('setGitHubRef / getGitHubRef', () => {
     it('should return default ref', () => {
       const ref = getGitHubRef();
@@ -294,6 +372,112 @@ describe('url-generator', () => {
     });
   });
 
+  describe('icon repository', () => {
+    const variant: IconVariant = { fill: 1, weight: 300, grade: -25, opticalSize: 20 };
+    const FORK = {
+      owner: 'acme',
+      repo: 'brand-icons',
+      path: 'icons/svg',
+      filenamePattern: '{icon}-w{weight}-g{grade}-f{fill}-{size}.svg',
+    };
+
+    it('should default to google/material-design-icons', () => {
+      expect(getIconRepository()).toEqual(DEFAULT_ICON_REPOSITORY);
+      expect(isDefaultIconRepository()).toBe(true);
+      expect(getGitHubApiUrl()).toBe('https://api.github.com/repos/google/material-design-icons');
+    });
+
+    it('should point URLs, paths and filenames at a fork', () => {
+      setIconRepository(FORK);
+
+      expect(isDefaultIconRepository()).toBe(false);
+      expect(generateFilename('home', variant)).toBe('home-w300-g-25-f1-20.svg');
+      expect(generateSvgPath('home', 'rounded', variant)).toBe(
+        'home/materialsymbolsrounded/home-w300-g-25-f1-20.svg'
+      );
+      expect(generateGitHubUrl('home', 'rounded', variant)).toBe(
+        'https://raw.githubusercontent.com/acme/brand-icons/master/icons/svg/home/materialsymbolsrounded/home-w300-g-25-f1-20.svg'
+      );
+      expect(getGitHubApiUrl()).toBe('https://api.github.com/repos/acme/brand-icons');
+    });
+
+    it('should keep the upstream scheme with the default pattern', () => {
+      setIconRepository({ owner: 'acme' });
+
+      expect(generateFilename('home', variant)).toBe('home_wght300gradN25fill1_20px.svg');
+      expect(generateGitHubUrl('home', 'rounded', variant)).toBe(
+        'https://raw.githubusercontent.com/acme/material-design-icons/master/symbols/web/home/materialsymbolsrounded/home_wght300gradN25fill1_20px.svg'
+      );
+    });
+
+    it('should keep legacy filenames and the src/ layout', () => {
+      setIconRepository(FORK);
+      const legacy: IconVariant = { fill: 0, weight: 400, grade: 0, opticalSize: 24 };
+
+      expect(generateGitHubUrl('home', 'legacy-round', legacy)).toBe(
+        'https://raw.githubusercontent.com/acme/brand-icons/master/src/action/home/materialiconsround/24px.svg'
+      );
+    });
+
+    it('should normalise input and fill in defaults', () => {
+      expect(normalizeIconRepository({ owner: ' acme ', repo: '', path: '/icons/svg/' })).toEqual({
+        ...DEFAULT_ICON_REPOSITORY,
+        owner: 'acme',
+        path: 'icons/svg',
+      });
+      expect(normalizeIconRepository(null)).toEqual(DEFAULT_ICON_REPOSITORY);
+    });
+
+    it('should reject invalid settings and keep the current repository', () => {
+      setIconRepository(FORK);
+
+      expect(() => setIconRepository({ owner: 'acme corp' })).toThrow(/Invalid owner/);
+      expect(getIconRepository()).toEqual(FORK);
+    });
+
+    it('should require filename patterns that tell variants apart', () => {
+      const check = (filenamePattern: string) =>
+        validateIconRepository({ ...DEFAULT_ICON_REPOSITORY, filenamePattern });
+
+      expect(check('{icon}{modifiers}_{size}px.svg')).toEqual([]);
+      expect(check('{icon}_{weight}_{grade}_{fill}_{size}.svg')).toEqual([]);
+      expect(check('{icon}_{size}px.svg')[0]).toMatch(/must include \{size\} and either/);
+      expect(check('{icon}_{weight}_{size}px.svg')[0]).toMatch(/must include/);
+      expect(check('{icon}{modifiers}_{size}px.png')).toEqual([
+        'Filename pattern must end with .svg',
+      ]);
+      expect(check('{name}{modifiers}_{size}px.svg')).toEqual([
+        'Unknown filename token(s): {name}',
+      ]);
+      expect(check('x/{icon}{modifiers}_{size}px.svg')).toEqual([
+        'Filename pattern must not contain "/"',
+      ]);
+    });
+
+    it('should reject paths that escape the repository', () => {
+      expect(validateIconRepository({ ...DEFAULT_ICON_REPOSITORY, path: '../secrets' })).toEqual([
+        'Invalid icon path: ../secrets',
+      ]);
+      expect(validateIconRepository({ ...DEFAULT_ICON_REPOSITORY, path: 'a//b' })).toEqual([
+        'Invalid icon path: a//b',
+      ]);
+    });
+
+    it('should map changed files under the icon path to icon names', () => {
+      expect(getIconNameFromRepoPath('symbols/web/home/materialsymbolsrounded/home_24px.svg')).toBe(
+        'home'
+      );
+      expect(getIconNameFromRepoPath('symbols/web/README.md')).toBeNull();
+      expect(getIconNameFromRepoPath('src/action/home/materialicons/24px.svg')).toBeNull();
+
+      setIconRepository(FORK);
+      expect(getIconNameFromRepoPath('icons/svg/acme_logo/materialsymbolsrounded/x.svg')).toBe(
+        'acme_logo'
+      );
+      expect(getIconNameFromRepoPath('symbols/web/home/materialsymbolsrounded/x.svg')).toBeNull();
+    });
+  });
+
   describe('generateAllVariants', () => {
     it('should generate all 504 variant combinations', () => {
       const variants = generateAllVariants();
@@ -6,7 +6,8 @@
  */
 
 import { logger } from '@lib/utils';
-import { generateGitHubUrl, type IconVariant, type IconStyle } from './url-generator';
+import { getIconRepository, type IconVariant, type IconStyle } from './url-generator';
+import { GitHubRawSvgSource, type SvgSource } from './svg-source';
 
 /**
  * Icon metadata from GitHub
@@ -33,21 +34,27 @@ export interface CategoryMetadata {
 export interface GitHubAPIConfig {
   /** Base URL for raw GitHub content */
   baseUrl?: string;
-  /** Repository owner */
+  /** Repository owner (defaults to the current icon repository) */
   owner?: string;
-  /** Repository name */
+  /** Repository name (defaults to the current icon repository) */
   repo?: string;
   /** Branch or tag */
   ref?: string;
+  /** Where variant SVGs are checked (defaults to GitHub raw) */
+  svgSource?: SvgSource;
 }
 
+/**
+ * Resolved configuration (owner/repo stay unset to follow `setIconRepository`)
+ */
+type ResolvedAPIConfig = Required<Pick<GitHubAPIConfig, 'baseUrl' | 'ref'>> &
+  Pick<GitHubAPIConfig, 'owner' | 'repo'>;
+
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<GitHubAPIConfig> = {
+const DEFAULT_CONFIG: ResolvedAPIConfig = {
   baseUrl: 'https://raw.githubusercontent.com',
-  owner: 'google',
-  repo: 'material-design-icons',
   ref: 'master',
 };
 
@@ -55,8 +62,8 @@ const DEFAULT_CONFIG: Required<GitHubAPIConfig> = {
  * GitHub API client for Material Icons
  *
  * Provides methods to fetch icon lists, SVG content, and validate icon availability
- * from Google's material-design-icons repository. Includes caching, retry logic,
- * and rate limit handling.
+ * from Google's material-design-icons repository (or the fork set with
+ * `setIconRepository`). Includes caching, retry logic, and rate limit handling.
  *
  * Features:
  * - Automatic retry with exponential backoff
@@ -79,7 +86,8 @@ const DEFAULT_CONFIG: Required<GitHubAPIConfig> = {
  * ```
  */
 export class GitHubIconAPI {
-  private config: Required<GitHubAPIConfig>;
+  private config: ResolvedAPIConfig;
+  private svgSource: SvgSource;
   private iconCache: Map<string, IconMetadata> = new Map();
   private categoryCache: Map<string, CategoryMetadata> = new Map();
 
@@ -88,12 +96,37 @@ export class GitHubIconAPI {
    *
    * @param {GitHubAPIConfig} [config={}] - Configuration options
    * @param {string} [config.baseUrl='https://raw.githubusercontent.com'] - Raw content base URL
-   * @param {string} [config.owner='google'] - Repository owner
-   * @param {string} [config.repo='material-design-icons'] - Repository name
+   * @param {string} [config.owner] - Repository owner (default: current icon repository)
+   * @param {string} [config.repo] - Repository name (default: current icon repository)
    * @param {string} [config.ref='master'] - Branch, tag, or commit SHA
+   * @param {SvgSource} [config.svgSource] - Where variant SVGs are checked (GitHub raw by default)
    */
   constructor(config: GitHubAPIConfig = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    const { svgSource, ...rest } = config;
+    this.config = { ...DEFAULT_CONFIG, ...rest };
+    this.svgSource = svgSource ?? new GitHubRawSvgSource();
+  }
+
+  /**
+   * Change where variant SVGs are checked
+   *
+   * @param {SvgSource} svgSource - New source
+   */
+  setSvgSource(svgSource: SvgSource): void {
+    this.svgSource = svgSource;
+  }
+
+  /**
+   * Repository owner and name (explicit config, else the current icon repository)
+   *
+   * @private
+   */
+  private get repository(): { owner: string; repo: string } {
+    const current = getIconRepository();
+    return {
+      owner: this.config.owner ?? current.owner,
+      repo: this.config.repo ?? current.repo,
+    };
   }
 
   /**
@@ -110,7 +143,8 @@ export class GitHubIconAPI {
    * ```
    */
   private buildUrl(path: string): string {
-    const { baseUrl, owner, repo, ref } = this.config;
+    const { baseUrl, ref } = this.config;
+    const { owner, repo } = this.repository;
     return `${baseUrl}/${owner}/${repo}/${ref}/${path}`;
   }
 
@@ -324,7 +358,7 @@ export class GitHubIconAPI {
   }
 
   /**
-   * Test if an icon exists by checking a single variant
+   * Test if an icon exists by checking a single variant in the configured SVG source
    */
   async testIconExists(
     iconName: string,
@@ -338,11 +372,8 @@ export class GitHubIconAPI {
       opticalSize: variant?.opticalSize ?? 24,
     };
 
-    const url = generateGitHubUrl(iconName, style, testVariant);
-
     try {
-      const response = await fetch(url, { method: 'HEAD' });
-      return response.ok;
+      return await this.svgSource.exists(iconName, style, testVariant);
     } catch (error) {
       logger.warn(`Failed to test icon ${iconName}: ${error}`);
       return false;
@@ -461,7 +492,8 @@ export class GitHubIconAPI {
    * @returns The commit SHA string
    */
   async fetchCurrentCommitSha(): Promise<string> {
-    const { owner, repo, ref } = this.config;
+    const { ref } = this.config;
+    const { owner, repo } = this.repository;
     const apiUrl = `https://api.github.com/repos/${owner}/${repo}/commits/${ref}`;
 
     try {
@@ -7,12 +7,32 @@
 export {
   generateFilename,
   generateGitHubUrl,
+  generateSvgPath,
   generateAllVariants,
   generateCommonVariants,
   setGitHubRef,
   getGitHubRef,
+  isLegacyStyle,
+  isVariantAvailable,
+  getLegacyIconCategory,
+  hasLegacyIconCategories,
+  getStyleForDirectory,
+  setIconRepository,
+  getIconRepository,
+  normalizeIconRepository,
+  validateIconRepository,
+  isDefaultIconRepository,
+  getGitHubApiUrl,
+  getIconNameFromRepoPath,
+  DEFAULT_ICON_REPOSITORY,
+  LEGACY_STYLES,
+  LEGACY_OPTICAL_SIZES,
   type IconStyle,
+  type SymbolStyle,
+  type LegacyIconStyle,
   type IconVariant,
+  type IconRepository,
+  type FilenamePatternToken,
 } from './url-generator';
 
 export {
@@ -22,3 +42,32 @@ export {
   type CategoryMetadata,
   type GitHubAPIConfig,
 } from './api';
+
+export {
+  HttpSvgSource,
+  GitHubRawSvgSource,
+  ArchiveSvgSource,
+  createSvgSource,
+  normalizeArchivePath,
+  DEFAULT_MIRROR_URL,
+  type SvgSource,
+  type SvgSourceKind,
+  type SvgSourceResponse,
+  type SvgSourceSettings,
+} from './svg-source';
+
+export { parseTarArchive, type ArchiveFile } from './svg-archive';
+
+export {
+  BundleSvgSource,
+  buildSvgBundle,
+  validateSvgBundle,
+  getSvgBundleMeta,
+  splitSvgBundle,
+  SVG_BUNDLE_FORMAT,
+  SVG_BUNDLE_VERSION,
+  type SvgBundle,
+  type SvgBundleEntry,
+  type SvgBundleIndex,
+  type SvgBundleMeta,
+} from './svg-bundle';
@@ -0,0 +1,104 @@
+/**
+ * @module @figma/github/svg-archive
+ *
+ * Minimal tar reader for uploaded SVG archives.
+ *
+ * Runs in the UI iframe (which has the file picker and `DecompressionStream`
+ * for `.tar.gz`) and extracts only `.svg` files, so the plugin receives
+ * plain `{ path: content }` chunks for `ArchiveSvgSource.addFiles`.
+ *
+ * **Supported**:
+ * - POSIX ustar (including the 155-byte name prefix)
+ * - GNU long names (`L` entries) and pax `path` records (`x` entries), as
+ *   written by `git archive` and GNU tar for deep `symbols/web` paths
+ *
+ * @example
+ * ```typescript
+ * const bytes = new Uint8Array(await file.arrayBuffer());
+ * const files = parseTarArchive(bytes);
+ * // [{ path: 'material-design-icons-master/symbols/web/home/.../home_24px.svg', content: '<svg…' }]
+ * ```
+ */
+
+/**
+ * File extracted from an archive
+ *
+ * @interface ArchiveFile
+ * @property {string} path - Path inside the archive
+ * @property {string} content - UTF-8 file content
+ */
+export interface ArchiveFile {
+  path: string;
+  content: string;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Read a NUL-terminated string field from a header
+ *
+ * @private
+ */
+function readString(
+  bytes: Uint8Array,
+  offset: number,
+  length: number,
+  decoder: TextDecoder
+): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Read the `path` record from a pax extended header
+ *
+ * @private
+ */
+function readPaxPath(content: string): string | null {
+  const match = content.match(/^\d+ path=(.*)$/m);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract every `.svg` file from a tar archive
+ *
+ * @param {Uint8Array} bytes - Uncompressed tar data
+ * @returns {ArchiveFile[]} SVG files in archive order
+ */
+export function parseTarArchive(bytes: Uint8Array): ArchiveFile[] {
+  const decoder = new TextDecoder();
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const name = readString(bytes, offset, 100, decoder);
+    if (!name) {
+      break; // End-of-archive marker (zero block)
+    }
+
+    const size = parseInt(readString(bytes, offset + 124, 12, decoder).trim() || '0', 8);
+    const type = String.fromCharCode(bytes[offset + 156]);
+    const prefix = readString(bytes, offset + 345, 155, decoder);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = bytes.subarray(dataStart, dataStart + size);
+
+    if (type === 'L') {
+      longName = readString(data, 0, data.length, decoder);
+    } else if (type === 'x') {
+      longName = readPaxPath(decoder.decode(data)) ?? longName;
+    } else {
+      const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+      longName = null;
+
+      if ((type === '0' || type === '\0') && path.toLowerCase().endsWith('.svg')) {
+        files.push({ path, content: decoder.decode(data) });
+      }
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return files;
+}
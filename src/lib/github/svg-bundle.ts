@@ -0,0 +1,287 @@
+/**
+ * @module @figma/github/svg-bundle
+ *
+ * Offline SVG bundles: every SVG a generation run needs, pinned to one commit.
+ *
+ * A bundle is built ahead of time by `scripts/build-svg-bundle.ts` for a commit
+ * SHA and variant profile, gzipped, and loaded through the UI. Generation then
+ * reads from the bundle (`BundleSvgSource`) instead of the network, so a run
+ * can be repeated later with byte-identical input.
+ *
+ * **Layout**:
+ * - `blobs`: SVG content keyed by `hashSvg` (identical variants stored once;
+ *   a normalized-content collision gets a `-N` suffix)
+ * - `index[iconName][style][generateFilename(...)]`: blob key of each variant
+ *
+ * @example
+ * ```typescript
+ * const bundle = buildSvgBundle({ commitSha, profile, results });
+ * // { format: 'material-symbols-svg-bundle', version: 1, commitSha, profile, index, blobs, ... }
+ *
+ * const source = new BundleSvgSource();
+ * source.load(getSvgBundleMeta(bundle));
+ * source.addEntries(bundle.index, bundle.blobs);
+ * const response = await source.fetchSvg(source.getUrl('home', 'rounded', variant));
+ * ```
+ */
+
+import { hashSvg, normalizeSvg } from '@lib/utils';
+import type { VariantProfile } from '@lib/icons/variant-profile';
+import { generateFilename, type IconStyle, type IconVariant } from './url-generator';
+import type { SvgSource, SvgSourceKind, SvgSourceResponse } from './svg-source';
+
+/**
+ * Format marker written to every bundle
+ */
+export const SVG_BUNDLE_FORMAT = 'material-symbols-svg-bundle';
+
+/**
+ * Current bundle format version
+ */
+export const SVG_BUNDLE_VERSION = 1;
+
+/**
+ * Blob key of each variant, by icon name, style and upstream filename
+ */
+export type SvgBundleIndex = Record<string, Partial<Record<IconStyle, Record<string, string>>>>;
+
+/**
+ * Bundle metadata (everything except the SVGs)
+ *
+ * @interface SvgBundleMeta
+ * @property {string} format - Always `SVG_BUNDLE_FORMAT`
+ * @property {number} version - Bundle format version
+ * @property {string} commitSha - Upstream commit the SVGs were taken from
+ * @property {VariantProfile} profile - Variants included for each icon
+ * @property {string} createdAt - ISO timestamp of the build
+ * @property {number} iconCount - Icons in the index
+ * @property {number} variantCount - Variants in the index
+ */
+export interface SvgBundleMeta {
+  format: typeof SVG_BUNDLE_FORMAT;
+  version: number;
+  commitSha: string;
+  profile: VariantProfile;
+  createdAt: string;
+  iconCount: number;
+  variantCount: number;
+}
+
+/**
+ * Complete bundle as written by the builder script
+ *
+ * @interface SvgBundle
+ * @property {SvgBundleIndex} index - Blob key of each variant
+ * @property {Record<string, string>} blobs - SVG content by blob key
+ */
+export interface SvgBundle extends SvgBundleMeta {
+  index: SvgBundleIndex;
+  blobs: Record<string, string>;
+}
+
+/**
+ * Downloaded variant to add to a bundle
+ */
+export interface SvgBundleEntry {
+  iconName: string;
+  style: IconStyle;
+  variant: IconVariant;
+  svgContent: string;
+}
+
+/**
+ * Build a content-addressed bundle from downloaded variants
+ *
+ * @param {object} options - Bundle contents
+ * @param {string} options.commitSha - Commit the SVGs were fetched at
+ * @param {VariantProfile} options.profile - Profile that was fetched
+ * @param {SvgBundleEntry[]} options.results - Downloaded variants (e.g. `batchFetchSVGs` results)
+ * @returns {SvgBundle} Bundle ready to serialize
+ */
+export function buildSvgBundle(options: {
+  commitSha: string;
+  profile: VariantProfile;
+  results: SvgBundleEntry[];
+}): SvgBundle {
+  const index: SvgBundleIndex = {};
+  const blobs: Record<string, string> = {};
+  const normalizedBlobs = new Map<string, string>();
+  let variantCount = 0;
+
+  for (const result of options.results) {
+    const normalized = normalizeSvg(result.svgContent);
+    const hash = hashSvg(result.svgContent);
+
+    // DJB2 is 32-bit: different SVGs can share a hash, so suffix until unique
+    let key = hash;
+    for (let n = 1; normalizedBlobs.has(key) && normalizedBlobs.get(key) !== normalized; n++) {
+      key = `${hash}-${n}`;
+    }
+    if (!normalizedBlobs.has(key)) {
+      normalizedBlobs.set(key, normalized);
+      blobs[key] = result.svgContent;
+    }
+
+    const styles = (index[result.iconName] = index[result.iconName] || {});
+    const files = (styles[result.style] = styles[result.style] || {});
+    files[generateFilename(result.iconName, result.variant, result.style)] = key;
+    variantCount++;
+  }
+
+  return {
+    format: SVG_BUNDLE_FORMAT,
+    version: SVG_BUNDLE_VERSION,
+    commitSha: options.commitSha,
+    profile: options.profile,
+    createdAt: new Date().toISOString(),
+    iconCount: Object.keys(index).length,
+    variantCount,
+    index,
+    blobs,
+  };
+}
+
+/**
+ * Check that parsed JSON is a bundle this version can read
+ *
+ * @param {unknown} data - Parsed bundle file
+ * @returns {SvgBundle} The bundle
+ * @throws {Error} If the data is not a supported bundle
+ */
+export function validateSvgBundle(data: unknown): SvgBundle {
+  const bundle = data as Partial<SvgBundle> | null;
+  if (!bundle || bundle.format !== SVG_BUNDLE_FORMAT) {
+    throw new Error('Not an SVG bundle (missing format marker)');
+  }
+  if (bundle.version !== SVG_BUNDLE_VERSION) {
+    throw new Error(`Unsupported SVG bundle version ${bundle.version}`);
+  }
+  if (!bundle.commitSha || !bundle.profile || !bundle.index || !bundle.blobs) {
+    throw new Error('SVG bundle is incomplete');
+  }
+  return bundle as SvgBundle;
+}
+
+/**
+ * Bundle metadata without the index and SVGs
+ *
+ * @param {SvgBundle} bundle - Bundle
+ * @returns {SvgBundleMeta} Metadata
+ */
+export function getSvgBundleMeta(bundle: SvgBundle): SvgBundleMeta {
+  const { format, version, commitSha, profile, createdAt, iconCount, variantCount } = bundle;
+  return { format, version, commitSha, profile, createdAt, iconCount, variantCount };
+}
+
+/**
+ * Split a bundle into chunks of icons (for posting from the UI to the plugin)
+ *
+ * Each blob is sent once, with the first chunk that references it.
+ *
+ * @param {SvgBundle} bundle - Bundle
+ * @param {number} iconsPerChunk - Icons per chunk
+ * @returns {Array<{ index: SvgBundleIndex; blobs: Record<string, string> }>} Chunks in icon order
+ */
+export function splitSvgBundle(
+  bundle: SvgBundle,
+  iconsPerChunk: number
+): Array<{ index: SvgBundleIndex; blobs: Record<string, string> }> {
+  const iconNames = Object.keys(bundle.index);
+  const sent = new Set<string>();
+  const chunks: Array<{ index: SvgBundleIndex; blobs: Record<string, string> }> = [];
+
+  for (let i = 0; i < iconNames.length; i += iconsPerChunk) {
+    const chunk = { index: {} as SvgBundleIndex, blobs: {} as Record<string, string> };
+    for (const iconName of iconNames.slice(i, i + iconsPerChunk)) {
+      const styles = bundle.index[iconName];
+      chunk.index[iconName] = styles;
+      for (const files of Object.values(styles)) {
+        for (const key of Object.values(files || {})) {
+          if (!sent.has(key)) {
+            sent.add(key);
+            chunk.blobs[key] = bundle.blobs[key];
+          }
+        }
+      }
+    }
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * SVGs from a loaded bundle, held in memory
+ *
+ * Identifiers are `bundle:<iconName>/<style>/<filename>`. The bundle stays
+ * loaded until the plugin closes or another bundle is loaded.
+ *
+ * @class BundleSvgSource
+ */
+export class BundleSvgSource implements SvgSource {
+  readonly kind: SvgSourceKind = 'bundle';
+  private meta: SvgBundleMeta | null = null;
+  private index: SvgBundleIndex = {};
+  private blobs = new Map<string, string>();
+
+  get label(): string {
+    return this.meta
+      ? `Bundle (${this.meta.commitSha.substring(0, 7)}, ${this.meta.variantCount.toLocaleString()} SVGs)`
+      : 'Bundle (not loaded)';
+  }
+
+  /** Metadata of the loaded bundle, or null */
+  get metadata(): SvgBundleMeta | null {
+    return this.meta;
+  }
+
+  /**
+   * Start loading a bundle (drops any previous one)
+   *
+   * @param {SvgBundleMeta} meta - Bundle metadata
+   */
+  load(meta: SvgBundleMeta): void {
+    this.meta = meta;
+    this.index = {};
+    this.blobs.clear();
+  }
+
+  /**
+   * Add a chunk of the index and its SVGs
+   *
+   * @param {SvgBundleIndex} index - Index entries
+   * @param {Record<string, string>} blobs - SVG content by blob key
+   */
+  addEntries(index: SvgBundleIndex, blobs: Record<string, string>): void {
+    Object.assign(this.index, index);
+    for (const [key, content] of Object.entries(blobs)) {
+      this.blobs.set(key, content);
+    }
+  }
+
+  /** Unload the bundle */
+  clear(): void {
+    this.meta = null;
+    this.index = {};
+    this.blobs.clear();
+  }
+
+  getUrl(iconName: string, style: IconStyle, variant: IconVariant): string {
+    return `bundle:${iconName}/${style}/${generateFilename(iconName, variant, style)}`;
+  }
+
+  async fetchSvg(url: string): Promise<SvgSourceResponse> {
+    const [iconName, style, filename] = url.replace(/^bundle:/, '').split('/');
+    const key = this.index[iconName]?.[style as IconStyle]?.[filename];
+    const content = key !== undefined ? this.blobs.get(key) : undefined;
+    return {
+      ok: content !== undefined,
+      status: content !== undefined ? 200 : 404,
+      text: async () => content ?? '',
+    };
+  }
+
+  async exists(iconName: string, style: IconStyle, variant: IconVariant): Promise<boolean> {
+    return (await this.fetchSvg(this.getUrl(iconName, style, variant))).ok;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * @module @figma/github/svg-source
+ *
+ * Pluggable sources for variant SVGs.
+ *
+ * Every variant download used to be hard-wired to raw.githubusercontent.com,
+ * which is slow and rate-limited for a full run (~2M requests). An `SvgSource`
+ * decides where a variant's SVG comes from; all sources share the upstream
+ * `symbols/web` layout (see `generateSvgPath`).
+ *
+ * **Sources**:
+ * - `github`: raw.githubusercontent.com at the current ref (default); legacy
+ *   Material Icons are fetched from their categorised `src/` paths
+ * - `mirror`: a local HTTP server over a checked-out `symbols/web` tree
+ *   (`tsx scripts/serve-svg-mirror.ts`)
+ * - `archive`: a `.tar`/`.tar.gz` of the tree uploaded through the UI and kept
+ *   in memory for the session
+ * - `bundle`: a pre-built offline bundle pinned to one commit (see `./svg-bundle`)
+ *
+ * **Identifiers**:
+ * `getUrl()` returns the string used as the fetch item's `url`. For HTTP
+ * sources it is a real URL; for the archive it is `archive:<path>` and for a
+ * bundle `bundle:<icon>/<style>/<filename>`. Batch
+ * fetching and rate-limit retries only ever pass it back to `fetchSvg()`.
+ *
+ * @example
+ * ```typescript
+ * const source = createSvgSource({ kind: 'mirror', mirrorUrl: 'http://localhost:8787' }, archive, bundle);
+ * const url = source.getUrl('home', 'rounded', { weight: 400, fill: 0, grade: 0, opticalSize: 24 });
+ * // "http://localhost:8787/home/materialsymbolsrounded/home_24px.svg"
+ * const response = await source.fetchSvg(url);
+ * ```
+ */
+
+import {
+  generateGitHubUrl,
+  generateSvgPath,
+  getGitHubRef,
+  getIconRepository,
+  isDefaultIconRepository,
+  type IconStyle,
+  type IconVariant,
+} from './url-generator';
+import type { BundleSvgSource } from './svg-bundle';
+
+/**
+ * Kind of SVG source
+ */
+export type SvgSourceKind = 'github' | 'mirror' | 'archive' | 'bundle';
+
+/**
+ * Persisted SVG source choice
+ *
+ * @interface SvgSourceSettings
+ * @property {SvgSourceKind} kind - Selected source
+ * @property {string} [mirrorUrl] - Base URL of the local mirror (for `mirror`)
+ */
+export interface SvgSourceSettings {
+  kind: SvgSourceKind;
+  mirrorUrl?: string;
+}
+
+/**
+ * Minimal response shape shared by `fetch()` and the archive
+ */
+export interface SvgSourceResponse {
+  ok: boolean;
+  status: number;
+  /** Response headers (network sources only; used for rate-limit hints) */
+  headers?: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/**
+ * Where variant SVGs are downloaded from
+ *
+ * @interface SvgSource
+ */
+export interface SvgSource {
+  /** Source kind */
+  readonly kind: SvgSourceKind;
+  /** Human-readable description for logs and the UI */
+  readonly label: string;
+  /** Identifier of a variant, passed back to `fetchSvg` */
+  getUrl(iconName: string, style: IconStyle, variant: IconVariant): string;
+  /** Fetch SVG content for an identifier from `getUrl` */
+  fetchSvg(url: string): Promise<SvgSourceResponse>;
+  /** Check whether a variant exists without downloading it (rejects on network errors) */
+  exists(iconName: string, style: IconStyle, variant: IconVariant): Promise<boolean>;
+}
+
+/**
+ * Default local mirror address used by `scripts/serve-svg-mirror.ts`
+ */
+export const DEFAULT_MIRROR_URL = 'http://localhost:8787';
+
+/**
+ * SVG source backed by plain HTTP requests
+ *
+ * @class HttpSvgSource
+ */
+export class HttpSvgSource implements SvgSource {
+  readonly kind: SvgSourceKind;
+  private readonly baseUrl: string;
+
+  /**
+   * @param {string} baseUrl - URL of the `symbols/web` directory
+   * @param {SvgSourceKind} [kind='mirror'] - Source kind reported to the UI
+   */
+  constructor(baseUrl: string, kind: SvgSourceKind = 'mirror') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.kind = kind;
+  }
+
+  get label(): string {
+    return `Mirror (${this.getBaseUrl()})`;
+  }
+
+  /**
+   * Base URL of the `symbols/web` directory
+   */
+  protected getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getUrl(iconName: string, style: IconStyle, variant: IconVariant): string {
+    return `${this.getBaseUrl()}/${generateSvgPath(iconName, style, variant)}`;
+  }
+
+  fetchSvg(url: string): Promise<SvgSourceResponse> {
+    return fetch(url);
+  }
+
+  async exists(iconName: string, style: IconStyle, variant: IconVariant): Promise<boolean> {
+    const response = await fetch(this.getUrl(iconName, style, variant), { method: 'HEAD' });
+    return response.ok;
+  }
+}
+
+/**
+ * raw.githubusercontent.com at the current GitHub ref (`setGitHubRef`) in the
+ * current repository (`setIconRepository`)
+ *
+ * @class GitHubRawSvgSource
+ */
+export class GitHubRawSvgSource extends HttpSvgSource {
+  constructor() {
+    super('https://raw.githubusercontent.com', 'github');
+  }
+
+  get label(): string {
+    const ref = getGitHubRef().substring(0, 7);
+    if (isDefaultIconRepository()) {
+      return `GitHub (${ref})`;
+    }
+    const { owner, repo } = getIconRepository();
+    return `GitHub (${owner}/${repo}@${ref})`;
+  }
+
+  protected getBaseUrl(): string {
+    const { owner, repo, path } = getIconRepository();
+    return `${super.getBaseUrl()}/${owner}/${repo}/${getGitHubRef()}/${path}`;
+  }
+
+  getUrl(iconName: string, style: IconStyle, variant: IconVariant): string {
+    return generateGitHubUrl(iconName, style, variant);
+  }
+}
+
+/**
+ * Legacy Material Icons path inside an archive: `src/{category}/{icon}/materialicons…/{file}`
+ */
+const LEGACY_ARCHIVE_PATH = /(?:^|\/)src\/[^/]+\/([^/]+\/materialicons[a-z]*\/[^/]+)$/;
+
+/**
+ * Normalize an archive entry path to the `symbols/web`-relative layout
+ *
+ * Accepts paths with any prefix up to and including the repository's icon path
+ * (e.g. `material-design-icons-master/symbols/web/home/...`) or already
+ * relative paths (`./home/...`). Legacy Material Icons paths
+ * (`…/src/action/home/materialiconsround/24px.svg`) lose their category.
+ *
+ * @param {string} path - Path inside the archive
+ * @returns {string} e.g. "home/materialsymbolsrounded/home_24px.svg"
+ */
+export function normalizeArchivePath(path: string): string {
+  const normalized = path.replace(/\\/g, '/');
+  const iconPath = `${getIconRepository().path}/`;
+  const marker = normalized.lastIndexOf(iconPath);
+  if (marker >= 0) {
+    return normalized.substring(marker + iconPath.length);
+  }
+  const legacy = LEGACY_ARCHIVE_PATH.exec(normalized);
+  return legacy ? legacy[1] : normalized.replace(/^(\.\/)+/, '');
+}
+
+/**
+ * SVGs from an uploaded archive, held in memory
+ *
+ * Files arrive from the UI in chunks (`addFiles`) and stay loaded until the
+ * plugin closes or `clear()` is called.
+ *
+ * @class ArchiveSvgSource
+ */
+export class ArchiveSvgSource implements SvgSource {
+  readonly kind: SvgSourceKind = 'archive';
+  private readonly files = new Map<string, string>();
+
+  get label(): string {
+    return `Archive (${this.size.toLocaleString()} SVGs)`;
+  }
+
+  /** Number of SVGs loaded */
+  get size(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Add SVG files (paths are normalized with `normalizeArchivePath`)
+   *
+   * @param {Record<string, string>} files - SVG content by archive path
+   */
+  addFiles(files: Record<string, string>): void {
+    for (const [path, content] of Object.entries(files)) {
+      this.files.set(normalizeArchivePath(path), content);
+    }
+  }
+
+  /** Remove every loaded file */
+  clear(): void {
+    this.files.clear();
+  }
+
+  getUrl(iconName: string, style: IconStyle, variant: IconVariant): string {
+    return `archive:${generateSvgPath(iconName, style, variant)}`;
+  }
+
+  async fetchSvg(url: string): Promise<SvgSourceResponse> {
+    const content = this.files.get(url.replace(/^archive:/, ''));
+    return {
+      ok: content !== undefined,
+      status: content !== undefined ? 200 : 404,
+      text: async () => content ?? '',
+    };
+  }
+
+  async exists(iconName: string, style: IconStyle, variant: IconVariant): Promise<boolean> {
+    return this.files.has(generateSvgPath(iconName, style, variant));
+  }
+}
+
+/**
+ * Create the source for a persisted setting
+ *
+ * @param {SvgSourceSettings} settings - Selected source
+ * @param {ArchiveSvgSource} archive - Session archive (used for `archive`)
+ * @param {BundleSvgSource} bundle - Session bundle (used for `bundle`)
+ * @returns {SvgSource} Source to download from
+ */
+export function createSvgSource(
+  settings: SvgSourceSettings,
+  archive: ArchiveSvgSource,
+  bundle: BundleSvgSource
+): SvgSource {
+  switch (settings.kind) {
+    case 'mirror':
+      return new HttpSvgSource(settings.mirrorUrl || DEFAULT_MIRROR_URL);
+    case 'archive':
+      return archive;
+    case 'bundle':
+      return bundle;
+    default:
+      return new GitHubRawSvgSource();
+  }
+}
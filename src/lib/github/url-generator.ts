@@ -18,12 +18,65 @@
  * - home_fill1_24px.svg (filled)
  * - home_wght300_24px.svg (weight 300)
  * - home_fill1_wght300_grad200_opsz48_48px.svg (all modifiers)
+ *
+ * **Legacy Material Icons**:
+ * The pre-variable-font families (filled, outlined, round, sharp, two-tone) live
+ * in the same repository under `src/{category}/{icon}/{family}/{size}px.svg`.
+ * They are separate `IconStyle`s (`legacy-*`) with no weight, fill or grade
+ * axes - every variant is weight 400, unfilled, grade 0 - and only 20px and
+ * 24px files. Plugin-side paths (`generateSvgPath`, used by mirrors, archives and
+ * the SVG cache) leave the category out so both families share the
+ * `{icon}/{style dir}/{file}` layout; only the GitHub URL needs the category,
+ * which comes from `legacy-icon-categories.json` (`pnpm icons:update`). Without
+ * that data every legacy URL would 404, so `generateGitHubUrl` throws instead.
+ *
+ * **Repository**:
+ * Owner, repository, icon directory and filename pattern default to
+ * `google/material-design-icons`, `symbols/web` and the naming scheme above.
+ * `setIconRepository()` points every URL, path and filename at a fork instead
+ * (the plugin persists it in clientStorage; scripts take `--owner`, `--repo`,
+ * `--path` and `--filename-pattern`). Filename patterns use the tokens
+ * `{icon}`, `{modifiers}` (`_wght200gradN25fill1`, empty at the defaults),
+ * `{weight}`, `{grade}`, `{fill}` and `{size}`.
+ */
+
+import legacyCategories from './legacy-icon-categories.json';
+
+/**
+ * Material Symbols styles (variable font families)
+ */
+export type SymbolStyle = 'rounded' | 'outlined' | 'sharp';
+
+/**
+ * Legacy Material Icons families
  */
+export type LegacyIconStyle =
+  | 'legacy-filled'
+  | 'legacy-outlined'
+  | 'legacy-round'
+  | 'legacy-sharp'
+  | 'legacy-two-tone';
 
 /**
  * Icon style variants
  */
-export type IconStyle = 'rounded' | 'outlined' | 'sharp';
+export type IconStyle = SymbolStyle | LegacyIconStyle;
+
+/**
+ * Legacy Material Icons families, in display order
+ */
+export const LEGACY_STYLES: LegacyIconStyle[] = [
+  'legacy-filled',
+  'legacy-outlined',
+  'legacy-round',
+  'legacy-sharp',
+  'legacy-two-tone',
+];
+
+/**
+ * Optical sizes published for legacy Material Icons
+ */
+export const LEGACY_OPTICAL_SIZES: IconVariant['opticalSize'][] = [20, 24];
 
 /**
  * Icon variant properties
@@ -52,8 +105,82 @@ const STYLE_MAP: Record<IconStyle, string> = {
   rounded: 'materialsymbolsrounded',
   outlined: 'materialsymbolsoutlined',
   sharp: 'materialsymbolssharp',
+  'legacy-filled': 'materialicons',
+  'legacy-outlined': 'materialiconsoutlined',
+  'legacy-round': 'materialiconsround',
+  'legacy-sharp': 'materialiconssharp',
+  'legacy-two-tone': 'materialiconstwotone',
 };
 
+/**
+ * Legacy icon name → upstream category directory (e.g. home → action)
+ */
+const LEGACY_CATEGORIES: Record<string, string> = legacyCategories;
+
+/**
+ * Check whether a style is a legacy Material Icons family
+ *
+ * @param style - Icon style
+ * @returns True for `legacy-*` styles
+ */
+export function isLegacyStyle(style: IconStyle): style is LegacyIconStyle {
+  return (LEGACY_STYLES as IconStyle[]).includes(style);
+}
+
+/**
+ * Check whether a variant is published upstream for a style
+ *
+ * Material Symbols have the full matrix; legacy families only have the
+ * default weight, fill and grade at 20px and 24px.
+ *
+ * @param style - Icon style
+ * @param variant - Variant properties
+ * @returns True if a file exists for this combination
+ */
+export function isVariantAvailable(style: IconStyle, variant: IconVariant): boolean {
+  if (!isLegacyStyle(style)) {
+    return true;
+  }
+  return (
+    variant.weight === DEFAULTS.weight &&
+    variant.fill === DEFAULTS.fill &&
+    variant.grade === DEFAULTS.grade &&
+    LEGACY_OPTICAL_SIZES.includes(variant.opticalSize)
+  );
+}
+
+/**
+ * Style whose files live in an upstream style directory
+ *
+ * @param directory - Directory name, e.g. "materialsymbolsrounded"
+ * @returns Style, or undefined for any other directory
+ */
+export function getStyleForDirectory(directory: string): IconStyle | undefined {
+  return (Object.keys(STYLE_MAP) as IconStyle[]).find((style) => STYLE_MAP[style] === directory);
+}
+
+/**
+ * Check whether legacy icon categories are bundled
+ *
+ * `legacy-icon-categories.json` stays empty until `pnpm icons:update` fills it;
+ * until then legacy styles can't be downloaded from GitHub.
+ *
+ * @returns True if GitHub URLs can be built for legacy styles
+ */
+export function hasLegacyIconCategories(): boolean {
+  return Object.keys(LEGACY_CATEGORIES).length > 0;
+}
+
+/**
+ * Upstream category of a legacy Material Icon
+ *
+ * @param iconName - Name of the icon
+ * @returns Category directory, or undefined if the icon has no legacy version
+ */
+export function getLegacyIconCategory(iconName: string): string | undefined {
+  return LEGACY_CATEGORIES[iconName];
+}
+
 /**
  * Generates the filename for a Material Icon variant.
  *
@@ -63,18 +190,31 @@ const STYLE_MAP: Record<IconStyle, string> = {
  * - Order: weight, grade, fill (e.g., wght200gradN25fill1)
  * - No opsz modifier, just the size at the end
  *
+ * Legacy Material Icons files are named by size only (`24px.svg`). Material
+ * Symbols filenames follow the configured repository's `filenamePattern`
+ * (the upstream scheme by default).
+ *
  * @param iconName - Name of the icon
  * @param variant - Variant properties
+ * @param style - Icon style (only legacy styles change the scheme)
  * @returns Generated filename
  *
  * @example
  * ```typescript
  * generateFilename('home', { fill: 1, weight: 200, grade: -25, opticalSize: 48 });
  * // Returns: "home_wght200gradN25fill1_48px.svg"
+ * generateFilename('home', { fill: 0, weight: 400, grade: 0, opticalSize: 20 }, 'legacy-round');
+ * // Returns: "20px.svg"
  * ```
  */
-export function generateFilename(iconName: string, variant: IconVariant): string {
-  let filename = iconName;
+export function generateFilename(
+  iconName: string,
+  variant: IconVariant,
+  style?: IconStyle
+): string {
+  if (style && isLegacyStyle(style)) {
+    return `${variant.opticalSize}px.svg`;
+  }
 
   // Build the modifier string (all modifiers combine without underscores)
   let modifiers = '';
@@ -96,15 +236,211 @@ export function generateFilename(iconName: string, variant: IconVariant): string
     modifiers += 'fill1';
   }
 
-  // Add modifiers to filename if any exist
-  if (modifiers) {
-    filename += '_' + modifiers;
+  const tokens: Record<FilenamePatternToken, string> = {
+    icon: iconName,
+    modifiers: modifiers ? `_${modifiers}` : '',
+    weight: String(variant.weight),
+    grade: String(variant.grade),
+    fill: String(variant.fill),
+    size: String(variant.opticalSize),
+  };
+
+  return ICON_REPOSITORY.filenamePattern.replace(
+    FILENAME_TOKEN_PATTERN,
+    (token, name: string) => tokens[name as FilenamePatternToken] ?? token
+  );
+}
+
+/**
+ * Token in a filename pattern
+ */
+export type FilenamePatternToken = 'icon' | 'modifiers' | 'weight' | 'grade' | 'fill' | 'size';
+
+const FILENAME_PATTERN_TOKENS: FilenamePatternToken[] = [
+  'icon',
+  'modifiers',
+  'weight',
+  'grade',
+  'fill',
+  'size',
+];
+
+const FILENAME_TOKEN_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Repository icons are fetched from
+ *
+ * @interface IconRepository
+ * @property {string} owner - GitHub owner (user or organisation)
+ * @property {string} repo - Repository name
+ * @property {string} path - Directory with one folder per Material Symbols icon
+ * @property {string} filenamePattern - Material Symbols filename, e.g. "{icon}{modifiers}_{size}px.svg"
+ */
+export interface IconRepository {
+  owner: string;
+  repo: string;
+  path: string;
+  filenamePattern: string;
+}
+
+/**
+ * Upstream Material Design Icons repository
+ */
+export const DEFAULT_ICON_REPOSITORY: IconRepository = {
+  owner: 'google',
+  repo: 'material-design-icons',
+  path: 'symbols/web',
+  filenamePattern: '{icon}{modifiers}_{size}px.svg',
+};
+
+let ICON_REPOSITORY: IconRepository = DEFAULT_ICON_REPOSITORY;
+
+/**
+ * Fill in defaults and tidy user input (trimmed values, no slashes around the path)
+ *
+ * @param repository - Partial repository settings (e.g. from clientStorage or CLI flags)
+ * @returns Complete repository settings
+ */
+export function normalizeIconRepository(
+  repository: Partial<IconRepository> | null | undefined
+): IconRepository {
+  const value = (key: keyof IconRepository) => {
+    const trimmed = (repository?.[key] ?? '').trim();
+    return trimmed || DEFAULT_ICON_REPOSITORY[key];
+  };
+
+  return {
+    owner: value('owner'),
+    repo: value('repo'),
+    path: value('path').replace(/^\/+|\/+$/g, '') || DEFAULT_ICON_REPOSITORY.path,
+    filenamePattern: value('filenamePattern'),
+  };
+}
+
+/**
+ * Check repository settings
+ *
+ * A filename pattern must tell every variant apart, so it needs `{size}` and
+ * either `{modifiers}` or all of `{weight}`, `{grade}` and `{fill}`.
+ *
+ * @param repository - Repository settings
+ * @returns Problems found (empty when valid)
+ */
+export function validateIconRepository(repository: IconRepository): string[] {
+  const errors: string[] = [];
+  const { owner, repo, path, filenamePattern } = repository;
+
+  if (!/^[A-Za-z0-9_.-]+$/.test(owner)) {
+    errors.push(`Invalid owner: ${owner}`);
+  }
+  if (!/^[A-Za-z0-9_.-]+$/.test(repo)) {
+    errors.push(`Invalid repository name: ${repo}`);
+  }
+  if (!/^[A-Za-z0-9_.\-/]+$/.test(path) || path.split('/').some((s) => s === '' || s === '..')) {
+    errors.push(`Invalid icon path: ${path}`);
+  }
+
+  const tokens: string[] = [];
+  const tokenPattern = new RegExp(FILENAME_TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(filenamePattern))) {
+    tokens.push(match[1]);
+  }
+
+  const unknown = tokens.filter((token) => !(FILENAME_PATTERN_TOKENS as string[]).includes(token));
+  if (unknown.length > 0) {
+    errors.push(`Unknown filename token(s): ${unknown.map((t) => `{${t}}`).join(', ')}`);
   }
+  if (filenamePattern.includes('/')) {
+    errors.push('Filename pattern must not contain "/"');
+  }
+  if (!filenamePattern.endsWith('.svg')) {
+    errors.push('Filename pattern must end with .svg');
+  }
+  const axes =
+    tokens.includes('modifiers') || ['weight', 'grade', 'fill'].every((t) => tokens.includes(t));
+  if (!tokens.includes('size') || !axes) {
+    errors.push(
+      'Filename pattern must include {size} and either {modifiers} or {weight}, {grade} and {fill}'
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Set the repository to fetch icons from
+ *
+ * @param repository - Repository settings (missing fields use the upstream defaults)
+ * @returns The settings now in use
+ * @throws {Error} If the settings are invalid (the current repository is kept)
+ *
+ * @example
+ * ```typescript
+ * setIconRepository({ owner: 'acme', repo: 'material-design-icons' }); // fork
+ * setIconRepository({}); // back to google/material-design-icons
+ * ```
+ */
+export function setIconRepository(repository: Partial<IconRepository>): IconRepository {
+  const normalized = normalizeIconRepository(repository);
+  const errors = validateIconRepository(normalized);
+  if (errors.length > 0) {
+    throw new Error(`Invalid icon repository: ${errors.join('; ')}`);
+  }
+  ICON_REPOSITORY = normalized;
+  return normalized;
+}
+
+/**
+ * Get the repository icons are fetched from
+ *
+ * @returns Current repository settings
+ */
+export function getIconRepository(): IconRepository {
+  return ICON_REPOSITORY;
+}
 
-  // Always end with size in px
-  filename += `_${variant.opticalSize}px.svg`;
+/**
+ * Whether the upstream repository layout is in use
+ *
+ * @returns True unless `setIconRepository` pointed somewhere else
+ */
+export function isDefaultIconRepository(): boolean {
+  return (Object.keys(DEFAULT_ICON_REPOSITORY) as Array<keyof IconRepository>).every(
+    (key) => ICON_REPOSITORY[key] === DEFAULT_ICON_REPOSITORY[key]
+  );
+}
 
-  return filename;
+/**
+ * GitHub REST API base URL of the current repository
+ *
+ * @returns e.g. "https://api.github.com/repos/google/material-design-icons"
+ */
+export function getGitHubApiUrl(): string {
+  return `https://api.github.com/repos/${ICON_REPOSITORY.owner}/${ICON_REPOSITORY.repo}`;
+}
+
+/**
+ * Icon a repository file belongs to, if it is under the icon path
+ *
+ * Used by change detection to map a commit's changed files to icons.
+ *
+ * @param filePath - File path relative to the repository root
+ * @returns Icon name, or null for files outside the icon path
+ *
+ * @example
+ * ```typescript
+ * getIconNameFromRepoPath('symbols/web/home/materialsymbolsrounded/home_24px.svg'); // "home"
+ * getIconNameFromRepoPath('README.md'); // null
+ * ```
+ */
+export function getIconNameFromRepoPath(filePath: string): string | null {
+  const prefix = `${ICON_REPOSITORY.path}/`;
+  if (!filePath.startsWith(prefix)) {
+    return null;
+  }
+  const [iconName, ...rest] = filePath.substring(prefix.length).split('/');
+  return iconName && rest.length > 0 ? iconName : null;
 }
 
 /**
@@ -144,12 +480,14 @@ export function getGitHubRef(): string {
 }
 
 /**
- * Generates the full GitHub URL for a Material Icon variant.
+ * Generates the full GitHub URL for a Material Icon variant in the current
+ * repository (`setIconRepository`) at the current ref (`setGitHubRef`).
  *
  * @param iconName - Name of the icon
  * @param style - Icon style
  * @param variant - Variant properties
  * @returns Full GitHub raw content URL
+ * @throws {Error} For legacy styles when `legacy-icon-categories.json` is empty
  *
  * @example
  * ```typescript
@@ -160,6 +498,9 @@ export function getGitHubRef(): string {
  *   opticalSize: 40
  * });
  * // Returns: "https://raw.githubusercontent.com/.../home_fill1_wght300_grad200_opsz40_40px.svg"
+ *
+ * generateGitHubUrl('home', 'legacy-round', { fill: 0, weight: 400, grade: 0, opticalSize: 24 });
+ * // Returns: "https://raw.githubusercontent.com/.../src/action/home/materialiconsround/24px.svg"
  * ```
  */
 export function generateGitHubUrl(
@@ -167,11 +508,38 @@ export function generateGitHubUrl(
   style: IconStyle,
   variant: IconVariant
 ): string {
-  const baseUrl = `https://raw.githubusercontent.com/google/material-design-icons/${GITHUB_REF}/symbols/web`;
-  const styleDir = STYLE_MAP[style];
-  const filename = generateFilename(iconName, variant);
+  const { owner, repo, path } = ICON_REPOSITORY;
+  const repoUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${GITHUB_REF}`;
 
-  return `${baseUrl}/${iconName}/${styleDir}/${filename}`;
+  if (isLegacyStyle(style)) {
+    if (!hasLegacyIconCategories()) {
+      throw new Error(
+        'Legacy icon categories are not bundled - run pnpm icons:update to download legacy styles from GitHub'
+      );
+    }
+    // Icons without a legacy version get a path that 404s ("does not exist upstream")
+    const category = getLegacyIconCategory(iconName) ?? '_unknown';
+    return `${repoUrl}/src/${category}/${generateSvgPath(iconName, style, variant)}`;
+  }
+
+  return `${repoUrl}/${path}/${generateSvgPath(iconName, style, variant)}`;
+}
+
+/**
+ * Generates the path of a variant relative to the icon path (`symbols/web`).
+ *
+ * Shared by every SVG source (GitHub raw, local mirror, archive), which all
+ * use the upstream directory layout. Legacy styles use the same shape without
+ * their upstream category directory.
+ *
+ * @param iconName - Name of the icon
+ * @param style - Icon style
+ * @param variant - Variant properties
+ * @returns Relative path, e.g. "home/materialsymbolsrounded/home_24px.svg" or
+ *   "home/materialiconsround/24px.svg"
+ */
+export function generateSvgPath(iconName: string, style: IconStyle, variant: IconVariant): string {
+  return `${iconName}/${STYLE_MAP[style]}/${generateFilename(iconName, variant, style)}`;
 }
 
 /**
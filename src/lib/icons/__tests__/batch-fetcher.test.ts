@@ -0,0 +1,117 @@
+/**
+ * @module @figma/icons/__tests__/batch-fetcher
+ *
+ * Unit tests for per-item failure classification in batchFetchSVGs.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  batchFetchSVGs,
+  classifyHttpFailure,
+  describeFetchFailures,
+  isRetryableFailure,
+  type FetchFailure,
+  type FetchItem,
+} from '../batch-fetcher';
+import type { SvgSourceResponse } from '@lib/github';
+
+vi.mock('@lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/utils')>()),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function response(status: number, body = '<svg></svg>', headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => body,
+  } satisfies SvgSourceResponse;
+}
+
+function item(iconName: string): FetchItem {
+  return {
+    url: `https://example.test/${iconName}.svg`,
+    iconName,
+    style: 'rounded',
+    variant: { weight: 400, fill: 0, grade: 0, opticalSize: 24 },
+  };
+}
+
+describe('batch-fetcher', () => {
+  describe('classifyHttpFailure', () => {
+    it('should classify responses by status and rate-limit headers', () => {
+      expect(classifyHttpFailure(response(404))).toBe('not-found');
+      expect(classifyHttpFailure(response(410))).toBe('not-found');
+      expect(classifyHttpFailure(response(429))).toBe('rate-limited');
+      expect(classifyHttpFailure(response(403, '', { 'x-ratelimit-remaining': '0' }))).toBe(
+        'rate-limited'
+      );
+      expect(classifyHttpFailure(response(502))).toBe('server-error');
+      expect(classifyHttpFailure(response(403))).toBe('server-error');
+    });
+  });
+
+  describe('isRetryableFailure', () => {
+    it('should only retry transient failures', () => {
+      expect(isRetryableFailure('rate-limited')).toBe(true);
+      expect(isRetryableFailure('server-error')).toBe(true);
+      expect(isRetryableFailure('network')).toBe(true);
+      expect(isRetryableFailure('not-found')).toBe(false);
+      expect(isRetryableFailure('invalid-svg')).toBe(false);
+    });
+  });
+
+  describe('describeFetchFailures', () => {
+    it('should count failures by reason', () => {
+      const failures: FetchFailure[] = [
+        { item: item('a'), reason: 'not-found', message: '' },
+        { item: item('b'), reason: 'not-found', message: '' },
+        { item: item('c'), reason: 'network', message: '' },
+      ];
+
+      expect(describeFetchFailures(failures)).toBe('2 do not exist upstream, 1 network error');
+      expect(describeFetchFailures([])).toBe('');
+    });
+  });
+
+  describe('batchFetchSVGs', () => {
+    it('should report each failed item with its reason', async () => {
+      const responses: Record<string, () => Promise<SvgSourceResponse>> = {
+        ok: async () => response(200, '<svg viewBox="0 0 24 24"><path/></svg>'),
+        missing: async () => response(404),
+        html: async () => response(200, '<!DOCTYPE html><html></html>'),
+        offline: async () => {
+          throw new TypeError('Failed to fetch');
+        },
+      };
+      global.fetch = vi.fn((url: string) =>
+        responses[url.replace(/^.*\/(\w+)\.svg$/, '$1')]()
+      ) as any;
+
+      const { results, failures, stats } = await batchFetchSVGs(
+        ['ok', 'missing', 'html', 'offline'].map(item)
+      );
+
+      expect(results.map((r) => r.iconName)).toEqual(['ok']);
+      expect(stats).toMatchObject({ successful: 1, failed: 3 });
+      expect(
+        Object.fromEntries(failures.map((f) => [f.item.iconName, [f.reason, f.status]]))
+      ).toEqual({
+        missing: ['not-found', 404],
+        html: ['invalid-svg', 200],
+        offline: ['network', undefined],
+      });
+    });
+
+    it('should classify throttled items that ran out of attempts as rate-limited', async () => {
+      global.fetch = vi.fn(async () => response(429, '', { 'retry-after': '0' })) as any;
+
+      const { failures } = await batchFetchSVGs([item('home')], { maxAttempts: 1 });
+
+      expect(failures).toEqual([expect.objectContaining({ reason: 'rate-limited', status: 429 })]);
+    });
+  });
+});
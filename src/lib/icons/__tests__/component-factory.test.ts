@@ -13,7 +13,10 @@ import {
   setStoredHash,
   createVariantComponent,
   updateVariantComponent,
+  applyIconMetadata,
 } from '../component-factory';
+import { PLUGIN_DATA_KEYS, FEATURE_FLAGS } from '@lib/constants';
+import { SvgValidationError } from '@lib/utils/errors';
 import type { VariantData } from '../generator';
 import {
   installMockFigmaAPI,
@@ -37,6 +40,18 @@ vi.mock('@lib/utils', () => ({
   }),
 }));
 
+// Icon metadata is off by default until its data is generated
+vi.mock('@lib/constants', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@lib/constants')>();
+  return { ...actual, FEATURE_FLAGS: { ...actual.FEATURE_FLAGS, ENABLE_ICON_METADATA: true } };
+});
+
+vi.mock('../icon-metadata-data.json', () => ({
+  default: {
+    home: { codepoint: 'e9b2', tags: ['house', 'address'], categories: ['action'] },
+  },
+}));
+
 describe('component-factory', () => {
   let mockFigma: MockFigmaAPI;
 
@@ -51,8 +66,7 @@ describe('component-factory', () => {
         grade: 0,
         opticalSize: 24,
       },
-      svgContent:
-        '<svg width="24" height="24"><path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/></svg>',
+      svgContent: '<svg viewBox="0 0 24 24"><path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/></svg>',
       ...overrides,
     };
   }
@@ -154,12 +168,14 @@ describe('component-factory', () => {
 
     it('should call createNodeFromSvg with SVG content', async () => {
       const variantData = createVariantData({
-        svgContent: '<svg><circle r="10"/></svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M2 2h20"/><circle r="10"/></svg>',
       });
 
       await createVariantComponent(variantData);
 
-      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith('<svg><circle r="10"/></svg>');
+      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith(
+        '<svg viewBox="0 0 24 24"><path d="M2 2h20"/><circle r="10"/></svg>'
+      );
     });
 
     it('should create empty component first', async () => {
@@ -235,7 +251,7 @@ describe('component-factory', () => {
 
     it('should store content hash in plugin data', async () => {
       const variantData = createVariantData({
-        svgContent: '<svg>test</svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M1 1"/></svg>',
       });
 
       const component = await createVariantComponent(variantData);
@@ -265,15 +281,37 @@ describe('component-factory', () => {
       expect(component).toBeNull();
     });
 
-    it('should handle empty SVG content', async () => {
+    it('should reject empty SVG content before creating nodes', async () => {
       const variantData = createVariantData({
         svgContent: '',
       });
 
-      const component = await createVariantComponent(variantData);
+      await expect(createVariantComponent(variantData)).rejects.toThrow(SvgValidationError);
+      expect(mockFigma.createNodeFromSvg).not.toHaveBeenCalled();
+    });
 
-      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith('');
-      expect(component).toBeTruthy();
+    it('should reject an SVG without a viewBox', async () => {
+      const variantData = createVariantData({
+        svgContent: '<svg width="24" height="24"><path d="M1 1"/></svg>',
+      });
+
+      await expect(createVariantComponent(variantData)).rejects.toMatchObject({
+        problem: 'viewbox',
+        variantName: expect.stringContaining('Weight=400'),
+      });
+    });
+
+    it('should pass the sanitised SVG to createNodeFromSvg', async () => {
+      const variantData = createVariantData({
+        svgContent:
+          '<svg viewBox="0 0 24 24" onload="alert(1)"><script>alert(1)</script><path d="M1 1" fill="red"/></svg>',
+      });
+
+      await createVariantComponent(variantData);
+
+      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith(
+        '<svg viewBox="0 0 24 24"><path d="M1 1" fill="#000000"/></svg>'
+      );
     });
 
     it('should handle appendChild errors gracefully', async () => {
@@ -361,12 +399,14 @@ describe('component-factory', () => {
     it('should add new SVG content', async () => {
       const component = createMockComponentNode('Test') as any;
       const variantData = createVariantData({
-        svgContent: '<svg><circle /></svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M4 4h16"/></svg>',
       });
 
       await updateVariantComponent(component, variantData);
 
-      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith('<svg><circle /></svg>');
+      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith(
+        '<svg viewBox="0 0 24 24"><path d="M4 4h16"/></svg>'
+      );
     });
 
     it('should move new vector children to component', async () => {
@@ -382,7 +422,7 @@ describe('component-factory', () => {
     it('should store new content hash', async () => {
       const component = createMockComponentNode('Test') as any;
       const variantData = createVariantData({
-        svgContent: '<svg>updated</svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M1 1h22"/></svg>',
       });
 
       await updateVariantComponent(component, variantData);
@@ -431,13 +471,15 @@ describe('component-factory', () => {
       // New variant
       const updated = createVariantData({
         variant: { weight: 700, fill: 1, grade: 200, opticalSize: 48 },
-        svgContent: '<svg>new content</svg>',
+        svgContent: '<svg viewBox="0 -960 960 960"><path d="M480-80v-800"/></svg>',
       });
 
       await updateVariantComponent(component, updated);
 
       expect(component.resize).toHaveBeenCalledWith(48, 48);
-      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith('<svg>new content</svg>');
+      expect(mockFigma.createNodeFromSvg).toHaveBeenCalledWith(
+        '<svg viewBox="0 -960 960 960"><path d="M480-80v-800"/></svg>'
+      );
     });
 
     it('should handle null/undefined createNodeFromSvg result', async () => {
@@ -469,7 +511,7 @@ describe('component-factory', () => {
   describe('Integration: create and update workflow', () => {
     it('should support full lifecycle: create → get hash → update', async () => {
       const variantData = createVariantData({
-        svgContent: '<svg>original</svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M1 1"/></svg>',
       });
 
       // Create component
@@ -482,7 +524,7 @@ describe('component-factory', () => {
 
       // Update with new content
       const updatedData = createVariantData({
-        svgContent: '<svg>updated</svg>',
+        svgContent: '<svg viewBox="0 0 24 24"><path d="M1 1h22"/></svg>',
       });
       await updateVariantComponent(component as any, updatedData);
 
@@ -496,7 +538,7 @@ describe('component-factory', () => {
 
       for (let i = 0; i < 5; i++) {
         const data = createVariantData({
-          svgContent: `<svg>version-${i}</svg>`,
+          svgContent: `<svg viewBox="0 0 24 24"><path d="M${i} 0"/></svg>`,
         });
         await updateVariantComponent(component as any, data);
       }
@@ -526,4 +568,48 @@ describe('component-factory', () => {
       expect((component as any).resize).toHaveBeenLastCalledWith(48, 48);
     });
   });
+
+  describe('applyIconMetadata', () => {
+    function createComponentSet(name: string, description = ''): any {
+      return { name, description, setPluginData: vi.fn() };
+    }
+
+    it('should write tags to the description and plugin data', () => {
+      const componentSet = createComponentSet('home');
+
+      expect(applyIconMetadata(componentSet)).toBe(true);
+      expect(componentSet.description).toBe(
+        'house, address\nCategories: action\nCodepoint: U+E9B2'
+      );
+      expect(componentSet.setPluginData).toHaveBeenCalledWith(
+        PLUGIN_DATA_KEYS.ICON_TAGS,
+        '["house","address"]'
+      );
+      expect(componentSet.setPluginData).toHaveBeenCalledWith(
+        PLUGIN_DATA_KEYS.ICON_CODEPOINT,
+        'e9b2'
+      );
+    });
+
+    it('should leave icons without metadata untouched', () => {
+      const componentSet = createComponentSet('custom_icon', 'Hand-written');
+
+      expect(applyIconMetadata(componentSet)).toBe(false);
+      expect(componentSet.description).toBe('Hand-written');
+      expect(componentSet.setPluginData).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing while the feature is off', () => {
+      const flags = FEATURE_FLAGS as { ENABLE_ICON_METADATA: boolean };
+      flags.ENABLE_ICON_METADATA = false;
+      const componentSet = createComponentSet('home');
+
+      try {
+        expect(applyIconMetadata(componentSet)).toBe(false);
+        expect(componentSet.setPluginData).not.toHaveBeenCalled();
+      } finally {
+        flags.ENABLE_ICON_METADATA = true;
+      }
+    });
+  });
 });
@@ -0,0 +1,177 @@
+/**
+ * @module @figma/icons/__tests__/concurrency-controller
+ *
+ * Unit tests for AIMD download concurrency and its use by batchFetchSVGs.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConcurrencyController,
+  getRetryDelayMs,
+  isThrottleResponse,
+} from '../concurrency-controller';
+import { batchFetchSVGs, type FetchItem } from '../batch-fetcher';
+import type { SvgSourceResponse } from '@lib/github';
+
+vi.mock('@lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/utils')>()),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+function response(status: number, headers: Record<string, string> = {}): SvgSourceResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => `<svg>${status}</svg>`,
+  };
+}
+
+describe('concurrency-controller', () => {
+  describe('isThrottleResponse', () => {
+    it('should treat 429, 5xx and rate-limited 403 as throttling', () => {
+      expect(isThrottleResponse(response(429))).toBe(true);
+      expect(isThrottleResponse(response(503))).toBe(true);
+      expect(isThrottleResponse(response(403, { 'x-ratelimit-remaining': '0' }))).toBe(true);
+      expect(isThrottleResponse(response(403))).toBe(false);
+      expect(isThrottleResponse(response(404))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+    it('should read Retry-After as seconds or an HTTP date', () => {
+      expect(getRetryDelayMs(response(429, { 'retry-after': '30' }), now)).toBe(30000);
+      expect(
+        getRetryDelayMs(response(429, { 'retry-after': 'Wed, 01 Jan 2025 12:01:00 GMT' }), now)
+      ).toBe(60000);
+    });
+
+    it('should fall back to X-RateLimit-Reset', () => {
+      const reset = String(now / 1000 + 90);
+      expect(getRetryDelayMs(response(403, { 'x-ratelimit-reset': reset }), now)).toBe(90000);
+    });
+
+    it('should return null without hints', () => {
+      expect(getRetryDelayMs(response(429), now)).toBeNull();
+      expect(getRetryDelayMs({ ok: false, status: 500, text: async () => '' }, now)).toBeNull();
+    });
+  });
+
+  describe('ConcurrencyController', () => {
+    it('should grow by about one per round of successes', () => {
+      const controller = new ConcurrencyController({ initial: 4, max: 10 });
+
+      for (let i = 0; i < 4; i++) {
+        controller.recordSuccess();
+      }
+
+      expect(controller.concurrency).toBe(4);
+      controller.recordSuccess();
+      expect(controller.concurrency).toBe(5);
+    });
+
+    it('should halve once per round of throttled responses', () => {
+      const controller = new ConcurrencyController({ initial: 16 });
+
+      controller.recordThrottle();
+      controller.recordThrottle();
+      expect(controller.concurrency).toBe(8);
+
+      for (let i = 0; i < 8; i++) {
+        controller.recordCompletion();
+      }
+      controller.recordThrottle();
+      expect(controller.concurrency).toBe(4);
+    });
+
+    it('should stay within min and max', () => {
+      const controller = new ConcurrencyController({ initial: 2, min: 2, max: 3 });
+
+      controller.recordThrottle();
+      expect(controller.concurrency).toBe(2);
+
+      for (let i = 0; i < 20; i++) {
+        controller.recordSuccess();
+      }
+      expect(controller.concurrency).toBe(3);
+    });
+
+    it('should report cooldown and throughput', () => {
+      let now = 0;
+      const controller = new ConcurrencyController({
+        throughputWindowMs: 1000,
+        maxCooldownMs: 5000,
+        now: () => now,
+      });
+
+      controller.recordSuccess();
+      controller.recordSuccess();
+      controller.recordThrottle(60000);
+
+      expect(controller.getRate()).toMatchObject({ itemsPerSecond: 2, cooldownMs: 5000 });
+
+      now = 2000;
+      expect(controller.getRate()).toMatchObject({ itemsPerSecond: 0, cooldownMs: 3000 });
+    });
+  });
+
+  describe('batchFetchSVGs with adaptive concurrency', () => {
+    const items: FetchItem[] = ['home', 'star', 'search'].map((iconName) => ({
+      url: `https://example.test/${iconName}.svg`,
+      iconName,
+      style: 'rounded',
+      variant: { weight: 400, fill: 0, grade: 0, opticalSize: 24 },
+    }));
+
+    it('should never exceed the controller concurrency', async () => {
+      let active = 0;
+      let peak = 0;
+      global.fetch = vi.fn(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        active--;
+        return response(200);
+      }) as any;
+
+      const { stats } = await batchFetchSVGs(items, {
+        concurrency: new ConcurrencyController({ initial: 2, max: 2 }),
+      });
+
+      expect(stats.successful).toBe(3);
+      expect(peak).toBe(2);
+    });
+
+    it('should requeue throttled items and report the reduced concurrency', async () => {
+      const concurrency = new ConcurrencyController({ initial: 8 });
+      const onProgress = vi.fn();
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(response(429, { 'retry-after': '0' }))
+        .mockResolvedValue(response(200)) as any;
+
+      const { results, stats } = await batchFetchSVGs(items, { concurrency, onProgress });
+
+      expect(stats).toMatchObject({ successful: 3, failed: 0 });
+      expect(results).toHaveLength(3);
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(onProgress).toHaveBeenCalledWith(0, 3, expect.objectContaining({ concurrency: 4 }));
+    });
+
+    it('should give up on throttled items after maxAttempts and not retry 404s', async () => {
+      global.fetch = vi.fn(async (url: string) =>
+        url.includes('home') ? response(503) : response(404)
+      ) as any;
+
+      const { stats } = await batchFetchSVGs(items, { maxAttempts: 2 });
+
+      expect(stats).toMatchObject({ successful: 0, failed: 3 });
+      // home: 2 attempts, star and search: 1 each
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @module @figma/icons/__tests__/custom-icons
+ *
+ * Unit tests for custom icon filename parsing and grouping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupCustomIcons, inferOpticalSize, parseCustomIconFilename } from '../custom-icons';
+import { generateFilename } from '@lib/github/url-generator';
+
+const SVG_24 =
+  '<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M0 0h960v960H0z"/></svg>';
+const SVG_48 = SVG_24.replace(/"24"/g, '"48"');
+
+describe('custom-icons', () => {
+  describe('parseCustomIconFilename', () => {
+    it('should read names written by generateFilename', () => {
+      const variant = {
+        fill: 1 as const,
+        weight: 300 as const,
+        grade: 200 as const,
+        opticalSize: 40 as const,
+      };
+      const filename = generateFilename('brand_logo', variant, 'rounded');
+
+      expect(filename).toBe('brand_logo_wght300grad200fill1_40px.svg');
+      expect(parseCustomIconFilename(filename)).toEqual({
+        iconName: 'brand_logo',
+        variant,
+        scheme: 'upstream',
+      });
+    });
+
+    it('should treat an upstream name without modifiers as the default variant', () => {
+      expect(parseCustomIconFilename('brand_logo_24px.svg')).toEqual({
+        iconName: 'brand_logo',
+        variant: { fill: 0, weight: 400, grade: 0, opticalSize: 24 },
+        scheme: 'upstream',
+      });
+      expect(parseCustomIconFilename('brand_gradN25_20px.svg')?.variant).toEqual({
+        fill: 0,
+        weight: 400,
+        grade: -25,
+        opticalSize: 20,
+      });
+    });
+
+    it('should take the style from an upstream or plain style directory', () => {
+      expect(
+        parseCustomIconFilename('web/brand/materialsymbolssharp/brand_fill1_24px.svg')?.style
+      ).toBe('sharp');
+      expect(parseCustomIconFilename('icons/Outlined/brand_24px.svg')?.style).toBe('outlined');
+      expect(parseCustomIconFilename('icons/brand_24px.svg')?.style).toBeUndefined();
+    });
+
+    it('should read the simple {icon}_{style}_{weight}_{fill} scheme', () => {
+      expect(parseCustomIconFilename('brand_logo_rounded_500_1.svg')).toEqual({
+        iconName: 'brand_logo',
+        style: 'rounded',
+        variant: { fill: 1, weight: 500, grade: 0, opticalSize: 24 },
+        scheme: 'simple',
+      });
+      expect(parseCustomIconFilename('brand_Sharp_100_0.svg')?.style).toBe('sharp');
+    });
+
+    it('should reject names that match neither scheme', () => {
+      expect(parseCustomIconFilename('brand.svg')).toBeNull();
+      expect(parseCustomIconFilename('brand_23px.svg')).toBeNull();
+      expect(parseCustomIconFilename('brand_wght450_24px.svg')).toBeNull();
+      expect(parseCustomIconFilename('brand_rounded_450_0.svg')).toBeNull();
+      expect(parseCustomIconFilename('brand_wavy_400_0.svg')).toBeNull();
+      expect(parseCustomIconFilename('bad name_24px.svg')).toBeNull();
+    });
+  });
+
+  describe('inferOpticalSize', () => {
+    it('should use the root width when it is a Material optical size', () => {
+      expect(inferOpticalSize(SVG_48)).toBe(48);
+      expect(inferOpticalSize(SVG_24.replace(/"24"/g, '"32"'))).toBe(24);
+      expect(inferOpticalSize('<svg viewBox="0 0 24 24"/>')).toBe(24);
+    });
+  });
+
+  describe('groupCustomIcons', () => {
+    it('should group variants by icon with the default style as a fallback', () => {
+      const { icons, skipped } = groupCustomIcons(
+        [
+          { path: 'logo_24px.svg', content: SVG_24 },
+          { path: 'logo_fill1_24px.svg', content: SVG_24 },
+          { path: 'arrow_sharp_700_0.svg', content: SVG_48 },
+        ],
+        'outlined'
+      );
+
+      expect(skipped).toEqual([]);
+      expect(Array.from(icons.keys())).toEqual(['arrow', 'logo']);
+      expect(icons.get('logo')?.map((v) => [v.style, v.variant.fill])).toEqual([
+        ['outlined', 0],
+        ['outlined', 1],
+      ]);
+      expect(icons.get('arrow')?.[0]).toMatchObject({
+        iconName: 'arrow',
+        style: 'sharp',
+        variant: { weight: 700, opticalSize: 48 },
+        svgContent: SVG_48,
+      });
+    });
+
+    it('should skip files with reasons instead of failing', () => {
+      const { icons, skipped } = groupCustomIcons([
+        { path: 'notes.txt', content: '' },
+        { path: 'logo.svg', content: SVG_24 },
+        { path: 'materialiconsround/logo_fill1_24px.svg', content: SVG_24 },
+      ]);
+
+      expect(icons.size).toBe(0);
+      expect(skipped.map((entry) => entry.path)).toEqual([
+        'notes.txt',
+        'logo.svg',
+        'materialiconsround/logo_fill1_24px.svg',
+      ]);
+      expect(skipped[2].reason).toMatch(/has no .*Fill=On/);
+    });
+
+    it('should keep the last file when two describe the same variant', () => {
+      const { icons, skipped } = groupCustomIcons([
+        { path: 'a/logo_24px.svg', content: SVG_24 },
+        { path: 'b/logo_rounded_400_0.svg', content: SVG_24.replace('M0 0', 'M1 1') },
+      ]);
+
+      expect(icons.get('logo')).toHaveLength(1);
+      expect(icons.get('logo')?.[0].svgContent).toContain('M1 1');
+      expect(skipped).toEqual([
+        { path: 'a/logo_24px.svg', reason: 'same variant as b/logo_rounded_400_0.svg' },
+      ]);
+    });
+  });
+});
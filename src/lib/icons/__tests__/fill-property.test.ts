@@ -0,0 +1,163 @@
+/**
+ * @module @figma/icons/__tests__/fill-property
+ *
+ * Unit tests for exposing Fill as a boolean component property.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FILL_LAYER_NAMES,
+  appendFillLayers,
+  getLayeredSvgContent,
+  pairFillVariants,
+  syncFillProperty,
+} from '../fill-property';
+import type { VariantData } from '../generator';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function variantData(
+  style: VariantData['style'],
+  fill: 0 | 1,
+  opticalSize: 20 | 24 = 24
+): VariantData {
+  return {
+    iconName: 'home',
+    style,
+    variant: { weight: 400, fill, grade: 0, opticalSize },
+    svgContent: `<svg>${style}-${fill}-${opticalSize}</svg>`,
+  };
+}
+
+// Variant component holding an Outline and a Filled layer
+function layeredComponent(name: string): any {
+  const layers = [FILL_LAYER_NAMES.outline, FILL_LAYER_NAMES.filled].map((layerName) => ({
+    name: layerName,
+    componentPropertyReferences: null as Record<string, string> | null,
+  }));
+  return {
+    name,
+    type: 'COMPONENT',
+    layers,
+    findChild: (match: (node: any) => boolean) => layers.find(match) ?? null,
+  };
+}
+
+function componentSet(children: any[], definitions: Record<string, { type: string }> = {}): any {
+  return {
+    name: 'home',
+    type: 'COMPONENT_SET',
+    children,
+    componentPropertyDefinitions: definitions,
+    addComponentProperty: vi.fn((name: string) => `${name}#1:0`),
+    editComponentProperty: vi.fn((_key: string, { name }: { name: string }) => `${name}#1:0`),
+    deleteComponentProperty: vi.fn(),
+  };
+}
+
+describe('fill-property', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('pairFillVariants', () => {
+    it('should merge each unfilled and filled download into one variant', () => {
+      const paired = pairFillVariants([
+        variantData('rounded', 0, 20),
+        variantData('rounded', 1, 20),
+        variantData('rounded', 1, 24),
+        variantData('rounded', 0, 24),
+        variantData('legacy-round', 0),
+      ]);
+
+      expect(paired).toEqual([
+        {
+          ...variantData('rounded', 0, 20),
+          fillProperty: true,
+          filledSvgContent: '<svg>rounded-1-20</svg>',
+        },
+        {
+          ...variantData('rounded', 0, 24),
+          fillProperty: true,
+          filledSvgContent: '<svg>rounded-1-24</svg>',
+        },
+        { ...variantData('legacy-round', 0), fillProperty: true, filledSvgContent: undefined },
+      ]);
+    });
+
+    it('should leave out filled variants without an unfilled counterpart', () => {
+      expect(pairFillVariants([variantData('sharp', 1), variantData('rounded', 0)])).toHaveLength(
+        1
+      );
+    });
+  });
+
+  it('should include the filled glyph in the layered content', () => {
+    expect(getLayeredSvgContent('<svg>a</svg>')).toBe('<svg>a</svg>');
+    expect(getLayeredSvgContent('<svg>a</svg>', { filledSvgContent: '<svg>b</svg>' })).toBe(
+      '<svg>a</svg><svg>b</svg>'
+    );
+  });
+
+  it('should build an Outline layer with a hidden Filled layer on top', () => {
+    const groups: any[] = [];
+    vi.stubGlobal('figma', {
+      createNodeFromSvg: vi.fn((svg: string) => ({ children: [{ svg }], remove: vi.fn() })),
+      group: vi.fn((nodes: any[]) => {
+        const group = { nodes, name: '', visible: true };
+        groups.push(group);
+        return group;
+      }),
+    });
+    const component = { appendChild: vi.fn() } as any;
+
+    appendFillLayers(component, '<svg>outline</svg>', '<svg>filled</svg>');
+
+    expect(component.appendChild).toHaveBeenCalledTimes(2);
+    expect(groups).toEqual([
+      { nodes: [{ svg: '<svg>outline</svg>' }], name: 'Outline', visible: true },
+      { nodes: [{ svg: '<svg>filled</svg>' }], name: 'Filled', visible: false },
+    ]);
+  });
+
+  describe('syncFillProperty', () => {
+    it('should add the property and bind every Filled layer to it', () => {
+      const variants = [layeredComponent('a'), layeredComponent('b')];
+      const set = componentSet(variants);
+
+      expect(syncFillProperty(set, true, 'Fill')).toBe('Fill#1:0');
+      expect(set.addComponentProperty).toHaveBeenCalledWith('Fill', 'BOOLEAN', false);
+      for (const variant of variants) {
+        expect(variant.layers[0].componentPropertyReferences).toBeNull();
+        expect(variant.layers[1].componentPropertyReferences).toEqual({ visible: 'Fill#1:0' });
+      }
+    });
+
+    it('should reuse the bound property and rename it to the schema name', () => {
+      const variant = layeredComponent('a');
+      variant.layers[1].componentPropertyReferences = { visible: 'Fill#9:0' };
+      const set = componentSet([variant], { 'Fill#9:0': { type: 'BOOLEAN' } });
+
+      expect(syncFillProperty(set, true, 'filled')).toBe('filled#1:0');
+      expect(set.addComponentProperty).not.toHaveBeenCalled();
+      expect(set.editComponentProperty).toHaveBeenCalledWith('Fill#9:0', { name: 'filled' });
+      expect(variant.layers[1].componentPropertyReferences).toEqual({ visible: 'filled#1:0' });
+    });
+
+    it('should remove a leftover property when disabled', () => {
+      const set = componentSet([], { 'Fill#9:0': { type: 'BOOLEAN' } });
+
+      expect(syncFillProperty(set, false, 'Fill')).toBeNull();
+      expect(set.deleteComponentProperty).toHaveBeenCalledWith('Fill#9:0');
+    });
+  });
+});
@@ -49,7 +49,7 @@ describe('IconGenerator', () => {
         grade: 0,
         opticalSize: 24,
       },
-      svgContent: '<svg><path d="M10 20"/></svg>',
+      svgContent: '<svg viewBox="0 0 24 24"><path d="M10 20"/></svg>',
       ...overrides,
     };
   }
@@ -66,7 +66,7 @@ describe('IconGenerator', () => {
           grade: 0,
           opticalSize: 24,
         },
-        svgContent: `<svg>variant-${i}</svg>`,
+        svgContent: `<svg viewBox="0 0 24 24"><path d="M${i} 0"/></svg>`,
       })
     );
   }
@@ -163,6 +163,27 @@ describe('IconGenerator', () => {
       expect(result.componentSet.children).toHaveLength(5);
     });
 
+    it('should leave out variants whose SVG fails validation', async () => {
+      const generator = new IconGenerator();
+      const variants = createIconVariants('broken-icon', 3);
+      variants[1].svgContent = '<html>Rate limited</html>';
+
+      const result = await generator.generateIcon('broken-icon', variants);
+
+      expect(result.variantsCreated).toBe(2);
+      expect(result.invalidVariants).toHaveLength(1);
+      expect(result.invalidVariants[0]).toMatchObject({ problem: 'not-svg' });
+    });
+
+    it('should fail when every variant is invalid', async () => {
+      const generator = new IconGenerator();
+      const variants = [createVariantData({ svgContent: '' })];
+
+      await expect(generator.generateIcon('test-icon', variants)).rejects.toThrow(
+        'No components could be created'
+      );
+    });
+
     it('should set component set name to icon name', async () => {
       const generator = new IconGenerator();
       const variants = [createVariantData({ iconName: 'home' })];
@@ -312,7 +333,7 @@ describe('IconGenerator', () => {
       const variants = [
         createVariantData({
           iconName: 'update-test',
-          svgContent: '<svg>NEW CONTENT</svg>',
+          svgContent: '<svg viewBox="0 0 24 24"><path d="M1 1h22v22"/></svg>',
         }),
       ];
 
@@ -326,7 +347,7 @@ describe('IconGenerator', () => {
         checkContentChanges: true,
       });
 
-      const svgContent = '<svg>same content</svg>';
+      const svgContent = '<svg viewBox="0 0 24 24"><path d="M2 2"/></svg>';
       const hash = `hash-${svgContent.length}`;
 
       // Existing variant with matching hash
@@ -408,6 +429,92 @@ describe('IconGenerator', () => {
     });
   });
 
+  describe('generateIcon - Per-Style Layout', () => {
+    const styleVariants = () => [
+      createVariantData({ iconName: 'home', style: 'rounded' }),
+      createVariantData({ iconName: 'home', style: 'sharp' }),
+      createVariantData({
+        iconName: 'home',
+        style: 'sharp',
+        variant: { weight: 700, fill: 0, grade: 0, opticalSize: 24 },
+      }),
+    ];
+
+    it('should create one component set per style', async () => {
+      const generator = new IconGenerator({ setLayout: 'per-style' });
+
+      const result = await generator.generateIcon('home', styleVariants());
+
+      expect(result.componentSets.map((set) => set.name)).toEqual([
+        'home / Rounded',
+        'home / Sharp',
+      ]);
+      expect(result.componentSet).toBe(result.componentSets[0]);
+      expect(result.componentSets[1].children).toHaveLength(2);
+      expect(result.variantsCreated).toBe(3);
+      expect(mockFigma.combineAsVariants).toHaveBeenCalledTimes(2);
+    });
+
+    it('should update existing style sets and remove sets of unrequested styles', async () => {
+      const roundedSet = createMockComponentSetNode('home / Rounded', [
+        createMockComponentNode(
+          'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'
+        ),
+      ]);
+      const outlinedSet = createMockComponentSetNode('home / Outlined', [
+        createMockComponentNode(
+          'Style=Outlined, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'
+        ),
+      ]);
+      const otherIconSet = createMockComponentSetNode('house / Outlined', []);
+      for (const set of [roundedSet, outlinedSet, otherIconSet]) {
+        set.parent = mockFigma.currentPage as any;
+      }
+      mockFigma.currentPage.children = [roundedSet, outlinedSet, otherIconSet];
+      const generator = new IconGenerator({ setLayout: 'per-style', checkContentChanges: false });
+
+      const result = await generator.generateIcon('home', styleVariants());
+
+      expect(result.componentSets[0]).toBe(roundedSet);
+      expect(result.componentSets[1].name).toBe('home / Sharp');
+      expect(outlinedSet.remove).toHaveBeenCalled();
+      expect(otherIconSet.remove).not.toHaveBeenCalled();
+    });
+
+    it('should keep other style sets and weights when an update narrows the profile', async () => {
+      const weight700 = createMockComponentNode(
+        'Style=Rounded, Weight=700, Fill=Off, Grade=Normal, Optical size=24dp'
+      );
+      const roundedSet = createMockComponentSetNode('home / Rounded', [
+        createMockComponentNode(
+          'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'
+        ),
+        weight700,
+      ]);
+      const outlinedSet = createMockComponentSetNode('home / Outlined', [
+        createMockComponentNode(
+          'Style=Outlined, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'
+        ),
+      ]);
+      for (const set of [roundedSet, outlinedSet]) {
+        set.parent = mockFigma.currentPage as any;
+      }
+      mockFigma.currentPage.children = [roundedSet, outlinedSet];
+      const generator = new IconGenerator({ setLayout: 'per-style', checkContentChanges: false });
+
+      // Rounded at weight 400 only
+      const result = await generator.generateIcon(
+        'home',
+        [createVariantData({ iconName: 'home', style: 'rounded' })],
+        { removeUnrequestedVariants: false }
+      );
+
+      expect(result.componentSets).toEqual([roundedSet]);
+      expect(weight700.remove).not.toHaveBeenCalled();
+      expect(outlinedSet.remove).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Grid Layout and Positioning', () => {
     it('should position multiple icons in a grid', async () => {
       const generator = new IconGenerator({
@@ -0,0 +1,125 @@
+/**
+ * @module @figma/icons/__tests__/icon-lookup
+ *
+ * Unit tests for parsing, validating and placing user-supplied icon names.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseIconList,
+  editDistance,
+  findNearestIcons,
+  validateIconNames,
+  getIconCategory,
+  formatUnknownIcon,
+  searchIcons,
+} from '../icon-lookup';
+
+describe('icon-lookup', () => {
+  describe('parseIconList', () => {
+    it('should split on commas, spaces and newlines', () => {
+      expect(parseIconList('home, search\nsettings\t star')).toEqual([
+        'home',
+        'search',
+        'settings',
+        'star',
+      ]);
+    });
+
+    it('should lower-case and deduplicate names', () => {
+      expect(parseIconList('Home,home, HOME,search,,')).toEqual(['home', 'search']);
+    });
+
+    it('should return an empty list for blank input', () => {
+      expect(parseIconList('  \n , ')).toEqual([]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count single-character edits', () => {
+      expect(editDistance('home', 'home')).toBe(0);
+      expect(editDistance('serch', 'search')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('findNearestIcons', () => {
+    it('should suggest the closest existing icon first', () => {
+      expect(findNearestIcons('serch')[0]).toBe('search');
+      expect(findNearestIcons('arrow_bak')).toContain('arrow_back');
+    });
+
+    it('should prefer icons that start with the typed name', () => {
+      expect(findNearestIcons('hom')).toContain('home');
+    });
+
+    it('should return nothing for names that are not close to any icon', () => {
+      expect(findNearestIcons('qqqqqqqqqqqqqqqqqqqq')).toEqual([]);
+    });
+
+    it('should respect the limit', () => {
+      expect(findNearestIcons('arrow', 2)).toHaveLength(2);
+    });
+  });
+
+  describe('validateIconNames', () => {
+    it('should split names into valid and unknown', () => {
+      const result = validateIconNames(['home', 'serch', 'settings', 'home']);
+
+      expect(result.valid).toEqual(['home', 'settings']);
+      expect(result.unknown).toHaveLength(1);
+      expect(result.unknown[0].name).toBe('serch');
+      expect(result.unknown[0].suggestions).toContain('search');
+    });
+  });
+
+  describe('getIconCategory', () => {
+    it('should map icons to their set from category-mapping.json', () => {
+      expect(getIconCategory('10k')).toBe('Set 01: 10k-air');
+      expect(getIconCategory('home')).toMatch(/^Set \d+: /);
+    });
+
+    it('should return null for unmapped names', () => {
+      expect(getIconCategory('not_an_icon')).toBeNull();
+      expect(getIconCategory('constructor')).toBeNull();
+    });
+  });
+
+  describe('formatUnknownIcon', () => {
+    it('should list suggestions', () => {
+      expect(formatUnknownIcon({ name: 'serch', suggestions: ['search', 'perch'] })).toBe(
+        'serch (did you mean search, perch?)'
+      );
+      expect(formatUnknownIcon({ name: 'zzz', suggestions: [] })).toBe('zzz (no similar icons)');
+    });
+  });
+
+  describe('searchIcons', () => {
+    it('should rank exact and prefix matches first', () => {
+      const results = searchIcons('home');
+
+      expect(results[0]).toBe('home');
+      expect(results.slice(1, 4).every((name) => name.startsWith('home'))).toBe(true);
+    });
+
+    it('should treat spaces and hyphens as underscores', () => {
+      expect(searchIcons('shopping cart')[0]).toBe('shopping_cart');
+      expect(searchIcons('Shopping-Cart')[0]).toBe('shopping_cart');
+    });
+
+    it('should match word prefixes and subsequences', () => {
+      expect(searchIcons('cart')).toContain('shopping_cart');
+      expect(searchIcons('shpcrt')).toContain('shopping_cart');
+    });
+
+    it('should tolerate a typo', () => {
+      expect(searchIcons('shoping_cart')).toContain('shopping_cart');
+    });
+
+    it('should return nothing for an empty query and respect the limit', () => {
+      expect(searchIcons('   ')).toEqual([]);
+      expect(searchIcons('a', 5)).toHaveLength(5);
+    });
+  });
+});
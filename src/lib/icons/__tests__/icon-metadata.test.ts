@@ -0,0 +1,58 @@
+/**
+ * @module @figma/icons/__tests__/icon-metadata
+ *
+ * Unit tests for bundled icon search metadata and description building.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getIconMetadata,
+  hasIconMetadata,
+  formatCodepoint,
+  buildIconDescription,
+} from '../icon-metadata';
+
+vi.mock('../icon-metadata-data.json', () => ({
+  default: {
+    home: { codepoint: 'e9b2', tags: ['house', 'address'], categories: ['action'] },
+    '10k': { codepoint: 'e951' },
+  },
+}));
+
+describe('icon-metadata', () => {
+  describe('getIconMetadata', () => {
+    it('should return bundled metadata', () => {
+      expect(getIconMetadata('home')?.tags).toEqual(['house', 'address']);
+    });
+
+    it('should return null for icons without metadata', () => {
+      expect(getIconMetadata('not_an_icon')).toBeNull();
+      expect(getIconMetadata('constructor')).toBeNull();
+    });
+  });
+
+  describe('hasIconMetadata', () => {
+    it('should report bundled metadata', () => {
+      expect(hasIconMetadata()).toBe(true);
+    });
+  });
+
+  describe('formatCodepoint', () => {
+    it('should format as an upper-case Unicode code point', () => {
+      expect(formatCodepoint('e9b2')).toBe('U+E9B2');
+    });
+  });
+
+  describe('buildIconDescription', () => {
+    it('should list tags, categories and codepoint', () => {
+      expect(buildIconDescription('home')).toBe(
+        'house, address\nCategories: action\nCodepoint: U+E9B2'
+      );
+    });
+
+    it('should omit missing fields', () => {
+      expect(buildIconDescription('10k')).toBe('Codepoint: U+E951');
+      expect(buildIconDescription('not_an_icon')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @module @figma/icons/__tests__/set-layout
+ *
+ * Unit tests for the per-style ComponentSet layout.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getSetIconName,
+  getStyleSetName,
+  getStyleSetProfile,
+  groupVariantsByStyle,
+  isComponentSetLayout,
+  parseStyleSetName,
+} from '../set-layout';
+import { getProfileVariantNames, type VariantProfile } from '../variant-profile';
+import { checkIconNeedsUpdate, getVariantHashes } from '../metadata-helpers';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const PROFILE: VariantProfile = {
+  styles: ['rounded', 'sharp'],
+  weights: [400],
+  fills: [0, 1],
+  grades: [0],
+  opticalSizes: [24],
+};
+
+// Mock ComponentSet holding the variants of one style
+function createStyleSet(name: string, variantNames: string[], commitSha: string) {
+  return {
+    name,
+    type: 'COMPONENT_SET',
+    children: variantNames.map((variantName) => ({
+      name: variantName,
+      type: 'COMPONENT',
+      getPluginData: (key: string) =>
+        key === PLUGIN_DATA_KEYS.SVG_HASH ? `hash-${variantName}` : '',
+    })),
+    getPluginData: (key: string) => (key === PLUGIN_DATA_KEYS.GIT_COMMIT_SHA ? commitSha : ''),
+  } as any;
+}
+
+// Mock page searched with findAll (per-style) or findOne (combined)
+function createPage(componentSets: any[]) {
+  return {
+    findAll: vi.fn((match: (node: any) => boolean) => componentSets.filter(match)),
+    findOne: vi.fn((match: (node: any) => boolean) => componentSets.find(match) ?? null),
+  } as any;
+}
+
+describe('set-layout', () => {
+  describe('style set names', () => {
+    it('should name a set after the icon and style', () => {
+      expect(getStyleSetName('home', 'rounded')).toBe('home / Rounded');
+      expect(getStyleSetName('home', 'legacy-two-tone')).toBe('home / Legacy Two-tone');
+    });
+
+    it('should parse the names it builds', () => {
+      expect(parseStyleSetName('home / Rounded')).toEqual({ iconName: 'home', style: 'rounded' });
+      expect(parseStyleSetName('a / b / Sharp')).toEqual({ iconName: 'a / b', style: 'sharp' });
+      expect(parseStyleSetName('home')).toBeNull();
+      expect(parseStyleSetName('home / Unknown')).toBeNull();
+      expect(parseStyleSetName(' / Rounded')).toBeNull();
+    });
+
+    it('should read the icon name in either layout', () => {
+      expect(getSetIconName('home / Outlined')).toBe('home');
+      expect(getSetIconName('home')).toBe('home');
+    });
+
+    it('should recognise layouts', () => {
+      expect(isComponentSetLayout('combined')).toBe(true);
+      expect(isComponentSetLayout('per-style')).toBe(true);
+      expect(isComponentSetLayout('per-weight')).toBe(false);
+    });
+  });
+
+  it('should group variants by style in order of appearance', () => {
+    const groups = groupVariantsByStyle([
+      { style: 'sharp', id: 1 },
+      { style: 'rounded', id: 2 },
+      { style: 'sharp', id: 3 },
+    ] as const);
+
+    expect(Array.from(groups.keys())).toEqual(['sharp', 'rounded']);
+    expect(groups.get('sharp')?.map((variant) => variant.id)).toEqual([1, 3]);
+  });
+
+  it('should restrict the profile to one style', () => {
+    const profile = getStyleSetProfile(PROFILE, 'sharp');
+
+    expect(profile.styles).toEqual(['sharp']);
+    expect(getProfileVariantNames(profile)).toHaveLength(2);
+  });
+
+  describe('per-style icons', () => {
+    const roundedNames = getProfileVariantNames(getStyleSetProfile(PROFILE, 'rounded'));
+    const sharpNames = getProfileVariantNames(getStyleSetProfile(PROFILE, 'sharp'));
+
+    it('should measure an icon across all its style sets', () => {
+      const page = createPage([
+        createStyleSet('home / Rounded', roundedNames, 'abc123'),
+        createStyleSet('home / Sharp', sharpNames, 'old456'),
+        createStyleSet('house / Sharp', sharpNames, 'abc123'),
+      ]);
+
+      const result = checkIconNeedsUpdate(page, 'home', 'abc123', PROFILE, 'per-style');
+
+      expect(result.existingComponentSets.map((set) => set.name)).toEqual([
+        'home / Rounded',
+        'home / Sharp',
+      ]);
+      expect(result.existingVariantCount).toBe(4);
+      expect(result.storedCommitSha).toBe('old456');
+      expect(result.fillGapsOnly).toBe(false);
+      expect(result.needsUpdate).toBe(true);
+    });
+
+    it('should report a missing style set as missing variants', () => {
+      const page = createPage([createStyleSet('home / Rounded', roundedNames, 'abc123')]);
+
+      const result = checkIconNeedsUpdate(page, 'home', 'abc123', PROFILE, 'per-style');
+
+      expect(result.fillGapsOnly).toBe(true);
+      expect(result.reason).toBe('Incomplete (2/4 variants)');
+    });
+
+    it('should only look for the combined set with the combined layout', () => {
+      const page = createPage([createStyleSet('home / Rounded', roundedNames, 'abc123')]);
+
+      const result = checkIconNeedsUpdate(page, 'home', 'abc123', PROFILE);
+
+      expect(result.existingComponentSet).toBeNull();
+      expect(page.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should collect variant hashes from every set', () => {
+      const hashes = getVariantHashes([
+        createStyleSet('home / Rounded', roundedNames, 'abc123'),
+        createStyleSet('home / Sharp', sharpNames, 'abc123'),
+      ]);
+
+      expect(hashes.size).toBe(4);
+      expect(hashes.get(sharpNames[0])).toBe(`hash-${sharpNames[0]}`);
+    });
+  });
+});
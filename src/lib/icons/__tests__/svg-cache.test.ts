@@ -0,0 +1,187 @@
+/**
+ * @module @figma/icons/__tests__/svg-cache
+ *
+ * Unit tests for the persistent SVG cache and its use by batchFetchSVGs.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SvgCache, getSvgCacheKey, type SvgCacheItem, type SvgCacheStorage } from '../svg-cache';
+import { batchFetchSVGs, type FetchItem } from '../batch-fetcher';
+import { CLIENT_STORAGE_KEYS } from '@lib/constants';
+
+vi.mock('@lib/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@lib/utils')>()),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const SHA = 'abc1234';
+const VARIANT = { weight: 400, fill: 0, grade: 0, opticalSize: 24 } as const;
+
+function item(iconName: string): SvgCacheItem {
+  return { iconName, style: 'rounded', variant: { ...VARIANT } };
+}
+
+function createStorage(): SvgCacheStorage & { data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    getAsync: vi.fn(async (key: string) => data.get(key)),
+    setAsync: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, value);
+    }),
+    deleteAsync: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+    keysAsync: vi.fn(async () => Array.from(data.keys())),
+  };
+}
+
+describe('svg-cache', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  describe('getSvgCacheKey', () => {
+    it('should key by commit and upstream path', () => {
+      expect(getSvgCacheKey(SHA, item('home'))).toBe(
+        'abc1234:home/materialsymbolsrounded/home_24px.svg'
+      );
+    });
+  });
+
+  describe('SvgCache', () => {
+    it('should return stored SVGs and count hits and misses', async () => {
+      const cache = new SvgCache({ storage });
+
+      expect(await cache.get(SHA, item('home'))).toBeNull();
+      await cache.set(SHA, item('home'), '<svg>home</svg>');
+
+      expect(await cache.get(SHA, item('home'))).toBe('<svg>home</svg>');
+      expect(await cache.get('def5678', item('home'))).toBeNull();
+      expect(await cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 2 });
+    });
+
+    it('should persist the index on flush and reload it', async () => {
+      const cache = new SvgCache({ storage });
+      await cache.set(SHA, item('home'), '<svg>home</svg>');
+
+      expect(storage.data.has(CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX)).toBe(false);
+      await cache.flush();
+
+      const reloaded = new SvgCache({ storage });
+      expect(await reloaded.get(SHA, item('home'))).toBe('<svg>home</svg>');
+      expect((await reloaded.getStats()).bytes).toBe((await cache.getStats()).bytes);
+    });
+
+    it('should evict least recently used entries when over the cap', async () => {
+      const svg = '<svg>'.padEnd(100, 'x') + '</svg>';
+      const entrySize = getSvgCacheKey(SHA, item('aaaa')).length + svg.length;
+      const cache = new SvgCache({ storage, maxBytes: entrySize * 3 });
+
+      await cache.set(SHA, item('aaaa'), svg);
+      await cache.set(SHA, item('bbbb'), svg);
+      await cache.set(SHA, item('cccc'), svg);
+      await cache.get(SHA, item('aaaa'));
+      await cache.set(SHA, item('dddd'), svg);
+
+      expect(await cache.get(SHA, item('bbbb'))).toBeNull();
+      expect(await cache.get(SHA, item('aaaa'))).toBe(svg);
+      expect(await cache.get(SHA, item('dddd'))).toBe(svg);
+      expect((await cache.getStats()).evictions).toBeGreaterThan(0);
+      expect((await cache.getStats()).bytes).toBeLessThanOrEqual(entrySize * 3);
+    });
+
+    it('should not store SVGs larger than the cap', async () => {
+      const cache = new SvgCache({ storage, maxBytes: 10 });
+
+      await cache.set(SHA, item('home'), '<svg>home</svg>');
+
+      expect((await cache.getStats()).entries).toBe(0);
+    });
+
+    it('should forget index entries whose content is missing', async () => {
+      const cache = new SvgCache({ storage });
+      await cache.set(SHA, item('home'), '<svg>home</svg>');
+      storage.data.delete(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + getSvgCacheKey(SHA, item('home')));
+
+      expect(await cache.get(SHA, item('home'))).toBeNull();
+      expect(await cache.getStats()).toMatchObject({ entries: 0, bytes: 0 });
+    });
+
+    it('should clear every cached SVG and leave other keys alone', async () => {
+      storage.data.set('generation_queue', []);
+      storage.data.set(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + 'orphan', '<svg/>');
+      const cache = new SvgCache({ storage });
+      await cache.set(SHA, item('home'), '<svg>home</svg>');
+      await cache.flush();
+
+      await cache.clear();
+
+      expect(Array.from(storage.data.keys())).toEqual(['generation_queue']);
+      expect(await cache.getStats()).toMatchObject({ entries: 0, bytes: 0, hits: 0, misses: 0 });
+    });
+  });
+
+  describe('batchFetchSVGs with a cache', () => {
+    function fetchItem(iconName: string): FetchItem {
+      return { url: `https://example.test/${iconName}.svg`, ...item(iconName) };
+    }
+
+    it('should only fetch variants that are not cached', async () => {
+      const cache = new SvgCache({ storage });
+      await cache.set(SHA, item('home'), '<svg>cached</svg>');
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => '<svg>new</svg>',
+      }));
+      global.fetch = fetchMock as any;
+
+      const { results, stats } = await batchFetchSVGs([fetchItem('home'), fetchItem('star')], {
+        cache: cache.forCommit(SHA),
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://example.test/star.svg');
+      expect(results.map((r) => r.svgContent).sort()).toEqual([
+        '<svg>cached</svg>',
+        '<svg>new</svg>',
+      ]);
+      expect(stats.successful).toBe(2);
+
+      // Fetched SVG was stored and the index flushed
+      expect(await new SvgCache({ storage }).get(SHA, item('star'))).toBe('<svg>new</svg>');
+    });
+
+    it('should not let storage errors affect the fetch result', async () => {
+      // Room for one entry, so caching star evicts home
+      const cache = new SvgCache({ storage, maxBytes: 100 });
+      await cache.set(SHA, item('home'), '<svg>cached</svg>');
+      vi.mocked(storage.deleteAsync).mockRejectedValue(new Error('storage unavailable'));
+      vi.mocked(storage.setAsync).mockImplementation(async (key: string) => {
+        if (key === CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX) {
+          throw new Error('quota exceeded');
+        }
+      });
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => '<svg>new</svg>',
+      }));
+      global.fetch = fetchMock as any;
+
+      const { results, failures, stats } = await batchFetchSVGs([fetchItem('star')], {
+        cache: cache.forCommit(SHA),
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(results).toHaveLength(1);
+      expect(failures).toEqual([]);
+      expect(stats).toMatchObject({ successful: 1, failed: 0 });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @module @figma/icons/__tests__/svg-interpolation
+ *
+ * Unit tests for deriving intermediate weights/grades from upstream outlines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getInterpolationCorners,
+  getInterpolationSource,
+  getInterpolationTargets,
+  interpolateIconSvg,
+  isInterpolatedVariant,
+  validateInterpolationAxes,
+} from '../svg-interpolation';
+import { SvgInterpolationError } from '@lib/utils/errors';
+import type { IconVariant } from '@lib/github/url-generator';
+import type { VariantProfile } from '../variant-profile';
+
+const svg = (d: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="${d}"/></svg>`;
+
+/** Neighbour outlines by `weight/grade` */
+function neighbours(outlines: Record<string, string>) {
+  return (corner: IconVariant) => outlines[`${corner.weight}/${corner.grade}`];
+}
+
+const BASE = { fill: 0 as const, opticalSize: 24 as const };
+
+describe('svg-interpolation', () => {
+  describe('axes', () => {
+    it('should recognise variants between the upstream values', () => {
+      expect(isInterpolatedVariant({ ...BASE, weight: 400, grade: 0 })).toBe(false);
+      expect(isInterpolatedVariant({ ...BASE, weight: 350, grade: 0 })).toBe(true);
+      expect(isInterpolatedVariant({ ...BASE, weight: 400, grade: 100 })).toBe(true);
+    });
+
+    it('should validate requested weights and grades', () => {
+      expect(validateInterpolationAxes({ weights: [350], grades: [100] })).toEqual([]);
+      expect(validateInterpolationAxes({ weights: [], grades: [] })).toHaveLength(1);
+      expect(validateInterpolationAxes({ weights: [50, 350.5], grades: [250] })).toEqual([
+        'Weight 50 must be a whole number from 100 to 700',
+        'Weight 350.5 must be a whole number from 100 to 700',
+        'Grade 250 must be a whole number from -25 to 200',
+      ]);
+    });
+
+    it('should find the neighbours and position on each axis', () => {
+      expect(getInterpolationSource({ ...BASE, weight: 350, grade: 100 })).toEqual({
+        weights: [300, 400],
+        grades: [0, 200],
+        weightT: 0.5,
+        gradeT: 0.5,
+      });
+      expect(getInterpolationSource({ ...BASE, weight: 800, grade: 0 })).toBeNull();
+    });
+
+    it('should need two neighbours for one axis and four for both', () => {
+      expect(
+        getInterpolationCorners({ ...BASE, weight: 350, grade: 0 }).map((c) => c.weight)
+      ).toEqual([300, 400]);
+      expect(
+        getInterpolationCorners({ ...BASE, weight: 350, grade: 100 }).map((c) => [
+          c.weight,
+          c.grade,
+        ])
+      ).toEqual([
+        [300, 0],
+        [400, 0],
+        [300, 200],
+        [400, 200],
+      ]);
+    });
+
+    it('should list intermediate variants for the profile', () => {
+      const profile: VariantProfile = {
+        styles: ['rounded', 'legacy-round'],
+        weights: [400],
+        fills: [0, 1],
+        grades: [0],
+        opticalSizes: [24],
+      };
+
+      const targets = getInterpolationTargets(profile, { weights: [350], grades: [100] });
+
+      // (350 | 400) × (0 | 100) minus the upstream 400/0, for both fills; no legacy style
+      expect(targets).toHaveLength(6);
+      expect(targets.every((t) => t.style === 'rounded')).toBe(true);
+      expect(targets.map((t) => `${t.variant.weight}/${t.variant.grade}`)).not.toContain('400/0');
+    });
+  });
+
+  describe('interpolateIconSvg', () => {
+    it('should blend matching outlines along one axis', () => {
+      const result = interpolateIconSvg(
+        'home',
+        'rounded',
+        { ...BASE, weight: 350, grade: 0 },
+        neighbours({ '300/0': svg('M0-100h100v-50Z'), '400/0': svg('M10-200h300v-51Z') })
+      );
+
+      expect(result).toBe(svg('M5 -150h200v-50.5Z'));
+    });
+
+    it('should blend bilinearly when both axes are in between', () => {
+      const result = interpolateIconSvg(
+        'home',
+        'rounded',
+        { ...BASE, weight: 350, grade: 100 },
+        neighbours({
+          '300/0': svg('M0 0'),
+          '400/0': svg('M100 0'),
+          '300/200': svg('M0 100'),
+          '400/200': svg('M100 100'),
+        })
+      );
+
+      expect(result).toBe(svg('M50 50'));
+    });
+
+    it('should keep arc flags and read them without separators', () => {
+      const result = interpolateIconSvg(
+        'home',
+        'rounded',
+        { ...BASE, weight: 150, grade: 0 },
+        neighbours({ '100/0': svg('M0 0a5 5 0 015 5'), '200/0': svg('M0 0a7 7 0 017 7') })
+      );
+
+      expect(result).toBe(svg('M0 0a6 6 0 0 1 6 6'));
+    });
+
+    it('should fail when the point structure differs', () => {
+      const interpolate = () =>
+        interpolateIconSvg(
+          'home',
+          'rounded',
+          { ...BASE, weight: 350, grade: 0 },
+          neighbours({ '300/0': svg('M0 0h10Z'), '400/0': svg('M0 0l10 0Z') })
+        );
+
+      expect(interpolate).toThrow(SvgInterpolationError);
+      expect(interpolate).toThrow(
+        /Weight=350.*weights 300 and 400 are not compatible \(path 1: point structure differs at command 2 \(h vs l\)\)/
+      );
+    });
+
+    it('should fail when arc flags or markup differ', () => {
+      expect(() =>
+        interpolateIconSvg(
+          'home',
+          'rounded',
+          { ...BASE, weight: 350, grade: 0 },
+          neighbours({ '300/0': svg('M0 0a5 5 0 015 5'), '400/0': svg('M0 0a5 5 0 105 5') })
+        )
+      ).toThrow(/arc flags differ/);
+      expect(() =>
+        interpolateIconSvg(
+          'home',
+          'rounded',
+          { ...BASE, weight: 350, grade: 0 },
+          neighbours({ '300/0': svg('M0 0'), '400/0': svg('M0 0').replace('24"', '20"') })
+        )
+      ).toThrow(/markup outside the path data differs/);
+    });
+
+    it('should fail when a neighbour is missing', () => {
+      try {
+        interpolateIconSvg(
+          'home',
+          'rounded',
+          { ...BASE, weight: 350, grade: 0 },
+          neighbours({ '300/0': svg('M0 0') })
+        );
+        throw new Error('expected interpolateIconSvg to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(SvgInterpolationError);
+        expect((error as SvgInterpolationError).reason).toBe(
+          'neighbour weight 400, grade 0 is not available'
+        );
+      }
+    });
+  });
+});
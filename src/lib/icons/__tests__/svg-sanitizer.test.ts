@@ -0,0 +1,129 @@
+/**
+ * @module @figma/icons/__tests__/svg-sanitizer
+ *
+ * Unit tests for SVG validation and sanitisation before node creation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sanitizeSvg, type SvgExpectations } from '../svg-sanitizer';
+import { SvgValidationError } from '@lib/utils/errors';
+
+const EXPECTED: SvgExpectations = {
+  iconName: 'home',
+  variantName: 'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp',
+  opticalSize: 24,
+};
+
+/** Upstream Material Symbols shape */
+const HOME =
+  '<svg xmlns="http://www.w3.org/2000/svg" height="24" viewBox="0 -960 960 960" width="24"><path d="M240-200h120v-240h240v240h120v-360L480-740 240-560v360Z"/></svg>';
+
+function problemOf(svgContent: string, expected: SvgExpectations = EXPECTED): string {
+  try {
+    sanitizeSvg(svgContent, expected);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SvgValidationError);
+    return (error as SvgValidationError).problem;
+  }
+  throw new Error('expected sanitizeSvg to throw');
+}
+
+describe('svg-sanitizer', () => {
+  describe('validation', () => {
+    it('should accept an upstream SVG unchanged', () => {
+      expect(sanitizeSvg(HOME, EXPECTED)).toEqual({ svg: HOME, removed: [], recoloured: 0 });
+    });
+
+    it('should accept an XML prolog, comments and whitespace around the root', () => {
+      const { svg } = sanitizeSvg(`<?xml version="1.0"?>\n<!-- icon -->\n${HOME}\n`, EXPECTED);
+      expect(svg).toBe(HOME);
+    });
+
+    it('should reject markup that does not parse', () => {
+      expect(problemOf('')).toBe('malformed');
+      expect(problemOf('404: Not Found')).toBe('malformed');
+      expect(problemOf('<svg viewBox="0 0 24 24"><path d="M1 1"></svg>')).toBe('malformed');
+      expect(problemOf('<svg viewBox="0 0 24 24"><path d="M1 1"/>')).toBe('malformed');
+      expect(problemOf(`${HOME}<svg/>`)).toBe('malformed');
+    });
+
+    it('should reject a root element other than <svg>', () => {
+      expect(problemOf('<html><body>rate limited</body></html>')).toBe('not-svg');
+    });
+
+    it('should reject a missing or non-square viewBox', () => {
+      expect(problemOf('<svg><path d="M1 1"/></svg>')).toBe('viewbox');
+      expect(problemOf('<svg viewBox="0 0 24 20"><path d="M1 1"/></svg>')).toBe('viewbox');
+      expect(problemOf('<svg viewBox="auto"><path d="M1 1"/></svg>')).toBe('viewbox');
+    });
+
+    it('should reject width/height that do not match the optical size', () => {
+      expect(problemOf(HOME, { ...EXPECTED, opticalSize: 48 })).toBe('viewbox');
+      expect(
+        sanitizeSvg(HOME.replace(/ (height|width)="24"/g, ''), { ...EXPECTED, opticalSize: 48 })
+      ).toBeTruthy();
+    });
+
+    it('should reject an SVG without path data', () => {
+      expect(problemOf('<svg viewBox="0 0 24 24"><circle r="10"/></svg>')).toBe('no-path');
+      expect(problemOf('<svg viewBox="0 0 24 24"><path d=" "/></svg>')).toBe('no-path');
+      // A path that only exists inside stripped content doesn't count
+      expect(
+        problemOf('<svg viewBox="0 0 24 24"><foreignObject><path d="M1 1"/></foreignObject></svg>')
+      ).toBe('no-path');
+    });
+
+    it('should name the icon and variant in the error', () => {
+      expect(() => sanitizeSvg('<svg/>', EXPECTED)).toThrow(
+        /Failed to generate icon "home": Style=Rounded.*missing viewBox/
+      );
+    });
+  });
+
+  describe('sanitisation', () => {
+    it('should strip scripts, foreign content and unknown elements with their contents', () => {
+      const result = sanitizeSvg(
+        '<svg viewBox="0 0 24 24"><script>alert(1)</script><g><path d="M1 1"/><foreignObject><div>x</div></foreignObject></g><style>path{fill:red}</style></svg>',
+        EXPECTED
+      );
+
+      expect(result.svg).toBe('<svg viewBox="0 0 24 24"><g><path d="M1 1"/></g></svg>');
+      expect(result.removed).toEqual(['<script>', '<foreignObject>', '<style>']);
+    });
+
+    it('should strip event handlers and external references', () => {
+      const result = sanitizeSvg(
+        '<svg viewBox="0 0 24 24" onload="steal()"><defs><path id="p" d="M1 1"/></defs><use href="#p"/><use xlink:href="https://evil.example/x.svg#p" onclick=\'go()\'/></svg>',
+        EXPECTED
+      );
+
+      expect(result.svg).toBe(
+        '<svg viewBox="0 0 24 24"><defs><path id="p" d="M1 1"/></defs><use href="#p"/><use/></svg>'
+      );
+      expect(result.removed).toEqual(['onload', 'xlink:href', 'onclick']);
+    });
+
+    it('should normalise colours in attributes and style declarations', () => {
+      const result = sanitizeSvg(
+        '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M1 1" stroke="#ff0000" style="opacity:0.5; fill: rgb(1, 2, 3)"/><path d="M2 2" fill="none" stroke="url(#g)"/></svg>',
+        EXPECTED
+      );
+
+      expect(result.svg).toBe(
+        '<svg viewBox="0 0 24 24" fill="#000000"><path d="M1 1" stroke="#000000" style="opacity:0.5;fill:#000000"/><path d="M2 2" fill="none" stroke="url(#g)"/></svg>'
+      );
+      expect(result.recoloured).toBe(3);
+    });
+
+    it('should escape quotes when serialising attribute values', () => {
+      const { svg } = sanitizeSvg(
+        `<svg viewBox='0 0 24 24'><path d="M1 1" data-label='say "hi"'/></svg>`,
+        EXPECTED
+      );
+
+      expect(svg).toBe(
+        '<svg viewBox="0 0 24 24"><path d="M1 1" data-label="say &quot;hi&quot;"/></svg>'
+      );
+    });
+  });
+});
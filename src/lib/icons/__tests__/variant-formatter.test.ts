@@ -13,6 +13,8 @@ import {
   getGradeName,
   getVariantName,
   getDefaultVariantName,
+  getStyleName,
+  parseStyleName,
   sortComponentsForDefault,
   ensureDefaultVariantFirst,
 } from '../variant-formatter';
@@ -90,10 +92,9 @@ describe('getGradeName', () => {
     expect(getGradeName(-25)).toBe('Dark theme');
   });
 
-  it('should return "Normal" for unknown grades', () => {
-    expect(getGradeName(100)).toBe('Normal');
-    expect(getGradeName(-100)).toBe('Normal');
-    expect(getGradeName(999)).toBe('Normal');
+  it('should return the number for intermediate grades', () => {
+    expect(getGradeName(100)).toBe('100');
+    expect(getGradeName(-10)).toBe('-10');
   });
 
   it('should handle all standard Material Icon grades', () => {
@@ -250,6 +251,21 @@ describe('getVariantName', () => {
   });
 });
 
+describe('getStyleName / parseStyleName', () => {
+  it('should name legacy Material Icons styles distinctly', () => {
+    expect(getStyleName('rounded')).toBe('Rounded');
+    expect(getStyleName('legacy-two-tone')).toBe('Legacy Two-tone');
+    expect(getStyleName('legacy-outlined')).not.toBe(getStyleName('outlined'));
+  });
+
+  it('should parse display names and ids in any case', () => {
+    expect(parseStyleName('Legacy Two-tone')).toBe('legacy-two-tone');
+    expect(parseStyleName('legacy-round')).toBe('legacy-round');
+    expect(parseStyleName('SHARP')).toBe('sharp');
+    expect(parseStyleName('Bold')).toBeUndefined();
+  });
+});
+
 describe('getDefaultVariantName', () => {
   it('should return the default variant name', () => {
     const name = getDefaultVariantName();
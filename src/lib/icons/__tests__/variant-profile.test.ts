@@ -0,0 +1,332 @@
+/**
+ * @module @figma/icons/__tests__/variant-profile
+ *
+ * Unit tests for variant profiles and profile-aware completeness checks.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FULL_VARIANT_PROFILE,
+  normalizeVariantProfile,
+  getProfileVariantCount,
+  isFullVariantProfile,
+  isProfileSubset,
+  getProfileVariantNames,
+  getProfileVariants,
+  describeVariantProfile,
+  getStoredVariantProfile,
+  setStoredVariantProfile,
+  widenStoredVariantProfile,
+  type VariantProfile,
+} from '../variant-profile';
+import {
+  getMissingVariantNames,
+  getUnavailableVariantNames,
+  setUnavailableVariantNames,
+  isComponentSetComplete,
+  shouldSkipComponentSet,
+  checkIconNeedsUpdate,
+} from '../metadata-helpers';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ROUNDED_PRODUCT_PROFILE: VariantProfile = {
+  styles: ['rounded'],
+  weights: [300, 400, 500],
+  fills: [0, 1],
+  grades: [0],
+  opticalSizes: [24],
+};
+
+// Mock ComponentSet with named variants and plugin data
+function createComponentSet(variantNames: string[], pluginData: Record<string, string> = {}) {
+  const data = { ...pluginData };
+  return {
+    name: 'home',
+    type: 'COMPONENT_SET',
+    children: variantNames.map((name) => ({ name, type: 'COMPONENT' })),
+    getPluginData: vi.fn((key: string) => data[key] || ''),
+    setPluginData: vi.fn((key: string, value: string) => {
+      data[key] = value;
+    }),
+  } as any;
+}
+
+describe('variant-profile', () => {
+  describe('getProfileVariantCount', () => {
+    it('should count 504 variants for the full profile', () => {
+      expect(getProfileVariantCount(FULL_VARIANT_PROFILE)).toBe(504);
+    });
+
+    it('should count a subset profile', () => {
+      expect(getProfileVariantCount(ROUNDED_PRODUCT_PROFILE)).toBe(6);
+    });
+
+    it('should count legacy styles once per published optical size', () => {
+      const profile: VariantProfile = {
+        ...ROUNDED_PRODUCT_PROFILE,
+        styles: ['rounded', 'legacy-round', 'legacy-two-tone'],
+        opticalSizes: [24, 48],
+      };
+
+      // 3 weights × 2 fills × 2 sizes for Rounded, plus 24dp for each legacy style
+      expect(getProfileVariantCount(profile)).toBe(12 + 2);
+      expect(getProfileVariants(profile)).toHaveLength(14);
+    });
+  });
+
+  describe('getProfileVariants', () => {
+    it('should give legacy styles fixed weight, fill and grade', () => {
+      const variants = getProfileVariants({
+        ...FULL_VARIANT_PROFILE,
+        styles: ['legacy-filled'],
+      });
+
+      expect(variants).toEqual([
+        { style: 'legacy-filled', variant: { weight: 400, fill: 0, grade: 0, opticalSize: 20 } },
+        { style: 'legacy-filled', variant: { weight: 400, fill: 0, grade: 0, opticalSize: 24 } },
+      ]);
+    });
+  });
+
+  describe('normalizeVariantProfile', () => {
+    it('should sort values canonically and drop unknown values', () => {
+      const profile = normalizeVariantProfile({
+        styles: ['sharp', 'rounded'],
+        weights: [500, 300, 999 as any],
+      });
+
+      expect(profile.styles).toEqual(['rounded', 'sharp']);
+      expect(profile.weights).toEqual([300, 500]);
+    });
+
+    it('should keep legacy styles after the Material Symbols styles', () => {
+      const profile = normalizeVariantProfile({ styles: ['legacy-sharp', 'outlined'] });
+
+      expect(profile.styles).toEqual(['outlined', 'legacy-sharp']);
+      expect(isFullVariantProfile({ ...FULL_VARIANT_PROFILE, styles: ['legacy-sharp'] })).toBe(
+        false
+      );
+    });
+
+    it('should fall back to the full axis when an axis is empty or missing', () => {
+      const profile = normalizeVariantProfile({ styles: [] });
+
+      expect(profile).toEqual(FULL_VARIANT_PROFILE);
+      expect(isFullVariantProfile(profile)).toBe(true);
+    });
+  });
+
+  describe('isProfileSubset', () => {
+    it('should check every axis', () => {
+      expect(isProfileSubset(ROUNDED_PRODUCT_PROFILE, FULL_VARIANT_PROFILE)).toBe(true);
+      expect(isProfileSubset(FULL_VARIANT_PROFILE, ROUNDED_PRODUCT_PROFILE)).toBe(false);
+      expect(
+        isProfileSubset({ ...ROUNDED_PRODUCT_PROFILE, opticalSizes: [48] }, ROUNDED_PRODUCT_PROFILE)
+      ).toBe(false);
+    });
+  });
+
+  describe('getProfileVariantNames', () => {
+    it('should build Figma variant names for every profile variant', () => {
+      const names = getProfileVariantNames(ROUNDED_PRODUCT_PROFILE);
+
+      expect(names).toHaveLength(6);
+      expect(names).toContain(
+        'Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'
+      );
+      expect(new Set(names).size).toBe(6);
+    });
+  });
+
+  describe('describeVariantProfile', () => {
+    it('should summarise the profile', () => {
+      expect(describeVariantProfile(ROUNDED_PRODUCT_PROFILE)).toBe(
+        'rounded · 300/400/500 · fill 0/1 · grade 0 · 24dp (6 variants)'
+      );
+    });
+  });
+
+  describe('stored profile', () => {
+    it('should round-trip a profile through plugin data', () => {
+      const componentSet = createComponentSet([]);
+
+      setStoredVariantProfile(componentSet, ROUNDED_PRODUCT_PROFILE);
+
+      expect(componentSet.setPluginData).toHaveBeenCalledWith(
+        PLUGIN_DATA_KEYS.VARIANT_PROFILE,
+        expect.any(String)
+      );
+      expect(getStoredVariantProfile(componentSet)).toEqual(ROUNDED_PRODUCT_PROFILE);
+    });
+
+    it('should assume the full profile for legacy components', () => {
+      expect(getStoredVariantProfile(createComponentSet([]))).toEqual(FULL_VARIANT_PROFILE);
+    });
+
+    it('should assume the full profile when stored data is invalid', () => {
+      const componentSet = createComponentSet([], {
+        [PLUGIN_DATA_KEYS.VARIANT_PROFILE]: '{not json',
+      });
+
+      expect(getStoredVariantProfile(componentSet)).toEqual(FULL_VARIANT_PROFILE);
+    });
+
+    it('should not narrow a full set to a smaller run profile', () => {
+      const componentSet = createComponentSet([]);
+
+      widenStoredVariantProfile(componentSet, ROUNDED_PRODUCT_PROFILE);
+
+      expect(componentSet.setPluginData).not.toHaveBeenCalled();
+      expect(getStoredVariantProfile(componentSet)).toEqual(FULL_VARIANT_PROFILE);
+    });
+
+    it('should widen a stored profile with the run profile', () => {
+      const run: VariantProfile = { ...ROUNDED_PRODUCT_PROFILE, weights: [700] };
+      const componentSet = createComponentSet(
+        [...getProfileVariantNames(ROUNDED_PRODUCT_PROFILE), ...getProfileVariantNames(run)],
+        { [PLUGIN_DATA_KEYS.VARIANT_PROFILE]: JSON.stringify(ROUNDED_PRODUCT_PROFILE) }
+      );
+
+      widenStoredVariantProfile(componentSet, run);
+
+      expect(getStoredVariantProfile(componentSet)).toEqual({
+        ...ROUNDED_PRODUCT_PROFILE,
+        weights: [300, 400, 500, 700],
+      });
+    });
+
+    it('should not claim combinations when two runs differ on two axes', () => {
+      const first: VariantProfile = { ...ROUNDED_PRODUCT_PROFILE, weights: [300] };
+      const second: VariantProfile = {
+        ...ROUNDED_PRODUCT_PROFILE,
+        styles: ['outlined'],
+        weights: [400],
+      };
+      const componentSet = createComponentSet(
+        [...getProfileVariantNames(first), ...getProfileVariantNames(second)],
+        { [PLUGIN_DATA_KEYS.VARIANT_PROFILE]: JSON.stringify(first) }
+      );
+
+      widenStoredVariantProfile(componentSet, second);
+
+      // Rounded/400 and Outlined/300 were never generated
+      expect(getStoredVariantProfile(componentSet)).toEqual(second);
+      expect(getMissingVariantNames(componentSet, getStoredVariantProfile(componentSet))).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('profile-aware completeness', () => {
+    const productNames = getProfileVariantNames(ROUNDED_PRODUCT_PROFILE);
+
+    it('should treat a set with every profile variant as complete', () => {
+      const componentSet = createComponentSet(productNames);
+
+      expect(isComponentSetComplete(componentSet, ROUNDED_PRODUCT_PROFILE)).toBe(true);
+      expect(isComponentSetComplete(componentSet)).toBe(false);
+    });
+
+    it('should report the exact missing variants', () => {
+      const componentSet = createComponentSet(productNames.slice(1));
+
+      expect(getMissingVariantNames(componentSet, ROUNDED_PRODUCT_PROFILE)).toEqual([
+        productNames[0],
+      ]);
+      expect(isComponentSetComplete(componentSet, ROUNDED_PRODUCT_PROFILE)).toBe(false);
+    });
+
+    it('should treat a full 504-variant set as complete for a subset profile', () => {
+      const componentSet = createComponentSet(getProfileVariantNames(FULL_VARIANT_PROFILE));
+
+      expect(isComponentSetComplete(componentSet, ROUNDED_PRODUCT_PROFILE)).toBe(true);
+      expect(isComponentSetComplete(componentSet)).toBe(true);
+    });
+
+    it('should not report variants recorded as unavailable upstream as missing', () => {
+      const componentSet = createComponentSet(productNames.slice(1), {
+        [PLUGIN_DATA_KEYS.GIT_COMMIT_SHA]: 'abc123',
+      });
+      setUnavailableVariantNames(componentSet, [productNames[0]]);
+
+      expect(getUnavailableVariantNames(componentSet)).toEqual([productNames[0]]);
+      expect(getMissingVariantNames(componentSet, ROUNDED_PRODUCT_PROFILE)).toEqual([]);
+      expect(shouldSkipComponentSet(componentSet, 'abc123', ROUNDED_PRODUCT_PROFILE)).toBe(true);
+
+      setUnavailableVariantNames(componentSet, []);
+      expect(isComponentSetComplete(componentSet, ROUNDED_PRODUCT_PROFILE)).toBe(false);
+    });
+
+    it('should skip a complete set with matching SHA under its profile', () => {
+      const componentSet = createComponentSet(productNames, {
+        [PLUGIN_DATA_KEYS.GIT_COMMIT_SHA]: 'abc123',
+      });
+
+      expect(shouldSkipComponentSet(componentSet, 'abc123', ROUNDED_PRODUCT_PROFILE)).toBe(true);
+      expect(shouldSkipComponentSet(componentSet, 'abc123')).toBe(false);
+    });
+
+    it('should measure checkIconNeedsUpdate against the profile', () => {
+      const componentSet = createComponentSet(productNames.slice(2), {
+        [PLUGIN_DATA_KEYS.GIT_COMMIT_SHA]: 'abc123',
+      });
+      const page = { findOne: vi.fn(() => componentSet) } as any;
+
+      const result = checkIconNeedsUpdate(page, 'home', 'abc123', ROUNDED_PRODUCT_PROFILE);
+
+      expect(result.fillGapsOnly).toBe(true);
+      expect(result.reason).toBe('Incomplete (4/6 variants)');
+    });
+  });
+
+  describe('fill property', () => {
+    const FILL_PROPERTY_PROFILE: VariantProfile = { ...FULL_VARIANT_PROFILE, fillProperty: true };
+
+    it('should halve the full matrix but still download both fills', () => {
+      expect(getProfileVariantCount(FILL_PROPERTY_PROFILE)).toBe(252);
+      expect(getProfileVariantNames(FILL_PROPERTY_PROFILE)).toHaveLength(252);
+      expect(getProfileVariants(FILL_PROPERTY_PROFILE)).toHaveLength(504);
+      expect(describeVariantProfile({ ...ROUNDED_PRODUCT_PROFILE, fillProperty: true })).toBe(
+        'rounded · 300/400/500 · fill 0/1 (property) · grade 0 · 24dp (3 variants)'
+      );
+    });
+
+    it('should name variants without Fill', () => {
+      expect(getProfileVariantNames({ ...ROUNDED_PRODUCT_PROFILE, fillProperty: true })).toEqual([
+        'Style=Rounded, Weight=300, Grade=Normal, Optical size=24dp',
+        'Style=Rounded, Weight=400, Grade=Normal, Optical size=24dp',
+        'Style=Rounded, Weight=500, Grade=Normal, Optical size=24dp',
+      ]);
+    });
+
+    it('should only keep the flag with both fills', () => {
+      expect(normalizeVariantProfile(FILL_PROPERTY_PROFILE).fillProperty).toBe(true);
+      expect(
+        normalizeVariantProfile({ ...FILL_PROPERTY_PROFILE, fills: [1] }).fillProperty
+      ).toBeUndefined();
+    });
+
+    it('should measure completeness in components, not downloads', () => {
+      const names = getProfileVariantNames(FILL_PROPERTY_PROFILE);
+
+      expect(isComponentSetComplete(createComponentSet(names), FILL_PROPERTY_PROFILE)).toBe(true);
+      expect(
+        isComponentSetComplete(
+          createComponentSet(getProfileVariantNames(FULL_VARIANT_PROFILE)),
+          FILL_PROPERTY_PROFILE
+        )
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @module @figma/icons/__tests__/variant-schema
+ *
+ * Unit tests for configurable variant naming schemas.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_VARIANT_SCHEMA,
+  VARIANT_SCHEMA_PRESETS,
+  findVariantSchemaPreset,
+  formatVariantKey,
+  getVariantSchema,
+  normalizeVariantSchema,
+  parseVariantKey,
+  setVariantSchema,
+  validateVariantSchema,
+} from '../variant-schema';
+import { getDefaultVariantName, getVariantName } from '../variant-formatter';
+import { parseVariantName } from '../variant-utils';
+import type { VariantKey } from '../incremental-updater';
+
+const KEY: VariantKey = {
+  style: 'legacy-two-tone',
+  variant: { weight: 400, fill: 1, grade: -25, opticalSize: 20 },
+};
+
+describe('variant-schema', () => {
+  afterEach(() => {
+    setVariantSchema(DEFAULT_VARIANT_SCHEMA);
+  });
+
+  describe('formatVariantKey / parseVariantKey', () => {
+    it('should build the original names with the default schema', () => {
+      expect(formatVariantKey(KEY)).toBe(
+        'Style=Legacy Two-tone, Weight=400, Fill=On, Grade=Dark theme, Optical size=20dp'
+      );
+    });
+
+    it('should build library names', () => {
+      expect(formatVariantKey(KEY, VARIANT_SCHEMA_PRESETS.library)).toBe(
+        'style=legacy-two-tone, weight=400, filled=true, grade=-25, size=20'
+      );
+    });
+
+    it('should parse every name it builds back to the same variant', () => {
+      const custom = normalizeVariantSchema({
+        properties: { fill: { name: 'Fill', format: 'number' }, grade: { format: 'number' } },
+        order: ['opticalSize', 'style', 'fill', 'weight', 'grade'],
+      });
+      const keys: VariantKey[] = [
+        KEY,
+        { style: 'sharp', variant: { weight: 100, fill: 0, grade: 200, opticalSize: 48 } },
+        // Interpolated values have no upstream name
+        { style: 'rounded', variant: { weight: 350, fill: 0, grade: 100, opticalSize: 24 } },
+      ] as VariantKey[];
+
+      for (const schema of [DEFAULT_VARIANT_SCHEMA, VARIANT_SCHEMA_PRESETS.library, custom]) {
+        for (const key of keys) {
+          expect(parseVariantKey(formatVariantKey(key, schema), schema)).toEqual(key);
+        }
+      }
+      expect(formatVariantKey(KEY, custom)).toBe(
+        'Optical size=20dp, Style=Legacy Two-tone, Fill=1, Weight=400, Grade=-25'
+      );
+    });
+
+    it('should leave Fill out for sets with a Fill component property', () => {
+      const options = { fillProperty: true };
+      const name = formatVariantKey(KEY, VARIANT_SCHEMA_PRESETS.library, options);
+
+      expect(name).toBe('style=legacy-two-tone, weight=400, grade=-25, size=20');
+      expect(parseVariantKey(name, VARIANT_SCHEMA_PRESETS.library, options)).toEqual({
+        ...KEY,
+        variant: { ...KEY.variant, fill: 0 },
+      });
+      expect(parseVariantKey(name, VARIANT_SCHEMA_PRESETS.library)).toBeNull();
+      expect(parseVariantKey(formatVariantKey(KEY), undefined, options)).toBeNull();
+    });
+
+    it('should reject names that do not follow the schema', () => {
+      const library = VARIANT_SCHEMA_PRESETS.library;
+
+      expect(parseVariantKey(formatVariantKey(KEY), library)).toBeNull();
+      expect(
+        parseVariantKey('style=rounded, weight=400, filled=on, grade=0, size=24', library)
+      ).toBeNull();
+      expect(
+        parseVariantKey('style=rounded, weight=400, filled=true, grade=0', library)
+      ).toBeNull();
+      expect(
+        parseVariantKey('style=rounded, weight=400, filled=true, grade=0, size=24, x=1', library)
+      ).toBeNull();
+      expect(
+        parseVariantKey('style=rounded, weight=400, filled=true, grade=0, size=24dp', library)
+      ).toBeNull();
+    });
+  });
+
+  describe('schema settings', () => {
+    it('should report invalid schemas', () => {
+      expect(validateVariantSchema(VARIANT_SCHEMA_PRESETS.library)).toEqual([]);
+      expect(
+        validateVariantSchema(
+          normalizeVariantSchema({
+            properties: { weight: { name: '' }, fill: { name: 'Style' }, grade: { name: 'a=b' } },
+            order: ['style', 'weight'],
+          })
+        )
+      ).toEqual([
+        'The weight property needs a name',
+        'Property name "Style" is used twice',
+        'Property name "a=b" must not contain "," or "=" or surrounding spaces',
+        'Property order must list style, weight, fill, grade, opticalSize once each',
+      ]);
+    });
+
+    it('should recognise presets', () => {
+      expect(findVariantSchemaPreset(normalizeVariantSchema())).toBe('material');
+      expect(findVariantSchemaPreset(normalizeVariantSchema(VARIANT_SCHEMA_PRESETS.library))).toBe(
+        'library'
+      );
+      expect(
+        findVariantSchemaPreset(
+          normalizeVariantSchema({ properties: { fill: { name: 'Filled' } } })
+        )
+      ).toBeUndefined();
+    });
+
+    it('should keep the current schema when an invalid one is set', () => {
+      setVariantSchema(VARIANT_SCHEMA_PRESETS.library);
+
+      expect(() => setVariantSchema({ order: [] })).toThrow(/Invalid variant naming schema/);
+      expect(getVariantSchema()).toEqual(VARIANT_SCHEMA_PRESETS.library);
+    });
+
+    it('should name and read variants with the active schema', () => {
+      setVariantSchema(VARIANT_SCHEMA_PRESETS.library);
+
+      expect(getVariantName({ iconName: 'home', ...KEY, svgContent: '' })).toBe(
+        'style=legacy-two-tone, weight=400, filled=true, grade=-25, size=20'
+      );
+      expect(getDefaultVariantName()).toBe(
+        'style=rounded, weight=400, filled=false, grade=0, size=24'
+      );
+      expect(parseVariantName(getDefaultVariantName())).toEqual({
+        style: 'Rounded',
+        weight: 400,
+        fill: 'Off',
+        grade: 'Normal',
+        opticalSize: '24dp',
+      });
+    });
+  });
+});
@@ -301,6 +301,19 @@ describe('findBestDefaultVariant', () => {
     expect(best?.name).toBe('Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp');
   });
 
+  it('should pick the default from names without Fill (Fill component property)', () => {
+    const components = [
+      createComponent('Style=Rounded, Weight=300, Grade=Normal, Optical size=24dp'),
+      createComponent('Style=Rounded, Weight=400, Grade=Normal, Optical size=24dp'), // preferred
+      createComponent('Style=Rounded, Weight=400, Grade=Emphasis, Optical size=24dp'),
+    ];
+
+    const best = findBestDefaultVariant(components);
+
+    expect(best?.name).toBe('Style=Rounded, Weight=400, Grade=Normal, Optical size=24dp');
+    expect(parseVariantName(components[0].name)?.fill).toBe('Off');
+  });
+
   it('should prefer Rounded over other styles', () => {
     const components = [
       createComponent('Style=Sharp, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp'),
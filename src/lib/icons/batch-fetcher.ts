@@ -1,20 +1,22 @@
 /**
  * @module @figma/icons/batch-fetcher
  *
- * Batch SVG fetching utilities with connection pooling and error handling.
+ * Batch SVG fetching utilities with adaptive concurrency and error handling.
  *
  * This module provides efficient batch downloading of SVG files from GitHub with:
- * - **Connection Pooling**: Limits concurrent connections to prevent browser/network overload
- * - **Batch Processing**: Groups requests into batches with configurable delays
+ * - **Adaptive Concurrency**: AIMD pool size (`ConcurrencyController`) that grows
+ *   while requests succeed and halves on 429/5xx, honouring `Retry-After`
  * - **Error Handling**: Gracefully handles failures without stopping the batch
  * - **Progress Tracking**: Real-time progress callbacks for UI updates
  * - **Statistics**: Detailed success/failure metrics and timing
+ * - **Caching**: Optional persistent cache (`SvgCache.forCommit`) consulted before
+ *   fetching and filled with what was downloaded
  *
  * **Performance Characteristics**:
- * - Default: 50 concurrent connections per batch
- * - Batch delay: 100ms between batches
+ * - Default: starts at 8 concurrent requests, grows to at most 50
  * - Typical throughput: ~400-500 icons/second with good connection
- * - Rate limiting: Detected via HTTP 429 or high failure rates
+ * - Rate limiting: HTTP 429, rate-limited 403 and 5xx halve concurrency; throttled
+ *   items are requeued after any server-requested pause
  *
  * **Usage Pattern**:
  * ```typescript
@@ -26,9 +28,8 @@
  * }));
  *
  * const { results, stats } = await batchFetchSVGs(items, {
- *   batchSize: 20,
- *   batchDelay: 100,
- *   onProgress: (current, total) => console.log(`${current}/${total}`),
+ *   concurrency: new ConcurrencyController({ initial: 8, max: 30 }),
+ *   onProgress: (current, total, rate) => console.log(`${current}/${total} @ ${rate.itemsPerSecond}/s`),
  *   onError: (url, err) => console.error(`Failed: ${url}`)
  * });
  *
@@ -50,7 +51,6 @@
  * @example With progress tracking
  * ```typescript
  * await batchFetchSVGs(items, {
- *   batchSize: 20,
  *   onProgress: (current, total) => {
  *     figma.ui.postMessage({
  *       type: 'PROGRESS',
@@ -62,7 +62,14 @@
  */
 
 import { logger } from '@lib/utils';
-import type { IconVariant, IconStyle } from '@lib/github';
+import type { IconVariant, IconStyle, SvgSource, SvgSourceResponse } from '@lib/github';
+import type { FetchRate } from '@/types';
+import type { SvgCommitCache } from './svg-cache';
+import {
+  ConcurrencyController,
+  getRetryDelayMs,
+  isThrottleResponse,
+} from './concurrency-controller';
 
 /**
  * Item to fetch from GitHub
@@ -96,28 +103,121 @@ export interface FetchResult {
   svgContent: string;
 }
 
+/**
+ * Why an item could not be fetched
+ *
+ * - `not-found`: 404/410 - the variant does not exist upstream (permanent)
+ * - `rate-limited`: 429 or 403 with an exhausted rate limit
+ * - `server-error`: 5xx or any other unexpected status
+ * - `network`: the request itself failed (offline, DNS, CORS, ...)
+ * - `invalid-svg`: 200 response whose body is not an SVG (permanent)
+ */
+export type FetchFailureReason =
+  | 'not-found'
+  | 'rate-limited'
+  | 'server-error'
+  | 'network'
+  | 'invalid-svg';
+
+/**
+ * Item that could not be fetched
+ *
+ * @interface FetchFailure
+ * @property {FetchItem} item - The item
+ * @property {FetchFailureReason} reason - Classified cause
+ * @property {number} [status] - HTTP status (absent for network errors)
+ * @property {string} message - Error detail
+ */
+export interface FetchFailure {
+  item: FetchItem;
+  reason: FetchFailureReason;
+  status?: number;
+  message: string;
+}
+
+/**
+ * Human-readable label for each failure reason
+ */
+export const FETCH_FAILURE_LABELS: Record<FetchFailureReason, string> = {
+  'not-found': 'do not exist upstream',
+  'rate-limited': 'rate limited',
+  'server-error': 'server error',
+  network: 'network error',
+  'invalid-svg': 'invalid SVG',
+};
+
+/**
+ * Whether retrying later can help (rate limits, server and network errors)
+ *
+ * @param {FetchFailureReason} reason - Failure reason
+ * @returns {boolean} False for `not-found` and `invalid-svg`
+ */
+export function isRetryableFailure(reason: FetchFailureReason): boolean {
+  return reason === 'rate-limited' || reason === 'server-error' || reason === 'network';
+}
+
+/**
+ * Classify a failed HTTP response
+ *
+ * @param {SvgSourceResponse} response - Non-ok response
+ * @returns {FetchFailureReason} Failure reason
+ */
+export function classifyHttpFailure(response: SvgSourceResponse): FetchFailureReason {
+  if (response.status === 404 || response.status === 410) {
+    return 'not-found';
+  }
+  if (isThrottleResponse(response) && response.status < 500) {
+    return 'rate-limited';
+  }
+  return 'server-error';
+}
+
+/**
+ * Summarize failures by reason, e.g. "3 do not exist upstream, 1 rate limited"
+ *
+ * @param {FetchFailure[]} failures - Failures
+ * @returns {string} Summary (empty when there are no failures)
+ */
+export function describeFetchFailures(failures: FetchFailure[]): string {
+  const counts = new Map<FetchFailureReason, number>();
+  for (const failure of failures) {
+    counts.set(failure.reason, (counts.get(failure.reason) ?? 0) + 1);
+  }
+  return Array.from(counts)
+    .map(([reason, count]) => `${count} ${FETCH_FAILURE_LABELS[reason]}`)
+    .join(', ');
+}
+
 /**
  * Configuration options for batch fetching
  *
  * @interface BatchFetchConfig
- * @property {number} [batchSize=50] - Maximum concurrent connections per batch
- *   Recommended: 20-50 for good balance of speed and stability
- * @property {number} [batchDelay=100] - Milliseconds to wait between batches
- *   Increase if experiencing rate limiting (e.g., 200-500ms)
+ * @property {ConcurrencyController} [concurrency] - Adaptive concurrency shared across calls
+ *   (a fresh controller starting at 8 parallel requests when omitted)
+ * @property {number} [maxAttempts=3] - Attempts per item when the server throttles
+ *   (429, rate-limited 403, 5xx); other failures are not retried here
  * @property {Function} [onProgress] - Callback for progress updates
- *   Called every 50 items or at completion
+ *   Called every 50 items, when throttled and at completion
  * @property {Function} [onError] - Callback for individual fetch errors
  *   Called for each failed request with URL and error
+ * @property {SvgSource} [source] - Source that resolves each item's `url`
+ *   (plain `fetch` when omitted; required for `archive:` identifiers)
+ * @property {SvgCommitCache} [cache] - Persistent cache for the commit being fetched;
+ *   cached items are returned without a request and counted as successful
  */
 export interface BatchFetchConfig {
-  /** Maximum concurrent connections */
-  batchSize?: number;
-  /** Delay between batches in ms */
-  batchDelay?: number;
+  /** Adaptive concurrency controller */
+  concurrency?: ConcurrencyController;
+  /** Attempts per throttled item */
+  maxAttempts?: number;
   /** Progress callback */
-  onProgress?: (current: number, total: number) => void;
+  onProgress?: (current: number, total: number, rate: FetchRate) => void;
   /** Error callback */
   onError?: (url: string, error: Error) => void;
+  /** SVG source the item URLs came from */
+  source?: SvgSource;
+  /** Persistent SVG cache */
+  cache?: SvgCommitCache;
 }
 
 /**
@@ -150,48 +250,57 @@ export interface BatchFetchStats {
   successRate: number;
 }
 
+/**
+ * An SVG body has an `<svg` root element (HTML error pages and empty bodies don't)
+ */
+const SVG_ROOT_PATTERN = /<svg[\s>]/i;
+
 /**
  * Default configuration
  */
-const DEFAULT_CONFIG: Required<BatchFetchConfig> = {
-  batchSize: 50, // Safe number of concurrent connections
-  batchDelay: 100, // 100ms between batches
+const DEFAULT_CONFIG: Required<Omit<BatchFetchConfig, 'concurrency' | 'source' | 'cache'>> = {
+  maxAttempts: 3,
   onProgress: () => {},
   onError: () => {},
 };
 
 /**
- * Fetch SVGs in batches with connection pooling and error handling
+ * Fetch SVGs with adaptive concurrency and error handling
  *
- * Downloads SVG files from GitHub in controlled batches to prevent browser/network
- * overload. Continues on errors and returns both successful results and detailed
- * statistics.
+ * Downloads SVG files through a pool whose size is set by a
+ * `ConcurrencyController`: it grows while responses succeed and halves when the
+ * server throttles. Continues on errors and returns both successful results and
+ * detailed statistics.
  *
  * **Algorithm**:
- * 1. Split items into batches of configured size
- * 2. For each batch:
- *    - Fetch all items concurrently (Promise.all)
- *    - Track successes and failures
- *    - Report progress every 50 items
- *    - Wait batch delay before next batch
+ * 1. Take cached items from `cache` (if given); only the rest are fetched
+ * 2. Keep up to `concurrency.concurrency` requests in flight:
+ *    - Success → additive increase, store the SVG in `cache`
+ *    - Throttled (429, rate-limited 403, 5xx) → halve concurrency, pause for
+ *      `Retry-After` / `X-RateLimit-Reset` if given, and requeue the item
+ *      (up to `maxAttempts`)
+ *    - Other failures (e.g. 404) → counted as failures straight away
+ *    - Report progress (with live concurrency and throughput) every 50 items
  * 3. Return all successful results + statistics
  *
  * **Error Handling**:
- * - HTTP errors (4xx, 5xx) → logged and counted as failures
- * - Network errors → caught, logged, and counted as failures
- * - Failures don't stop batch execution
+ * - Every failed item is returned in `failures` with a `FetchFailureReason`
+ * - HTTP errors (4xx, 5xx) → classified by status
+ * - Network errors → caught and classified as `network`
+ * - 200 responses without an `<svg>` root → `invalid-svg` (not cached)
+ * - Failures don't stop the fetch
  * - First 5 failures logged in detail for debugging
  *
  * **Performance Notes**:
- * - Default batchSize (50) balances speed and stability
- * - Reduce batchSize (20-30) if seeing rate limiting
- * - Increase batchDelay (200-500ms) for more conservative approach
- * - Typical rate: 400-500 items/second with good connection
+ * - Concurrency starts at 8 and is capped at 50 by default
+ * - Share one controller across calls so later icons start at the learned rate
+ * - Items still throttled after `maxAttempts` are returned as failures for
+ *   `RateLimiter` to retry after a longer backoff
  *
  * @param {FetchItem[]} items - Array of items to fetch from GitHub
  * @param {BatchFetchConfig} [config={}] - Optional configuration
- * @returns {Promise<{results: FetchResult[], stats: BatchFetchStats}>}
- *   Successfully fetched results (failures excluded) and statistics
+ * @returns {Promise<{results: FetchResult[], failures: FetchFailure[], stats: BatchFetchStats}>}
+ *   Successfully fetched results, classified failures and statistics
  *
  * @example Basic usage (defaults)
  * ```typescript
@@ -204,13 +313,13 @@ const DEFAULT_CONFIG: Required<BatchFetchConfig> = {
  * }
  * ```
  *
- * @example Conservative settings for rate limiting
+ * @example Shared controller with live rate reporting
  * ```typescript
+ * const concurrency = new ConcurrencyController({ initial: 8, max: 30 });
  * const { results, stats } = await batchFetchSVGs(items, {
- *   batchSize: 20,      // Fewer concurrent connections
- *   batchDelay: 500,    // Longer delay between batches
- *   onProgress: (current, total) => {
- *     console.log(`Progress: ${current}/${total}`);
+ *   concurrency,
+ *   onProgress: (current, total, rate) => {
+ *     console.log(`${current}/${total} - ${rate.concurrency} parallel, ${rate.itemsPerSecond}/s`);
  *   },
  *   onError: (url, error) => {
  *     console.error(`Failed ${url}: ${error.message}`);
@@ -221,90 +330,155 @@ const DEFAULT_CONFIG: Required<BatchFetchConfig> = {
 export async function batchFetchSVGs(
   items: FetchItem[],
   config: BatchFetchConfig = {}
-): Promise<{ results: FetchResult[]; stats: BatchFetchStats }> {
+): Promise<{ results: FetchResult[]; failures: FetchFailure[]; stats: BatchFetchStats }> {
   const startTime = Date.now();
   const cfg = { ...DEFAULT_CONFIG, ...config };
+  const controller = cfg.concurrency ?? new ConcurrencyController();
 
   logger.info(`Starting batch fetch of ${items.length} SVGs`);
-  logger.info(`Batch size: ${cfg.batchSize}, delay: ${cfg.batchDelay}ms`);
+  logger.info(`Concurrency: ${controller.concurrency}, max attempts: ${cfg.maxAttempts}`);
 
   let successCount = 0;
   let failureCount = 0;
   const allResults: FetchResult[] = [];
+  const failures: FetchFailure[] = [];
+  let pending = items;
+
+  // Serve what we can from the cache
+  const cache = cfg.cache;
+  if (cache) {
+    const cached = await Promise.all(items.map((item) => cache.get(item)));
+    pending = items.filter((_, index) => cached[index] === null);
+    items.forEach((item, index) => {
+      const svgContent = cached[index];
+      if (svgContent !== null) {
+        allResults.push({
+          iconName: item.iconName,
+          style: item.style,
+          variant: item.variant,
+          svgContent,
+        });
+      }
+    });
+    successCount = allResults.length;
+
+    if (successCount > 0) {
+      logger.info(`Cache: ${successCount} of ${items.length} SVGs cached`);
+      cfg.onProgress(successCount, items.length, controller.getRate());
+    }
+  }
 
-  // Process in batches
-  for (let i = 0; i < items.length; i += cfg.batchSize) {
-    const batch = items.slice(i, i + cfg.batchSize);
-    const batchNumber = Math.floor(i / cfg.batchSize) + 1;
-    const totalBatches = Math.ceil(items.length / cfg.batchSize);
+  // Items waiting for a request slot (throttled items are requeued here)
+  const queue = pending.map((item) => ({ item, attempt: 1 }));
 
-    logger.info(`Processing batch ${batchNumber}/${totalBatches} (${batch.length} items)`);
+  const recordFailure = (failure: FetchFailure) => {
+    failureCount++;
+    failures.push(failure);
+    cfg.onError(failure.item.url, new Error(failure.message));
 
-    // Fetch all items in this batch concurrently
-    const batchPromises = batch.map(async (item) => {
-      try {
-        const response = await fetch(item.url);
+    // Log first few failures for debugging
+    if (failureCount <= 5) {
+      logger.warn(
+        `Failed to fetch ${failure.item.iconName} (${failure.item.style}): ` +
+          `${failure.message} [${failure.reason}]`
+      );
+    }
+  };
 
-        if (!response.ok) {
-          failureCount++;
-          const error = new Error(`HTTP ${response.status} for ${item.url}`);
-          cfg.onError(item.url, error);
+  const fetchOne = async (item: FetchItem, attempt: number): Promise<void> => {
+    try {
+      const response = cfg.source ? await cfg.source.fetchSvg(item.url) : await fetch(item.url);
 
-          // Log first few failures for debugging
-          if (failureCount <= 5) {
+      if (!response.ok) {
+        if (isThrottleResponse(response)) {
+          const retryDelayMs = getRetryDelayMs(response);
+          controller.recordThrottle(retryDelayMs);
+          cfg.onProgress(successCount + failureCount, items.length, controller.getRate());
+
+          if (attempt < cfg.maxAttempts) {
             logger.warn(
-              `Failed to fetch ${item.iconName} (${item.style}): HTTP ${response.status}`
+              `Throttled (HTTP ${response.status}) - concurrency now ${controller.concurrency}` +
+                (retryDelayMs !== null ? `, pausing ${Math.ceil(retryDelayMs / 1000)}s` : '')
             );
+            queue.push({ item, attempt: attempt + 1 });
+            return;
           }
-
-          return null;
+        } else {
+          controller.recordCompletion();
         }
 
-        const svgContent = await response.text();
-        successCount++;
+        recordFailure({
+          item,
+          reason: classifyHttpFailure(response),
+          status: response.status,
+          message: `HTTP ${response.status} for ${item.url}`,
+        });
+        return;
+      }
 
-        // Report progress
-        const total = successCount + failureCount;
-        if (total % 50 === 0 || total === items.length) {
-          cfg.onProgress(total, items.length);
-          logger.info(
-            `Progress: ${total}/${items.length} (${successCount} success, ${failureCount} failed)`
-          );
-        }
+      const svgContent = await response.text();
+      if (!SVG_ROOT_PATTERN.test(svgContent)) {
+        controller.recordCompletion();
+        recordFailure({
+          item,
+          reason: 'invalid-svg',
+          status: response.status,
+          message: `Response for ${item.url} is not an SVG`,
+        });
+        return;
+      }
 
-        return {
-          iconName: item.iconName,
-          style: item.style,
-          variant: item.variant,
-          svgContent,
-        };
-      } catch (error) {
-        failureCount++;
-        const err = error instanceof Error ? error : new Error(String(error));
-        cfg.onError(item.url, err);
-
-        // Log first few errors
-        if (failureCount <= 5) {
-          logger.error(`Failed to fetch ${item.iconName}: ${err.message}`);
-        }
+      controller.recordSuccess();
+      successCount++;
+      await cache?.set(item, svgContent);
 
-        return null;
+      allResults.push({
+        iconName: item.iconName,
+        style: item.style,
+        variant: item.variant,
+        svgContent,
+      });
+
+      // Report progress
+      const total = successCount + failureCount;
+      if (total % 50 === 0 || total === items.length) {
+        cfg.onProgress(total, items.length, controller.getRate());
+        logger.info(
+          `Progress: ${total}/${items.length} (${successCount} success, ${failureCount} failed, ` +
+            `${controller.concurrency} parallel)`
+        );
       }
-    });
+    } catch (error) {
+      controller.recordCompletion();
+      const err = error instanceof Error ? error : new Error(String(error));
+      recordFailure({ item, reason: 'network', message: err.message });
+    }
+  };
 
-    // Wait for batch to complete
-    const batchResults = await Promise.all(batchPromises);
+  // Keep up to `controller.concurrency` requests in flight
+  const inFlight = new Set<Promise<void>>();
 
-    // Filter out failed fetches and add to results
-    const validResults = batchResults.filter((r): r is FetchResult => r !== null);
-    allResults.push(...validResults);
+  while (queue.length > 0 || inFlight.size > 0) {
+    await controller.waitForCooldown();
 
-    // Delay before next batch (except for last batch)
-    if (i + cfg.batchSize < items.length) {
-      await new Promise((resolve) => setTimeout(resolve, cfg.batchDelay));
+    while (queue.length > 0 && inFlight.size < controller.concurrency) {
+      const next = queue.shift();
+      if (!next) {
+        break;
+      }
+      const task: Promise<void> = fetchOne(next.item, next.attempt).finally(() =>
+        inFlight.delete(task)
+      );
+      inFlight.add(task);
+    }
+
+    if (inFlight.size > 0) {
+      await Promise.race(inFlight);
     }
   }
 
+  await cache?.flush();
+
   // Calculate statistics
   const duration = Date.now() - startTime;
   const successRate = Math.round((successCount / items.length) * 100);
@@ -320,12 +494,15 @@ export async function batchFetchSVGs(
   logger.info('===== BATCH FETCH COMPLETE =====');
   logger.info(`Total: ${stats.total}`);
   logger.info(`Success: ${stats.successful} (${stats.successRate}%)`);
-  logger.info(`Failed: ${stats.failed}`);
+  logger.info(
+    `Failed: ${stats.failed}` + (failures.length > 0 ? ` (${describeFetchFailures(failures)})` : '')
+  );
   logger.info(`Duration: ${stats.duration}ms`);
   logger.info(`Average: ${Math.round(stats.duration / stats.total)}ms per item`);
+  logger.info(`Concurrency: ${controller.concurrency}`);
   logger.info('================================');
 
-  return { results: allResults, stats };
+  return { results: allResults, failures, stats };
 }
 
 /**
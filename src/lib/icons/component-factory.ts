@@ -15,13 +15,20 @@
  * - **Component Updates**: Replace existing component content with new SVG
  * - **Hash Management**: Store/retrieve content hashes for change detection
  * - **Node Manipulation**: Move vector children to avoid frame nesting
+ * - **Search Metadata**: Write upstream tags/codepoint to the ComponentSet
  *
  * **SVG to Component Process**:
- * 1. Parse SVG using `figma.createNodeFromSvg()` (creates FrameNode)
- * 2. Create empty ComponentNode
- * 3. Move all vector children from Frame to Component
- * 4. Remove the now-empty Frame
- * 5. Store content hash in plugin data
+ * 1. Validate and sanitise the SVG (`sanitizeSvg`); invalid SVGs throw
+ *    `SvgValidationError` instead of producing no component
+ * 2. Parse SVG using `figma.createNodeFromSvg()` (creates FrameNode)
+ * 3. Create empty ComponentNode
+ * 4. Move all vector children from Frame to Component
+ * 5. Remove the now-empty Frame
+ * 6. Store content hash (of the downloaded SVG) in plugin data
+ * 7. Paint the vectors with the icon colour, if one is set (`tokens/icon-color.ts`)
+ *
+ * Fill-property variants (`VariantData.filledSvgContent`) get an Outline and a
+ * Filled layer instead of bare vectors (see `fill-property.ts`).
  *
  * **Why Avoid Frame Nesting**:
  * Figma's `createNodeFromSvg()` creates a Frame containing the vectors.
@@ -75,9 +82,14 @@
  */
 
 import { logger, hashSvg } from '@lib/utils';
-import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { PLUGIN_DATA_KEYS, FEATURE_FLAGS } from '@lib/constants';
 import { getVariantName } from './variant-formatter';
 import { cleanupVariantFills } from './variant-utils';
+import { buildIconDescription, getIconMetadata } from './icon-metadata';
+import { sanitizeSvg, type SanitizedSvg } from './svg-sanitizer';
+import { appendFillLayers, getLayeredSvgContent } from './fill-property';
+import { getSetIconName } from './set-layout';
+import { applyIconColor } from '@lib/tokens/icon-color';
 import type { VariantData } from './generator';
 
 /**
@@ -169,6 +181,58 @@ export function setStoredHash(component: ComponentNode, hash: string): void {
   }
 }
 
+/**
+ * Hash of the SVG content a variant component is built from
+ *
+ * Fill-property variants hash both glyphs, so a change to either one is detected.
+ *
+ * @param {VariantData} variantData - Variant with downloaded SVG(s)
+ * @returns {string} Content hash
+ */
+export function getVariantContentHash(variantData: VariantData): string {
+  return hashSvg(getLayeredSvgContent(variantData.svgContent, variantData));
+}
+
+/**
+ * Validate and sanitise a variant's filled SVG, if it has a Filled layer
+ *
+ * @private
+ */
+function sanitizeFilledSvg(variantData: VariantData): string | undefined {
+  if (variantData.filledSvgContent === undefined) {
+    return undefined;
+  }
+  return sanitizeVariantSvg({
+    iconName: variantData.iconName,
+    style: variantData.style,
+    variant: { ...variantData.variant, fill: 1 },
+    svgContent: variantData.filledSvgContent,
+  }).svg;
+}
+
+/**
+ * Validate and sanitise a variant's SVG, logging anything that was stripped
+ *
+ * @param {VariantData} variantData - Variant with downloaded SVG
+ * @returns {SanitizedSvg} Sanitised markup
+ * @throws {SvgValidationError} If the SVG fails validation
+ */
+export function sanitizeVariantSvg(variantData: VariantData): SanitizedSvg {
+  const variantName = getVariantName(variantData);
+  const result = sanitizeSvg(variantData.svgContent, {
+    iconName: variantData.iconName,
+    variantName,
+    opticalSize: variantData.variant.opticalSize,
+  });
+
+  if (result.removed.length > 0) {
+    logger.warn(
+      `Stripped from ${variantData.iconName} ${variantName}: ${result.removed.join(', ')}`
+    );
+  }
+  return result;
+}
+
 /**
  * Create a single variant component from SVG content
  *
@@ -184,6 +248,7 @@ export function setStoredHash(component: ComponentNode, hash: string): void {
  * 5. Move all vector children from Frame to Component
  * 6. Remove the temporary Frame
  * 7. Store content hash for change detection
+ * 8. Paint the vectors with the icon colour (if one is set)
  *
  * **Error Handling**:
  * - Returns null if SVG parsing fails
@@ -191,7 +256,8 @@ export function setStoredHash(component: ComponentNode, hash: string): void {
  * - Logs errors with variant details for debugging
  *
  * @param {VariantData} variantData - Variant properties and SVG content
- * @returns {Promise<ComponentNode | null>} Created component or null if failed
+ * @returns {Promise<ComponentNode | null>} Created component or null if Figma could not import the SVG
+ * @throws {SvgValidationError} If the SVG fails validation
  *
  * @example Create component
  * ```typescript
@@ -210,21 +276,29 @@ export function setStoredHash(component: ComponentNode, hash: string): void {
  *
  * @example Error handling
  * ```typescript
- * const component = await createVariantComponent(variantData);
- *
- * if (!component) {
- *   console.error('Failed to create component - invalid SVG?');
- *   // Handle failure (skip, retry, etc.)
+ * try {
+ *   const component = await createVariantComponent(variantData);
+ *   if (!component) {
+ *     console.error('Figma could not import the SVG');
+ *   }
+ * } catch (error) {
+ *   if (error instanceof SvgValidationError) {
+ *     console.error(`${error.variantName} rejected: ${error.problem}`);
+ *   }
  * }
  * ```
  */
 export async function createVariantComponent(
   variantData: VariantData
 ): Promise<ComponentNode | null> {
+  // Invalid SVGs are reported to the caller, not swallowed below
+  const { svg } = sanitizeVariantSvg(variantData);
+  const filledSvg = sanitizeFilledSvg(variantData);
+
   try {
     // Create SVG node first - this creates a Frame with the vector inside
     if ('createNodeFromSvg' in figma) {
-      const svgFrame = (figma as FigmaExtended).createNodeFromSvg(variantData.svgContent);
+      const svgFrame = (figma as FigmaExtended).createNodeFromSvg(svg);
       if (svgFrame && svgFrame.type === 'FRAME') {
         // Convert the Frame to a Component
         const component = figma.createComponent();
@@ -238,7 +312,8 @@ export async function createVariantComponent(
         // Move the vector content from the frame to the component
         // This avoids the extra frame nesting
         // Use a safer approach by collecting children first
-        const children = [...svgFrame.children];
+        // (fill-property variants get Outline/Filled layers instead)
+        const children = filledSvg === undefined ? [...svgFrame.children] : [];
         for (const child of children) {
           try {
             component.appendChild(child);
@@ -250,13 +325,19 @@ export async function createVariantComponent(
         // Remove the now-empty frame
         svgFrame.remove();
 
+        if (filledSvg !== undefined) {
+          appendFillLayers(component, svg, filledSvg);
+        }
+
         // Store the content hash for future comparison
-        const hash = hashSvg(variantData.svgContent);
-        setStoredHash(component, hash);
+        setStoredHash(component, getVariantContentHash(variantData));
 
         // Clean up any unnecessary fills from the component frame
         cleanupVariantFills(component);
 
+        // Paint the vectors with the icon colour (if one is set)
+        applyIconColor(component);
+
         return component;
       }
     }
@@ -283,6 +364,7 @@ export async function createVariantComponent(
  * 4. Move all vector children from Frame to Component
  * 5. Remove the temporary Frame
  * 6. Store new content hash
+ * 7. Paint the vectors with the icon colour (if one is set)
  *
  * **Important**: This preserves the component's:
  * - Node ID (references remain valid)
@@ -293,6 +375,7 @@ export async function createVariantComponent(
  * @param {ComponentNode} component - Existing component to update
  * @param {VariantData} variantData - New variant properties and SVG content
  * @returns {Promise<void>}
+ * @throws {SvgValidationError} If the SVG fails validation (component left unchanged)
  *
  * @example Update component content
  * ```typescript
@@ -323,6 +406,10 @@ export async function updateVariantComponent(
   component: ComponentNode,
   variantData: VariantData
 ): Promise<void> {
+  // Validate before touching the component so a bad SVG leaves it intact
+  const { svg } = sanitizeVariantSvg(variantData);
+  const filledSvg = sanitizeFilledSvg(variantData);
+
   // Remove existing content
   for (const child of [...component.children]) {
     child.remove();
@@ -333,12 +420,13 @@ export async function updateVariantComponent(
   component.resize(size, size);
 
   if ('createNodeFromSvg' in figma) {
-    const svgFrame = (figma as FigmaExtended).createNodeFromSvg(variantData.svgContent);
+    const svgFrame = (figma as FigmaExtended).createNodeFromSvg(svg);
     if (svgFrame && svgFrame.type === 'FRAME') {
       // Move the vector content from the frame to the component
       // This avoids the extra frame nesting
       // Use a safer approach by collecting children first
-      const children = [...svgFrame.children];
+      // (fill-property variants get Outline/Filled layers instead)
+      const children = filledSvg === undefined ? [...svgFrame.children] : [];
       for (const child of children) {
         try {
           component.appendChild(child);
@@ -350,12 +438,57 @@ export async function updateVariantComponent(
       // Remove the now-empty frame
       svgFrame.remove();
 
+      if (filledSvg !== undefined) {
+        appendFillLayers(component, svg, filledSvg);
+      }
+
       // Store the new content hash
-      const hash = hashSvg(variantData.svgContent);
-      setStoredHash(component, hash);
+      setStoredHash(component, getVariantContentHash(variantData));
 
       // Clean up any unnecessary fills from the component frame
       cleanupVariantFills(component);
+
+      // Paint the vectors with the icon colour (if one is set)
+      applyIconColor(component);
     }
   }
 }
+
+/**
+ * Write upstream search metadata to an icon's ComponentSet
+ *
+ * Sets the description (tags, categories, codepoint) so the icon is found by
+ * its keywords in the assets panel, and stores tags and codepoint in plugin
+ * data for the plugin's own use. Icons without bundled metadata are left
+ * untouched, so descriptions edited by hand are not cleared. Does nothing while
+ * `FEATURE_FLAGS.ENABLE_ICON_METADATA` is off.
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet (named after the icon, or a style set)
+ * @param {string} [iconName] - Icon name to look up (defaults to the set's icon name)
+ * @returns {boolean} True if metadata was written
+ *
+ * @example
+ * ```typescript
+ * applyIconMetadata(componentSet);
+ * // componentSet.description === "house, address, ...\nCodepoint: U+E9B2"
+ * ```
+ */
+export function applyIconMetadata(
+  componentSet: ComponentSetNode,
+  iconName: string = getSetIconName(componentSet.name)
+): boolean {
+  const metadata = FEATURE_FLAGS.ENABLE_ICON_METADATA ? getIconMetadata(iconName) : null;
+  if (!metadata) {
+    return false;
+  }
+
+  try {
+    componentSet.description = buildIconDescription(iconName);
+    componentSet.setPluginData(PLUGIN_DATA_KEYS.ICON_TAGS, JSON.stringify(metadata.tags ?? []));
+    componentSet.setPluginData(PLUGIN_DATA_KEYS.ICON_CODEPOINT, metadata.codepoint ?? '');
+    return true;
+  } catch (error: unknown) {
+    logger.warn(`Failed to store icon metadata on ${componentSet.name}:`, error);
+    return false;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * @module @figma/icons/concurrency-controller
+ *
+ * Adaptive (AIMD) concurrency for SVG downloads.
+ *
+ * A fixed pool size is either too slow on a good connection or too aggressive
+ * once GitHub starts throttling. The controller treats concurrency like a TCP
+ * congestion window:
+ *
+ * - **Additive increase**: every successful response adds `1 / concurrency`, so
+ *   the limit grows by about one per round of requests
+ * - **Multiplicative decrease**: a 429, a 403 with rate-limit headers or a 5xx
+ *   halves the limit (once per round, so one wave of errors halves it once)
+ * - **Cooldown**: `Retry-After` and `X-RateLimit-Reset` pause new requests until
+ *   the server says to come back (capped at `maxCooldownMs`)
+ *
+ * One controller is shared across every `batchFetchSVGs` call in a generation
+ * run, so what it learns on one icon carries over to the next.
+ *
+ * @example
+ * ```typescript
+ * const concurrency = new ConcurrencyController({ initial: 8, max: 50 });
+ * await batchFetchSVGs(items, { concurrency });
+ * concurrency.getRate(); // { concurrency: 23, itemsPerSecond: 140, cooldownMs: 0 }
+ * ```
+ */
+
+import type { SvgSourceResponse } from '@lib/github';
+import type { FetchRate } from '@/types';
+
+/**
+ * Concurrency controller configuration
+ *
+ * @interface ConcurrencyControllerConfig
+ * @property {number} [initial=8] - Starting concurrency
+ * @property {number} [min=1] - Lower bound
+ * @property {number} [max=50] - Upper bound
+ * @property {number} [decreaseFactor=0.5] - Multiplier applied when throttled
+ * @property {number} [maxCooldownMs=600000] - Longest server-requested pause honoured (10 min)
+ * @property {number} [throughputWindowMs=5000] - Window for the items/second figure
+ * @property {Function} [now] - Clock (for testing)
+ */
+export interface ConcurrencyControllerConfig {
+  initial?: number;
+  min?: number;
+  max?: number;
+  decreaseFactor?: number;
+  maxCooldownMs?: number;
+  throughputWindowMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Whether a response means "slow down" (rather than a missing file)
+ *
+ * @param {SvgSourceResponse} response - Response
+ * @returns {boolean} True for 429, rate-limited 403 and 5xx
+ */
+export function isThrottleResponse(response: SvgSourceResponse): boolean {
+  if (response.status === 429 || response.status >= 500) {
+    return true;
+  }
+  return response.status === 403 && response.headers?.get('x-ratelimit-remaining') === '0';
+}
+
+/**
+ * Pause requested by the server, from `Retry-After` or `X-RateLimit-Reset`
+ *
+ * `Retry-After` may be a number of seconds or an HTTP date; `X-RateLimit-Reset`
+ * is a Unix timestamp in seconds (GitHub).
+ *
+ * @param {SvgSourceResponse} response - Response
+ * @param {number} [now=Date.now()] - Current time in ms
+ * @returns {number | null} Milliseconds to wait, or null if the server didn't say
+ */
+export function getRetryDelayMs(response: SvgSourceResponse, now = Date.now()): number | null {
+  const retryAfter = response.headers?.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = Number(response.headers?.get('x-ratelimit-reset'));
+  if (reset > 0) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return null;
+}
+
+/**
+ * AIMD concurrency controller
+ *
+ * @class ConcurrencyController
+ */
+export class ConcurrencyController {
+  private readonly min: number;
+  private readonly max: number;
+  private readonly decreaseFactor: number;
+  private readonly maxCooldownMs: number;
+  private readonly throughputWindowMs: number;
+  private readonly now: () => number;
+
+  private limit: number;
+  private cooldownUntil = 0;
+  /** Completions since the last decrease; another decrease waits for a full round */
+  private sinceDecrease = Infinity;
+  private completions: number[] = [];
+
+  constructor(config: ConcurrencyControllerConfig = {}) {
+    this.min = config.min ?? 1;
+    this.max = config.max ?? 50;
+    this.decreaseFactor = config.decreaseFactor ?? 0.5;
+    this.maxCooldownMs = config.maxCooldownMs ?? 10 * 60 * 1000;
+    this.throughputWindowMs = config.throughputWindowMs ?? 5000;
+    this.now = config.now ?? Date.now;
+    this.limit = Math.min(this.max, Math.max(this.min, config.initial ?? 8));
+  }
+
+  /** Requests allowed in flight right now */
+  get concurrency(): number {
+    return Math.floor(this.limit);
+  }
+
+  /** Milliseconds until requests may start again (0 when not cooling down) */
+  get cooldownMs(): number {
+    return Math.max(0, this.cooldownUntil - this.now());
+  }
+
+  /**
+   * Record a successful download (additive increase)
+   */
+  recordSuccess(): void {
+    this.limit = Math.min(this.max, this.limit + 1 / this.limit);
+    this.recordCompletion();
+  }
+
+  /**
+   * Record a request that completed without needing to slow down (e.g. 404)
+   */
+  recordCompletion(): void {
+    this.sinceDecrease++;
+    const now = this.now();
+    this.completions.push(now);
+    while (this.completions.length > 0 && this.completions[0] < now - this.throughputWindowMs) {
+      this.completions.shift();
+    }
+  }
+
+  /**
+   * Record a throttled response (multiplicative decrease, optional cooldown)
+   *
+   * @param {number | null} [retryDelayMs] - Pause requested by the server
+   */
+  recordThrottle(retryDelayMs: number | null = null): void {
+    if (this.sinceDecrease >= this.concurrency) {
+      this.limit = Math.max(this.min, this.limit * this.decreaseFactor);
+      this.sinceDecrease = 0;
+    }
+
+    if (retryDelayMs !== null) {
+      const until = this.now() + Math.min(retryDelayMs, this.maxCooldownMs);
+      this.cooldownUntil = Math.max(this.cooldownUntil, until);
+    }
+  }
+
+  /**
+   * Wait until any server-requested cooldown has passed
+   */
+  async waitForCooldown(): Promise<void> {
+    const waitMs = this.cooldownMs;
+    if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Current concurrency, throughput and cooldown (for the progress UI)
+   *
+   * @returns {FetchRate} Live fetch rate
+   */
+  getRate(): FetchRate {
+    const now = this.now();
+    const recent = this.completions.filter((time) => time >= now - this.throughputWindowMs);
+    return {
+      concurrency: this.concurrency,
+      itemsPerSecond: Math.round((recent.length / this.throughputWindowMs) * 1000),
+      cooldownMs: this.cooldownMs,
+    };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * @module @figma/icons/custom-icons
+ *
+ * Turning dropped SVG files into variant data for bespoke (non-Material) icons.
+ *
+ * Custom icons are built with the same `IconGenerator` as Material Symbols, so
+ * they get the same `Style=…, Weight=…, Fill=…, Grade=…, Optical size=…`
+ * variant properties and per-variant `svg_hash`. Re-importing the same files
+ * only touches variants whose content changed.
+ *
+ * **Filename schemes**:
+ * - Upstream (`generateFilename`): `{icon}[_wght…][gradN25|grad200][fill1]_{size}px.svg`,
+ *   e.g. `brand_logo_wght300fill1_24px.svg`. The style comes from the parent
+ *   directory (`materialsymbolsrounded`, `rounded`, …) when there is one,
+ *   otherwise from the default style chosen in the UI
+ * - Simple: `{icon}_{style}_{weight}_{fill}.svg`, e.g. `brand_logo_rounded_400_1.svg`.
+ *   Grade is Normal; the optical size is read from the SVG's `width` (24dp when
+ *   missing or not a Material size)
+ *
+ * Files that match neither scheme, or describe a variant the style doesn't
+ * have (legacy styles: weight 400, unfilled, grade 0 only), are skipped with a
+ * reason instead of failing the import.
+ *
+ * @example
+ * ```typescript
+ * const { icons, skipped } = groupCustomIcons(files, 'rounded');
+ * for (const [iconName, variants] of icons) {
+ *   await generator.generateIcon(iconName, variants);
+ * }
+ * ```
+ */
+
+import {
+  getStyleForDirectory,
+  isVariantAvailable,
+  type IconStyle,
+  type IconVariant,
+} from '@lib/github/url-generator';
+import type { ArchiveFile } from '@lib/github/svg-archive';
+import { FULL_VARIANT_PROFILE } from './variant-profile';
+import { getVariantName, parseStyleName } from './variant-formatter';
+import type { VariantData } from './generator';
+import type { CustomIconSkip } from '@/types';
+
+/**
+ * Icon name and variant read from a filename
+ *
+ * @interface ParsedCustomIconFilename
+ * @property {string} iconName - Icon (ComponentSet) name
+ * @property {IconStyle} [style] - Style, when the path or filename names one
+ * @property {IconVariant} variant - Variant properties
+ * @property {'upstream' | 'simple'} scheme - Which filename scheme matched
+ */
+export interface ParsedCustomIconFilename {
+  iconName: string;
+  style?: IconStyle;
+  variant: IconVariant;
+  scheme: 'upstream' | 'simple';
+}
+
+/**
+ * Custom icons grouped for generation
+ *
+ * @interface CustomIconGroups
+ * @property {Map<string, VariantData[]>} icons - Variants by icon name (sorted by name)
+ * @property {CustomIconSkip[]} skipped - Files that were not imported, with why
+ */
+export interface CustomIconGroups {
+  icons: Map<string, VariantData[]>;
+  skipped: CustomIconSkip[];
+}
+
+/**
+ * Page custom icons are imported to unless the user picks another
+ */
+export const DEFAULT_CUSTOM_ICONS_PAGE = 'Custom icons';
+
+const ICON_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/** `{icon}_{size}px.svg`, with the modifiers still attached to the name */
+const UPSTREAM_FILENAME = /^(.+)_(\d+)px\.svg$/i;
+
+/** Modifiers as written by `generateFilename` (weight, grade, fill; all optional) */
+const UPSTREAM_MODIFIERS = /^(?:wght(\d+))?(gradN25|grad200)?(fill1)?$/;
+
+/** `{icon}_{style}_{weight}_{fill}.svg` */
+const SIMPLE_FILENAME = /^(.+)_([A-Za-z-]+)_(\d+)_([01])\.svg$/i;
+
+const SVG_WIDTH = /<svg\b[^>]*?\swidth\s*=\s*["']?(\d+)/i;
+
+/**
+ * Check a weight against the Material Symbols weights
+ *
+ * @private
+ */
+function isWeight(weight: number): weight is IconVariant['weight'] {
+  return (FULL_VARIANT_PROFILE.weights as number[]).includes(weight);
+}
+
+/**
+ * Check a size against the Material Symbols optical sizes
+ *
+ * @private
+ */
+function isOpticalSize(size: number): size is IconVariant['opticalSize'] {
+  return (FULL_VARIANT_PROFILE.opticalSizes as number[]).includes(size);
+}
+
+/**
+ * Parse an upstream-style filename (`generateFilename` output)
+ *
+ * @private
+ */
+function parseUpstreamFilename(filename: string): ParsedCustomIconFilename | null {
+  const match = UPSTREAM_FILENAME.exec(filename);
+  const size = match ? Number(match[2]) : NaN;
+  if (!match || !isOpticalSize(size)) {
+    return null;
+  }
+
+  let iconName = match[1];
+  const variant: IconVariant = { fill: 0, weight: 400, grade: 0, opticalSize: size };
+
+  // Modifiers follow the last underscore, when that segment is made of them
+  const separator = iconName.lastIndexOf('_');
+  const modifiers = separator > 0 ? UPSTREAM_MODIFIERS.exec(iconName.slice(separator + 1)) : null;
+  if (modifiers && modifiers[0] !== '') {
+    const weight = modifiers[1] ? Number(modifiers[1]) : 400;
+    if (!isWeight(weight)) {
+      return null;
+    }
+    variant.weight = weight;
+    variant.grade = modifiers[2] === 'gradN25' ? -25 : modifiers[2] === 'grad200' ? 200 : 0;
+    variant.fill = modifiers[3] ? 1 : 0;
+    iconName = iconName.slice(0, separator);
+  }
+
+  return { iconName, variant, scheme: 'upstream' };
+}
+
+/**
+ * Parse a simple `{icon}_{style}_{weight}_{fill}.svg` filename
+ *
+ * @private
+ */
+function parseSimpleFilename(filename: string): ParsedCustomIconFilename | null {
+  const match = SIMPLE_FILENAME.exec(filename);
+  if (!match) {
+    return null;
+  }
+
+  const style = parseStyleName(match[2]);
+  const weight = Number(match[3]);
+  if (!style || !isWeight(weight)) {
+    return null;
+  }
+
+  return {
+    iconName: match[1],
+    style,
+    variant: { fill: match[4] === '1' ? 1 : 0, weight, grade: 0, opticalSize: 24 },
+    scheme: 'simple',
+  };
+}
+
+/**
+ * Read the icon name and variant from a custom icon's path
+ *
+ * @param {string} path - File path (only the last directory and the filename are used)
+ * @returns {ParsedCustomIconFilename | null} Parsed name, or null if no scheme matches
+ *
+ * @example
+ * ```typescript
+ * parseCustomIconFilename('materialsymbolssharp/brand_logo_wght300fill1_24px.svg');
+ * // { iconName: 'brand_logo', style: 'sharp', variant: { weight: 300, fill: 1, grade: 0, opticalSize: 24 }, scheme: 'upstream' }
+ * parseCustomIconFilename('brand_logo_outlined_500_0.svg');
+ * // { iconName: 'brand_logo', style: 'outlined', variant: { weight: 500, fill: 0, ... }, scheme: 'simple' }
+ * ```
+ */
+export function parseCustomIconFilename(path: string): ParsedCustomIconFilename | null {
+  const segments = path.replace(/\\/g, '/').split('/');
+  const filename = segments[segments.length - 1];
+
+  const parsed = parseUpstreamFilename(filename) ?? parseSimpleFilename(filename);
+  if (!parsed || !ICON_NAME_PATTERN.test(parsed.iconName)) {
+    return null;
+  }
+
+  if (parsed.scheme === 'upstream' && segments.length > 1) {
+    const directory = segments[segments.length - 2];
+    parsed.style = getStyleForDirectory(directory) ?? parseStyleName(directory);
+  }
+
+  return parsed;
+}
+
+/**
+ * Optical size from an SVG's root `width` (for filenames without a size)
+ *
+ * @param {string} svgContent - SVG markup
+ * @returns {IconVariant['opticalSize']} Width when it is a Material optical size, else 24
+ */
+export function inferOpticalSize(svgContent: string): IconVariant['opticalSize'] {
+  const width = Number(SVG_WIDTH.exec(svgContent)?.[1]);
+  return isOpticalSize(width) ? width : 24;
+}
+
+/**
+ * Group dropped files into per-icon variant data
+ *
+ * When two files describe the same variant of the same icon, the later file
+ * wins and the earlier one is reported as skipped.
+ *
+ * @param {ArchiveFile[]} files - SVG files (path and content)
+ * @param {IconStyle} [defaultStyle='rounded'] - Style for upstream-named files without a style directory
+ * @returns {CustomIconGroups} Variants by icon, and the files that were skipped
+ */
+export function groupCustomIcons(
+  files: ArchiveFile[],
+  defaultStyle: IconStyle = 'rounded'
+): CustomIconGroups {
+  const byIcon = new Map<string, Map<string, { path: string; data: VariantData }>>();
+  const skipped: CustomIconSkip[] = [];
+
+  for (const file of files) {
+    if (!/\.svg$/i.test(file.path)) {
+      skipped.push({ path: file.path, reason: 'not an SVG file' });
+      continue;
+    }
+
+    const parsed = parseCustomIconFilename(file.path);
+    if (!parsed) {
+      skipped.push({
+        path: file.path,
+        reason:
+          'name matches neither {icon}[_modifiers]_{size}px.svg nor {icon}_{style}_{weight}_{fill}.svg',
+      });
+      continue;
+    }
+
+    const style = parsed.style ?? defaultStyle;
+    const variant =
+      parsed.scheme === 'simple'
+        ? { ...parsed.variant, opticalSize: inferOpticalSize(file.content) }
+        : parsed.variant;
+    if (!isVariantAvailable(style, variant)) {
+      skipped.push({
+        path: file.path,
+        reason: `${style} has no ${getVariantName({ iconName: parsed.iconName, style, variant, svgContent: '' })} variant`,
+      });
+      continue;
+    }
+
+    const data: VariantData = {
+      iconName: parsed.iconName,
+      style,
+      variant,
+      svgContent: file.content,
+    };
+    const variantName = getVariantName(data);
+
+    let variants = byIcon.get(parsed.iconName);
+    if (!variants) {
+      variants = new Map();
+      byIcon.set(parsed.iconName, variants);
+    }
+
+    const previous = variants.get(variantName);
+    if (previous) {
+      skipped.push({ path: previous.path, reason: `same variant as ${file.path}` });
+    }
+    variants.set(variantName, { path: file.path, data });
+  }
+
+  const icons = new Map<string, VariantData[]>();
+  const sorted = Array.from(byIcon.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  for (const [iconName, variants] of sorted) {
+    icons.set(
+      iconName,
+      Array.from(variants.values()).map((entry) => entry.data)
+    );
+  }
+
+  return { icons, skipped };
+}
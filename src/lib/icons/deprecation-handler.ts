@@ -20,6 +20,7 @@
  * **Naming Convention**:
  * - Active icon: `home`
  * - Deprecated icon: `deprecated_home`
+ * - Per-style sets are deprecated one by one: `deprecated_home / Rounded`
  *
  * @example Basic usage
  * ```typescript
@@ -41,6 +42,7 @@
  */
 
 import { logger } from '@lib/utils';
+import { getSetIconName } from './set-layout';
 
 /**
  * Result of deprecation scan and rename operation
@@ -103,6 +105,7 @@ function findAllComponentSets(node: SceneNode): ComponentSetNode[] {
  * - `"Material/home"` → `"home"` (removes path prefix)
  * - `"Icons/home"` → `"home"` (removes category)
  * - `"deprecated_assessment"` → `"assessment"` (removes deprecated prefix)
+ * - `"home / Rounded"` → `"home"` (per-style set, see `set-layout.ts`)
  *
  * Normalization ensures accurate matching regardless of how components are named.
  *
@@ -116,12 +119,16 @@ function findAllComponentSets(node: SceneNode): ComponentSetNode[] {
  * extractIconName('Material/home')         // 'home'
  * extractIconName('deprecated_home')       // 'home'
  * extractIconName('Icons/deprecated_home') // 'home'
+ * extractIconName('home / Rounded')        // 'home'
  * ```
  */
 function extractIconName(componentName: string): string {
   // Remove "deprecated_" prefix if present
   let name = componentName.replace(/^deprecated_/, '');
 
+  // Remove the style of a per-style set (before the path split, which would keep only the style)
+  name = getSetIconName(name);
+
   // Remove any path prefixes (e.g., "Material/", "Icons/")
   const parts = name.split('/');
   name = parts[parts.length - 1];
@@ -174,6 +181,8 @@ function isDeprecated(component: ComponentSetNode): boolean {
  *
  * @param {PageNode} page - The Figma page to scan
  * @param {string[]} iconsToImport - Array of icon names that will be generated/updated
+ * @param {object} [options] - Scan options
+ * @param {boolean} [options.dryRun=false] - Classify only; don't rename anything
  * @returns {Promise<DeprecationResult>} Result with statistics and component references
  *
  * @example Before generating Set 1
@@ -196,7 +205,8 @@ function isDeprecated(component: ComponentSetNode): boolean {
  */
 export async function handleDeprecatedIcons(
   page: PageNode,
-  iconsToImport: string[]
+  iconsToImport: string[],
+  options: { dryRun?: boolean } = {}
 ): Promise<DeprecationResult> {
   logger.info(`Scanning page "${page.name}" for existing icon components...`);
 
@@ -237,6 +247,16 @@ export async function handleDeprecatedIcons(
   logger.info(`  - Matching (will be updated): ${matchingComponents.length}`);
   logger.info(`  - To deprecate: ${deprecatedComponents.length}`);
 
+  if (options.dryRun) {
+    logger.info(`Dry run: ${deprecatedComponents.length} component(s) would be deprecated`);
+    return {
+      existingComponents: allComponents,
+      matchingComponents,
+      deprecatedComponents,
+      renamedCount: 0,
+    };
+  }
+
   // Rename deprecated components
   let renamedCount = 0;
   for (const component of deprecatedComponents) {
@@ -0,0 +1,231 @@
+/**
+ * @module @figma/icons/fill-property
+ *
+ * Fill as a boolean component property instead of a variant axis.
+ *
+ * With `VariantProfile.fillProperty`, one variant component holds both glyphs:
+ * an "Outline" layer and a "Filled" layer on top of it. The Filled layer's
+ * visibility is bound to a boolean component property on the ComponentSet
+ * (named like the naming schema's fill property, "Fill" by default), so Fill
+ * no longer doubles the variant count: the full matrix is 252 variants per
+ * icon instead of 504, and variant names leave Fill out.
+ *
+ * Material Symbols' filled glyphs cover their outline glyph, so showing the
+ * Filled layer over the Outline reads as the filled icon.
+ *
+ * **Grade**:
+ * Grade stays a variant axis. It has three values, which a boolean property
+ * can't express, and an instance-swap property would need a separate
+ * component per grade - more nodes than the variants it replaces.
+ *
+ * **Legacy Styles**:
+ * Legacy Material Icons have no fill axis. Their variants keep a single layer
+ * and the Fill property has no effect on them.
+ *
+ * @example
+ * ```typescript
+ * const components = pairFillVariants(variantData); // 504 downloads → 252 components
+ * const result = await generator.generateIcon('home', components);
+ * syncFillProperty(result.componentSet, true);
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { getVariantSchema } from './variant-schema';
+import type { VariantData } from './generator';
+
+/**
+ * Layer names inside a variant component with a Fill property
+ *
+ * @constant
+ */
+export const FILL_LAYER_NAMES = {
+  outline: 'Outline',
+  filled: 'Filled',
+} as const;
+
+/**
+ * How a variant component exposes Fill
+ *
+ * @interface FillPropertyOptions
+ * @property {boolean} [fillProperty] - Fill is a component property; the name leaves Fill out
+ * @property {string} [filledSvgContent] - Filled glyph for the Filled layer (omitted for legacy styles)
+ */
+export interface FillPropertyOptions {
+  fillProperty?: boolean;
+  filledSvgContent?: string;
+}
+
+/**
+ * Key shared by the unfilled and filled download of a variant
+ *
+ * @private
+ */
+function getPairKey({ style, variant }: VariantData): string {
+  return `${style}-${variant.weight}-${variant.grade}-${variant.opticalSize}`;
+}
+
+/**
+ * Merge unfilled and filled downloads into one variant per component
+ *
+ * Every unfilled variant becomes a fill-property variant carrying its filled
+ * counterpart's SVG. Filled variants without an unfilled counterpart have no
+ * Outline layer to go with and are left out.
+ *
+ * @param {VariantData[]} variants - Downloaded variants (both fills)
+ * @returns {VariantData[]} Unfilled variants with `fillProperty` and `filledSvgContent`
+ */
+export function pairFillVariants(variants: VariantData[]): VariantData[] {
+  const filled = new Map<string, string>();
+  for (const data of variants) {
+    if (data.variant.fill === 1) {
+      filled.set(getPairKey(data), data.svgContent);
+    }
+  }
+
+  const paired: VariantData[] = [];
+  for (const data of variants) {
+    if (data.variant.fill !== 0) {
+      continue;
+    }
+    const key = getPairKey(data);
+    paired.push({ ...data, fillProperty: true, filledSvgContent: filled.get(key) });
+    filled.delete(key);
+  }
+
+  if (filled.size > 0) {
+    logger.warn(
+      `${variants[0].iconName}: ${filled.size} filled variant(s) have no unfilled counterpart and were left out`
+    );
+  }
+
+  return paired;
+}
+
+/**
+ * SVG content a variant component is built from, for change detection
+ *
+ * @param {string} svgContent - Outline (or only) SVG
+ * @param {FillPropertyOptions} [options={}] - Fill property options
+ * @returns {string} The SVG, followed by the filled SVG if there is one
+ */
+export function getLayeredSvgContent(
+  svgContent: string,
+  options: FillPropertyOptions = {}
+): string {
+  return options.filledSvgContent === undefined
+    ? svgContent
+    : `${svgContent}${options.filledSvgContent}`;
+}
+
+/**
+ * Add the Outline and Filled layers to an empty variant component
+ *
+ * The Filled layer starts hidden, matching the property's default (unfilled).
+ *
+ * @param {ComponentNode} component - Variant component (children already removed)
+ * @param {string} outlineSvg - Sanitised unfilled SVG
+ * @param {string} filledSvg - Sanitised filled SVG
+ */
+export function appendFillLayers(
+  component: ComponentNode,
+  outlineSvg: string,
+  filledSvg: string
+): void {
+  const layers = [
+    { name: FILL_LAYER_NAMES.outline, svg: outlineSvg },
+    { name: FILL_LAYER_NAMES.filled, svg: filledSvg },
+  ];
+
+  for (const { name, svg } of layers) {
+    const svgFrame = figma.createNodeFromSvg(svg);
+    const children = [...svgFrame.children];
+    for (const child of children) {
+      component.appendChild(child);
+    }
+    svgFrame.remove();
+
+    if (children.length > 0) {
+      const group = figma.group(children, component);
+      group.name = name;
+      group.visible = name === FILL_LAYER_NAMES.outline;
+    }
+  }
+}
+
+/**
+ * Find the Fill property of a ComponentSet
+ *
+ * The property bound to the Filled layers wins, so a property renamed by the
+ * naming schema is still found.
+ *
+ * @private
+ */
+function findFillPropertyKey(componentSet: ComponentSetNode, name: string): string | undefined {
+  for (const child of componentSet.children) {
+    if (child.type !== 'COMPONENT') {
+      continue;
+    }
+    const layer = child.findChild((node) => node.name === FILL_LAYER_NAMES.filled);
+    const key = layer?.componentPropertyReferences?.visible;
+    if (key) {
+      return key;
+    }
+  }
+
+  const definitions = componentSet.componentPropertyDefinitions ?? {};
+  return Object.keys(definitions).find(
+    (key) => definitions[key].type === 'BOOLEAN' && key.split('#')[0] === name
+  );
+}
+
+/**
+ * Add, rename or remove a ComponentSet's Fill property
+ *
+ * When enabled, makes sure the boolean property exists under `name` and binds
+ * every Filled layer's visibility to it. When disabled, removes the property
+ * left over from a set that used to have one.
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {boolean} enabled - Whether the set exposes Fill as a component property
+ * @param {string} [name] - Property name (defaults to the active schema's fill property name)
+ * @returns {string | null} Property key (e.g. "Fill#12:0"), or null if disabled or it failed
+ */
+export function syncFillProperty(
+  componentSet: ComponentSetNode,
+  enabled: boolean,
+  name: string = getVariantSchema().properties.fill.name
+): string | null {
+  try {
+    let key = findFillPropertyKey(componentSet, name);
+
+    if (!enabled) {
+      if (key) {
+        componentSet.deleteComponentProperty(key);
+        logger.info(`Removed ${key.split('#')[0]} property from ${componentSet.name}`);
+      }
+      return null;
+    }
+
+    if (!key) {
+      key = componentSet.addComponentProperty(name, 'BOOLEAN', false);
+    } else if (key.split('#')[0] !== name) {
+      key = componentSet.editComponentProperty(key, { name });
+    }
+
+    for (const child of componentSet.children) {
+      if (child.type !== 'COMPONENT') {
+        continue;
+      }
+      const layer = child.findChild((node) => node.name === FILL_LAYER_NAMES.filled);
+      if (layer) {
+        layer.componentPropertyReferences = { visible: key };
+      }
+    }
+
+    return key;
+  } catch (error) {
+    logger.warn(`Failed to set up the ${name} property on ${componentSet.name}:`, error);
+    return null;
+  }
+}
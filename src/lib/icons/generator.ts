@@ -5,9 +5,9 @@
  * Handles creating, updating, and organizing icon components with all variants.
  */
 
-import { logger, hashSvg } from '@lib/utils';
+import { logger } from '@lib/utils';
 import { applyMUIVariables } from '@lib/tokens';
-import { IconGenerationError } from '@lib/utils/errors';
+import { IconGenerationError, SvgValidationError } from '@lib/utils/errors';
 import { PLUGIN_DATA_KEYS } from '@lib/constants';
 import type { IconVariant, IconStyle } from '@lib/github';
 import {
@@ -15,12 +15,30 @@ import {
   sortComponentsForDefault,
   ensureDefaultVariantFirst,
 } from './variant-formatter';
-import { createVariantComponent, updateVariantComponent, getStoredHash } from './component-factory';
+import {
+  createVariantComponent,
+  updateVariantComponent,
+  getStoredHash,
+  applyIconMetadata,
+  getVariantContentHash,
+} from './component-factory';
+import { syncFillProperty, type FillPropertyOptions } from './fill-property';
+import {
+  DEFAULT_COMPONENT_SET_LAYOUT,
+  getStyleSetName,
+  groupVariantsByStyle,
+  parseStyleSetName,
+  type ComponentSetLayout,
+} from './set-layout';
 
 /**
  * Variant data with SVG content
+ *
+ * With `fillProperty` the data describes one component for both fills (see
+ * `pairFillVariants`): `svgContent` is the unfilled glyph and
+ * `filledSvgContent` the filled one.
  */
-export interface VariantData {
+export interface VariantData extends FillPropertyOptions {
   iconName: string;
   style: IconStyle;
   variant: IconVariant;
@@ -52,6 +70,8 @@ export interface GeneratorConfig {
   removeUnrequestedVariants?: boolean;
   /** Git commit SHA to store on ComponentSet for version tracking */
   commitSha?: string;
+  /** One ComponentSet per icon, or one per style (see set-layout.ts) */
+  setLayout?: ComponentSetLayout;
   /** Layout configuration for positioning components */
   layout?: {
     startX?: number;
@@ -75,14 +95,30 @@ interface InitializedConfig extends GeneratorConfig {
   };
 }
 
+/**
+ * Per-call overrides of the generator config
+ */
+export interface GenerateIconOptions {
+  /** Remove variants and style sets not in the requested set (defaults to the config) */
+  removeUnrequestedVariants?: boolean;
+}
+
 /**
  * Result of icon generation
+ *
+ * `invalidVariants` lists variants whose SVG failed validation; they are left
+ * out (or left unchanged) rather than failing the whole icon. Counts cover
+ * every set of a per-style icon.
  */
 export interface GenerationResult {
+  /** The icon's ComponentSet (the first style set for the per-style layout) */
   componentSet: ComponentSetNode;
+  /** Every ComponentSet generated for the icon (one per style for the per-style layout) */
+  componentSets: ComponentSetNode[];
   variantsCreated: number;
   variantsUpdated: number;
   variantsSkipped: number;
+  invalidVariants: SvgValidationError[];
 }
 
 /**
@@ -90,7 +126,8 @@ export interface GenerationResult {
  *
  * Handles the complete lifecycle of icon component creation and updates:
  * - Converts SVG content to Figma components
- * - Creates component sets with 504 variants per icon
+ * - Creates component sets with 504 variants per icon (252 with a Fill property),
+ *   or one set per style
  * - Manages incremental updates (only changed variants)
  * - Applies Material Design 3 variable bindings
  * - Tracks metadata for smart skip/update decisions
@@ -128,6 +165,7 @@ export class IconGenerator {
    * @param {boolean} [config.checkContentChanges=true] - Compare SVG content hashes
    * @param {boolean} [config.removeUnrequestedVariants=true] - Clean up extra variants
    * @param {string} [config.commitSha] - Git SHA for version tracking
+   * @param {ComponentSetLayout} [config.setLayout='combined'] - One set per icon or per style
    * @param {object} [config.layout] - Grid layout configuration
    */
   constructor(config: GeneratorConfig = {}) {
@@ -138,6 +176,7 @@ export class IconGenerator {
       updateMode: 'merge',
       checkContentChanges: true,
       removeUnrequestedVariants: true,
+      setLayout: DEFAULT_COMPONENT_SET_LAYOUT,
       ...config,
       // Layout must come after spread to ensure proper defaults
       layout: {
@@ -214,8 +253,14 @@ export class IconGenerator {
    * 5. Store metadata for future update checks
    * 6. Position in grid layout
    *
+   * With the per-style layout each style gets its own ComponentSet
+   * (`home / Rounded`, ...), created or updated independently. With
+   * `removeUnrequestedVariants`, style sets of styles no longer requested are
+   * removed, as their variants would be from a combined set.
+   *
    * @param {string} iconName - Icon name (e.g., "home", "search")
    * @param {VariantData[]} variants - Array of variant data with SVG content (504 items)
+   * @param {GenerateIconOptions} [options={}] - Overrides for this icon only
    * @returns {Promise<GenerationResult>} Statistics about created/updated/skipped variants
    *
    * @example
@@ -228,43 +273,135 @@ export class IconGenerator {
    * console.log(`Created: ${result.variantsCreated}, Updated: ${result.variantsUpdated}`);
    * ```
    */
-  async generateIcon(iconName: string, variants: VariantData[]): Promise<GenerationResult> {
+  async generateIcon(
+    iconName: string,
+    variants: VariantData[],
+    options: GenerateIconOptions = {}
+  ): Promise<GenerationResult> {
     const stopTimer = logger.time(`Generate ${iconName}`);
+    const removeUnrequested =
+      options.removeUnrequestedVariants ?? this.config.removeUnrequestedVariants === true;
 
     try {
-      // Check if component already exists
-      const existingComponent = await this.findExistingComponent(iconName);
-
-      if (existingComponent) {
-        logger.info(`Updating existing component: ${iconName}`);
-        return await this.updateComponent(existingComponent, variants);
-      } else {
-        logger.info(`Creating new component: ${iconName}`);
-        return await this.createComponent(iconName, variants);
+      if (this.config.setLayout === 'per-style') {
+        return await this.generateStyleSets(iconName, variants, removeUnrequested);
       }
+      return await this.generateSet(iconName, variants, removeUnrequested);
     } finally {
       stopTimer();
     }
   }
 
   /**
-   * Find existing component by name
+   * Create or update one ComponentSet
+   */
+  private async generateSet(
+    setName: string,
+    variants: VariantData[],
+    removeUnrequested: boolean
+  ): Promise<GenerationResult> {
+    // Check if component already exists
+    const existingComponent = await this.findExistingComponent(setName);
+
+    if (existingComponent) {
+      logger.info(`Updating existing component: ${setName}`);
+      return await this.updateComponent(existingComponent, variants, removeUnrequested);
+    } else {
+      logger.info(`Creating new component: ${setName}`);
+      return await this.createComponent(setName, variants);
+    }
+  }
+
+  /**
+   * Create or update one ComponentSet per style and combine the results
    */
-  private async findExistingComponent(iconName: string): Promise<ComponentSetNode | null> {
+  private async generateStyleSets(
+    iconName: string,
+    variants: VariantData[],
+    removeUnrequested: boolean
+  ): Promise<GenerationResult> {
+    const groups = groupVariantsByStyle(variants);
+    const results: GenerationResult[] = [];
+    for (const [style, styleVariants] of groups) {
+      results.push(
+        await this.generateSet(getStyleSetName(iconName, style), styleVariants, removeUnrequested)
+      );
+    }
+
+    if (results.length === 0) {
+      throw new IconGenerationError(iconName, 'No components could be created', {
+        variantCount: 0,
+      });
+    }
+
+    if (removeUnrequested) {
+      const unrequested = this.findComponentSets((name) => {
+        const parsed = parseStyleSetName(name);
+        return parsed !== null && parsed.iconName === iconName && !groups.has(parsed.style);
+      });
+      for (const componentSet of unrequested) {
+        logger.info(`Removing unrequested style set: ${componentSet.name}`);
+        try {
+          componentSet.remove();
+        } catch (error) {
+          logger.warn(`Failed to remove component set: ${error}`);
+        }
+      }
+    }
+
+    return {
+      componentSet: results[0].componentSet,
+      componentSets: results.map((result) => result.componentSet),
+      variantsCreated: results.reduce((sum, result) => sum + result.variantsCreated, 0),
+      variantsUpdated: results.reduce((sum, result) => sum + result.variantsUpdated, 0),
+      variantsSkipped: results.reduce((sum, result) => sum + result.variantsSkipped, 0),
+      invalidVariants: results.reduce<SvgValidationError[]>(
+        (all, result) => all.concat(result.invalidVariants),
+        []
+      ),
+    };
+  }
+
+  /**
+   * Find ComponentSets on the page, including ones organised into a frame
+   */
+  private findComponentSets(match: (name: string) => boolean): ComponentSetNode[] {
     const page = this.config.page || figma.currentPage;
+    const found: ComponentSetNode[] = [];
 
-    // Search for existing component set with matching name
     for (const node of page.children) {
-      if (node.type === 'COMPONENT_SET' && node.name === iconName) {
-        // Track the position of existing component for layout continuity
-        // Don't move existing components, but update our position tracker
-        // so new components continue from the right place
-        this.updatePositionTracking(node.x + node.width, node.y, node.height);
-        return node;
+      if (node.type === 'COMPONENT_SET') {
+        if (match(node.name)) {
+          found.push(node);
+        }
+      } else if (node.type === 'FRAME' || node.type === 'SECTION') {
+        // See organizePageIntoFrame
+        found.push(
+          ...(node.findAll(
+            (child) => child.type === 'COMPONENT_SET' && match(child.name)
+          ) as ComponentSetNode[])
+        );
       }
     }
 
-    return null;
+    return found;
+  }
+
+  /**
+   * Find existing component by name
+   */
+  private async findExistingComponent(setName: string): Promise<ComponentSetNode | null> {
+    const page = this.config.page || figma.currentPage;
+    const [node] = this.findComponentSets((name) => name === setName);
+
+    if (node && page.children.includes(node)) {
+      // Track the position of existing component for layout continuity
+      // Don't move existing components, but update our position tracker
+      // so new components continue from the right place
+      this.updatePositionTracking(node.x + node.width, node.y, node.height);
+    }
+
+    return node ?? null;
   }
 
   /**
@@ -302,15 +439,16 @@ export class IconGenerator {
    * Create new component set from variants
    */
   private async createComponent(
-    iconName: string,
+    setName: string,
     variants: VariantData[]
   ): Promise<GenerationResult> {
     const page = this.config.page || figma.currentPage;
     const components: ComponentNode[] = [];
+    const invalidVariants: SvgValidationError[] = [];
 
     // Create individual component for each variant
     for (const variantData of variants) {
-      const component = await createVariantComponent(variantData);
+      const component = await this.createVariantOrReject(variantData, invalidVariants);
       if (component) {
         page.appendChild(component);
         components.push(component);
@@ -318,8 +456,9 @@ export class IconGenerator {
     }
 
     if (components.length === 0) {
-      throw new IconGenerationError(iconName, 'No components could be created', {
+      throw new IconGenerationError(setName, 'No components could be created', {
         variantCount: variants.length,
+        invalidVariants: invalidVariants.map((error) => error.variantName),
       });
     }
 
@@ -331,7 +470,7 @@ export class IconGenerator {
 
     // Combine into component set
     const componentSet = figma.combineAsVariants(components, page);
-    componentSet.name = iconName;
+    componentSet.name = setName;
 
     // Position the component set using grid layout
     const position = this.getNextPosition(componentSet.width, componentSet.height);
@@ -341,14 +480,23 @@ export class IconGenerator {
     // Ensure default variant is first in layer order
     ensureDefaultVariantFirst(componentSet);
 
+    if (variants.some((variant) => variant.fillProperty)) {
+      syncFillProperty(componentSet, true);
+    }
+
     // Apply standard configuration
     await this.configureComponentSet(componentSet);
 
+    // Tags and codepoint for assets panel search
+    applyIconMetadata(componentSet);
+
     return {
       componentSet,
+      componentSets: [componentSet],
       variantsCreated: components.length,
       variantsUpdated: 0,
       variantsSkipped: 0,
+      invalidVariants,
     };
   }
 
@@ -357,12 +505,14 @@ export class IconGenerator {
    */
   private async updateComponent(
     componentSet: ComponentSetNode,
-    variants: VariantData[]
+    variants: VariantData[],
+    removeUnrequested: boolean
   ): Promise<GenerationResult> {
     let variantsCreated = 0;
     let variantsUpdated = 0;
     let variantsSkipped = 0;
     let variantsRemoved = 0;
+    const invalidVariants: SvgValidationError[] = [];
 
     // Get existing variants
     const existingVariants = new Map<string, ComponentNode>();
@@ -377,10 +527,14 @@ export class IconGenerator {
 
     // Step 1: Remove unrequested variants (if configured)
     // Collect components to remove first, then remove them
+    // Interpolated variants are never requested from upstream, so they are kept
     const componentsToRemove: ComponentNode[] = [];
-    if (this.config.removeUnrequestedVariants) {
+    if (removeUnrequested) {
       for (const [name, component] of existingVariants) {
-        if (!requestedVariantNames.has(name)) {
+        if (
+          !requestedVariantNames.has(name) &&
+          !component.getPluginData(PLUGIN_DATA_KEYS.INTERPOLATED_FROM)
+        ) {
           logger.info(`Removing unrequested variant: ${name}`);
           componentsToRemove.push(component);
           existingVariants.delete(name);
@@ -409,10 +563,18 @@ export class IconGenerator {
         const shouldUpdate = await this.shouldUpdateVariant(existing, variantData);
 
         if (shouldUpdate) {
-          // Update existing variant
-          await updateVariantComponent(existing, variantData);
-          variantsUpdated++;
-          logger.info(`Updated variant: ${variantName}`);
+          // Update existing variant (an invalid SVG leaves it unchanged)
+          try {
+            await updateVariantComponent(existing, variantData);
+            variantsUpdated++;
+            logger.info(`Updated variant: ${variantName}`);
+          } catch (error) {
+            if (!(error instanceof SvgValidationError)) {
+              throw error;
+            }
+            logger.warn(error.message);
+            invalidVariants.push(error);
+          }
         } else {
           // Skip existing variant (no changes needed)
           variantsSkipped++;
@@ -420,7 +582,7 @@ export class IconGenerator {
         existingVariants.delete(variantName);
       } else {
         // Create new variant
-        const component = await createVariantComponent(variantData);
+        const component = await this.createVariantOrReject(variantData, invalidVariants);
         if (component) {
           try {
             // Ensure componentSet still exists and is valid before appending
@@ -450,10 +612,19 @@ export class IconGenerator {
     logger.info(`  - Updated: ${variantsUpdated} variants`);
     logger.info(`  - Removed: ${variantsRemoved} variants`);
     logger.info(`  - Unchanged: ${variantsSkipped} variants`);
+    if (invalidVariants.length > 0) {
+      logger.info(`  - Invalid SVG: ${invalidVariants.length} variants`);
+    }
 
     // Ensure default variant is first
     ensureDefaultVariantFirst(componentSet);
 
+    // Bind new Filled layers, or drop the property when converting back to a Fill axis
+    syncFillProperty(
+      componentSet,
+      variants.some((variant) => variant.fillProperty)
+    );
+
     // Always store commit SHA for version tracking, even if no variants changed
     if (this.config.commitSha) {
       try {
@@ -466,6 +637,9 @@ export class IconGenerator {
       }
     }
 
+    // Tags and codepoint for assets panel search
+    applyIconMetadata(componentSet);
+
     // Reapply full configuration if variants changed
     if (variantsCreated > 0 || variantsUpdated > 0 || variantsRemoved > 0) {
       await this.configureComponentSet(componentSet);
@@ -473,12 +647,33 @@ export class IconGenerator {
 
     return {
       componentSet,
+      componentSets: [componentSet],
       variantsCreated,
       variantsUpdated,
       variantsSkipped,
+      invalidVariants,
     };
   }
 
+  /**
+   * Create a variant component, recording (instead of throwing) SVG validation failures
+   */
+  private async createVariantOrReject(
+    variantData: VariantData,
+    invalidVariants: SvgValidationError[]
+  ): Promise<ComponentNode | null> {
+    try {
+      return await createVariantComponent(variantData);
+    } catch (error) {
+      if (!(error instanceof SvgValidationError)) {
+        throw error;
+      }
+      logger.warn(error.message);
+      invalidVariants.push(error);
+      return null;
+    }
+  }
+
   /**
    * Check if a variant should be updated based on content changes
    */
@@ -491,8 +686,8 @@ export class IconGenerator {
       return this.config.updateMode === 'replace';
     }
 
-    // Get the hash of the new SVG content
-    const newHash = hashSvg(variantData.svgContent);
+    // Get the hash of the new SVG content (both layers for fill-property variants)
+    const newHash = getVariantContentHash(variantData);
 
     // Try to get the stored hash from the component
     const storedHash = getStoredHash(existing);
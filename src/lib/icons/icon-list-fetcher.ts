@@ -34,13 +34,14 @@
  * ```
  */
 
+import { generateGitHubUrl, getGitHubApiUrl, getIconRepository } from '@lib/github/url-generator';
+
 export interface GitHubAPIConfig {
   token?: string; // Optional GitHub token for higher rate limits
 }
 
 export class IconListFetcher {
-  private baseApiUrl =
-    'https://api.github.com/repos/google/material-design-icons/contents/symbols/web';
+  private baseApiUrl = `${getGitHubApiUrl()}/contents/${getIconRepository().path}`;
   private headers: HeadersInit;
   private rateLimitRemaining: number | null = null;
   private rateLimitReset: Date | null = null;
@@ -539,7 +540,12 @@ export class HybridIconFetcher {
   async getIconSVG(iconName: string, _variant?: unknown): Promise<string> {
     // Use raw URL for actual SVG content
     // For now, just fetch the default variant
-    const url = `https://raw.githubusercontent.com/google/material-design-icons/master/symbols/web/${iconName}/materialsymbolsrounded/${iconName}_24px.svg`;
+    const url = generateGitHubUrl(iconName, 'rounded', {
+      fill: 0,
+      weight: 400,
+      grade: 0,
+      opticalSize: 24,
+    });
     const response = await fetch(url);
     return response.text();
   }
@@ -0,0 +1,236 @@
+/**
+ * @module @figma/icons/icon-lookup
+ *
+ * Validation and placement of user-supplied icon names.
+ *
+ * Used by "specific icons" mode, where a user pastes a list of names instead of
+ * picking an alphabetical range. Each name is checked with `iconExists`,
+ * unknown names get nearest-match suggestions, and known names are mapped to
+ * the set page they belong on via `category-mapping.json`.
+ *
+ * **Suggestions**:
+ * Ranked by edit distance (Levenshtein), with names that share a prefix or
+ * contain the typed name preferred, so `hom` suggests `home` and
+ * `arrow_bak` suggests `arrow_back`.
+ *
+ * @example
+ * ```typescript
+ * const names = parseIconList('home, serch\nsettings');
+ * const { valid, unknown } = validateIconNames(names);
+ * // valid: ['home', 'settings']
+ * // unknown: [{ name: 'serch', suggestions: ['search', ...] }]
+ *
+ * getIconCategory('home'); // "Set 12: hei-ios"
+ * ```
+ */
+
+import { ALL_ICONS, iconExists } from './all-icons';
+import categoryMapping from '../../../category-mapping.json';
+
+/**
+ * Unknown icon name with suggested replacements
+ *
+ * @interface UnknownIconName
+ * @property {string} name - Name as entered
+ * @property {string[]} suggestions - Closest existing icon names, best first
+ */
+export interface UnknownIconName {
+  name: string;
+  suggestions: string[];
+}
+
+/**
+ * Result of validating a list of icon names
+ *
+ * @interface IconNameValidation
+ * @property {string[]} valid - Existing icons, in the order entered (deduplicated)
+ * @property {UnknownIconName[]} unknown - Names that don't exist, with suggestions
+ */
+export interface IconNameValidation {
+  valid: string[];
+  unknown: UnknownIconName[];
+}
+
+const ICON_CATEGORIES = categoryMapping as Record<string, string>;
+
+/**
+ * Parse a pasted list of icon names
+ *
+ * Accepts comma, whitespace or newline separated names. Names are lower-cased
+ * and duplicates are removed, keeping the first occurrence.
+ *
+ * @param {string} text - Raw user input
+ * @returns {string[]} Icon names in input order
+ */
+export function parseIconList(text: string): string[] {
+  const names = text
+    .split(/[\s,]+/)
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+
+  return names.filter((name, index) => names.indexOf(name) === index);
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ *
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {number} Minimum number of single-character edits
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the existing icon names closest to an unknown name
+ *
+ * @param {string} name - Unknown icon name
+ * @param {number} [limit=3] - Maximum suggestions
+ * @returns {string[]} Closest icon names, best first (empty if nothing is close)
+ */
+export function findNearestIcons(name: string, limit = 3): string[] {
+  // Allow roughly one edit per three characters
+  const maxDistance = Math.max(2, Math.ceil(name.length / 3));
+
+  return ALL_ICONS.map((iconName) => {
+    let score = editDistance(name, iconName);
+    if (iconName.startsWith(name) || iconName.includes(name)) {
+      score = Math.min(score, 1);
+    }
+    return { iconName, score };
+  })
+    .filter((candidate) => candidate.score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.iconName.length - b.iconName.length)
+    .slice(0, limit)
+    .map((candidate) => candidate.iconName);
+}
+
+/**
+ * Validate icon names against the icon list
+ *
+ * @param {string[]} names - Icon names (e.g. from `parseIconList`)
+ * @returns {IconNameValidation} Existing names and unknown names with suggestions
+ */
+export function validateIconNames(names: string[]): IconNameValidation {
+  const result: IconNameValidation = { valid: [], unknown: [] };
+
+  for (const name of names) {
+    if (iconExists(name)) {
+      if (!result.valid.includes(name)) {
+        result.valid.push(name);
+      }
+    } else {
+      result.unknown.push({ name, suggestions: findNearestIcons(name) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Set an icon belongs to, from `category-mapping.json`
+ *
+ * @param {string} iconName - Icon name
+ * @returns {string | null} Set name (e.g. "Set 12: hei-ios"), or null if unmapped
+ */
+export function getIconCategory(iconName: string): string | null {
+  return Object.prototype.hasOwnProperty.call(ICON_CATEGORIES, iconName)
+    ? ICON_CATEGORIES[iconName]
+    : null;
+}
+
+/**
+ * Format an unknown name for logs and warnings
+ *
+ * @param {UnknownIconName} unknown - Unknown name with suggestions
+ * @returns {string} e.g. "serch (did you mean search, perch?)"
+ */
+export function formatUnknownIcon(unknown: UnknownIconName): string {
+  return unknown.suggestions.length > 0
+    ? `${unknown.name} (did you mean ${unknown.suggestions.join(', ')}?)`
+    : `${unknown.name} (no similar icons)`;
+}
+
+/**
+ * Score how well an icon name matches a search query (lower is better)
+ *
+ * Exact → prefix → word prefix (after `_`) → substring → subsequence → typo.
+ *
+ * @private
+ */
+function scoreIconMatch(query: string, iconName: string): number | null {
+  if (iconName === query) return 0;
+  if (iconName.startsWith(query)) return 1;
+  if (iconName.includes(`_${query}`)) return 2;
+  if (iconName.includes(query)) return 3;
+
+  // Subsequence: every query character in order, penalised by the gaps between them
+  let position = -1;
+  let gaps = 0;
+  for (const char of query) {
+    const next = iconName.indexOf(char, position + 1);
+    if (next === -1) {
+      position = -2;
+      break;
+    }
+    if (position >= 0) gaps += next - position - 1;
+    position = next;
+  }
+  if (position !== -2 && gaps <= query.length * 2) {
+    return 4 + gaps / (query.length + 1);
+  }
+
+  // Typos
+  const distance = editDistance(query, iconName.substring(0, query.length + 1));
+  return distance <= Math.max(1, Math.floor(query.length / 4)) ? 6 + distance : null;
+}
+
+/**
+ * Fuzzy search over every icon name
+ *
+ * Spaces and hyphens in the query are treated as underscores, so
+ * "shopping cart" finds `shopping_cart`.
+ *
+ * @param {string} query - Search text
+ * @param {number} [limit=50] - Maximum results
+ * @returns {string[]} Matching icon names, best first
+ */
+export function searchIcons(query: string, limit = 50): string[] {
+  const normalized = query
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  if (!normalized) {
+    return [];
+  }
+
+  const matches: Array<{ iconName: string; score: number }> = [];
+  for (const iconName of ALL_ICONS) {
+    const score = scoreIconMatch(normalized, iconName);
+    if (score !== null) {
+      matches.push({ iconName, score });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.iconName.length - b.iconName.length ||
+        a.iconName.localeCompare(b.iconName)
+    )
+    .slice(0, limit)
+    .map((match) => match.iconName);
+}
@@ -0,0 +1,102 @@
+/**
+ * @module @figma/icons/icon-metadata
+ *
+ * Search metadata (tags, categories, codepoint) for Material Symbols icons.
+ *
+ * The data is captured by `scripts/update-icon-list.ts` from the upstream
+ * codepoints file and the Google Fonts icon metadata, and bundled as
+ * `icon-metadata-data.json`. Icons missing from the bundle simply have no
+ * metadata; nothing here fetches at runtime. An empty bundle means the script
+ * has not been run with metadata, so `hasIconMetadata()` lets the plugin warn.
+ *
+ * **Why**:
+ * Figma's assets panel searches component descriptions, so writing the tags
+ * into the ComponentSet description lets designers find `home` by searching
+ * "house".
+ *
+ * @example
+ * ```typescript
+ * getIconMetadata('home');
+ * // { codepoint: 'e9b2', tags: ['house', 'address', ...], categories: ['action'] }
+ *
+ * buildIconDescription('home');
+ * // "house, address, ...\nCategories: action\nCodepoint: U+E9B2"
+ * ```
+ */
+
+import iconMetadataData from './icon-metadata-data.json';
+
+/**
+ * Bundled metadata for a single icon
+ *
+ * @interface IconMetadataEntry
+ * @property {string} [codepoint] - Font codepoint as lower-case hex (e.g. "e9b2")
+ * @property {string[]} [tags] - Search keywords from upstream
+ * @property {string[]} [categories] - Upstream categories (e.g. "action")
+ */
+export interface IconMetadataEntry {
+  codepoint?: string;
+  tags?: string[];
+  categories?: string[];
+}
+
+const ICON_METADATA = iconMetadataData as Record<string, IconMetadataEntry>;
+
+/**
+ * Whether any icon metadata is bundled
+ *
+ * @returns {boolean} False when `icon-metadata-data.json` is empty
+ */
+export function hasIconMetadata(): boolean {
+  return Object.keys(ICON_METADATA).length > 0;
+}
+
+/**
+ * Get bundled metadata for an icon
+ *
+ * @param {string} iconName - Icon name
+ * @returns {IconMetadataEntry | null} Metadata, or null if the icon has none
+ */
+export function getIconMetadata(iconName: string): IconMetadataEntry | null {
+  return Object.prototype.hasOwnProperty.call(ICON_METADATA, iconName)
+    ? ICON_METADATA[iconName]
+    : null;
+}
+
+/**
+ * Format a hex codepoint for display
+ *
+ * @param {string} codepoint - Hex codepoint (e.g. "e9b2")
+ * @returns {string} e.g. "U+E9B2"
+ */
+export function formatCodepoint(codepoint: string): string {
+  return `U+${codepoint.toUpperCase()}`;
+}
+
+/**
+ * Build the ComponentSet description for an icon
+ *
+ * Tags come first so they are what Figma shows in the assets panel tooltip.
+ *
+ * @param {string} iconName - Icon name
+ * @returns {string} Description, or an empty string if the icon has no metadata
+ */
+export function buildIconDescription(iconName: string): string {
+  const metadata = getIconMetadata(iconName);
+  if (!metadata) {
+    return '';
+  }
+
+  const lines: string[] = [];
+  if (metadata.tags && metadata.tags.length > 0) {
+    lines.push(metadata.tags.join(', '));
+  }
+  if (metadata.categories && metadata.categories.length > 0) {
+    lines.push(`Categories: ${metadata.categories.join(', ')}`);
+  }
+  if (metadata.codepoint) {
+    lines.push(`Codepoint: ${formatCodepoint(metadata.codepoint)}`);
+  }
+
+  return lines.join('\n');
+}
@@ -8,6 +8,8 @@
  * - Adds missing variants to existing component sets
  * - Minimizes Figma version bloat by avoiding unnecessary updates
  * - Preserves existing variant order and structure
+ * - Builds Outline/Filled layers for sets with a Fill component property
+ *   (pass `FillPropertyOptions`; see fill-property.ts)
  *
  * This is critical for performance when updating large icon libraries (3900+ icons × 504 variants)
  */
@@ -15,6 +17,16 @@
 import { logger } from '@lib/utils';
 import type { IconStyle, IconVariant } from '@lib/github';
 import { cleanupVariantFills } from './variant-utils';
+import { applyIconColor } from '@lib/tokens/icon-color';
+import { sanitizeSvg } from './svg-sanitizer';
+import { getDefaultVariantName, parseStyleName } from './variant-formatter';
+import { formatVariantKey, parseVariantKey } from './variant-schema';
+import {
+  FILL_LAYER_NAMES,
+  appendFillLayers,
+  getLayeredSvgContent,
+  type FillPropertyOptions,
+} from './fill-property';
 
 /**
  * Unique identifier for an icon variant
@@ -70,30 +82,6 @@ export interface ComponentUpdateResult {
   upToDateVariants: number;
 }
 
-/**
- * Format variant name using legacy Figma naming convention
- * Format: "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp"
- */
-function formatVariantName(style: IconStyle, variant: IconVariant): string {
-  // Capitalize style
-  const styleCapitalized = style.charAt(0).toUpperCase() + style.slice(1);
-
-  // Convert fill to On/Off
-  const fillText = variant.fill === 1 ? 'On' : 'Off';
-
-  // Convert grade to text
-  let gradeText: string;
-  if (variant.grade === 200) {
-    gradeText = 'Emphasis';
-  } else if (variant.grade === -25) {
-    gradeText = 'Dark theme';
-  } else {
-    gradeText = 'Normal';
-  }
-
-  return `Style=${styleCapitalized}, Weight=${variant.weight}, Fill=${fillText}, Grade=${gradeText}, Optical size=${variant.opticalSize}dp`;
-}
-
 /**
  * Generate a variant property string for matching (normalized format)
  * Format: "style=rounded, weight=400, fill=0, grade=0, size=24"
@@ -106,10 +94,17 @@ function generateVariantProps(style: IconStyle, variant: IconVariant): string {
  * Parse variant properties from component name
  * Safer than accessing variantProperties which can fail on problematic component sets
  * Handles multiple formats:
+ * - The active naming schema (see variant-schema.ts), with or without Fill
+ *   (sets with a Fill component property leave it out; read as fill 0)
  * - New: "style=rounded, weight=400, fill=0, grade=0, size=24"
  * - Legacy: "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp"
  */
 function parseVariantPropsFromName(componentName: string): VariantKey | null {
+  const fromSchema =
+    parseVariantKey(componentName) ??
+    parseVariantKey(componentName, undefined, { fillProperty: true });
+  if (fromSchema) return fromSchema;
+
   try {
     // Split by comma and parse key=value pairs
     const pairs = componentName.split(',').map((p) => p.trim());
@@ -123,8 +118,9 @@ function parseVariantPropsFromName(componentName: string): VariantKey | null {
       }
     }
 
-    // Parse style (handle both lowercase and capitalized)
-    const style = (props.style || props.Style)?.toLowerCase() as IconStyle;
+    // Parse style (display name or id, any case)
+    const styleValue = props.style || props.Style;
+    const style = styleValue ? parseStyleName(styleValue) : undefined;
 
     // Parse weight
     const weight = parseInt(props.weight || props.Weight) as IconVariant['weight'];
@@ -472,38 +468,88 @@ async function isSvgContentEqual(
   return existingSvg === newSvgContent;
 }
 
+/**
+ * Validate and sanitise a variant's SVG (and filled SVG for fill-property variants)
+ */
+function sanitizeVariantSvgs(
+  iconName: string,
+  variantName: string,
+  svgContent: string,
+  variantKey: VariantKey,
+  options: FillPropertyOptions
+): { svg: string; filledSvg?: string } {
+  const context = { iconName, variantName, opticalSize: variantKey.variant.opticalSize };
+  return {
+    svg: sanitizeSvg(svgContent, context).svg,
+    filledSvg:
+      options.filledSvgContent === undefined
+        ? undefined
+        : sanitizeSvg(options.filledSvgContent, {
+            ...context,
+            variantName: `${variantName} (${FILL_LAYER_NAMES.filled})`,
+          }).svg,
+  };
+}
+
+/**
+ * Put SVG content into an empty variant component
+ *
+ * Vectors go directly into the component, or into Outline/Filled layers when
+ * there is a filled SVG.
+ */
+function appendVariantContent(component: ComponentNode, svg: string, filledSvg?: string): void {
+  if (filledSvg !== undefined) {
+    appendFillLayers(component, svg, filledSvg);
+    return;
+  }
+
+  // Create SVG node from content - this creates a Frame with vector inside
+  const svgFrame = figma.createNodeFromSvg(svg);
+
+  // Extract vector children from frame and add directly to component
+  // This avoids the extra frame nesting
+  const children = [...svgFrame.children];
+  for (const child of children) {
+    try {
+      component.appendChild(child);
+    } catch (error) {
+      logger.warn(`Failed to move child node: ${error}`);
+    }
+  }
+
+  // Remove the now-empty frame
+  svgFrame.remove();
+}
+
 /**
  * Update a specific variant component with new SVG content
+ *
+ * @throws {SvgValidationError} If the SVG fails validation (component left unchanged)
  */
 export async function updateVariantComponent(
   component: ComponentNode,
   svgContent: string,
-  variantKey: VariantKey
+  variantKey: VariantKey,
+  options: FillPropertyOptions = {}
 ): Promise<void> {
   try {
     logger.info(`Updating variant: ${component.name}`);
 
+    // Validate before touching the component so a bad SVG leaves it intact
+    const { svg, filledSvg } = sanitizeVariantSvgs(
+      component.parent?.name ?? component.name,
+      component.name,
+      svgContent,
+      variantKey,
+      options
+    );
+
     // Remove existing children
     for (const child of component.children) {
       child.remove();
     }
 
-    // Create SVG node from content - this creates a Frame with vector inside
-    const svgFrame = figma.createNodeFromSvg(svgContent);
-
-    // Extract vector children from frame and add directly to component
-    // This avoids the extra frame nesting
-    const children = [...svgFrame.children];
-    for (const child of children) {
-      try {
-        component.appendChild(child);
-      } catch (error) {
-        logger.warn(`Failed to move child node: ${error}`);
-      }
-    }
-
-    // Remove the now-empty frame
-    svgFrame.remove();
+    appendVariantContent(component, svg, filledSvg);
 
     // Resize component to optical size
     const size = variantKey.variant.opticalSize;
@@ -517,11 +563,14 @@ export async function updateVariantComponent(
     component.description = `Last updated: ${timestamp}\nStyle: ${variantKey.style}, Weight: ${variantKey.variant.weight}, Fill: ${variantKey.variant.fill}, Grade: ${variantKey.variant.grade}, Size: ${variantKey.variant.opticalSize}`;
 
     // Store SVG hash for future comparisons
-    setComponentSvgHash(component, svgContent);
+    setComponentSvgHash(component, getLayeredSvgContent(svgContent, options));
 
     // Clean up any unnecessary fills from the component frame
     cleanupVariantFills(component);
 
+    // Paint the vectors with the icon colour (if one is set)
+    applyIconColor(component);
+
     logger.info(`✓ Updated variant: ${component.name}`);
   } catch (error) {
     logger.error(`Failed to update variant ${component.name}: ${error}`);
@@ -531,11 +580,18 @@ export async function updateVariantComponent(
 
 /**
  * Add a new variant to an existing ComponentSet
+ *
+ * Pass `options.fillProperty` for sets with a Fill component property: the
+ * name leaves Fill out and `options.filledSvgContent` becomes the Filled layer
+ * (bind it with `syncFillProperty` once all variants are added).
+ *
+ * @throws {SvgValidationError} If the SVG fails validation
  */
 export async function addVariantToComponentSet(
   componentSet: ComponentSetNode,
   svgContent: string,
-  variantKey: VariantKey
+  variantKey: VariantKey,
+  options: FillPropertyOptions = {}
 ): Promise<ComponentNode> {
   try {
     const { style, variant } = variantKey;
@@ -551,7 +607,10 @@ export async function addVariantToComponentSet(
 
     if (existingComponent) {
       // Variant exists - check if SVG content is different
-      const isIdentical = await isSvgContentEqual(existingComponent, svgContent);
+      const isIdentical = await isSvgContentEqual(
+        existingComponent,
+        getLayeredSvgContent(svgContent, options)
+      );
 
       if (isIdentical) {
         // SVG is identical - no update needed
@@ -560,44 +619,39 @@ export async function addVariantToComponentSet(
       } else {
         // SVG is different - update the existing component
         logger.info(`Updating existing variant in ${componentSet.name}: ${expectedVariantKey}`);
-        await updateVariantComponent(existingComponent, svgContent, variantKey);
+        await updateVariantComponent(existingComponent, svgContent, variantKey, options);
         return existingComponent;
       }
     }
 
     // Variant doesn't exist - create new component
-    const svgFrame = figma.createNodeFromSvg(svgContent);
+    const variantName = formatVariantKey(variantKey, undefined, options);
+    const { svg, filledSvg } = sanitizeVariantSvgs(
+      componentSet.name,
+      variantName,
+      svgContent,
+      variantKey,
+      options
+    );
     const component = figma.createComponent();
 
-    // Set component name to define variant properties using legacy Figma format
-    // Format: "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp"
-    component.name = formatVariantName(style, variant);
+    // Set component name to define variant properties using the active naming schema
+    // Default: "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp"
+    component.name = variantName;
 
     // Size to optical size
     const size = variant.opticalSize;
     component.resize(size, size);
     component.fills = [];
 
-    // Extract vector children from frame and add directly to component
-    // This avoids the extra frame nesting
-    const children = [...svgFrame.children];
-    for (const child of children) {
-      try {
-        component.appendChild(child);
-      } catch (error) {
-        logger.warn(`Failed to move child node: ${error}`);
-      }
-    }
-
-    // Remove the now-empty frame
-    svgFrame.remove();
+    appendVariantContent(component, svg, filledSvg);
 
     // Set description with timestamp
     const timestamp = new Date().toISOString();
     component.description = `Last updated: ${timestamp}\nStyle: ${style}, Weight: ${variant.weight}, Fill: ${variant.fill}, Grade: ${variant.grade}, Size: ${variant.opticalSize}`;
 
     // Store SVG hash for future comparisons
-    setComponentSvgHash(component, svgContent);
+    setComponentSvgHash(component, getLayeredSvgContent(svgContent, options));
 
     // Add to component set - Figma will automatically set variantProperties based on the name
     componentSet.appendChild(component);
@@ -606,6 +660,9 @@ export async function addVariantToComponentSet(
     // This prevents "hidden fill" (#FFFFFF) that adds file weight
     cleanupVariantFills(component);
 
+    // Paint the vectors with the icon colour (if one is set)
+    applyIconColor(component);
+
     logger.info(`✓ Added new variant to ${componentSet.name}`);
 
     return component;
@@ -886,15 +943,12 @@ export async function scanAndCleanupVariantFills(
 /**
  * Check if a variant is the default variant
  * Default: Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp
+ * (without Fill in sets with a Fill component property)
  */
 function isDefaultVariant(component: ComponentNode): boolean {
-  const name = component.name;
   return (
-    name.includes('Style=Rounded') &&
-    name.includes('Weight=400') &&
-    name.includes('Fill=Off') &&
-    name.includes('Grade=Normal') &&
-    name.includes('Optical size=24dp')
+    component.name === getDefaultVariantName() ||
+    component.name === getDefaultVariantName({ fillProperty: true })
   );
 }
 
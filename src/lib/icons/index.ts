@@ -17,8 +17,11 @@
  * **Exported Modules**:
  * - `generator` - IconGenerator class for individual icons
  * - `batch-generator` - Batch processing for multiple icons
- * - `batch-fetcher` - SVG downloading with connection pooling
+ * - `batch-fetcher` - SVG downloading with adaptive concurrency
+ * - `concurrency-controller` - AIMD concurrency and rate-limit header handling
+ * - `svg-cache` - Persistent SVG cache (clientStorage, LRU)
  * - `variant-utils` - Variant selection and naming utilities
+ * - `variant-schema` - Configurable variant property names, value formats and order
  * - `metadata-helpers` - Metadata reading and skip/update logic
  *
  * @example Generate a single icon
@@ -54,6 +57,7 @@ export {
   IconGenerator,
   iconGenerator,
   type GeneratorConfig,
+  type GenerateIconOptions,
   type GenerationResult,
   type VariantData,
 } from './generator';
@@ -63,12 +67,102 @@ export { generateBatchIcons, type BatchConfig, type BatchResult } from './batch-
 export {
   batchFetchSVGs,
   createFetchItems,
+  classifyHttpFailure,
+  describeFetchFailures,
+  isRetryableFailure,
+  FETCH_FAILURE_LABELS,
   type FetchItem,
   type FetchResult,
+  type FetchFailure,
+  type FetchFailureReason,
   type BatchFetchConfig,
   type BatchFetchStats,
 } from './batch-fetcher';
 
+export {
+  ConcurrencyController,
+  getRetryDelayMs,
+  isThrottleResponse,
+  type ConcurrencyControllerConfig,
+} from './concurrency-controller';
+
+export {
+  SvgCache,
+  getSvgCacheKey,
+  DEFAULT_SVG_CACHE_MAX_BYTES,
+  type SvgCacheConfig,
+  type SvgCacheItem,
+  type SvgCacheStorage,
+  type SvgCommitCache,
+} from './svg-cache';
+
+export { sanitizeSvg, type SanitizedSvg, type SvgExpectations } from './svg-sanitizer';
+
+export {
+  isInterpolatedVariant,
+  validateInterpolationAxes,
+  getInterpolationSource,
+  getInterpolationCorners,
+  getInterpolationTargets,
+  interpolateIconSvg,
+  type InterpolatedVariant,
+  type InterpolationAxes,
+  type InterpolationSource,
+  type InterpolationTarget,
+} from './svg-interpolation';
+
+export {
+  DEFAULT_CUSTOM_ICONS_PAGE,
+  parseCustomIconFilename,
+  inferOpticalSize,
+  groupCustomIcons,
+  type ParsedCustomIconFilename,
+  type CustomIconGroups,
+} from './custom-icons';
+
+export {
+  VARIANT_AXES,
+  VARIANT_VALUE_FORMATS,
+  VARIANT_SCHEMA_PRESETS,
+  DEFAULT_VARIANT_SCHEMA,
+  normalizeVariantSchema,
+  validateVariantSchema,
+  isSameVariantSchema,
+  findVariantSchemaPreset,
+  setVariantSchema,
+  getVariantSchema,
+  formatVariantValues,
+  formatVariantKey,
+  parseVariantKey,
+  type VariantAxis,
+  type VariantValueFormat,
+  type VariantSchemaProperty,
+  type VariantSchema,
+  type VariantSchemaPreset,
+  type VariantNameOptions,
+} from './variant-schema';
+
+export {
+  FILL_LAYER_NAMES,
+  pairFillVariants,
+  getLayeredSvgContent,
+  appendFillLayers,
+  syncFillProperty,
+  type FillPropertyOptions,
+} from './fill-property';
+
+export {
+  DEFAULT_COMPONENT_SET_LAYOUT,
+  STYLE_SET_SEPARATOR,
+  isComponentSetLayout,
+  getStyleSetName,
+  parseStyleSetName,
+  getSetIconName,
+  groupVariantsByStyle,
+  getStyleSetProfile,
+  type ComponentSetLayout,
+} from './set-layout';
+
 export {
   findBestDefaultVariant,
   parseVariantName,
@@ -77,14 +171,54 @@ export {
   VARIANT_PREFERENCES,
 } from './variant-utils';
 
+export {
+  FULL_VARIANT_PROFILE,
+  ALL_ICON_STYLES,
+  normalizeVariantProfile,
+  getProfileVariantCount,
+  isFullVariantProfile,
+  getProfileVariants,
+  getProfileVariantName,
+  getProfileVariantNames,
+  describeVariantProfile,
+  getStoredVariantProfile,
+  setStoredVariantProfile,
+  mergeVariantProfiles,
+  widenStoredVariantProfile,
+  type VariantProfile,
+} from './variant-profile';
+
+export {
+  parseIconList,
+  findNearestIcons,
+  validateIconNames,
+  getIconCategory,
+  formatUnknownIcon,
+  searchIcons,
+  type IconNameValidation,
+  type UnknownIconName,
+} from './icon-lookup';
+
+export {
+  getIconMetadata,
+  hasIconMetadata,
+  formatCodepoint,
+  buildIconDescription,
+  type IconMetadataEntry,
+} from './icon-metadata';
+
 export {
   getCommitSha,
   getSvgHash,
+  getMissingVariantNames,
+  getUnavailableVariantNames,
+  setUnavailableVariantNames,
   isComponentSetComplete,
   getVariantCount,
   shouldSkipComponentSet,
   getVariantHashes,
   findComponentSet,
+  findComponentSets,
   checkIconNeedsUpdate,
   logUpdateCheckResult,
   type UpdateCheckResult,
@@ -3,10 +3,20 @@
  *
  * Helper functions for reading and working with plugin metadata stored on Figma nodes.
  * These utilities support the smart skip/update logic for icon generation.
+ *
+ * Icons in the per-style layout (see `set-layout.ts`) span several ComponentSets;
+ * the icon-level helpers take all of them into account.
  */
 
 import { logger } from '@lib/utils';
-import { PLUGIN_DATA_KEYS, EXPECTED_VARIANT_COUNT } from '@lib/constants';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import {
+  FULL_VARIANT_PROFILE,
+  getProfileVariantCount,
+  getProfileVariantNames,
+  type VariantProfile,
+} from './variant-profile';
+import { getSetIconName, type ComponentSetLayout } from './set-layout';
 
 /**
  * Get the commit SHA stored on a ComponentSet
@@ -39,13 +49,77 @@ export function getSvgHash(variant: ComponentNode): string | null {
 }
 
 /**
- * Check if a ComponentSet is complete (has all expected variants)
+ * Get the variant names that do not exist upstream, as recorded on a ComponentSet
+ * @param componentSet The ComponentSet to read from
+ * @returns Variant names that returned 404 when the icon was last fetched
+ */
+export function getUnavailableVariantNames(componentSet: ComponentSetNode): string[] {
+  try {
+    const raw = componentSet.getPluginData(PLUGIN_DATA_KEYS.UNAVAILABLE_VARIANTS);
+    const names: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(names)
+      ? names.filter((name): name is string => typeof name === 'string')
+      : [];
+  } catch (error) {
+    logger.warn(`Failed to read unavailable variants from ${componentSet.name}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Record the variant names that do not exist upstream on a ComponentSet
+ * @param componentSet The ComponentSet to write to
+ * @param names Variant names that returned 404 (empty to clear)
+ */
+export function setUnavailableVariantNames(componentSet: ComponentSetNode, names: string[]): void {
+  try {
+    componentSet.setPluginData(
+      PLUGIN_DATA_KEYS.UNAVAILABLE_VARIANTS,
+      names.length > 0 ? JSON.stringify(names) : ''
+    );
+  } catch (error) {
+    logger.warn(`Failed to store unavailable variants on ${componentSet.name}:`, error);
+  }
+}
+
+/**
+ * Get the variant names a profile expects but the ComponentSet lacks
+ *
+ * Variants recorded as unavailable upstream are not missing: fetching them
+ * again would only return 404 again.
+ *
+ * @param componentSet The ComponentSet to check (or all sets of a per-style icon)
+ * @param profile The variant profile to measure against (defaults to all 504 variants)
+ * @returns Missing variant names, in generation order
+ */
+export function getMissingVariantNames(
+  componentSet: ComponentSetNode | ComponentSetNode[],
+  profile: VariantProfile = FULL_VARIANT_PROFILE
+): string[] {
+  const componentSets = Array.isArray(componentSet) ? componentSet : [componentSet];
+  const covered = new Set<string>();
+  for (const set of componentSets) {
+    for (const child of set.children) {
+      covered.add(child.name);
+    }
+    for (const name of getUnavailableVariantNames(set)) {
+      covered.add(name);
+    }
+  }
+  return getProfileVariantNames(profile).filter((name) => !covered.has(name));
+}
+
+/**
+ * Check if a ComponentSet is complete (has all variants of the profile)
  * @param componentSet The ComponentSet to check
- * @returns True if the ComponentSet has exactly 504 variants
+ * @param profile The variant profile to measure against (defaults to all 504 variants)
+ * @returns True if every variant in the profile exists in the ComponentSet
  */
-export function isComponentSetComplete(componentSet: ComponentSetNode): boolean {
-  const variantCount = componentSet.children.length;
-  return variantCount === EXPECTED_VARIANT_COUNT;
+export function isComponentSetComplete(
+  componentSet: ComponentSetNode,
+  profile: VariantProfile = FULL_VARIANT_PROFILE
+): boolean {
+  return getMissingVariantNames(componentSet, profile).length === 0;
 }
 
 /**
@@ -60,21 +134,23 @@ export function getVariantCount(componentSet: ComponentSetNode): number {
 /**
  * Check if a ComponentSet should be skipped (already up-to-date)
  * A ComponentSet should be skipped if:
- * - It has all 504 variants
+ * - It has all variants of the profile (504 for the full profile)
  * - It has a commit SHA that matches the current plugin commit SHA
  *
  * @param componentSet The ComponentSet to check
  * @param currentCommitSha The current commit SHA from the plugin
+ * @param profile The variant profile to measure against (defaults to all 504 variants)
  * @returns True if the ComponentSet should be skipped
  */
 export function shouldSkipComponentSet(
   componentSet: ComponentSetNode,
-  currentCommitSha: string
+  currentCommitSha: string,
+  profile: VariantProfile = FULL_VARIANT_PROFILE
 ): boolean {
   // Check if complete
-  if (!isComponentSetComplete(componentSet)) {
+  if (!isComponentSetComplete(componentSet, profile)) {
     logger.info(
-      `${componentSet.name}: Not complete (${getVariantCount(componentSet)}/${EXPECTED_VARIANT_COUNT} variants)`
+      `${componentSet.name}: Not complete (${getVariantCount(componentSet)}/${getProfileVariantCount(profile)} variants)`
     );
     return false;
   }
@@ -99,17 +175,23 @@ export function shouldSkipComponentSet(
 
 /**
  * Get all variant hashes from a ComponentSet
- * @param componentSet The ComponentSet to read from
+ * Variant names include the style, so the sets of a per-style icon share one map
+ * @param componentSet The ComponentSet to read from (or all sets of a per-style icon)
  * @returns A map of variant names to their SVG hashes
  */
-export function getVariantHashes(componentSet: ComponentSetNode): Map<string, string> {
+export function getVariantHashes(
+  componentSet: ComponentSetNode | ComponentSetNode[]
+): Map<string, string> {
   const hashes = new Map<string, string>();
+  const componentSets = Array.isArray(componentSet) ? componentSet : [componentSet];
 
-  for (const child of componentSet.children) {
-    if (child.type === 'COMPONENT') {
-      const hash = getSvgHash(child);
-      if (hash) {
-        hashes.set(child.name, hash);
+  for (const set of componentSets) {
+    for (const child of set.children) {
+      if (child.type === 'COMPONENT') {
+        const hash = getSvgHash(child);
+        if (hash) {
+          hashes.set(child.name, hash);
+        }
       }
     }
   }
@@ -128,6 +210,36 @@ export function findComponentSet(page: PageNode, iconName: string): ComponentSet
   return node as ComponentSetNode | null;
 }
 
+/**
+ * Find every ComponentSet of an icon on a page, in either layout
+ * Matches the combined set ("home") and the style sets ("home / Rounded", ...)
+ * @param page The page to search
+ * @param iconName The name of the icon to find
+ * @returns The icon's ComponentSets, in document order
+ */
+export function findComponentSets(page: PageNode, iconName: string): ComponentSetNode[] {
+  return page.findAll(
+    (n) => n.type === 'COMPONENT_SET' && getSetIconName(n.name) === iconName
+  ) as ComponentSetNode[];
+}
+
+/**
+ * Get the commit SHA an icon's ComponentSets were built from
+ * Null if any set has none; otherwise the first SHA that differs from the current one,
+ * so a partly updated per-style icon is still reported as outdated
+ * @private
+ */
+function getIconCommitSha(
+  componentSets: ComponentSetNode[],
+  currentCommitSha: string
+): string | null {
+  const shas = componentSets.map(getCommitSha);
+  if (shas.some((sha) => sha === null)) {
+    return null;
+  }
+  return shas.find((sha) => sha !== currentCommitSha) ?? shas[0] ?? null;
+}
+
 /**
  * Result of checking if an icon needs updating
  */
@@ -140,9 +252,11 @@ export interface UpdateCheckResult {
   fullRegeneration: boolean;
   /** If true, only missing variants should be added */
   fillGapsOnly: boolean;
-  /** Existing ComponentSet if found */
+  /** Existing ComponentSet if found (the first one for per-style icons) */
   existingComponentSet: ComponentSetNode | null;
-  /** Number of existing variants */
+  /** Every existing ComponentSet of the icon (one for the combined layout) */
+  existingComponentSets: ComponentSetNode[];
+  /** Number of existing variants (across all sets) */
   existingVariantCount: number;
   /** Stored commit SHA */
   storedCommitSha: string | null;
@@ -153,14 +267,26 @@ export interface UpdateCheckResult {
  * @param page The page to search
  * @param iconName The name of the icon
  * @param currentCommitSha The current commit SHA from the plugin
+ * @param profile The variant profile to measure completeness against (defaults to all 504 variants)
+ * @param layout How the icon's variants are spread over ComponentSets (per-style icons
+ *   are measured across all their sets)
  * @returns Details about whether and how the icon should be updated
  */
 export function checkIconNeedsUpdate(
   page: PageNode,
   iconName: string,
-  currentCommitSha: string
+  currentCommitSha: string,
+  profile: VariantProfile = FULL_VARIANT_PROFILE,
+  layout: ComponentSetLayout = 'combined'
 ): UpdateCheckResult {
-  const existingComponentSet = findComponentSet(page, iconName);
+  let existingComponentSets: ComponentSetNode[];
+  if (layout === 'per-style') {
+    existingComponentSets = findComponentSets(page, iconName);
+  } else {
+    const componentSet = findComponentSet(page, iconName);
+    existingComponentSets = componentSet ? [componentSet] : [];
+  }
+  const existingComponentSet = existingComponentSets[0] ?? null;
 
   // Icon doesn't exist - needs full generation
   if (!existingComponentSet) {
@@ -170,31 +296,36 @@ export function checkIconNeedsUpdate(
       fullRegeneration: true,
       fillGapsOnly: false,
       existingComponentSet: null,
+      existingComponentSets,
       existingVariantCount: 0,
       storedCommitSha: null,
     };
   }
 
-  const variantCount = getVariantCount(existingComponentSet);
-  const storedSha = getCommitSha(existingComponentSet);
+  const variantCount = existingComponentSets.reduce((sum, set) => sum + getVariantCount(set), 0);
+  const storedSha = getIconCommitSha(existingComponentSets, currentCommitSha);
+  const expectedCount = getProfileVariantCount(profile);
+  const missingCount = getMissingVariantNames(existingComponentSets, profile).length;
 
   // Log the actual values for debugging
   logger.info(`${iconName} metadata check:`, {
     variantCount,
-    isComplete: variantCount === EXPECTED_VARIANT_COUNT,
+    expectedCount,
+    isComplete: missingCount === 0,
     storedSha: storedSha ? storedSha.substring(0, 7) : 'null',
     currentSha: currentCommitSha.substring(0, 7),
     shaMatch: storedSha === currentCommitSha,
   });
 
   // Icon is incomplete - fill gaps with current commit
-  if (!isComponentSetComplete(existingComponentSet)) {
+  if (missingCount > 0) {
     return {
       needsUpdate: true,
-      reason: `Incomplete (${variantCount}/${EXPECTED_VARIANT_COUNT} variants)`,
+      reason: `Incomplete (${expectedCount - missingCount}/${expectedCount} variants)`,
       fullRegeneration: false,
       fillGapsOnly: true,
       existingComponentSet,
+      existingComponentSets,
       existingVariantCount: variantCount,
       storedCommitSha: storedSha,
     };
@@ -208,6 +339,7 @@ export function checkIconNeedsUpdate(
       fullRegeneration: true,
       fillGapsOnly: false,
       existingComponentSet,
+      existingComponentSets,
       existingVariantCount: variantCount,
       storedCommitSha: null,
     };
@@ -221,6 +353,7 @@ export function checkIconNeedsUpdate(
       fullRegeneration: false,
       fillGapsOnly: false,
       existingComponentSet,
+      existingComponentSets,
       existingVariantCount: variantCount,
       storedCommitSha: storedSha,
     };
@@ -233,6 +366,7 @@ export function checkIconNeedsUpdate(
     fullRegeneration: false,
     fillGapsOnly: false,
     existingComponentSet,
+    existingComponentSets,
     existingVariantCount: variantCount,
     storedCommitSha: storedSha,
   };
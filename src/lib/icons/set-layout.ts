@@ -0,0 +1,132 @@
+/**
+ * @module @figma/icons/set-layout
+ *
+ * ComponentSet layout: one set per icon, or one set per style.
+ *
+ * The combined layout puts every variant of an icon into one ComponentSet
+ * named after the icon - 504 variants for the full profile, which makes the
+ * set slow to open, search and swap in Figma. The per-style layout splits each
+ * icon into one ComponentSet per style on the same page: `home / Rounded`,
+ * `home / Outlined` and `home / Sharp`. The slash groups them under the icon
+ * in the assets panel.
+ *
+ * **Variant Names**:
+ * Variant names are the same in both layouts (Style stays in the name, with a
+ * single value per set), so change detection, repairs and renames work on a
+ * style set exactly as on a combined one. Each style set stores a variant
+ * profile restricted to its style, so it is complete on its own.
+ *
+ * @example
+ * ```typescript
+ * getStyleSetName('home', 'rounded');  // 'home / Rounded'
+ * parseStyleSetName('home / Rounded'); // { iconName: 'home', style: 'rounded' }
+ * getSetIconName('home / Rounded');    // 'home'
+ * getSetIconName('home');              // 'home'
+ * ```
+ */
+
+import type { IconStyle } from '@lib/github';
+import { getStyleName, parseStyleName } from './variant-formatter';
+import { normalizeVariantProfile, type VariantProfile } from './variant-profile';
+
+/**
+ * How an icon's variants are spread over ComponentSets
+ *
+ * - `combined`: one ComponentSet per icon, named after the icon
+ * - `per-style`: one ComponentSet per style, named `<icon> / <Style>`
+ */
+export type ComponentSetLayout = 'combined' | 'per-style';
+
+/**
+ * Default layout (the one files generated before the option existed use)
+ *
+ * @constant
+ */
+export const DEFAULT_COMPONENT_SET_LAYOUT: ComponentSetLayout = 'combined';
+
+/**
+ * Separator between icon name and style in per-style set names
+ *
+ * @constant
+ */
+export const STYLE_SET_SEPARATOR = ' / ';
+
+/**
+ * Check whether a value is a known layout
+ *
+ * @param {unknown} value - Stored or received value
+ * @returns {boolean} True for 'combined' and 'per-style'
+ */
+export function isComponentSetLayout(value: unknown): value is ComponentSetLayout {
+  return value === 'combined' || value === 'per-style';
+}
+
+/**
+ * Name of an icon's ComponentSet for one style
+ *
+ * @param {string} iconName - Icon name (e.g. "home")
+ * @param {IconStyle} style - Style the set holds
+ * @returns {string} e.g. "home / Rounded"
+ */
+export function getStyleSetName(iconName: string, style: IconStyle): string {
+  return `${iconName}${STYLE_SET_SEPARATOR}${getStyleName(style)}`;
+}
+
+/**
+ * Parse a per-style set name
+ *
+ * @param {string} name - ComponentSet name
+ * @returns {{ iconName: string; style: IconStyle } | null} Icon and style, or null if the
+ *   name is not a per-style set name
+ */
+export function parseStyleSetName(name: string): { iconName: string; style: IconStyle } | null {
+  const index = name.lastIndexOf(STYLE_SET_SEPARATOR);
+  if (index <= 0) {
+    return null;
+  }
+
+  const style = parseStyleName(name.substring(index + STYLE_SET_SEPARATOR.length));
+  return style ? { iconName: name.substring(0, index), style } : null;
+}
+
+/**
+ * Icon name of a ComponentSet in either layout
+ *
+ * @param {string} name - ComponentSet name ("home" or "home / Rounded")
+ * @returns {string} Icon name ("home")
+ */
+export function getSetIconName(name: string): string {
+  return parseStyleSetName(name)?.iconName ?? name;
+}
+
+/**
+ * Group variants by style, in order of first appearance
+ *
+ * @param {T[]} variants - Variants (VariantData, VariantKey, ...)
+ * @returns {Map<IconStyle, T[]>} Variants of each style
+ */
+export function groupVariantsByStyle<T extends { style: IconStyle }>(
+  variants: T[]
+): Map<IconStyle, T[]> {
+  const groups = new Map<IconStyle, T[]>();
+  for (const variant of variants) {
+    const group = groups.get(variant.style);
+    if (group) {
+      group.push(variant);
+    } else {
+      groups.set(variant.style, [variant]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Variant profile a style set is generated with and measured against
+ *
+ * @param {VariantProfile} profile - Profile of the whole icon
+ * @param {IconStyle} style - Style the set holds
+ * @returns {VariantProfile} The profile restricted to `style`
+ */
+export function getStyleSetProfile(profile: VariantProfile, style: IconStyle): VariantProfile {
+  return normalizeVariantProfile({ ...profile, styles: [style] });
+}
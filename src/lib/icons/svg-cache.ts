@@ -0,0 +1,325 @@
+/**
+ * @module @figma/icons/svg-cache
+ *
+ * Persistent SVG cache in `figma.clientStorage`, keyed by commit SHA and file.
+ *
+ * Without a cache every re-run (and every retry after a rate limit) downloads
+ * all of an icon's variants again even though the pinned commit has not
+ * changed. `batchFetchSVGs` consults the cache before fetching and stores what
+ * it downloads, so only variants that are actually missing hit the network.
+ *
+ * **Keys**:
+ * `<commitSha>:<icon>/<style dir>/<filename>` (see `generateSvgPath`). The
+ * style directory is part of the key because upstream filenames are the same
+ * for every style. Content at a commit never changes, so entries never go
+ * stale; entries for old commits simply age out.
+ *
+ * **Size and eviction**:
+ * - clientStorage has a small per-plugin quota shared with the queue and
+ *   settings, so the cache is capped (`maxBytes`, 4 MB by default)
+ * - Size is counted as key + content length
+ * - Least recently used entries are evicted first; eviction frees down to 90%
+ *   of the cap so it doesn't run on every insert once the cache is full
+ *
+ * **Storage layout**:
+ * - `CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX`: `[key, size]` pairs, least recently used first
+ * - `CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + key`: SVG content
+ * - The index is written by `flush()` (once per batch), not on every access
+ *
+ * **Errors**:
+ * Storage errors (e.g. the clientStorage quota) are logged and otherwise
+ * ignored: a failed read is a miss and a failed write leaves the SVG uncached,
+ * so the cache never changes the outcome of a fetch.
+ *
+ * @example
+ * ```typescript
+ * const cache = new SvgCache();
+ * const { results } = await batchFetchSVGs(items, { cache: cache.forCommit(commitSha) });
+ * const stats = await cache.getStats(); // { entries, bytes, maxBytes, hits, misses, evictions }
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { CLIENT_STORAGE_KEYS } from '@lib/constants';
+import { generateSvgPath, type IconStyle, type IconVariant } from '@lib/github';
+import type { SvgCacheStats } from '@/types';
+
+/**
+ * Minimal storage interface (subset of `figma.clientStorage`)
+ *
+ * @interface SvgCacheStorage
+ */
+export interface SvgCacheStorage {
+  getAsync(key: string): Promise<unknown>;
+  setAsync(key: string, value: unknown): Promise<void>;
+  deleteAsync(key: string): Promise<void>;
+  keysAsync(): Promise<string[]>;
+}
+
+/**
+ * Variant identity used for cache keys
+ */
+export interface SvgCacheItem {
+  iconName: string;
+  style: IconStyle;
+  variant: IconVariant;
+}
+
+/**
+ * Cache bound to one commit (what `batchFetchSVGs` receives)
+ *
+ * @interface SvgCommitCache
+ */
+export interface SvgCommitCache {
+  get(item: SvgCacheItem): Promise<string | null>;
+  set(item: SvgCacheItem, svgContent: string): Promise<void>;
+  flush(): Promise<void>;
+}
+
+/**
+ * SVG cache configuration
+ *
+ * @interface SvgCacheConfig
+ * @property {SvgCacheStorage} [storage] - Storage backend (defaults to figma.clientStorage)
+ * @property {number} [maxBytes] - Size cap (defaults to `DEFAULT_SVG_CACHE_MAX_BYTES`)
+ */
+export interface SvgCacheConfig {
+  storage?: SvgCacheStorage;
+  maxBytes?: number;
+}
+
+/**
+ * Default size cap (clientStorage quota is a few MB per plugin)
+ */
+export const DEFAULT_SVG_CACHE_MAX_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Fraction of the cap eviction frees down to
+ */
+const EVICTION_TARGET = 0.9;
+
+/**
+ * Cache key for a variant at a commit
+ *
+ * @param {string} commitSha - Commit the SVG was fetched at
+ * @param {SvgCacheItem} item - Variant
+ * @returns {string} e.g. "bb04090f…:home/materialsymbolsrounded/home_24px.svg"
+ */
+export function getSvgCacheKey(commitSha: string, item: SvgCacheItem): string {
+  return `${commitSha}:${generateSvgPath(item.iconName, item.style, item.variant)}`;
+}
+
+/**
+ * LRU cache of SVG content in clientStorage
+ *
+ * @class SvgCache
+ */
+export class SvgCache {
+  private readonly storage: SvgCacheStorage;
+  private readonly maxBytes: number;
+  /** Key → size, in least-recently-used-first order (Map keeps insertion order) */
+  private entries = new Map<string, number>();
+  private bytes = 0;
+  private loaded: Promise<void> | null = null;
+  private dirty = false;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(config: SvgCacheConfig = {}) {
+    this.storage = config.storage || figma.clientStorage;
+    this.maxBytes = config.maxBytes ?? DEFAULT_SVG_CACHE_MAX_BYTES;
+  }
+
+  /**
+   * Load the index once (later calls share the same promise)
+   *
+   * @private
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.storage
+        .getAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX)
+        .then((stored) => {
+          for (const [key, size] of (stored as Array<[string, number]> | undefined) || []) {
+            this.entries.set(key, size);
+            this.bytes += size;
+          }
+        })
+        .catch((error) => {
+          logger.warn('Failed to load SVG cache index, starting empty:', error);
+        });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Mark a key as most recently used
+   *
+   * @private
+   */
+  private touch(key: string, size: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, size);
+    this.dirty = true;
+  }
+
+  /**
+   * Drop a key from the index and storage
+   *
+   * @private
+   */
+  private async remove(key: string): Promise<void> {
+    const size = this.entries.get(key);
+    if (size === undefined) {
+      return;
+    }
+    this.entries.delete(key);
+    this.bytes -= size;
+    this.dirty = true;
+    try {
+      await this.storage.deleteAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + key);
+    } catch (error) {
+      logger.warn(`Failed to remove cached ${key}:`, error);
+    }
+  }
+
+  /**
+   * Get a cached SVG
+   *
+   * @param {string} commitSha - Commit SHA
+   * @param {SvgCacheItem} item - Variant
+   * @returns {Promise<string | null>} SVG content, or null on a miss
+   */
+  async get(commitSha: string, item: SvgCacheItem): Promise<string | null> {
+    await this.load();
+    const key = getSvgCacheKey(commitSha, item);
+    const size = this.entries.get(key);
+
+    if (size !== undefined) {
+      let content: unknown;
+      try {
+        content = await this.storage.getAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + key);
+      } catch (error) {
+        logger.warn(`Failed to read cached ${key}:`, error);
+      }
+      if (typeof content === 'string') {
+        this.hits++;
+        this.touch(key, size);
+        return content;
+      }
+      // Index and storage disagree (e.g. interrupted write) - forget the entry
+      await this.remove(key);
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  /**
+   * Store an SVG, evicting least recently used entries if over the cap
+   *
+   * @param {string} commitSha - Commit SHA
+   * @param {SvgCacheItem} item - Variant
+   * @param {string} svgContent - SVG content
+   */
+  async set(commitSha: string, item: SvgCacheItem, svgContent: string): Promise<void> {
+    await this.load();
+    const key = getSvgCacheKey(commitSha, item);
+    const size = key.length + svgContent.length;
+
+    if (size > this.maxBytes || this.entries.has(key)) {
+      return;
+    }
+
+    if (this.bytes + size > this.maxBytes) {
+      const target = this.maxBytes * EVICTION_TARGET - size;
+      for (const oldest of Array.from(this.entries.keys())) {
+        if (this.bytes <= target) {
+          break;
+        }
+        await this.remove(oldest);
+        this.evictions++;
+      }
+    }
+
+    try {
+      await this.storage.setAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX + key, svgContent);
+      this.entries.set(key, size);
+      this.bytes += size;
+      this.dirty = true;
+    } catch (error) {
+      logger.warn(`Failed to cache ${key}:`, error);
+    }
+  }
+
+  /**
+   * Persist the index if it changed
+   */
+  async flush(): Promise<void> {
+    await this.load();
+    if (!this.dirty) {
+      return;
+    }
+    this.dirty = false;
+    try {
+      await this.storage.setAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX, Array.from(this.entries));
+    } catch (error) {
+      this.dirty = true;
+      logger.warn('Failed to save SVG cache index:', error);
+    }
+  }
+
+  /**
+   * Remove every cached SVG (including entries missing from the index)
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    const keys = await this.storage.keysAsync();
+    for (const key of keys) {
+      if (key.startsWith(CLIENT_STORAGE_KEYS.SVG_CACHE_PREFIX)) {
+        await this.storage.deleteAsync(key);
+      }
+    }
+    await this.storage.deleteAsync(CLIENT_STORAGE_KEYS.SVG_CACHE_INDEX);
+
+    logger.info(`Cleared SVG cache (${this.entries.size} entries)`);
+    this.entries.clear();
+    this.bytes = 0;
+    this.dirty = false;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  /**
+   * Size and session hit/miss counts
+   *
+   * @returns {Promise<SvgCacheStats>} Cache statistics
+   */
+  async getStats(): Promise<SvgCacheStats> {
+    await this.load();
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * View of the cache for one commit (for `batchFetchSVGs`)
+   *
+   * @param {string} commitSha - Commit SHA
+   * @returns {SvgCommitCache} Commit-bound cache
+   */
+  forCommit(commitSha: string): SvgCommitCache {
+    return {
+      get: (item) => this.get(commitSha, item),
+      set: (item, svgContent) => this.set(commitSha, item, svgContent),
+      flush: () => this.flush(),
+    };
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * @module @figma/icons/svg-interpolation
+ *
+ * Deriving in-between weights and grades from upstream SVG outlines.
+ *
+ * Upstream only publishes SVGs for weights 100-700 (steps of 100) and grades
+ * -25/0/200. Material Symbols are drawn from a variable font, so neighbouring
+ * masters usually share their point structure; when they do, an intermediate
+ * variant (e.g. weight 350, grade 100) is a linear blend of the neighbours'
+ * path coordinates - bilinear when both axes are in between.
+ *
+ * **Compatibility** (otherwise `SvgInterpolationError`):
+ * - Everything outside `d` attributes is identical across the neighbours
+ * - Each path has the same command sequence and argument count
+ * - Arc flags match (they can't be blended)
+ *
+ * Interpolated variants are named like any other (`Weight=350`, `Grade=100`)
+ * and carry `PLUGIN_DATA_KEYS.INTERPOLATED_FROM` so they are never mistaken
+ * for downloaded ones.
+ *
+ * @example
+ * ```typescript
+ * const variant = { weight: 350, grade: 100, fill: 0, opticalSize: 24 };
+ * const svg = interpolateIconSvg('home', 'rounded', variant, (corner) =>
+ *   neighbours.get(`${corner.weight}/${corner.grade}`)
+ * );
+ * ```
+ */
+
+import { SvgInterpolationError } from '@lib/utils/errors';
+import { isLegacyStyle, type IconStyle, type IconVariant } from '@lib/github/url-generator';
+import { FULL_VARIANT_PROFILE, type VariantProfile } from './variant-profile';
+import { getVariantName } from './variant-formatter';
+
+/**
+ * Variant whose weight and grade may sit between the upstream values
+ *
+ * @interface InterpolatedVariant
+ */
+export interface InterpolatedVariant {
+  fill: IconVariant['fill'];
+  weight: number;
+  grade: number;
+  opticalSize: IconVariant['opticalSize'];
+}
+
+/**
+ * Intermediate axis values to derive
+ *
+ * @interface InterpolationAxes
+ * @property {number[]} weights - Weights between 100 and 700 (e.g. 350)
+ * @property {number[]} grades - Grades between -25 and 200 (e.g. 100)
+ */
+export interface InterpolationAxes {
+  weights: number[];
+  grades: number[];
+}
+
+/**
+ * Where an interpolated outline came from (stored on the variant)
+ *
+ * @interface InterpolationSource
+ * @property {[number, number]} weights - Upstream weights blended (equal when on the grid)
+ * @property {[number, number]} grades - Upstream grades blended (equal when on the grid)
+ * @property {number} weightT - Position between the two weights (0-1)
+ * @property {number} gradeT - Position between the two grades (0-1)
+ */
+export interface InterpolationSource {
+  weights: [number, number];
+  grades: [number, number];
+  weightT: number;
+  gradeT: number;
+}
+
+/**
+ * Variant to derive, with its style
+ *
+ * @interface InterpolationTarget
+ */
+export interface InterpolationTarget {
+  style: IconStyle;
+  variant: InterpolatedVariant;
+}
+
+/** Upstream weights, ascending */
+const UPSTREAM_WEIGHTS: number[] = [...FULL_VARIANT_PROFILE.weights].sort((a, b) => a - b);
+
+/** Upstream grades, ascending */
+const UPSTREAM_GRADES: number[] = [...FULL_VARIANT_PROFILE.grades].sort((a, b) => a - b);
+
+/** Decimal places kept in interpolated coordinates */
+const COORDINATE_PRECISION = 1000;
+
+/** `d` attribute (value in group 3) */
+const PATH_DATA = /(\sd\s*=\s*)(["'])([\s\S]*?)\2/g;
+
+/** Path command with its argument text */
+const PATH_COMMAND = /([MmZzLlHhVvCcSsQqTtAa])([^MmZzLlHhVvCcSsQqTtAa]*)/g;
+
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+/**
+ * Path command and its numeric arguments
+ */
+interface PathSegment {
+  command: string;
+  values: number[];
+}
+
+/**
+ * SVG split into fixed markup and parsed path data
+ */
+interface ParsedOutline {
+  /** Markup around the `d` values (`paths.length + 1` pieces) */
+  markup: string[];
+  paths: PathSegment[][];
+}
+
+/**
+ * Whether an arc argument (index within its 7-value group) is a flag
+ */
+function isArcFlag(command: string, index: number): boolean {
+  return (command === 'A' || command === 'a') && (index % 7 === 3 || index % 7 === 4);
+}
+
+/**
+ * Parse path data into commands and numbers
+ *
+ * Arc flags are single digits and may be written without separators
+ * (`a5 5 0 015 5`), so they are read one character at a time.
+ *
+ * @returns {PathSegment[] | string} Segments, or why the data doesn't parse
+ */
+function parsePathData(d: string): PathSegment[] | string {
+  const segments: PathSegment[] = [];
+  const commands = new RegExp(PATH_COMMAND.source, 'g');
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = commands.exec(d))) {
+    if (d.slice(consumed, match.index).trim() !== '') {
+      return `unexpected "${d.slice(consumed, match.index).trim()}"`;
+    }
+    consumed = match.index + match[0].length;
+
+    const [, command, args] = match;
+    const values: number[] = [];
+    let position = 0;
+    for (;;) {
+      while (position < args.length && /[\s,]/.test(args[position])) {
+        position++;
+      }
+      if (position >= args.length) {
+        break;
+      }
+      if (isArcFlag(command, values.length)) {
+        if (args[position] !== '0' && args[position] !== '1') {
+          return `bad arc flag in "${command}${args.trim()}"`;
+        }
+        values.push(Number(args[position++]));
+        continue;
+      }
+      NUMBER.lastIndex = position;
+      const number = NUMBER.exec(args);
+      if (!number) {
+        return `bad number in "${command}${args.trim()}"`;
+      }
+      values.push(Number(number[0]));
+      position = NUMBER.lastIndex;
+    }
+    segments.push({ command, values });
+  }
+
+  if (d.slice(consumed).trim() !== '') {
+    return `unexpected "${d.slice(consumed).trim()}"`;
+  }
+  return segments;
+}
+
+/**
+ * Split an SVG into fixed markup and parsed path data
+ *
+ * @returns {ParsedOutline | string} Outline, or why it can't be interpolated
+ */
+function parseOutline(svgContent: string): ParsedOutline | string {
+  const outline: ParsedOutline = { markup: [], paths: [] };
+  const pathData = new RegExp(PATH_DATA.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pathData.exec(svgContent))) {
+    const valueStart = match.index + match[1].length + 1;
+    outline.markup.push(svgContent.slice(lastIndex, valueStart));
+    const segments = parsePathData(match[3]);
+    if (typeof segments === 'string') {
+      return `path ${outline.paths.length + 1}: ${segments}`;
+    }
+    outline.paths.push(segments);
+    lastIndex = valueStart + match[3].length;
+  }
+  outline.markup.push(svgContent.slice(lastIndex));
+
+  return outline.paths.length > 0 ? outline : 'no path data';
+}
+
+/**
+ * Why two outlines can't be blended, or null if they can
+ */
+function describeMismatch(a: ParsedOutline, b: ParsedOutline): string | null {
+  if (a.paths.length !== b.paths.length) {
+    return `${a.paths.length} vs ${b.paths.length} paths`;
+  }
+  if (a.markup.some((piece, i) => piece !== b.markup[i])) {
+    return 'markup outside the path data differs';
+  }
+  for (let p = 0; p < a.paths.length; p++) {
+    const [pathA, pathB] = [a.paths[p], b.paths[p]];
+    if (pathA.length !== pathB.length) {
+      return `path ${p + 1}: ${pathA.length} vs ${pathB.length} commands`;
+    }
+    for (let s = 0; s < pathA.length; s++) {
+      const [segA, segB] = [pathA[s], pathB[s]];
+      if (segA.command !== segB.command || segA.values.length !== segB.values.length) {
+        return `path ${p + 1}: point structure differs at command ${s + 1} (${segA.command} vs ${segB.command})`;
+      }
+      if (segA.values.some((v, i) => isArcFlag(segA.command, i) && v !== segB.values[i])) {
+        return `path ${p + 1}: arc flags differ at command ${s + 1}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Blend two compatible outlines (`t` = 0 gives `a`, 1 gives `b`)
+ */
+function blendOutlines(a: ParsedOutline, b: ParsedOutline, t: number): ParsedOutline {
+  if (t === 0) return a;
+  if (t === 1) return b;
+  return {
+    markup: a.markup,
+    paths: a.paths.map((path, p) =>
+      path.map((segment, s) => ({
+        command: segment.command,
+        values: segment.values.map((value, i) =>
+          isArcFlag(segment.command, i) ? value : value + (b.paths[p][s].values[i] - value) * t
+        ),
+      }))
+    ),
+  };
+}
+
+/**
+ * Serialise an outline back to SVG markup
+ */
+function serializeOutline(outline: ParsedOutline): string {
+  const d = (path: PathSegment[]) =>
+    path
+      .map(
+        ({ command, values }) =>
+          command +
+          values
+            .map((value) => String(Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION))
+            .join(' ')
+      )
+      .join('');
+  return outline.markup
+    .map((piece, i) => piece + (i < outline.paths.length ? d(outline.paths[i]) : ''))
+    .join('');
+}
+
+/**
+ * Upstream values on either side of an axis value
+ *
+ * @returns {[number, number, number] | null} Lower, upper and position between them,
+ *   or null outside the upstream range
+ */
+function bracket(value: number, grid: number[]): [number, number, number] | null {
+  if (value < grid[0] || value > grid[grid.length - 1]) {
+    return null;
+  }
+  const upper = grid.find((g) => g >= value) as number;
+  if (upper === value) {
+    return [value, value, 0];
+  }
+  const lower = grid[grid.indexOf(upper) - 1];
+  return [lower, upper, (value - lower) / (upper - lower)];
+}
+
+/**
+ * Whether a variant's weight or grade is between upstream values
+ *
+ * @param {InterpolatedVariant} variant - Variant to check
+ * @returns {boolean} True if it has to be interpolated
+ */
+export function isInterpolatedVariant(variant: InterpolatedVariant): boolean {
+  return !UPSTREAM_WEIGHTS.includes(variant.weight) || !UPSTREAM_GRADES.includes(variant.grade);
+}
+
+/**
+ * Check intermediate axis values
+ *
+ * @param {InterpolationAxes} axes - Values to derive
+ * @returns {string[]} Problems (empty when valid)
+ */
+export function validateInterpolationAxes(axes: InterpolationAxes): string[] {
+  const errors: string[] = [];
+  const [minWeight, maxWeight] = [
+    UPSTREAM_WEIGHTS[0],
+    UPSTREAM_WEIGHTS[UPSTREAM_WEIGHTS.length - 1],
+  ];
+  const [minGrade, maxGrade] = [UPSTREAM_GRADES[0], UPSTREAM_GRADES[UPSTREAM_GRADES.length - 1]];
+
+  for (const weight of axes.weights) {
+    if (!Number.isInteger(weight) || weight < minWeight || weight > maxWeight) {
+      errors.push(`Weight ${weight} must be a whole number from ${minWeight} to ${maxWeight}`);
+    }
+  }
+  for (const grade of axes.grades) {
+    if (!Number.isInteger(grade) || grade < minGrade || grade > maxGrade) {
+      errors.push(`Grade ${grade} must be a whole number from ${minGrade} to ${maxGrade}`);
+    }
+  }
+  if (axes.weights.length === 0 && axes.grades.length === 0) {
+    errors.push('Choose at least one weight or grade to interpolate');
+  }
+  return errors;
+}
+
+/**
+ * Where an intermediate variant's outline comes from
+ *
+ * @param {InterpolatedVariant} variant - Variant to derive
+ * @returns {InterpolationSource | null} Neighbours and positions, or null outside the upstream range
+ */
+export function getInterpolationSource(variant: InterpolatedVariant): InterpolationSource | null {
+  const weight = bracket(variant.weight, UPSTREAM_WEIGHTS);
+  const grade = bracket(variant.grade, UPSTREAM_GRADES);
+  if (!weight || !grade) {
+    return null;
+  }
+  return {
+    weights: [weight[0], weight[1]],
+    grades: [grade[0], grade[1]],
+    weightT: weight[2],
+    gradeT: grade[2],
+  };
+}
+
+/**
+ * Upstream variants an intermediate variant is blended from (1, 2 or 4)
+ *
+ * @param {InterpolatedVariant} variant - Variant to derive
+ * @returns {IconVariant[]} Neighbouring upstream variants (empty outside the upstream range)
+ */
+export function getInterpolationCorners(variant: InterpolatedVariant): IconVariant[] {
+  const source = getInterpolationSource(variant);
+  if (!source) {
+    return [];
+  }
+
+  const corners: IconVariant[] = [];
+  for (const grade of source.grades) {
+    for (const weight of source.weights) {
+      if (!corners.some((c) => c.weight === weight && c.grade === grade)) {
+        corners.push({
+          fill: variant.fill,
+          weight: weight as IconVariant['weight'],
+          grade: grade as IconVariant['grade'],
+          opticalSize: variant.opticalSize,
+        });
+      }
+    }
+  }
+  return corners;
+}
+
+/**
+ * Intermediate variants to derive for an icon's variant profile
+ *
+ * Fills and optical sizes come from the profile; weights and grades are the
+ * profile's plus the requested ones. Only combinations with an intermediate
+ * value are returned, and legacy styles (no weight/grade axes) are left out.
+ *
+ * @param {VariantProfile} profile - Variants the icon was generated with
+ * @param {InterpolationAxes} axes - Intermediate values to add
+ * @returns {InterpolationTarget[]} Variants to derive
+ */
+export function getInterpolationTargets(
+  profile: VariantProfile,
+  axes: InterpolationAxes
+): InterpolationTarget[] {
+  const unique = (values: number[]) =>
+    values.filter((v, i) => values.indexOf(v) === i).sort((a, b) => a - b);
+  const weights = unique([...profile.weights, ...axes.weights]);
+  const grades = unique([...profile.grades, ...axes.grades]);
+
+  const targets: InterpolationTarget[] = [];
+  for (const style of profile.styles.filter((s) => !isLegacyStyle(s))) {
+    for (const weight of weights) {
+      for (const fill of profile.fills) {
+        for (const grade of grades) {
+          for (const opticalSize of profile.opticalSizes) {
+            const variant = { fill, weight, grade, opticalSize };
+            if (isInterpolatedVariant(variant)) {
+              targets.push({ style, variant });
+            }
+          }
+        }
+      }
+    }
+  }
+  return targets;
+}
+
+/**
+ * Derive an intermediate variant's SVG from its upstream neighbours
+ *
+ * @param {string} iconName - Icon name (for errors)
+ * @param {IconStyle} style - Icon style
+ * @param {InterpolatedVariant} variant - Variant to derive
+ * @param {Function} getSvg - Upstream SVG for a neighbouring variant (undefined if unavailable)
+ * @returns {string} Interpolated SVG
+ * @throws {SvgInterpolationError} If a neighbour is missing or the outlines don't line up
+ */
+export function interpolateIconSvg(
+  iconName: string,
+  style: IconStyle,
+  variant: InterpolatedVariant,
+  getSvg: (corner: IconVariant) => string | undefined
+): string {
+  const variantName = getVariantName({
+    iconName,
+    style,
+    variant: variant as IconVariant,
+    svgContent: '',
+  });
+  const fail = (reason: string) => new SvgInterpolationError(iconName, variantName, reason);
+
+  const source = getInterpolationSource(variant);
+  if (!source) {
+    throw fail('weight or grade is outside the upstream range');
+  }
+
+  const outline = (weight: number, grade: number): ParsedOutline => {
+    const svg = getSvg({
+      fill: variant.fill,
+      weight: weight as IconVariant['weight'],
+      grade: grade as IconVariant['grade'],
+      opticalSize: variant.opticalSize,
+    });
+    if (svg === undefined) {
+      throw fail(`neighbour weight ${weight}, grade ${grade} is not available`);
+    }
+    const parsed = parseOutline(svg);
+    if (typeof parsed === 'string') {
+      throw fail(`neighbour weight ${weight}, grade ${grade}: ${parsed}`);
+    }
+    return parsed;
+  };
+  const blend = (a: ParsedOutline, b: ParsedOutline, t: number, between: string) => {
+    const mismatch = describeMismatch(a, b);
+    if (mismatch) {
+      throw fail(`${between} are not compatible (${mismatch})`);
+    }
+    return blendOutlines(a, b, t);
+  };
+
+  const [w0, w1] = source.weights;
+  const [g0, g1] = source.grades;
+  const alongWeight = (grade: number) =>
+    w0 === w1
+      ? outline(w0, grade)
+      : blend(outline(w0, grade), outline(w1, grade), source.weightT, `weights ${w0} and ${w1}`);
+
+  const result =
+    g0 === g1
+      ? alongWeight(g0)
+      : blend(alongWeight(g0), alongWeight(g1), source.gradeT, `grades ${g0} and ${g1}`);
+  return serializeOutline(result);
+}
@@ -0,0 +1,328 @@
+/**
+ * @module @figma/icons/svg-sanitizer
+ *
+ * Validation and sanitisation of downloaded SVGs before node creation.
+ *
+ * `figma.createNodeFromSvg()` either throws or returns nothing useful for bad
+ * input, and happily imports things an icon should never contain (scripts,
+ * `<foreignObject>`, hard-coded colours). Every variant goes through
+ * `sanitizeSvg()` first, so a broken download is reported as a
+ * `SvgValidationError` naming the variant and the failed check instead of the
+ * variant silently going missing.
+ *
+ * **Checks** (failures throw `SvgValidationError`):
+ * - `malformed`: the markup must parse (balanced tags, nothing outside the root)
+ * - `not-svg`: the root element must be `<svg>`
+ * - `viewbox`: a square `viewBox`, and `width`/`height` (when present) equal to
+ *   the optical size
+ * - `no-path`: at least one `<path>` with data
+ *
+ * **Sanitisation**:
+ * - Drops `<script>`, `<style>`, `<foreignObject>` and any element that is not
+ *   plain vector geometry, with its contents
+ * - Drops `on*` event attributes and external `href`s
+ * - Normalises every fill/stroke colour (including `currentColor`) to black;
+ *   `none` and `url(#...)` references are kept. Icon colour is applied later
+ *   through variables, not taken from the SVG
+ *
+ * No DOM is available in the plugin sandbox, so parsing is a small tag scanner
+ * rather than `DOMParser`.
+ *
+ * @example
+ * ```typescript
+ * const { svg, removed, recoloured } = sanitizeSvg(svgContent, {
+ *   iconName: 'home',
+ *   variantName: getVariantName(variantData),
+ *   opticalSize: 24,
+ * });
+ * figma.createNodeFromSvg(svg);
+ * ```
+ */
+
+import { SvgValidationError } from '@lib/utils/errors';
+
+/**
+ * What a variant's SVG is checked against
+ *
+ * @interface SvgExpectations
+ * @property {string} iconName - Icon name (for errors)
+ * @property {string} variantName - Variant name (for errors)
+ * @property {number} opticalSize - Expected width/height in px
+ */
+export interface SvgExpectations {
+  iconName: string;
+  variantName: string;
+  opticalSize: number;
+}
+
+/**
+ * Sanitised SVG
+ *
+ * @interface SanitizedSvg
+ * @property {string} svg - Markup to pass to `createNodeFromSvg`
+ * @property {string[]} removed - What was stripped (e.g. "<script>", "onload")
+ * @property {number} recoloured - Colour values replaced
+ */
+export interface SanitizedSvg {
+  svg: string;
+  removed: string[];
+  recoloured: number;
+}
+
+/**
+ * Parsed element
+ */
+interface SvgElement {
+  name: string;
+  attributes: Array<[string, string]>;
+  children: SvgElement[];
+}
+
+/**
+ * Elements that make up icon geometry; everything else is dropped
+ */
+const ALLOWED_ELEMENTS = new Set([
+  'svg',
+  'g',
+  'path',
+  'circle',
+  'ellipse',
+  'rect',
+  'line',
+  'polyline',
+  'polygon',
+  'defs',
+  'clipPath',
+  'mask',
+  'use',
+  'linearGradient',
+  'radialGradient',
+  'stop',
+]);
+
+/**
+ * Attributes (and style properties) holding a paint colour
+ */
+const COLOR_PROPERTIES = new Set(['fill', 'stroke', 'color', 'stop-color']);
+
+/**
+ * Opening/closing tag, or markup that is skipped (comments, CDATA, `<?xml`, DOCTYPE)
+ */
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/;
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/;
+
+/**
+ * Parse markup into an element tree
+ *
+ * @returns {SvgElement | string} Root element, or why the markup doesn't parse
+ */
+function parseSvg(markup: string): SvgElement | string {
+  const stack: SvgElement[] = [];
+  let root: SvgElement | null = null;
+  let lastIndex = 0;
+  const tokens = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(markup))) {
+    const between = markup.slice(lastIndex, match.index);
+    if (between.includes('<')) {
+      return `unexpected "<" at offset ${lastIndex + between.indexOf('<')}`;
+    }
+    if (stack.length === 0 && between.trim() !== '') {
+      return 'text outside the root element';
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [, closing, name, attributeText, selfClosing] = match;
+    if (!name) {
+      continue; // comment, CDATA, processing instruction or DOCTYPE
+    }
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        return `unexpected </${name}>`;
+      }
+      continue;
+    }
+
+    if (root && stack.length === 0) {
+      return 'more than one root element';
+    }
+
+    const element: SvgElement = { name, attributes: [], children: [] };
+    const attributePattern = new RegExp(ATTRIBUTE_PATTERN.source, 'g');
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(attributeText))) {
+      const [, attrName, doubleQuoted, singleQuoted, bare] = attribute;
+      element.attributes.push([attrName, doubleQuoted ?? singleQuoted ?? bare ?? '']);
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else {
+      root = element;
+    }
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  const rest = markup.slice(lastIndex);
+  if (rest.includes('<') || (stack.length === 0 && rest.trim() !== '')) {
+    return 'trailing content after the root element';
+  }
+  if (stack.length > 0) {
+    return `unclosed <${stack[stack.length - 1].name}>`;
+  }
+  return root ?? 'no elements';
+}
+
+/**
+ * Replace a paint colour with black (keeping `none` and paint-server references)
+ *
+ * @returns {string | null} New value, or null if unchanged
+ */
+function normalizeColor(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^(none|transparent|inherit)$/i.test(trimmed) || /^url\(\s*['"]?#/i.test(trimmed)) {
+    return null;
+  }
+  return trimmed.toLowerCase() === '#000000' ? null : '#000000';
+}
+
+/**
+ * Strip unsafe content and normalise colours in place
+ */
+function sanitizeElement(element: SvgElement, result: SanitizedSvg): void {
+  const attributes: Array<[string, string]> = [];
+
+  for (const [name, value] of element.attributes) {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('on')) {
+      result.removed.push(name);
+      continue;
+    }
+    if ((lower === 'href' || lower === 'xlink:href') && !value.trim().startsWith('#')) {
+      result.removed.push(name);
+      continue;
+    }
+
+    if (COLOR_PROPERTIES.has(lower)) {
+      const color = normalizeColor(value);
+      if (color !== null) {
+        result.recoloured++;
+        attributes.push([name, color]);
+        continue;
+      }
+    } else if (lower === 'style') {
+      const declarations = value
+        .split(';')
+        .map((declaration) => declaration.trim())
+        .filter(Boolean)
+        .map((declaration) => {
+          const [property, ...rest] = declaration.split(':');
+          const color = COLOR_PROPERTIES.has(property.trim().toLowerCase())
+            ? normalizeColor(rest.join(':'))
+            : null;
+          if (color === null) {
+            return declaration;
+          }
+          result.recoloured++;
+          return `${property.trim()}:${color}`;
+        });
+      attributes.push([name, declarations.join(';')]);
+      continue;
+    }
+
+    attributes.push([name, value]);
+  }
+  element.attributes = attributes;
+
+  element.children = element.children.filter((child) => {
+    if (!ALLOWED_ELEMENTS.has(child.name)) {
+      result.removed.push(`<${child.name}>`);
+      return false;
+    }
+    sanitizeElement(child, result);
+    return true;
+  });
+}
+
+/**
+ * Serialise an element tree
+ */
+function serialize(element: SvgElement): string {
+  const attributes = element.attributes
+    .map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`)
+    .join('');
+  return element.children.length > 0
+    ? `<${element.name}${attributes}>${element.children.map(serialize).join('')}</${element.name}>`
+    : `<${element.name}${attributes}/>`;
+}
+
+/**
+ * Whether any element in the tree is a `<path>` with data
+ */
+function hasPath(element: SvgElement): boolean {
+  if (element.name === 'path') {
+    const d = element.attributes.find(([name]) => name === 'd');
+    if (d && d[1].trim() !== '') {
+      return true;
+    }
+  }
+  return element.children.some(hasPath);
+}
+
+/**
+ * Validate and sanitise a variant's SVG
+ *
+ * @param {string} svgContent - Downloaded SVG
+ * @param {SvgExpectations} expected - Icon, variant and optical size
+ * @returns {SanitizedSvg} Markup safe to pass to `createNodeFromSvg`
+ * @throws {SvgValidationError} If the SVG fails a check
+ */
+export function sanitizeSvg(svgContent: string, expected: SvgExpectations): SanitizedSvg {
+  const fail = (problem: SvgValidationError['problem'], reason: string) =>
+    new SvgValidationError(expected.iconName, expected.variantName, problem, reason);
+
+  const root = parseSvg(svgContent);
+  if (typeof root === 'string') {
+    throw fail('malformed', `SVG does not parse (${root})`);
+  }
+  if (root.name !== 'svg') {
+    throw fail('not-svg', `root element is <${root.name}>, not <svg>`);
+  }
+
+  const attribute = (name: string) => root.attributes.find(([attr]) => attr === name)?.[1];
+
+  const viewBox = attribute('viewBox');
+  const box = viewBox
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (!box || box.length !== 4 || box.some(Number.isNaN) || box[2] <= 0 || box[2] !== box[3]) {
+    throw fail('viewbox', viewBox ? `viewBox "${viewBox}" is not square` : 'missing viewBox');
+  }
+  for (const dimension of ['width', 'height']) {
+    const value = attribute(dimension);
+    if (value !== undefined && parseFloat(value) !== expected.opticalSize) {
+      throw fail(
+        'viewbox',
+        `${dimension} "${value}" does not match optical size ${expected.opticalSize}`
+      );
+    }
+  }
+
+  const result: SanitizedSvg = { svg: '', removed: [], recoloured: 0 };
+  sanitizeElement(root, result);
+
+  if (!hasPath(root)) {
+    throw fail('no-path', 'SVG contains no <path>');
+  }
+
+  result.svg = serialize(root);
+  return result;
+}
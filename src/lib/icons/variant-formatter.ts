@@ -9,6 +9,7 @@
  *
  * **Naming Convention**:
  * Variants follow Material Design naming: `Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp`
+ * unless another naming schema is active (see `variant-schema.ts`).
  *
  * **Default Variant**:
  * The default variant is Rounded/400/Off/Normal/24dp, matching Material Design guidelines.
@@ -52,7 +53,9 @@
  */
 
 import { logger } from '@lib/utils';
+import type { IconStyle } from '@lib/github';
 import { findBestDefaultVariant } from './variant-utils';
+import { formatVariantKey, type VariantNameOptions } from './variant-schema';
 import type { VariantData } from './generator';
 
 /**
@@ -78,6 +81,51 @@ export const DEFAULT_VARIANT = {
   opticalSize: '24dp',
 } as const;
 
+/**
+ * Style names used in variant names
+ *
+ * Legacy Material Icons families are prefixed so they never collide with the
+ * Material Symbols style of the same name.
+ *
+ * @constant
+ */
+export const STYLE_NAMES: Record<IconStyle, string> = {
+  rounded: 'Rounded',
+  outlined: 'Outlined',
+  sharp: 'Sharp',
+  'legacy-filled': 'Legacy Filled',
+  'legacy-outlined': 'Legacy Outlined',
+  'legacy-round': 'Legacy Round',
+  'legacy-sharp': 'Legacy Sharp',
+  'legacy-two-tone': 'Legacy Two-tone',
+};
+
+/**
+ * Get the variant-name form of a style
+ *
+ * @param {IconStyle} style - Icon style
+ * @returns {string} e.g. "Rounded", "Legacy Two-tone"
+ */
+export function getStyleName(style: IconStyle): string {
+  return STYLE_NAMES[style];
+}
+
+/**
+ * Parse a style from a variant name value
+ *
+ * Accepts the display name ("Legacy Round") or the style id ("legacy-round"),
+ * case-insensitively.
+ *
+ * @param {string} name - Style value from a variant name
+ * @returns {IconStyle | undefined} Style, or undefined if unknown
+ */
+export function parseStyleName(name: string): IconStyle | undefined {
+  const lower = name.trim().toLowerCase();
+  return (Object.keys(STYLE_NAMES) as IconStyle[]).find(
+    (style) => style === lower || STYLE_NAMES[style].toLowerCase() === lower
+  );
+}
+
 /**
  * Get human-readable grade name
  *
@@ -88,6 +136,7 @@ export const DEFAULT_VARIANT = {
  * - **-25**: "Dark theme" - Slightly lighter weight for dark backgrounds
  * - **0**: "Normal" - Standard grade for most use cases
  * - **200**: "Emphasis" - Heavier appearance for emphasis
+ * - Anything else (interpolated grades) is named by its number, e.g. "100"
  *
  * @param {number} grade - Numeric grade value (-25, 0, or 200)
  * @returns {string} Human-readable grade name
@@ -105,25 +154,55 @@ export function getGradeName(grade: number): string {
       return 'Emphasis';
     case -25:
       return 'Dark theme';
-    default:
+    case 0:
       return 'Normal';
+    default:
+      // Interpolated grades have no upstream name
+      return String(grade);
+  }
+}
+
+/**
+ * Parse a grade from its variant-name form (inverse of `getGradeName`)
+ *
+ * @param {string} name - "Dark theme", "Normal", "Emphasis" or a number
+ * @returns {number | undefined} Grade, or undefined if unknown
+ *
+ * @example
+ * ```typescript
+ * parseGradeName('Emphasis'); // 200
+ * parseGradeName('100');      // 100
+ * parseGradeName('High');     // undefined
+ * ```
+ */
+export function parseGradeName(name: string): number | undefined {
+  switch (name) {
+    case 'Emphasis':
+      return 200;
+    case 'Dark theme':
+      return -25;
+    case 'Normal':
+      return 0;
+    default:
+      return /^-?\d+$/.test(name) ? parseInt(name, 10) : undefined;
   }
 }
 
 /**
  * Get formatted variant name for a component
  *
- * Generates a consistent variant name string following Material Design
- * conventions. The name includes all variant properties in a specific order.
+ * Generates a consistent variant name string with the active naming schema
+ * (`getVariantSchema()`). The default schema follows Material Design conventions.
  *
- * **Name Format**:
- * `Style={Rounded|Outlined|Sharp}, Weight={100-700}, Fill={On|Off}, Grade={Dark theme|Normal|Emphasis}, Optical size={20|24|40|48}dp`
+ * **Name Format** (default schema):
+ * `Style={Rounded|Outlined|Sharp|Legacy …}, Weight={100-700}, Fill={On|Off}, Grade={Dark theme|Normal|Emphasis}, Optical size={20|24|40|48}dp`
  *
  * **Naming Rules**:
- * - Style names are capitalized (Rounded, not rounded)
+ * - Style names come from `STYLE_NAMES` (Rounded, not rounded)
  * - Fill is On/Off (not 1/0)
  * - Grade uses descriptive names (not numeric values)
  * - Optical size includes "dp" suffix
+ * - Fill is left out for fill-property variants (`variantData.fillProperty`)
  *
  * @param {VariantData} variantData - Variant data with icon properties
  * @returns {string} Formatted variant name
@@ -151,20 +230,15 @@ export function getGradeName(grade: number): string {
  * ```
  */
 export function getVariantName(variantData: VariantData): string {
-  const styleName = variantData.style.charAt(0).toUpperCase() + variantData.style.slice(1);
-  return [
-    `Style=${styleName}`,
-    `Weight=${variantData.variant.weight}`,
-    `Fill=${variantData.variant.fill ? 'On' : 'Off'}`,
-    `Grade=${getGradeName(variantData.variant.grade)}`,
-    `Optical size=${variantData.variant.opticalSize}dp`,
-  ].join(', ');
+  return formatVariantKey({ style: variantData.style, variant: variantData.variant }, undefined, {
+    fillProperty: variantData.fillProperty,
+  });
 }
 
 /**
  * Get the default variant name
  *
- * Returns the formatted name for the default Material Icons variant.
+ * Returns the formatted name (active naming schema) for the default Material Icons variant.
  * This is the variant that should appear first in component sets and
  * be shown as the default preview in Figma.
  *
@@ -175,6 +249,7 @@ export function getVariantName(variantData: VariantData): string {
  * - Grade: Normal (standard)
  * - Optical size: 24dp (standard size)
  *
+ * @param {VariantNameOptions} [options={}] - Name options (`fillProperty` leaves Fill out)
  * @returns {string} Formatted default variant name
  *
  * @example
@@ -186,21 +261,23 @@ export function getVariantName(variantData: VariantData): string {
  * const isDefault = component.name === defaultName;
  * ```
  */
-export function getDefaultVariantName(): string {
-  return [
-    `Style=${DEFAULT_VARIANT.style}`,
-    `Weight=${DEFAULT_VARIANT.weight}`,
-    `Fill=${DEFAULT_VARIANT.fill}`,
-    `Grade=${DEFAULT_VARIANT.grade}`,
-    `Optical size=${DEFAULT_VARIANT.opticalSize}`,
-  ].join(', ');
+export function getDefaultVariantName(options: VariantNameOptions = {}): string {
+  return formatVariantKey(
+    {
+      style: 'rounded',
+      variant: { weight: 400, fill: 0, grade: 0, opticalSize: 24 },
+    },
+    undefined,
+    options
+  );
 }
 
 /**
  * Sort components array to put default variant first
  *
  * Modifies the components array in-place to ensure the default variant
- * appears first. Uses the canonical default variant name for matching.
+ * appears first. Uses the canonical default variant name for matching (with
+ * or without Fill, so sets with a Fill component property sort the same way).
  *
  * **Sort Order**:
  * 1. Default variant (Rounded/400/Off/Normal/24dp)
@@ -222,10 +299,10 @@ export function getDefaultVariantName(): string {
  * ```
  */
 export function sortComponentsForDefault(components: ComponentNode[]): void {
-  const defaultName = getDefaultVariantName();
+  const defaultNames = [getDefaultVariantName(), getDefaultVariantName({ fillProperty: true })];
   components.sort((a, b) => {
-    if (a.name === defaultName) return -1;
-    if (b.name === defaultName) return 1;
+    if (defaultNames.includes(a.name)) return -1;
+    if (defaultNames.includes(b.name)) return 1;
     return 0;
   });
 }
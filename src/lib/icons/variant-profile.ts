@@ -0,0 +1,365 @@
+/**
+ * @module @figma/icons/variant-profile
+ *
+ * Variant profiles: which subset of the Material Symbols variant matrix to generate.
+ *
+ * The full matrix is 3 styles × 7 weights × 2 fills × 3 grades × 4 optical sizes
+ * = 504 variants per icon. Teams that only use a slice of it (e.g. Rounded at
+ * 300/400/500 and 24dp) can pick a profile, and completeness is then measured
+ * against that profile instead of the full 504.
+ *
+ * **Legacy Material Icons**:
+ * Profiles may also include `legacy-*` styles. Those families have no weight,
+ * fill or grade axes, so each contributes one variant (weight 400, unfilled,
+ * grade 0) per profile optical size they publish (20dp, 24dp); the other axes
+ * only apply to Material Symbols styles.
+ *
+ * **Fill Property**:
+ * With `fillProperty`, Fill is a boolean component property instead of a
+ * variant axis (see `fill-property.ts`): both fills are still downloaded, but
+ * each pair becomes one component, so the full matrix is 252 variants per icon.
+ * It only applies to profiles with both fills.
+ *
+ * **Storage**:
+ * - The profile used to build an icon is stored as JSON on its ComponentSet
+ *   (`PLUGIN_DATA_KEYS.VARIANT_PROFILE`)
+ * - The user's chosen profile is persisted in clientStorage by the plugin
+ *
+ * @example Rounded-only product profile
+ * ```typescript
+ * const profile = normalizeVariantProfile({
+ *   styles: ['rounded'],
+ *   weights: [300, 400, 500],
+ *   fills: [0, 1],
+ *   grades: [0],
+ *   opticalSizes: [24],
+ * });
+ *
+ * getProfileVariantCount(profile); // 6
+ * isComponentSetComplete(componentSet, profile);
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import {
+  LEGACY_OPTICAL_SIZES,
+  LEGACY_STYLES,
+  isLegacyStyle,
+  type IconStyle,
+  type IconVariant,
+} from '@lib/github/url-generator';
+import { getVariantName } from './variant-formatter';
+import type { VariantKey } from './incremental-updater';
+
+/**
+ * Subset of the variant matrix to generate
+ *
+ * @interface VariantProfile
+ * @property {IconStyle[]} styles - Icon styles (rounded, outlined, sharp, legacy-*)
+ * @property {number[]} weights - Font weights (100-700)
+ * @property {(0|1)[]} fills - Fill states (0=unfilled, 1=filled)
+ * @property {number[]} grades - Optical grades (-25, 0, 200)
+ * @property {number[]} opticalSizes - Optical sizes (20, 24, 40, 48)
+ * @property {boolean} [fillProperty] - Expose Fill as a boolean component property
+ */
+export interface VariantProfile {
+  styles: IconStyle[];
+  weights: IconVariant['weight'][];
+  fills: IconVariant['fill'][];
+  grades: IconVariant['grade'][];
+  opticalSizes: IconVariant['opticalSize'][];
+  fillProperty?: boolean;
+}
+
+/**
+ * Every variant available upstream (504 per icon)
+ */
+export const FULL_VARIANT_PROFILE: VariantProfile = {
+  styles: ['rounded', 'outlined', 'sharp'],
+  weights: [100, 200, 300, 400, 500, 600, 700],
+  fills: [0, 1],
+  grades: [-25, 0, 200],
+  opticalSizes: [20, 24, 40, 48],
+};
+
+/**
+ * Every selectable style: Material Symbols, then legacy Material Icons
+ */
+export const ALL_ICON_STYLES: IconStyle[] = [...FULL_VARIANT_PROFILE.styles, ...LEGACY_STYLES];
+
+/**
+ * Keep only known values, in canonical order, falling back to the full axis if empty
+ *
+ * @private
+ */
+function normalizeAxis<T>(
+  values: readonly T[] | undefined,
+  allowed: readonly T[],
+  fallback: readonly T[] = allowed
+): T[] {
+  const filtered = allowed.filter((value) => values?.includes(value));
+  return filtered.length > 0 ? filtered : [...fallback];
+}
+
+/**
+ * Normalize a (possibly partial or user-edited) profile
+ *
+ * Unknown values are dropped, duplicates removed and values put in canonical
+ * order. An empty axis falls back to every value so a profile can never
+ * describe zero variants. `fillProperty` is kept only when both fills are
+ * included (there is nothing to toggle otherwise).
+ *
+ * @param {Partial<VariantProfile>} [profile] - Profile to normalize
+ * @returns {VariantProfile} Normalized profile
+ */
+export function normalizeVariantProfile(profile?: Partial<VariantProfile>): VariantProfile {
+  const normalized: VariantProfile = {
+    styles: normalizeAxis(profile?.styles, ALL_ICON_STYLES, FULL_VARIANT_PROFILE.styles),
+    weights: normalizeAxis(profile?.weights, FULL_VARIANT_PROFILE.weights),
+    fills: normalizeAxis(profile?.fills, FULL_VARIANT_PROFILE.fills),
+    grades: normalizeAxis(profile?.grades, FULL_VARIANT_PROFILE.grades),
+    opticalSizes: normalizeAxis(profile?.opticalSizes, FULL_VARIANT_PROFILE.opticalSizes),
+  };
+  if (profile?.fillProperty === true && normalized.fills.length === 2) {
+    normalized.fillProperty = true;
+  }
+  return normalized;
+}
+
+/**
+ * Optical sizes of a profile that a legacy family publishes
+ *
+ * @private
+ */
+function getLegacyOpticalSizes(profile: VariantProfile): IconVariant['opticalSize'][] {
+  return profile.opticalSizes.filter((size) => LEGACY_OPTICAL_SIZES.includes(size));
+}
+
+/**
+ * Number of variants per icon for a profile
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @returns {number} Symbols styles × weights × fills × grades × optical sizes,
+ *   plus one variant per legacy style and legacy optical size (fills count
+ *   once with `fillProperty`)
+ */
+export function getProfileVariantCount(profile: VariantProfile): number {
+  const symbolStyles = profile.styles.filter((style) => !isLegacyStyle(style)).length;
+  const legacyStyles = profile.styles.length - symbolStyles;
+  return (
+    symbolStyles *
+      profile.weights.length *
+      (profile.fillProperty ? 1 : profile.fills.length) *
+      profile.grades.length *
+      profile.opticalSizes.length +
+    legacyStyles * getLegacyOpticalSizes(profile).length
+  );
+}
+
+/**
+ * Check whether a profile is the full 504-variant matrix
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @returns {boolean} True if every axis has every value (and no legacy styles)
+ */
+export function isFullVariantProfile(profile: VariantProfile): boolean {
+  const normalized = normalizeVariantProfile(profile);
+  return (
+    isProfileSubset(FULL_VARIANT_PROFILE, normalized) &&
+    isProfileSubset(normalized, FULL_VARIANT_PROFILE)
+  );
+}
+
+/**
+ * Check whether every variant of a profile is also in another profile
+ *
+ * @param {VariantProfile} profile - Profile to check
+ * @param {VariantProfile} container - Profile that should cover it
+ * @returns {boolean} True if each axis value of `profile` is in `container`
+ */
+export function isProfileSubset(profile: VariantProfile, container: VariantProfile): boolean {
+  return (
+    profile.styles.every((value) => container.styles.includes(value)) &&
+    profile.weights.every((value) => container.weights.includes(value)) &&
+    profile.fills.every((value) => container.fills.includes(value)) &&
+    profile.grades.every((value) => container.grades.includes(value)) &&
+    profile.opticalSizes.every((value) => container.opticalSizes.includes(value))
+  );
+}
+
+/**
+ * Enumerate every (style, variant) pair in a profile
+ *
+ * These are the variants to download; with `fillProperty` each unfilled and
+ * filled pair becomes a single component (see `pairFillVariants`).
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @returns {Array<{ style: IconStyle; variant: IconVariant }>} Variants in generation order
+ */
+export function getProfileVariants(
+  profile: VariantProfile
+): Array<{ style: IconStyle; variant: IconVariant }> {
+  const variants: Array<{ style: IconStyle; variant: IconVariant }> = [];
+
+  for (const style of profile.styles) {
+    if (isLegacyStyle(style)) {
+      for (const opticalSize of getLegacyOpticalSizes(profile)) {
+        variants.push({ style, variant: { weight: 400, fill: 0, grade: 0, opticalSize } });
+      }
+      continue;
+    }
+
+    for (const weight of profile.weights) {
+      for (const fill of profile.fills) {
+        for (const grade of profile.grades) {
+          for (const opticalSize of profile.opticalSizes) {
+            variants.push({ style, variant: { weight, fill, grade, opticalSize } });
+          }
+        }
+      }
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Figma variant name of a variant in a profile
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @param {VariantKey} key - Style and variant
+ * @returns {string} Variant name (without Fill for `fillProperty` profiles)
+ */
+export function getProfileVariantName(profile: VariantProfile, key: VariantKey): string {
+  return getVariantName({
+    iconName: '',
+    ...key,
+    svgContent: '',
+    fillProperty: profile.fillProperty,
+  });
+}
+
+/**
+ * Figma variant names expected for a profile
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @returns {string[]} Names such as "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp",
+ *   one per component
+ */
+export function getProfileVariantNames(profile: VariantProfile): string[] {
+  const names = getProfileVariants(profile).map((key) => getProfileVariantName(profile, key));
+  return Array.from(new Set(names));
+}
+
+/**
+ * Short human-readable description of a profile
+ *
+ * @param {VariantProfile} profile - Variant profile
+ * @returns {string} e.g. "rounded · 300/400/500 · fill 0/1 · grade 0 · 24dp (6 variants)"
+ */
+export function describeVariantProfile(profile: VariantProfile): string {
+  return [
+    profile.styles.join('/'),
+    profile.weights.join('/'),
+    `fill ${profile.fills.join('/')}${profile.fillProperty ? ' (property)' : ''}`,
+    `grade ${profile.grades.join('/')}`,
+    `${profile.opticalSizes.join('/')}dp`,
+  ]
+    .join(' · ')
+    .concat(` (${getProfileVariantCount(profile)} variants)`);
+}
+
+/**
+ * Read the profile an icon was generated with
+ *
+ * ComponentSets created before profiles existed have no stored profile and
+ * were always built with the full matrix.
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @returns {VariantProfile} Stored profile, or the full profile if none
+ */
+export function getStoredVariantProfile(componentSet: ComponentSetNode): VariantProfile {
+  const raw = componentSet.getPluginData(PLUGIN_DATA_KEYS.VARIANT_PROFILE);
+  if (!raw) {
+    return FULL_VARIANT_PROFILE;
+  }
+
+  try {
+    return normalizeVariantProfile(JSON.parse(raw) as Partial<VariantProfile>);
+  } catch (error) {
+    logger.warn(`Invalid variant profile on ${componentSet.name}, assuming full:`, error);
+    return FULL_VARIANT_PROFILE;
+  }
+}
+
+/**
+ * Store the profile an icon was generated with
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {VariantProfile} profile - Profile used
+ */
+export function setStoredVariantProfile(
+  componentSet: ComponentSetNode,
+  profile: VariantProfile
+): void {
+  try {
+    componentSet.setPluginData(PLUGIN_DATA_KEYS.VARIANT_PROFILE, JSON.stringify(profile));
+  } catch (error) {
+    logger.warn(`Failed to store variant profile on ${componentSet.name}:`, error);
+  }
+}
+
+/**
+ * Combine two profiles axis by axis
+ *
+ * @param {VariantProfile} profile - Profile of the current run (its `fillProperty` wins)
+ * @param {VariantProfile} other - Profile to widen it with
+ * @returns {VariantProfile} Normalized profile with the values of both
+ */
+export function mergeVariantProfiles(
+  profile: VariantProfile,
+  other: VariantProfile
+): VariantProfile {
+  return normalizeVariantProfile({
+    styles: [...profile.styles, ...other.styles],
+    weights: [...profile.weights, ...other.weights],
+    fills: [...profile.fills, ...other.fills],
+    grades: [...profile.grades, ...other.grades],
+    opticalSizes: [...profile.opticalSizes, ...other.opticalSizes],
+    fillProperty: profile.fillProperty,
+  });
+}
+
+/**
+ * Record that an icon now has the variants of a profile, without removing any
+ *
+ * Used when variants outside the profile are kept (incremental updates and
+ * SHA-only fast-forwards): the stored profile is widened, never narrowed, so
+ * completeness checks and repairs keep covering every variant in the set.
+ *
+ * Merging is axis by axis, so two profiles that differ on several axes merge
+ * into combinations neither run generated. The merge is only stored when the
+ * set has every variant of it; otherwise the stored profile becomes the
+ * current run's, and the variants outside it are kept but no longer tracked.
+ *
+ * @param {ComponentSetNode} componentSet - Icon ComponentSet
+ * @param {VariantProfile} profile - Profile of the current run
+ */
+export function widenStoredVariantProfile(
+  componentSet: ComponentSetNode,
+  profile: VariantProfile
+): void {
+  const stored = getStoredVariantProfile(componentSet);
+  if (
+    isProfileSubset(profile, stored) &&
+    (stored.fillProperty === true) === (profile.fillProperty === true)
+  ) {
+    return;
+  }
+
+  const merged = mergeVariantProfiles(profile, stored);
+  const existing = new Set(componentSet.children.map((child) => child.name));
+  const complete = getProfileVariantNames(merged).every((name) => existing.has(name));
+  setStoredVariantProfile(componentSet, complete ? merged : profile);
+}
@@ -0,0 +1,481 @@
+/**
+ * @module @figma/icons/variant-schema
+ *
+ * Variant naming schemas: how a style/weight/fill/grade/optical size
+ * combination is written as a Figma variant name, and how it is read back.
+ *
+ * A schema gives each axis a property name and a value format, and fixes the
+ * property order. `formatVariantKey` and `parseVariantKey` work from the same
+ * definition, so a name built with a schema always parses back to its variant.
+ *
+ * **Presets**:
+ * - `material` (default): `Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp`
+ * - `library`: `style=rounded, weight=400, filled=false, grade=0, size=24`
+ *
+ * **Active Schema**:
+ * Like the icon repository, the schema in use is module state. The plugin sets
+ * it from clientStorage on startup; `getVariantName` and the incremental
+ * updater build and match names with it. Existing ComponentSets are renamed
+ * from one schema to another by `handlers/variant-naming.ts`.
+ *
+ * **Fill Property**:
+ * ComponentSets that expose Fill as a boolean component property (see
+ * `fill-property.ts`) name their variants without the fill axis. Pass
+ * `{ fillProperty: true }` to build and read those names; they parse as unfilled.
+ *
+ * @example
+ * ```typescript
+ * const key = { style: 'rounded', variant: { weight: 400, fill: 1, grade: 0, opticalSize: 24 } };
+ *
+ * formatVariantKey(key, VARIANT_SCHEMA_PRESETS.library);
+ * // "style=rounded, weight=400, filled=true, grade=0, size=24"
+ *
+ * parseVariantKey('style=rounded, weight=400, filled=true, grade=0, size=24', VARIANT_SCHEMA_PRESETS.library);
+ * // key
+ * ```
+ */
+
+import type { IconStyle, IconVariant } from '@lib/github/url-generator';
+import { getGradeName, getStyleName, parseGradeName, parseStyleName } from './variant-formatter';
+import type { VariantKey } from './incremental-updater';
+
+/**
+ * Axis of the variant matrix that appears in a variant name
+ */
+export type VariantAxis = 'style' | 'weight' | 'fill' | 'grade' | 'opticalSize';
+
+/**
+ * All axes, in the default property order
+ *
+ * @constant
+ */
+export const VARIANT_AXES: readonly VariantAxis[] = [
+  'style',
+  'weight',
+  'fill',
+  'grade',
+  'opticalSize',
+];
+
+/**
+ * Value formats available per axis
+ *
+ * - style: `display` ("Legacy Round") or `id` ("legacy-round")
+ * - fill: `on-off` ("On"/"Off"), `boolean` ("true"/"false") or `number` ("1"/"0")
+ * - grade: `named` ("Dark theme"/"Normal"/"Emphasis", other grades as numbers) or `number`
+ * - opticalSize: `dp` ("24dp") or `number` ("24")
+ *
+ * @constant
+ */
+export const VARIANT_VALUE_FORMATS = {
+  style: ['display', 'id'],
+  weight: ['number'],
+  fill: ['on-off', 'boolean', 'number'],
+  grade: ['named', 'number'],
+  opticalSize: ['dp', 'number'],
+} as const;
+
+/**
+ * Value format of one axis
+ */
+export type VariantValueFormat<A extends VariantAxis = VariantAxis> =
+  (typeof VARIANT_VALUE_FORMATS)[A][number];
+
+/**
+ * How one axis is written in a variant name
+ *
+ * @interface VariantSchemaProperty
+ * @property {string} name - Figma variant property name (e.g. "Optical size")
+ * @property {string} format - Value format (see `VARIANT_VALUE_FORMATS`)
+ */
+export interface VariantSchemaProperty<A extends VariantAxis = VariantAxis> {
+  name: string;
+  format: VariantValueFormat<A>;
+}
+
+/**
+ * Variant naming schema
+ *
+ * @interface VariantSchema
+ * @property {object} properties - Property name and value format per axis
+ * @property {VariantAxis[]} order - Property order in the name (every axis once)
+ */
+export interface VariantSchema {
+  properties: { [A in VariantAxis]: VariantSchemaProperty<A> };
+  order: VariantAxis[];
+}
+
+/**
+ * Options for building and reading a single variant name
+ *
+ * @interface VariantNameOptions
+ * @property {boolean} [fillProperty] - Fill is a component property, not part of the name
+ */
+export interface VariantNameOptions {
+  fillProperty?: boolean;
+}
+
+/**
+ * Built-in schema ids
+ */
+export type VariantSchemaPreset = 'material' | 'library';
+
+/**
+ * Built-in schemas
+ *
+ * @constant
+ */
+export const VARIANT_SCHEMA_PRESETS: Record<VariantSchemaPreset, VariantSchema> = {
+  material: {
+    properties: {
+      style: { name: 'Style', format: 'display' },
+      weight: { name: 'Weight', format: 'number' },
+      fill: { name: 'Fill', format: 'on-off' },
+      grade: { name: 'Grade', format: 'named' },
+      opticalSize: { name: 'Optical size', format: 'dp' },
+    },
+    order: [...VARIANT_AXES],
+  },
+  library: {
+    properties: {
+      style: { name: 'style', format: 'id' },
+      weight: { name: 'weight', format: 'number' },
+      fill: { name: 'filled', format: 'boolean' },
+      grade: { name: 'grade', format: 'number' },
+      opticalSize: { name: 'size', format: 'number' },
+    },
+    order: [...VARIANT_AXES],
+  },
+};
+
+/**
+ * Default schema (the plugin's original naming)
+ *
+ * @constant
+ */
+export const DEFAULT_VARIANT_SCHEMA: VariantSchema = VARIANT_SCHEMA_PRESETS.material;
+
+/**
+ * Writes and reads one axis value
+ *
+ * @private
+ */
+interface ValueCodec<T> {
+  format: (value: T) => string;
+  parse: (text: string) => T | undefined;
+}
+
+/**
+ * Parse a whole number, optionally with a suffix
+ *
+ * @private
+ */
+function parseInteger(text: string, suffix = ''): number | undefined {
+  const match = new RegExp(`^(-?\\d+)${suffix}$`).exec(text);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Parse one of two words as 1 / 0
+ *
+ * @private
+ */
+function parseFlag(text: string, on: string, off: string): 0 | 1 | undefined {
+  return text === on ? 1 : text === off ? 0 : undefined;
+}
+
+/**
+ * Plain whole numbers
+ *
+ * @private
+ */
+const NUMBER: ValueCodec<number> = { format: String, parse: (text) => parseInteger(text) };
+
+/**
+ * Value formats, per axis
+ *
+ * @private
+ */
+const VALUE_CODECS: {
+  style: Record<VariantValueFormat<'style'>, ValueCodec<IconStyle>>;
+  weight: Record<VariantValueFormat<'weight'>, ValueCodec<number>>;
+  fill: Record<VariantValueFormat<'fill'>, ValueCodec<number>>;
+  grade: Record<VariantValueFormat<'grade'>, ValueCodec<number>>;
+  opticalSize: Record<VariantValueFormat<'opticalSize'>, ValueCodec<number>>;
+} = {
+  style: {
+    display: { format: getStyleName, parse: parseStyleName },
+    id: { format: (style) => style, parse: parseStyleName },
+  },
+  weight: { number: NUMBER },
+  fill: {
+    'on-off': { format: (fill) => (fill ? 'On' : 'Off'), parse: (t) => parseFlag(t, 'On', 'Off') },
+    boolean: {
+      format: (fill) => (fill ? 'true' : 'false'),
+      parse: (t) => parseFlag(t, 'true', 'false'),
+    },
+    number: { format: String, parse: (t) => parseFlag(t, '1', '0') },
+  },
+  grade: {
+    named: { format: getGradeName, parse: parseGradeName },
+    number: NUMBER,
+  },
+  opticalSize: {
+    dp: { format: (size) => `${size}dp`, parse: (text) => parseInteger(text, 'dp') },
+    number: NUMBER,
+  },
+};
+
+/**
+ * Axes whose values are numbers
+ *
+ * @private
+ */
+type NumericAxis = Exclude<VariantAxis, 'style'>;
+
+/**
+ * Codec for the style value of a schema
+ *
+ * @private
+ */
+function styleCodec(schema: VariantSchema): ValueCodec<IconStyle> {
+  return VALUE_CODECS.style[schema.properties.style.format];
+}
+
+/**
+ * Codec for a numeric value of a schema
+ *
+ * @private
+ */
+function numberCodec(schema: VariantSchema, axis: NumericAxis): ValueCodec<number> {
+  return (VALUE_CODECS[axis] as Record<string, ValueCodec<number>>)[schema.properties[axis].format];
+}
+
+/**
+ * Fill in a partially stored schema from the default schema
+ *
+ * @param {object} [schema] - Stored or user-entered schema (fields may be missing)
+ * @returns {VariantSchema} Complete schema (not validated)
+ */
+export function normalizeVariantSchema(
+  schema: {
+    properties?: Partial<Record<VariantAxis, Partial<VariantSchemaProperty>>>;
+    order?: VariantAxis[];
+  } = {}
+): VariantSchema {
+  const properties = {} as Record<VariantAxis, VariantSchemaProperty>;
+  for (const axis of VARIANT_AXES) {
+    const property = { ...DEFAULT_VARIANT_SCHEMA.properties[axis], ...schema.properties?.[axis] };
+    properties[axis] = { name: property.name.trim(), format: property.format };
+  }
+  return {
+    properties: properties as VariantSchema['properties'],
+    order: schema.order ? [...schema.order] : [...DEFAULT_VARIANT_SCHEMA.order],
+  };
+}
+
+/**
+ * Check a schema can be used to build and parse names
+ *
+ * @param {VariantSchema} schema - Schema to check
+ * @returns {string[]} Problems (empty when valid)
+ */
+export function validateVariantSchema(schema: VariantSchema): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  for (const axis of VARIANT_AXES) {
+    const { name, format } = schema.properties[axis];
+    if (!name) {
+      errors.push(`The ${axis} property needs a name`);
+    } else if (/[,=]/.test(name) || name !== name.trim()) {
+      errors.push(`Property name "${name}" must not contain "," or "=" or surrounding spaces`);
+    } else if (names.has(name)) {
+      errors.push(`Property name "${name}" is used twice`);
+    }
+    names.add(name);
+
+    if (!(VARIANT_VALUE_FORMATS[axis] as readonly string[]).includes(format)) {
+      errors.push(`Unknown ${axis} format "${format}"`);
+    }
+  }
+
+  const order = schema.order;
+  if (order.length !== VARIANT_AXES.length || VARIANT_AXES.some((axis) => !order.includes(axis))) {
+    errors.push(`Property order must list ${VARIANT_AXES.join(', ')} once each`);
+  }
+
+  return errors;
+}
+
+/**
+ * Whether two schemas produce the same names
+ *
+ * @param {VariantSchema} a - Schema
+ * @param {VariantSchema} b - Schema
+ * @returns {boolean} True if names, formats and order match
+ */
+export function isSameVariantSchema(a: VariantSchema, b: VariantSchema): boolean {
+  return (
+    a.order.join() === b.order.join() &&
+    VARIANT_AXES.every(
+      (axis) =>
+        a.properties[axis].name === b.properties[axis].name &&
+        a.properties[axis].format === b.properties[axis].format
+    )
+  );
+}
+
+/**
+ * Built-in schema a schema matches, if any
+ *
+ * @param {VariantSchema} schema - Schema
+ * @returns {VariantSchemaPreset | undefined} Preset id, or undefined for custom schemas
+ */
+export function findVariantSchemaPreset(schema: VariantSchema): VariantSchemaPreset | undefined {
+  return (Object.keys(VARIANT_SCHEMA_PRESETS) as VariantSchemaPreset[]).find((preset) =>
+    isSameVariantSchema(VARIANT_SCHEMA_PRESETS[preset], schema)
+  );
+}
+
+/**
+ * Schema used for every variant name the plugin builds or matches
+ */
+let VARIANT_SCHEMA: VariantSchema = DEFAULT_VARIANT_SCHEMA;
+
+/**
+ * Set the schema used to build and parse variant names
+ *
+ * @param schema - Schema (missing fields use the default schema)
+ * @returns The schema now in use
+ * @throws {Error} If the schema is invalid (the current schema is kept)
+ */
+export function setVariantSchema(
+  schema: Parameters<typeof normalizeVariantSchema>[0]
+): VariantSchema {
+  const normalized = normalizeVariantSchema(schema);
+  const errors = validateVariantSchema(normalized);
+  if (errors.length > 0) {
+    throw new Error(`Invalid variant naming schema: ${errors.join('; ')}`);
+  }
+  VARIANT_SCHEMA = normalized;
+  return normalized;
+}
+
+/**
+ * Get the schema used to build and parse variant names
+ *
+ * @returns Current schema
+ */
+export function getVariantSchema(): VariantSchema {
+  return VARIANT_SCHEMA;
+}
+
+/**
+ * Format each axis value of a variant
+ *
+ * @param {VariantKey} key - Style and variant
+ * @param {VariantSchema} [schema] - Schema (defaults to the active one)
+ * @returns {Record<VariantAxis, string>} e.g. `{ style: 'Rounded', ..., opticalSize: '24dp' }`
+ */
+export function formatVariantValues(
+  key: VariantKey,
+  schema: VariantSchema = VARIANT_SCHEMA
+): Record<VariantAxis, string> {
+  return {
+    style: styleCodec(schema).format(key.style),
+    weight: numberCodec(schema, 'weight').format(key.variant.weight),
+    fill: numberCodec(schema, 'fill').format(key.variant.fill),
+    grade: numberCodec(schema, 'grade').format(key.variant.grade),
+    opticalSize: numberCodec(schema, 'opticalSize').format(key.variant.opticalSize),
+  };
+}
+
+/**
+ * Axes that appear in a name
+ *
+ * @private
+ */
+function getNamedAxes(schema: VariantSchema, options: VariantNameOptions): VariantAxis[] {
+  return options.fillProperty ? schema.order.filter((axis) => axis !== 'fill') : schema.order;
+}
+
+/**
+ * Build a variant name
+ *
+ * @param {VariantKey} key - Style and variant
+ * @param {VariantSchema} [schema] - Schema (defaults to the active one)
+ * @param {VariantNameOptions} [options={}] - Name options
+ * @returns {string} e.g. "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp",
+ *   or "Style=Rounded, Weight=400, Grade=Normal, Optical size=24dp" with `fillProperty`
+ */
+export function formatVariantKey(
+  key: VariantKey,
+  schema: VariantSchema = VARIANT_SCHEMA,
+  options: VariantNameOptions = {}
+): string {
+  const values = formatVariantValues(key, schema);
+  return getNamedAxes(schema, options)
+    .map((axis) => `${schema.properties[axis].name}=${values[axis]}`)
+    .join(', ');
+}
+
+/**
+ * Parse a variant name built with a schema (inverse of `formatVariantKey`)
+ *
+ * The name must contain exactly the schema's properties (in any order) with
+ * values in the schema's formats. With `fillProperty` the fill property must be
+ * absent and the variant is read as unfilled.
+ *
+ * @param {string} name - Component name
+ * @param {VariantSchema} [schema] - Schema (defaults to the active one)
+ * @param {VariantNameOptions} [options={}] - Name options
+ * @returns {VariantKey | null} Style and variant, or null if the name doesn't match
+ */
+export function parseVariantKey(
+  name: string,
+  schema: VariantSchema = VARIANT_SCHEMA,
+  options: VariantNameOptions = {}
+): VariantKey | null {
+  const axes = getNamedAxes(schema, options);
+  const axisByName = new Map<string, VariantAxis>();
+  for (const axis of axes) {
+    axisByName.set(schema.properties[axis].name, axis);
+  }
+
+  const texts: Partial<Record<VariantAxis, string>> = options.fillProperty
+    ? { fill: numberCodec(schema, 'fill').format(0) }
+    : {};
+  for (const pair of name.split(',')) {
+    const separator = pair.indexOf('=');
+    const axis = axisByName.get(pair.substring(0, separator).trim());
+    if (separator < 0 || !axis || texts[axis] !== undefined) {
+      return null;
+    }
+    texts[axis] = pair.substring(separator + 1).trim();
+  }
+
+  const values: Partial<Record<NumericAxis, number>> = {};
+  for (const axis of ['weight', 'fill', 'grade', 'opticalSize'] as const) {
+    const text = texts[axis];
+    values[axis] = text === undefined ? undefined : numberCodec(schema, axis).parse(text);
+  }
+  const style = texts.style === undefined ? undefined : styleCodec(schema).parse(texts.style);
+
+  const { weight, fill, grade, opticalSize } = values;
+  if (
+    !style ||
+    weight === undefined ||
+    fill === undefined ||
+    grade === undefined ||
+    opticalSize === undefined
+  ) {
+    return null;
+  }
+
+  // Off-grid weights/grades (interpolated variants) parse too; the unions only describe upstream values
+  return {
+    style,
+    variant: { weight, fill, grade, opticalSize } as IconVariant,
+  };
+}
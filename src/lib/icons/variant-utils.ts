@@ -23,6 +23,10 @@
  * "Style=Rounded, Weight=400, Fill=Off, Grade=Normal, Optical size=24dp"
  * ```
  *
+ * ComponentSets with a Fill component property (see `fill-property.ts`) leave
+ * Fill out of their names; those variants are read as Fill=Off, so default
+ * selection works the same for both structures.
+ *
  * @example Find best default variant
  * ```typescript
  * const components = componentSet.children;
@@ -43,6 +47,7 @@
  */
 
 import { logger } from '@lib/utils';
+import { DEFAULT_VARIANT_SCHEMA, formatVariantValues, parseVariantKey } from './variant-schema';
 
 /**
  * Preference order for variant properties
@@ -95,6 +100,9 @@ interface VariantProperties {
  * Extracts structured properties from Figma component variant names using the
  * standard naming convention: "Key=Value, Key=Value, ..."
  *
+ * Names in the active naming schema (see variant-schema.ts) are read with that
+ * schema; the result always uses the default values ("Rounded", "Off", "24dp").
+ *
  * @param {string} name - Component name to parse
  * @returns {VariantProperties | null} Parsed properties or null if invalid format
  *
@@ -114,6 +122,14 @@ interface VariantProperties {
  * ```
  */
 export function parseVariantName(name: string): VariantProperties | null {
+  // Names in the active naming schema are read with it, then reported in the default form
+  // (names without Fill come from sets with a Fill component property and read as Off)
+  const key = parseVariantKey(name) ?? parseVariantKey(name, undefined, { fillProperty: true });
+  if (key) {
+    const values = formatVariantValues(key, DEFAULT_VARIANT_SCHEMA);
+    return { ...values, weight: key.variant.weight };
+  }
+
   try {
     const parts = name.split(', ');
     const props: Partial<VariantProperties> = {};
@@ -2,10 +2,36 @@
  * Handles communication between plugin and UI
  */
 
-import { PLUGIN_MESSAGES, UIMessage } from '@/types';
+import { PLUGIN_MESSAGES, type GenerationConfig, type UIMessage } from '@/types';
 // Note: test-generators and icon-generator files were removed - test functions stubbed out
 
+/**
+ * Runs a validated GenerationConfig (supplied by code.ts, which owns the
+ * commit SHA, variant profile and generation queue)
+ */
+export type ConfiguredGenerationRunner = (config: GenerationConfig) => Promise<void>;
+
+/**
+ * Configuration for the message handler
+ *
+ * @interface MessageHandlerConfig
+ * @property {Function} [validateConfig] - Returns problems with a config (empty when valid)
+ * @property {ConfiguredGenerationRunner} [runGeneration] - Runs a config through category generation
+ */
+export interface MessageHandlerConfig {
+  validateConfig?: (config: GenerationConfig) => string[];
+  runGeneration?: ConfiguredGenerationRunner;
+}
+
 export class MessageHandler {
+  private validateConfig: (config: GenerationConfig) => string[];
+  private runGeneration?: ConfiguredGenerationRunner;
+
+  constructor(config: MessageHandlerConfig = {}) {
+    this.validateConfig = config.validateConfig || (() => []);
+    this.runGeneration = config.runGeneration;
+  }
+
   async handleMessage(msg: UIMessage): Promise<void> {
     switch (msg.type) {
       case PLUGIN_MESSAGES.CHECK_EXISTING:
@@ -45,7 +71,32 @@ export class MessageHandler {
     });
   }
 
-  private async startGeneration(_config: unknown) {
+  private async startGeneration(config: GenerationConfig | undefined) {
+    if (!config) {
+      figma.ui.postMessage({
+        type: PLUGIN_MESSAGES.ERROR,
+        message: 'Generation failed: no generation config provided',
+      });
+      return;
+    }
+
+    const errors = this.validateConfig(config);
+    if (errors.length > 0) {
+      figma.ui.postMessage({
+        type: PLUGIN_MESSAGES.ERROR,
+        message: `Invalid generation config: ${errors.join('; ')}`,
+      });
+      return;
+    }
+
+    if (!this.runGeneration) {
+      figma.ui.postMessage({
+        type: PLUGIN_MESSAGES.ERROR,
+        message: 'Generation failed: no generation runner configured',
+      });
+      return;
+    }
+
     try {
       figma.ui.postMessage({
         type: PLUGIN_MESSAGES.PROGRESS_UPDATE,
@@ -53,8 +104,7 @@ export class MessageHandler {
         progress: 0,
       });
 
-      // For now, just test with a single icon
-      await this.testSingleIcon();
+      await this.runGeneration(config);
 
       figma.ui.postMessage({
         type: PLUGIN_MESSAGES.GENERATION_COMPLETE,
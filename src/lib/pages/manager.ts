@@ -19,6 +19,7 @@
 
 import { logger } from '@lib/utils';
 import { FigmaPluginError } from '@lib/utils/errors';
+import { applyPageBackground } from '@lib/tokens/binder';
 
 /**
  * Configuration for page creation
@@ -88,14 +89,9 @@ export class PageManager {
     const newPage = figma.createPage();
     newPage.name = fullName;
 
-    // Set page background color to #CDD2DE
-    newPage.backgrounds = [
-      {
-        type: 'SOLID',
-        color: { r: 0.804, g: 0.824, b: 0.871 }, // #CDD2DE
-      },
-    ];
-    logger.info('Applied page background color: #CDD2DE');
+    // Set page background from the styling profile (default #CDD2DE)
+    applyPageBackground(newPage);
+    logger.info('Applied page background colour');
 
     // Always switch to a newly created page to ensure it's active
     await this.switchToPage(newPage);
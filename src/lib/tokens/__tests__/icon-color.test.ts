@@ -0,0 +1,128 @@
+/**
+ * @module @figma/tokens/__tests__/icon-color
+ *
+ * Unit tests for painting icon vectors with a colour variable.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  applyIconColor,
+  getIconPaint,
+  normalizeIconColorSettings,
+  resolveIconPaint,
+  setIconColor,
+} from '../icon-color';
+import { resolveVariableOfType } from '../resolver';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../resolver', () => ({
+  resolveVariableOfType: vi.fn(),
+}));
+
+const ON_SURFACE = { id: 'VariableID:1', name: 'sys/color/on-surface', resolvedType: 'COLOR' };
+
+// Variant component whose findAll returns the given layers
+function component(layers: any[]): any {
+  return {
+    name: 'Style=Rounded',
+    findAll: (match: (node: any) => boolean) => layers.filter(match),
+  };
+}
+
+describe('icon-color', () => {
+  beforeEach(() => {
+    vi.stubGlobal('figma', {
+      variables: {
+        setBoundVariableForPaint: vi.fn((paint: SolidPaint, _field: string, variable: any) => ({
+          ...paint,
+          boundVariables: { color: { type: 'VARIABLE_ALIAS', id: variable.id } },
+        })),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await setIconColor(null);
+    vi.mocked(resolveVariableOfType).mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should normalise settings', () => {
+    expect(normalizeIconColorSettings({ variable: ' on-surface ', fallback: '1b1b1f' })).toEqual({
+      variable: 'on-surface',
+      fallback: '#1B1B1F',
+    });
+    expect(normalizeIconColorSettings({ fallback: 'red' })).toEqual({
+      variable: '',
+      fallback: '#000000',
+    });
+  });
+
+  it('should bind the paint to a resolved colour variable', async () => {
+    vi.mocked(resolveVariableOfType).mockResolvedValue(ON_SURFACE as any);
+
+    const { paint, boundVariable } = await resolveIconPaint({
+      variable: 'on-surface',
+      fallback: '#FF0000',
+    });
+
+    expect(resolveVariableOfType).toHaveBeenCalledWith('on-surface', 'COLOR');
+    expect(boundVariable).toBe('sys/color/on-surface');
+    expect(paint).toMatchObject({
+      type: 'SOLID',
+      color: { r: 1, g: 0, b: 0 },
+      boundVariables: { color: { id: ON_SURFACE.id } },
+    });
+  });
+
+  it('should fall back to the hex when the variable is missing', async () => {
+    vi.mocked(resolveVariableOfType).mockResolvedValue(null);
+
+    const state = await setIconColor({ variable: 'brand/icon', fallback: '#00FF00' });
+
+    expect(state).toEqual({
+      settings: { variable: 'brand/icon', fallback: '#00FF00' },
+      boundVariable: null,
+    });
+    expect(getIconPaint()).toEqual({ type: 'SOLID', color: { r: 0, g: 1, b: 0 } });
+  });
+
+  describe('applyIconColor', () => {
+    const paint: SolidPaint = { type: 'SOLID', color: { r: 1, g: 0, b: 0 } };
+
+    it('should repaint solid vector fills and keep their opacity', () => {
+      const glyph = {
+        type: 'VECTOR',
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }],
+      };
+      const twoTone = {
+        type: 'VECTOR',
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.3 }],
+      };
+      const outline = { type: 'VECTOR', fills: [] };
+      const group = { type: 'GROUP' };
+
+      expect(applyIconColor(component([glyph, twoTone, outline, group]), paint)).toBe(2);
+      expect(glyph.fills).toEqual([{ ...paint, opacity: 1, visible: true }]);
+      expect(twoTone.fills).toEqual([{ ...paint, opacity: 0.3, visible: true }]);
+      expect(outline.fills).toEqual([]);
+    });
+
+    it('should leave vectors alone until a colour is set', () => {
+      const glyph = { type: 'VECTOR', fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }] };
+
+      expect(applyIconColor(component([glyph]))).toBe(0);
+      expect(glyph.fills[0].color).toEqual({ r: 0, g: 0, b: 0 });
+    });
+  });
+});
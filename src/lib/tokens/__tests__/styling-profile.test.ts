@@ -0,0 +1,131 @@
+/**
+ * @module @figma/tokens/__tests__/styling-profile
+ *
+ * Unit tests for the per-document styling profile.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_STYLING_PROFILE,
+  getStoredStylingProfile,
+  getStyleNumber,
+  getStylePaint,
+  normalizeStylingProfile,
+  setStoredStylingProfile,
+  setStylingProfile,
+} from '../styling-profile';
+import { applyFrameStyling } from '../binder';
+import { resolveVariableOfType } from '../resolver';
+
+vi.mock('@lib/utils', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../resolver', () => ({
+  resolveVariableOfType: vi.fn(),
+}));
+
+const SURFACE = { id: 'VariableID:1', name: 'sys/color/surface', resolvedType: 'COLOR' };
+const GAP = { id: 'VariableID:2', name: 'spacing/lg', resolvedType: 'FLOAT' };
+
+describe('styling-profile', () => {
+  beforeEach(() => {
+    vi.stubGlobal('figma', {
+      variables: {
+        setBoundVariableForPaint: vi.fn((paint: SolidPaint, _field: string, variable: any) => ({
+          ...paint,
+          boundVariables: { color: { type: 'VARIABLE_ALIAS', id: variable.id } },
+        })),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await setStylingProfile(null);
+    vi.mocked(resolveVariableOfType).mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it('should fill in defaults and drop invalid values', () => {
+    const profile = normalizeStylingProfile({
+      colors: { frameFill: { variable: ' surface ', fallback: 'eeeeee' } },
+      radii: { frame: { fallback: -4 } },
+      spacing: { frameGap: { fallback: 16 } },
+      frameWidth: 50,
+    });
+
+    expect(profile.colors.frameFill).toEqual({ variable: 'surface', fallback: '#EEEEEE' });
+    expect(profile.colors.pageBackground).toEqual(DEFAULT_STYLING_PROFILE.colors.pageBackground);
+    expect(profile.radii.frame.fallback).toBe(12);
+    expect(profile.spacing.frameGap.fallback).toBe(16);
+    expect(profile.frameWidth).toBe(2024);
+  });
+
+  it('should resolve variables and report the ones not found', async () => {
+    vi.mocked(resolveVariableOfType).mockImplementation(async (name) =>
+      name === 'surface' ? (SURFACE as any) : name === 'spacing/lg' ? (GAP as any) : null
+    );
+
+    const state = await setStylingProfile({
+      colors: {
+        frameFill: { variable: 'surface', fallback: '#FF0000' },
+        pageBackground: { variable: 'brand/missing' },
+      },
+      spacing: { frameGap: { variable: 'spacing/lg', fallback: 32 } },
+    });
+
+    expect(resolveVariableOfType).toHaveBeenCalledWith('surface', 'COLOR');
+    expect(resolveVariableOfType).toHaveBeenCalledWith('spacing/lg', 'FLOAT');
+    expect(state.unresolved).toEqual(['brand/missing']);
+    expect(getStylePaint('frameFill')).toMatchObject({
+      color: { r: 1, g: 0, b: 0 },
+      boundVariables: { color: { id: SURFACE.id } },
+    });
+    expect(getStylePaint('pageBackground')).toEqual({
+      type: 'SOLID',
+      color: { r: 0.803921568627451, g: 0.8235294117647058, b: 0.8705882352941177 },
+    });
+    expect(getStyleNumber('frameGap')).toEqual({ value: 32, variable: GAP });
+  });
+
+  it('should bind frame fields to variables and set the rest', async () => {
+    vi.mocked(resolveVariableOfType).mockResolvedValue(GAP as any);
+    await setStylingProfile({ spacing: { frameGap: { variable: 'spacing/lg' } } });
+
+    const frame: any = {
+      boundVariables: { paddingLeft: { type: 'VARIABLE_ALIAS', id: 'VariableID:old' } },
+      setBoundVariable: vi.fn(),
+    };
+    applyFrameStyling(frame);
+
+    expect(frame.setBoundVariable).toHaveBeenCalledWith('itemSpacing', GAP);
+    expect(frame.setBoundVariable).toHaveBeenCalledWith('counterAxisSpacing', GAP);
+    expect(frame.setBoundVariable).toHaveBeenCalledWith('paddingLeft', null);
+    expect(frame.paddingLeft).toBe(24);
+    expect(frame.topLeftRadius).toBe(12);
+    expect(frame.fills).toEqual([getStylePaint('frameFill')]);
+  });
+
+  it('should round-trip the stored profile', () => {
+    const data: Record<string, string> = {};
+    const document: any = {
+      getPluginData: (key: string) => data[key] ?? '',
+      setPluginData: (key: string, value: string) => {
+        data[key] = value;
+      },
+    };
+
+    expect(getStoredStylingProfile(document)).toBeNull();
+    setStoredStylingProfile(document, DEFAULT_STYLING_PROFILE);
+    expect(getStoredStylingProfile(document)).toEqual(DEFAULT_STYLING_PROFILE);
+    setStoredStylingProfile(document, null);
+    expect(getStoredStylingProfile(document)).toBeNull();
+  });
+});
@@ -1,52 +1,106 @@
 /**
  * Styling utilities for Figma icon components
  *
- * This module provides hardcoded styling for icon components to keep them
- * portable and free from external variable dependencies.
+ * This module applies the styling profile (see `styling-profile.ts`) to the
+ * containers around the icons: component sets, the page frame and new pages.
+ * Without a profile the values are the plugin's original hardcoded ones, so
+ * components stay portable; with one, values are bound to the chosen variables.
  */
 
+import { logger } from '@lib/utils';
+import { getStylePaint, getStyleNumber, type ResolvedStyleNumber } from './styling-profile';
+
+type NumberField = 'topLeftRadius' | 'topRightRadius' | 'bottomLeftRadius' | 'bottomRightRadius';
+type LayoutField =
+  | 'itemSpacing'
+  | 'counterAxisSpacing'
+  | 'paddingLeft'
+  | 'paddingRight'
+  | 'paddingTop'
+  | 'paddingBottom';
+
+const CORNER_RADIUS_FIELDS: NumberField[] = [
+  'topLeftRadius',
+  'topRightRadius',
+  'bottomLeftRadius',
+  'bottomRightRadius',
+];
+
 /**
- * Convert hex color to RGB values (0-1 range)
+ * Bind number fields to a variable, or set them to the fallback value
+ *
+ * A field bound by an earlier profile is unbound first, so switching back to a
+ * plain value takes effect.
+ *
+ * @private
  */
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  if (!result) {
-    throw new Error(`Invalid hex color: ${hex}`);
+function applyStyleNumber(
+  node: FrameNode | ComponentSetNode,
+  fields: Array<NumberField | LayoutField>,
+  token: ResolvedStyleNumber
+): void {
+  for (const field of fields) {
+    if (token.variable) {
+      node.setBoundVariable(field, token.variable);
+      continue;
+    }
+    if (node.boundVariables?.[field]) {
+      node.setBoundVariable(field, null);
+    }
+    node[field] = token.value;
   }
-  return {
-    r: parseInt(result[1], 16) / 255,
-    g: parseInt(result[2], 16) / 255,
-    b: parseInt(result[3], 16) / 255,
-  };
 }
 
 /**
- * Apply hardcoded styling to a component set
- * Uses fixed values to keep components portable without variable dependencies
+ * Apply the styling profile to a component set
+ * Fill, stroke and corner radius; hardcoded values unless the profile binds variables
  */
 export async function applyMUIVariables(componentSet: ComponentSetNode): Promise<void> {
-  console.log('Applying hardcoded styling to component set...');
-
-  // Corner radius: 12px
-  componentSet.cornerRadius = 12;
-
-  // Fill color: #FAF9FD (surface-bright)
-  const fillColor = hexToRgb('#FAF9FD');
-  componentSet.fills = [
-    {
-      type: 'SOLID',
-      color: fillColor,
-    },
-  ];
-
-  // Stroke color: #9747FF (primary accent)
-  const strokeColor = hexToRgb('#9747FF');
-  componentSet.strokes = [
-    {
-      type: 'SOLID',
-      color: strokeColor,
-    },
-  ];
-
-  console.log('Successfully applied hardcoded styling');
+  logger.debug('Applying styling to component set...');
+
+  // Corner radius (default 12px)
+  applyStyleNumber(componentSet, CORNER_RADIUS_FIELDS, getStyleNumber('componentSet'));
+
+  // Fill color (default #FAF9FD, surface-bright)
+  componentSet.fills = [getStylePaint('componentSetFill')];
+
+  // Stroke color (default #9747FF, primary accent)
+  componentSet.strokes = [getStylePaint('componentSetStroke')];
+
+  logger.info('Successfully applied styling');
+}
+
+/**
+ * Apply the styling profile to the page frame
+ * Fill, corner radius, gap and padding (width is set by the caller, see `getStylingProfile`)
+ *
+ * @param {FrameNode} frame - Auto-layout frame holding the component sets
+ */
+export function applyFrameStyling(frame: FrameNode): void {
+  applyStyleNumber(frame, ['itemSpacing', 'counterAxisSpacing'], getStyleNumber('frameGap'));
+  applyStyleNumber(
+    frame,
+    ['paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom'],
+    getStyleNumber('framePadding')
+  );
+  applyStyleNumber(frame, CORNER_RADIUS_FIELDS, getStyleNumber('frame'));
+  frame.fills = [getStylePaint('frameFill')];
+}
+
+/**
+ * Apply the styling profile's background to a page
+ *
+ * Page backgrounds can't always hold a variable-bound paint; if Figma rejects
+ * it, the fallback colour is used instead.
+ *
+ * @param {PageNode} page - Page to paint
+ */
+export function applyPageBackground(page: PageNode): void {
+  const paint = getStylePaint('pageBackground');
+  try {
+    page.backgrounds = [paint];
+  } catch (error) {
+    logger.warn('Page background could not be bound to a variable, using the fallback:', error);
+    page.backgrounds = [{ type: 'SOLID', color: paint.color }];
+  }
 }
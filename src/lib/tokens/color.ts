@@ -0,0 +1,39 @@
+/**
+ * Hex colour helpers shared by the icon colour and the styling profile
+ */
+
+/**
+ * Check whether a value is a six-digit hex colour
+ *
+ * @param {unknown} value - Value to check ("#1B1B1F" or "1b1b1f")
+ * @returns {boolean} True if `hexToRgb` accepts it
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#?[0-9a-f]{6}$/i.test(value.trim());
+}
+
+/**
+ * Normalise a hex colour to "#RRGGBB"
+ *
+ * @param {unknown} value - Stored or typed colour
+ * @param {string} fallback - Returned when `value` is not a hex colour
+ * @returns {string} e.g. "#1B1B1F"
+ */
+export function normalizeHexColor(value: unknown, fallback: string): string {
+  return isHexColor(value) ? `#${value.trim().replace(/^#/, '').toUpperCase()}` : fallback;
+}
+
+/**
+ * Convert hex color to RGB values (0-1 range)
+ */
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  if (!result) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+  return {
+    r: parseInt(result[1], 16) / 255,
+    g: parseInt(result[2], 16) / 255,
+    b: parseInt(result[3], 16) / 255,
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * @module @figma/tokens/icon-color
+ *
+ * Icon colour: vector fills bound to a colour variable.
+ *
+ * Downloaded SVGs are black, so generated icons ignore the file's theme. With
+ * an icon colour set, every solid vector fill of a variant is replaced by a
+ * paint bound to the chosen variable (looked up by name with
+ * `resolveVariableOfType`, library first). If no variable is chosen or it can't be
+ * resolved, the fallback hex is painted unbound. Paint opacity from the SVG
+ * (two-tone layers) is kept.
+ *
+ * The colour is module state, like the variant naming schema: `setIconColor()`
+ * resolves it once, and every variant created or updated afterwards is painted
+ * with it. Until it is set, vectors keep the SVG's colour.
+ *
+ * @example
+ * ```typescript
+ * await setIconColor({ variable: 'sys/color/on-surface', fallback: '#1B1B1F' });
+ * applyIconColor(component); // vectors now follow the variable
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { hexToRgb, normalizeHexColor } from './color';
+import { resolveVariableOfType } from './resolver';
+
+/**
+ * Icon colour chosen in the UI
+ *
+ * @interface IconColorSettings
+ * @property {string} variable - Colour variable name (e.g. "sys/color/on-surface"), empty for none
+ * @property {string} fallback - Hex painted when the variable can't be resolved (e.g. "#000000")
+ */
+export interface IconColorSettings {
+  variable: string;
+  fallback: string;
+}
+
+/**
+ * Icon colour in use
+ *
+ * @interface IconColorState
+ * @property {IconColorSettings | null} settings - Chosen colour (null keeps the SVG colour)
+ * @property {string | null} boundVariable - Name of the variable fills are bound to, null if
+ *   the fallback is used
+ */
+export interface IconColorState {
+  settings: IconColorSettings | null;
+  boundVariable: string | null;
+}
+
+/**
+ * Settings the UI starts from (no variable, black like the SVGs)
+ *
+ * @constant
+ */
+export const DEFAULT_ICON_COLOR: IconColorSettings = {
+  variable: '',
+  fallback: '#000000',
+};
+
+/**
+ * Layer types whose fills draw the glyph
+ *
+ * @private
+ */
+const VECTOR_NODE_TYPES: ReadonlySet<NodeType> = new Set<NodeType>([
+  'VECTOR',
+  'BOOLEAN_OPERATION',
+  'ELLIPSE',
+  'RECTANGLE',
+  'POLYGON',
+  'STAR',
+  'LINE',
+]);
+
+/**
+ * Paint applied to variant vectors (null keeps the SVG colour)
+ */
+let ICON_PAINT: SolidPaint | null = null;
+let ICON_COLOR_STATE: IconColorState = { settings: null, boundVariable: null };
+
+/**
+ * Fill in missing fields and normalise the fallback to "#RRGGBB"
+ *
+ * @param {Partial<IconColorSettings>} [settings] - Stored or received settings
+ * @returns {IconColorSettings} Settings (an invalid fallback uses the default one)
+ */
+export function normalizeIconColorSettings(
+  settings: Partial<IconColorSettings> = {}
+): IconColorSettings {
+  return {
+    variable: typeof settings.variable === 'string' ? settings.variable.trim() : '',
+    fallback: normalizeHexColor(settings.fallback, DEFAULT_ICON_COLOR.fallback),
+  };
+}
+
+/**
+ * Build the paint for an icon colour, bound to its variable when it resolves
+ *
+ * @param {IconColorSettings} settings - Normalised settings
+ * @returns {Promise<{ paint: SolidPaint; boundVariable: string | null }>} Paint, and the name of
+ *   the variable it is bound to
+ */
+export async function resolveIconPaint(
+  settings: IconColorSettings
+): Promise<{ paint: SolidPaint; boundVariable: string | null }> {
+  const paint: SolidPaint = { type: 'SOLID', color: hexToRgb(settings.fallback) };
+  if (!settings.variable) {
+    return { paint, boundVariable: null };
+  }
+
+  const variable = await resolveVariableOfType(settings.variable, 'COLOR');
+  if (variable) {
+    return {
+      paint: figma.variables.setBoundVariableForPaint(paint, 'color', variable),
+      boundVariable: variable.name,
+    };
+  }
+
+  logger.warn(`Icon colour variable not found: ${settings.variable}, using ${settings.fallback}`);
+  return { paint, boundVariable: null };
+}
+
+/**
+ * Set the colour painted onto variant vectors
+ *
+ * @param {Partial<IconColorSettings> | null} settings - Colour (null keeps the SVG colour)
+ * @returns {Promise<IconColorState>} The colour now in use
+ */
+export async function setIconColor(
+  settings: Partial<IconColorSettings> | null
+): Promise<IconColorState> {
+  if (!settings) {
+    ICON_PAINT = null;
+    ICON_COLOR_STATE = { settings: null, boundVariable: null };
+    return ICON_COLOR_STATE;
+  }
+
+  const normalized = normalizeIconColorSettings(settings);
+  const { paint, boundVariable } = await resolveIconPaint(normalized);
+  ICON_PAINT = paint;
+  ICON_COLOR_STATE = { settings: normalized, boundVariable };
+  return ICON_COLOR_STATE;
+}
+
+/**
+ * Get the icon colour in use
+ *
+ * @returns {IconColorState} Current settings and bound variable
+ */
+export function getIconColor(): IconColorState {
+  return ICON_COLOR_STATE;
+}
+
+/**
+ * Get the paint applied to variant vectors
+ *
+ * @returns {SolidPaint | null} Paint, or null if vectors keep the SVG colour
+ */
+export function getIconPaint(): SolidPaint | null {
+  return ICON_PAINT;
+}
+
+/**
+ * Paint the vectors of a variant component
+ *
+ * Solid fills are replaced (keeping their opacity and visibility); gradients,
+ * images and layers without fills are left alone.
+ *
+ * @param {ComponentNode} component - Variant component
+ * @param {SolidPaint | null} [paint] - Paint (defaults to the icon colour in use)
+ * @returns {number} Number of layers painted
+ */
+export function applyIconColor(
+  component: ComponentNode,
+  paint: SolidPaint | null = ICON_PAINT
+): number {
+  if (!paint) {
+    return 0;
+  }
+
+  let painted = 0;
+  try {
+    const layers = component.findAll((node) => VECTOR_NODE_TYPES.has(node.type));
+    for (const layer of layers) {
+      if (!('fills' in layer) || !Array.isArray(layer.fills) || layer.fills.length === 0) {
+        continue;
+      }
+
+      const fills = layer.fills as readonly Paint[];
+      if (!fills.some((fill) => fill.type === 'SOLID')) {
+        continue;
+      }
+      layer.fills = fills.map((fill) =>
+        fill.type === 'SOLID'
+          ? { ...paint, opacity: fill.opacity ?? 1, visible: fill.visible ?? true }
+          : fill
+      );
+      painted++;
+    }
+  } catch (error) {
+    logger.warn(`Failed to apply icon colour to ${component.name}:`, error);
+  }
+
+  return painted;
+}
@@ -10,6 +10,9 @@
  * - **Hardcoded Styling**: Fixed values for colors, spacing, and sizing
  * - **No Dependencies**: No reliance on external variables or libraries
  * - **Portability**: Components work across any Figma file
+ * - **Icon Colour**: Variant vectors bound to a chosen colour variable, with a fallback hex
+ * - **Styling Profile**: Per-document container colours, radii, spacing and frame width,
+ *   each optionally bound to a variable (defaults are the hardcoded values above)
  *
  * **Usage Pattern**:
  * ```typescript
@@ -22,6 +25,36 @@
  */
 
 // Main exports
-export { applyMUIVariables } from './binder';
+export { applyMUIVariables, applyFrameStyling, applyPageBackground } from './binder';
+export { isHexColor, normalizeHexColor, hexToRgb } from './color';
+export {
+  DEFAULT_ICON_COLOR,
+  normalizeIconColorSettings,
+  resolveIconPaint,
+  setIconColor,
+  getIconColor,
+  getIconPaint,
+  applyIconColor,
+  type IconColorSettings,
+  type IconColorState,
+} from './icon-color';
+export {
+  DEFAULT_STYLING_PROFILE,
+  normalizeStylingProfile,
+  setStylingProfile,
+  getStylingProfile,
+  getStylePaint,
+  getStyleNumber,
+  getStoredStylingProfile,
+  setStoredStylingProfile,
+  type StyleToken,
+  type StylingProfile,
+  type StylingProfileInput,
+  type StylingProfileState,
+  type StyleColorRole,
+  type StyleRadiusRole,
+  type StyleSpacingRole,
+  type ResolvedStyleNumber,
+} from './styling-profile';
 
 // Re-export types if needed in the future
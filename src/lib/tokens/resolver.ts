@@ -76,6 +76,34 @@ export async function resolveVariable(targetName: string): Promise<VariableInfo
   return null;
 }
 
+/**
+ * Resolve a variable by name and load it, if it has the expected type
+ */
+export async function resolveVariableOfType(
+  targetName: string,
+  resolvedType: VariableResolvedDataType
+): Promise<Variable | null> {
+  const info = await resolveVariable(targetName);
+  if (!info) {
+    return null;
+  }
+
+  try {
+    const variable = await figma.variables.getVariableByIdAsync(info.id);
+    if (variable && variable.resolvedType === resolvedType) {
+      return variable;
+    }
+    if (variable) {
+      logger.warn(
+        `${variable.name} is a ${variable.resolvedType} variable, expected ${resolvedType}`
+      );
+    }
+  } catch (error) {
+    logger.warn(`Failed to load variable ${targetName}:`, error);
+  }
+  return null;
+}
+
 /**
  * Method 1: Resolve from library collections (primary source)
  */
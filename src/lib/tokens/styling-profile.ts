@@ -0,0 +1,350 @@
+/**
+ * @module @figma/tokens/styling-profile
+ *
+ * Styling profile: colours, radii, spacing and frame width of the containers
+ * around the icons (component sets, the page frame and new pages).
+ *
+ * Each colour, radius and spacing value is a token: a variable name (local or
+ * library, looked up with `resolveVariableOfType`) and a fallback used when the
+ * name is empty or can't be resolved. The defaults are the plugin's original
+ * hardcoded values, so a file without a profile looks as before.
+ *
+ * The profile is stored per document (plugin data on the document node) and
+ * resolved into module state by `setStylingProfile()`, like the icon colour;
+ * `binder.ts` applies it.
+ *
+ * @example
+ * ```typescript
+ * await setStylingProfile({
+ *   colors: { frameFill: { variable: 'sys/color/surface-container', fallback: '#F2F2F2' } },
+ * });
+ * await applyMUIVariables(componentSet);
+ * ```
+ */
+
+import { logger } from '@lib/utils';
+import { PLUGIN_DATA_KEYS } from '@lib/constants';
+import { hexToRgb, normalizeHexColor } from './color';
+import { resolveVariableOfType } from './resolver';
+
+/**
+ * A styled value: a variable name and the value used without it
+ *
+ * @interface StyleToken
+ * @property {string} variable - Variable name (e.g. "sys/color/surface"), empty for none
+ * @property {T} fallback - Hex colour or number used when the variable can't be resolved
+ */
+export interface StyleToken<T> {
+  variable: string;
+  fallback: T;
+}
+
+/**
+ * Container styling
+ *
+ * @interface StylingProfile
+ * @property colors - Component set fill and stroke, page frame fill, new page background
+ * @property radii - Corner radius of component sets and the page frame
+ * @property spacing - Gap between and padding around component sets in the page frame
+ * @property {number} frameWidth - Width of the page frame (wraps into rows)
+ */
+export interface StylingProfile {
+  colors: {
+    componentSetFill: StyleToken<string>;
+    componentSetStroke: StyleToken<string>;
+    frameFill: StyleToken<string>;
+    pageBackground: StyleToken<string>;
+  };
+  radii: {
+    componentSet: StyleToken<number>;
+    frame: StyleToken<number>;
+  };
+  spacing: {
+    frameGap: StyleToken<number>;
+    framePadding: StyleToken<number>;
+  };
+  frameWidth: number;
+}
+
+export type StyleColorRole = keyof StylingProfile['colors'];
+export type StyleRadiusRole = keyof StylingProfile['radii'];
+export type StyleSpacingRole = keyof StylingProfile['spacing'];
+
+/**
+ * Stored or received profile (any field may be missing)
+ */
+export type StylingProfileInput = {
+  colors?: Partial<Record<StyleColorRole, Partial<StyleToken<string>>>>;
+  radii?: Partial<Record<StyleRadiusRole, Partial<StyleToken<number>>>>;
+  spacing?: Partial<Record<StyleSpacingRole, Partial<StyleToken<number>>>>;
+  frameWidth?: number;
+};
+
+/**
+ * Styling profile in use
+ *
+ * @interface StylingProfileState
+ * @property {StylingProfile} profile - Normalised profile
+ * @property {string[]} unresolved - Variable names that could not be resolved (fallbacks used)
+ */
+export interface StylingProfileState {
+  profile: StylingProfile;
+  unresolved: string[];
+}
+
+/**
+ * A number token after resolution
+ *
+ * @interface ResolvedStyleNumber
+ * @property {number} value - Fallback value
+ * @property {Variable | null} variable - Variable to bind, null to use the value
+ */
+export interface ResolvedStyleNumber {
+  value: number;
+  variable: Variable | null;
+}
+
+/**
+ * The plugin's original hardcoded styling
+ *
+ * @constant
+ */
+export const DEFAULT_STYLING_PROFILE: StylingProfile = {
+  colors: {
+    componentSetFill: { variable: '', fallback: '#FAF9FD' },
+    componentSetStroke: { variable: '', fallback: '#9747FF' },
+    frameFill: { variable: '', fallback: '#F2F2F2' },
+    pageBackground: { variable: '', fallback: '#CDD2DE' },
+  },
+  radii: {
+    componentSet: { variable: '', fallback: 12 },
+    frame: { variable: '', fallback: 12 },
+  },
+  spacing: {
+    frameGap: { variable: '', fallback: 24 },
+    framePadding: { variable: '', fallback: 24 },
+  },
+  frameWidth: 2024,
+};
+
+/**
+ * Resolved tokens, applied by binder.ts
+ */
+let STYLING_STATE: StylingProfileState = { profile: DEFAULT_STYLING_PROFILE, unresolved: [] };
+let STYLE_PAINTS = resolveFallbackPaints(DEFAULT_STYLING_PROFILE);
+let STYLE_NUMBERS = resolveFallbackNumbers(DEFAULT_STYLING_PROFILE);
+
+/**
+ * Normalise a colour token (an invalid fallback uses the default one)
+ *
+ * @private
+ */
+function normalizeColorToken(
+  token: Partial<StyleToken<string>> | undefined,
+  defaults: StyleToken<string>
+): StyleToken<string> {
+  return {
+    variable: typeof token?.variable === 'string' ? token.variable.trim() : defaults.variable,
+    fallback: normalizeHexColor(token?.fallback, defaults.fallback),
+  };
+}
+
+/**
+ * Normalise a number token (a negative or non-numeric fallback uses the default one)
+ *
+ * @private
+ */
+function normalizeNumberToken(
+  token: Partial<StyleToken<number>> | undefined,
+  defaults: StyleToken<number>
+): StyleToken<number> {
+  const fallback = token?.fallback;
+  return {
+    variable: typeof token?.variable === 'string' ? token.variable.trim() : defaults.variable,
+    fallback:
+      typeof fallback === 'number' && Number.isFinite(fallback) && fallback >= 0
+        ? fallback
+        : defaults.fallback,
+  };
+}
+
+/**
+ * Map each key of a token group through `normalize`
+ *
+ * @private
+ */
+function normalizeGroup<K extends string, T>(
+  group: Partial<Record<K, Partial<StyleToken<T>>>> | undefined,
+  defaults: Record<K, StyleToken<T>>,
+  normalize: (token: Partial<StyleToken<T>> | undefined, defaults: StyleToken<T>) => StyleToken<T>
+): Record<K, StyleToken<T>> {
+  const normalized = {} as Record<K, StyleToken<T>>;
+  for (const key of Object.keys(defaults) as K[]) {
+    normalized[key] = normalize(group?.[key], defaults[key]);
+  }
+  return normalized;
+}
+
+/**
+ * Fill in missing fields and drop invalid values
+ *
+ * @param {StylingProfileInput} [profile] - Stored or received profile
+ * @returns {StylingProfile} Complete profile
+ */
+export function normalizeStylingProfile(profile: StylingProfileInput = {}): StylingProfile {
+  const frameWidth = profile.frameWidth;
+  return {
+    colors: normalizeGroup(profile.colors, DEFAULT_STYLING_PROFILE.colors, normalizeColorToken),
+    radii: normalizeGroup(profile.radii, DEFAULT_STYLING_PROFILE.radii, normalizeNumberToken),
+    spacing: normalizeGroup(profile.spacing, DEFAULT_STYLING_PROFILE.spacing, normalizeNumberToken),
+    frameWidth:
+      typeof frameWidth === 'number' && Number.isFinite(frameWidth) && frameWidth >= 100
+        ? Math.round(frameWidth)
+        : DEFAULT_STYLING_PROFILE.frameWidth,
+  };
+}
+
+/**
+ * Fallback paints of a profile (no variables bound)
+ *
+ * @private
+ */
+function resolveFallbackPaints(profile: StylingProfile): Record<StyleColorRole, SolidPaint> {
+  const paints = {} as Record<StyleColorRole, SolidPaint>;
+  for (const role of Object.keys(profile.colors) as StyleColorRole[]) {
+    paints[role] = { type: 'SOLID', color: hexToRgb(profile.colors[role].fallback) };
+  }
+  return paints;
+}
+
+/**
+ * Fallback numbers of a profile (no variables bound)
+ *
+ * @private
+ */
+function resolveFallbackNumbers(
+  profile: StylingProfile
+): Record<StyleRadiusRole | StyleSpacingRole, ResolvedStyleNumber> {
+  return {
+    componentSet: { value: profile.radii.componentSet.fallback, variable: null },
+    frame: { value: profile.radii.frame.fallback, variable: null },
+    frameGap: { value: profile.spacing.frameGap.fallback, variable: null },
+    framePadding: { value: profile.spacing.framePadding.fallback, variable: null },
+  };
+}
+
+/**
+ * Set the styling profile and resolve its variables
+ *
+ * @param {StylingProfileInput | null} profile - Profile (null resets to the default styling)
+ * @returns {Promise<StylingProfileState>} The profile now in use, with unresolved variable names
+ */
+export async function setStylingProfile(
+  profile: StylingProfileInput | null
+): Promise<StylingProfileState> {
+  const normalized = normalizeStylingProfile(profile ?? {});
+  const paints = resolveFallbackPaints(normalized);
+  const numbers = resolveFallbackNumbers(normalized);
+  const unresolved: string[] = [];
+
+  for (const role of Object.keys(normalized.colors) as StyleColorRole[]) {
+    const name = normalized.colors[role].variable;
+    if (name) {
+      const variable = await resolveVariableOfType(name, 'COLOR');
+      if (variable) {
+        paints[role] = figma.variables.setBoundVariableForPaint(paints[role], 'color', variable);
+      } else {
+        unresolved.push(name);
+      }
+    }
+  }
+
+  const numberTokens: Record<StyleRadiusRole | StyleSpacingRole, StyleToken<number>> = {
+    ...normalized.radii,
+    ...normalized.spacing,
+  };
+  for (const role of Object.keys(numberTokens) as Array<StyleRadiusRole | StyleSpacingRole>) {
+    const name = numberTokens[role].variable;
+    if (name) {
+      const variable = await resolveVariableOfType(name, 'FLOAT');
+      if (variable) {
+        numbers[role] = { ...numbers[role], variable };
+      } else {
+        unresolved.push(name);
+      }
+    }
+  }
+
+  if (unresolved.length > 0) {
+    logger.warn(`Styling variables not found, using fallbacks: ${unresolved.join(', ')}`);
+  }
+
+  STYLE_PAINTS = paints;
+  STYLE_NUMBERS = numbers;
+  STYLING_STATE = { profile: normalized, unresolved };
+  return STYLING_STATE;
+}
+
+/**
+ * Get the styling profile in use
+ *
+ * @returns {StylingProfileState} Profile and unresolved variable names
+ */
+export function getStylingProfile(): StylingProfileState {
+  return STYLING_STATE;
+}
+
+/**
+ * Paint for a colour role (bound to its variable when it resolved)
+ *
+ * @param {StyleColorRole} role - e.g. "frameFill"
+ * @returns {SolidPaint} Paint
+ */
+export function getStylePaint(role: StyleColorRole): SolidPaint {
+  return STYLE_PAINTS[role];
+}
+
+/**
+ * Value and variable for a radius or spacing role
+ *
+ * Radius and spacing roles have distinct names, so they share one lookup.
+ *
+ * @param {StyleRadiusRole | StyleSpacingRole} role - e.g. "frameGap"
+ * @returns {ResolvedStyleNumber} Fallback value and variable to bind
+ */
+export function getStyleNumber(role: StyleRadiusRole | StyleSpacingRole): ResolvedStyleNumber {
+  return STYLE_NUMBERS[role];
+}
+
+/**
+ * Read the profile stored in a document
+ *
+ * @param {DocumentNode} document - Usually `figma.root`
+ * @returns {StylingProfileInput | null} Stored profile, or null if none (or unreadable)
+ */
+export function getStoredStylingProfile(document: DocumentNode): StylingProfileInput | null {
+  const raw = document.getPluginData(PLUGIN_DATA_KEYS.STYLING_PROFILE);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as StylingProfileInput;
+  } catch (error) {
+    logger.warn('Invalid styling profile in this file, using the default styling:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a profile in a document (null removes it)
+ *
+ * @param {DocumentNode} document - Usually `figma.root`
+ * @param {StylingProfile | null} profile - Profile to store
+ */
+export function setStoredStylingProfile(
+  document: DocumentNode,
+  profile: StylingProfile | null
+): void {
+  document.setPluginData(PLUGIN_DATA_KEYS.STYLING_PROFILE, profile ? JSON.stringify(profile) : '');
+}
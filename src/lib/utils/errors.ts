@@ -162,6 +162,85 @@ export class IconGenerationError extends FigmaPluginError {
   }
 }
 
+/**
+ * What made a downloaded SVG unusable
+ *
+ * - `malformed`: the markup does not parse
+ * - `not-svg`: the root element is not `<svg>`
+ * - `viewbox`: missing/non-square viewBox, or width/height not the optical size
+ * - `no-path`: nothing to draw (no `<path>` with data)
+ */
+export type SvgProblem = 'malformed' | 'not-svg' | 'viewbox' | 'no-path';
+
+/**
+ * Error thrown when a variant's SVG fails validation before node creation.
+ *
+ * @extends IconGenerationError
+ * @category Icons
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   sanitizeSvg(svgContent, { iconName: 'home', variantName, opticalSize: 24 });
+ * } catch (error) {
+ *   if (error instanceof SvgValidationError) {
+ *     logger.warn(`${error.variantName}: ${error.problem}`);
+ *   }
+ * }
+ * ```
+ */
+export class SvgValidationError extends IconGenerationError {
+  /**
+   * Creates a new SvgValidationError
+   * @param iconName - Icon the variant belongs to
+   * @param variantName - Variant that was rejected
+   * @param problem - Which check failed
+   * @param reason - Human-readable detail
+   */
+  constructor(
+    iconName: string,
+    public readonly variantName: string,
+    public readonly problem: SvgProblem,
+    reason: string
+  ) {
+    super(iconName, `${variantName}: ${reason}`, { variantName, problem });
+  }
+}
+
+/**
+ * Error thrown when an intermediate variant cannot be derived from its
+ * upstream neighbours (missing neighbour, or outlines that don't line up).
+ *
+ * @extends IconGenerationError
+ * @category Icons
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   interpolateIconSvg('home', 'rounded', variant, getNeighbourSvg);
+ * } catch (error) {
+ *   if (error instanceof SvgInterpolationError) {
+ *     logger.warn(`${error.variantName}: ${error.reason}`);
+ *   }
+ * }
+ * ```
+ */
+export class SvgInterpolationError extends IconGenerationError {
+  /**
+   * Creates a new SvgInterpolationError
+   * @param iconName - Icon the variant belongs to
+   * @param variantName - Variant that could not be derived
+   * @param reason - Human-readable detail
+   */
+  constructor(
+    iconName: string,
+    public readonly variantName: string,
+    public readonly reason: string
+  ) {
+    super(iconName, `${variantName}: ${reason}`, { variantName });
+  }
+}
+
 /**
  * Error thrown when fetching resources from external URLs fails.
  *
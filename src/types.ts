@@ -1,5 +1,15 @@
 // Shared types between plugin code and UI
 
+import type { VariantProfile } from '@lib/icons/variant-profile';
+import type { UnknownIconName } from '@lib/icons/icon-lookup';
+import type { SvgSourceKind } from '@lib/github/svg-source';
+import type { IconRepository, IconStyle } from '@lib/github/url-generator';
+import type { SvgBundleMeta } from '@lib/github/svg-bundle';
+import type { VariantSchema } from '@lib/icons/variant-schema';
+import type { ComponentSetLayout } from '@lib/icons/set-layout';
+import type { IconColorState } from '@lib/tokens/icon-color';
+import type { StylingProfileState } from '@lib/tokens/styling-profile';
+
 export enum PLUGIN_MESSAGES {
   // UI -> Plugin
   START_GENERATION = 'START_GENERATION',
@@ -7,6 +17,30 @@ export enum PLUGIN_MESSAGES {
   RUN_PERFORMANCE_TEST = 'RUN_PERFORMANCE_TEST',
   TEST_SINGLE_ICON = 'TEST_SINGLE_ICON',
   CANCEL = 'CANCEL',
+  QUEUE_START = 'QUEUE_START',
+  QUEUE_RESUME = 'QUEUE_RESUME',
+  QUEUE_CLEAR = 'QUEUE_CLEAR',
+  SET_VARIANT_PROFILE = 'SET_VARIANT_PROFILE',
+  VALIDATE_ICONS = 'VALIDATE_ICONS',
+  SEARCH_ICONS = 'SEARCH_ICONS',
+  JUMP_TO_ICON = 'JUMP_TO_ICON',
+  AUDIT_FILE = 'AUDIT_FILE',
+  REPAIR_ICONS = 'REPAIR_ICONS',
+  SET_SVG_SOURCE = 'SET_SVG_SOURCE',
+  LOAD_SVG_ARCHIVE = 'LOAD_SVG_ARCHIVE',
+  LOAD_SVG_BUNDLE = 'LOAD_SVG_BUNDLE',
+  GET_SVG_CACHE_STATS = 'GET_SVG_CACHE_STATS',
+  CLEAR_SVG_CACHE = 'CLEAR_SVG_CACHE',
+  SET_ICON_REPOSITORY = 'SET_ICON_REPOSITORY',
+  IMPORT_CUSTOM_ICONS = 'IMPORT_CUSTOM_ICONS',
+  INTERPOLATE_VARIANTS = 'INTERPOLATE_VARIANTS',
+  SET_VARIANT_SCHEMA = 'SET_VARIANT_SCHEMA',
+  RENAME_VARIANTS = 'RENAME_VARIANTS',
+  SET_COMPONENT_SET_LAYOUT = 'SET_COMPONENT_SET_LAYOUT',
+  SPLIT_COMPONENT_SETS = 'SPLIT_COMPONENT_SETS',
+  SET_ICON_COLOR = 'SET_ICON_COLOR',
+  REBIND_ICON_COLOR = 'REBIND_ICON_COLOR',
+  SET_STYLING_PROFILE = 'SET_STYLING_PROFILE',
 
   // Plugin -> UI
   INIT = 'INIT',
@@ -16,15 +50,35 @@ export enum PLUGIN_MESSAGES {
   WARNING = 'WARNING',
   EXISTING_COMPONENTS = 'EXISTING_COMPONENTS',
   PERFORMANCE_RESULTS = 'PERFORMANCE_RESULTS',
+  QUEUE_STATE = 'QUEUE_STATE',
+  CHECKPOINT_STATE = 'CHECKPOINT_STATE',
+  GENERATION_PLAN = 'GENERATION_PLAN',
+  ICON_VALIDATION = 'ICON_VALIDATION',
+  ICON_SEARCH_RESULTS = 'ICON_SEARCH_RESULTS',
+  AUDIT_REPORT = 'AUDIT_REPORT',
+  REPAIR_RESULT = 'REPAIR_RESULT',
+  SVG_SOURCE_STATE = 'SVG_SOURCE_STATE',
+  SVG_CACHE_STATS = 'SVG_CACHE_STATS',
+  ICON_REPOSITORY_STATE = 'ICON_REPOSITORY_STATE',
+  CUSTOM_IMPORT_RESULT = 'CUSTOM_IMPORT_RESULT',
+  INTERPOLATION_RESULT = 'INTERPOLATION_RESULT',
+  VARIANT_SCHEMA_STATE = 'VARIANT_SCHEMA_STATE',
+  VARIANT_RENAME_RESULT = 'VARIANT_RENAME_RESULT',
+  COMPONENT_SET_LAYOUT_STATE = 'COMPONENT_SET_LAYOUT_STATE',
+  SET_SPLIT_RESULT = 'SET_SPLIT_RESULT',
+  ICON_COLOR_STATE = 'ICON_COLOR_STATE',
+  ICON_COLOR_REBIND_RESULT = 'ICON_COLOR_REBIND_RESULT',
+  STYLING_PROFILE_STATE = 'STYLING_PROFILE_STATE',
 }
 
 export interface GenerationConfig {
-  style: 'rounded' | 'sharp' | 'outlined';
+  style: IconStyle;
   weights: number[];
   pageStrategy: 'category' | 'alphabetical' | 'hybrid';
   iconsPerPage?: number;
   categories?: string[];
   specificIcons?: string[];
+  scratchPage?: string;
 }
 
 export interface IconVariantConfig {
@@ -59,6 +113,50 @@ export interface PluginMessage {
   totalIcons?: number;
   // Page names for smart category selection
   pageNames?: string[];
+  // Generation queue snapshot
+  queue?: QueueState;
+  // Resumable category checkpoints (INIT: all in-progress, CHECKPOINT_STATE: one)
+  checkpoints?: GenerationCheckpoint[];
+  checkpoint?: GenerationCheckpoint;
+  // Dry-run plan for a category
+  plan?: GenerationPlan;
+  // Variant profile used for generation
+  variantProfile?: VariantProfile;
+  // Result of validating a pasted icon list
+  iconValidation?: IconListValidation;
+  // Icon search hits for the browse panel
+  searchResults?: IconSearchHit[];
+  query?: string;
+  // File-wide icon health audit
+  auditReport?: FileAuditReport;
+  // Per-icon change log of a repair run
+  repairLog?: IconRepairEntry[];
+  // Active SVG source (INIT, SVG_SOURCE_STATE)
+  svgSource?: SvgSourceState;
+  // Persistent SVG cache usage
+  svgCacheStats?: SvgCacheStats;
+  // Live download concurrency and throughput (PROGRESS_UPDATE)
+  fetchRate?: FetchRate;
+  // Repository icons are fetched from (INIT, ICON_REPOSITORY_STATE)
+  iconRepository?: IconRepository;
+  // Outcome of importing custom SVG icons
+  customImport?: CustomImportReport;
+  // Per-icon log of an interpolation run
+  interpolationLog?: InterpolationEntry[];
+  // Variant naming schema in use (INIT, VARIANT_SCHEMA_STATE)
+  variantSchema?: VariantSchema;
+  // Per-icon log of renaming variants to another schema
+  variantRenameLog?: VariantRenameEntry[];
+  // One ComponentSet per icon or per style (INIT, COMPONENT_SET_LAYOUT_STATE)
+  setLayout?: ComponentSetLayout;
+  // Per-icon log of splitting combined sets by style
+  setSplitLog?: SetSplitEntry[];
+  // Colour variable painted onto variant vectors (INIT, ICON_COLOR_STATE)
+  iconColor?: IconColorState;
+  // Outcome of repainting existing variants with the icon colour
+  iconColorRebind?: IconColorRebindResult;
+  // Container styling of this document, with unresolved variables (INIT, STYLING_PROFILE_STATE)
+  stylingProfile?: StylingProfileState;
 }
 
 export interface UIMessage {
@@ -67,6 +165,205 @@ export interface UIMessage {
   [key: string]: unknown;
 }
 
+export interface IconPlacement {
+  name: string;
+  category: string | null;
+}
+
+export interface IconListValidation {
+  valid: IconPlacement[];
+  unknown: UnknownIconName[];
+}
+
+export interface IconSearchHit {
+  name: string;
+  category: string | null;
+  componentSet: {
+    id: string;
+    pageName: string;
+    variantCount: number;
+    commitSha: string | null;
+  } | null;
+}
+
+export interface AuditIconRef {
+  name: string;
+  pageName: string;
+  nodeId: string;
+}
+
+export interface AuditVariantIssue extends AuditIconRef {
+  variants: string[];
+}
+
+export interface FileAuditReport {
+  generatedAt: string;
+  commitSha: string;
+  pagesScanned: number;
+  componentSetsScanned: number;
+  incomplete: Array<AuditIconRef & { expected: number; missing: string[] }>;
+  staleCommitSha: Array<AuditIconRef & { commitSha: string | null }>;
+  missingSvgHash: AuditVariantIssue[];
+  extraFrames: AuditVariantIssue[];
+  leftoverFills: AuditVariantIssue[];
+  duplicates: Array<{ name: string; locations: AuditIconRef[] }>;
+  deprecated: AuditIconRef[];
+}
+
+export type RepairScope = 'selection' | 'page' | 'document' | 'nodes';
+
+export interface IconRepairEntry {
+  name: string;
+  nodeId: string;
+  changes: string[];
+  errors: string[];
+}
+
+export interface InterpolationEntry {
+  name: string;
+  nodeId: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  failed: string[];
+}
+
+export interface VariantRenameEntry {
+  name: string;
+  nodeId: string;
+  renamed: number;
+  unchanged: number;
+  unparsed: string[];
+}
+
+export interface SetSplitEntry {
+  name: string;
+  nodeId: string;
+  sets: string[];
+  unparsed: string[];
+  error?: string;
+}
+
+export interface IconColorRebindResult {
+  componentSets: number;
+  variants: number;
+  layers: number;
+  boundVariable: string | null;
+}
+
+export interface CustomIconSkip {
+  path: string;
+  reason: string;
+}
+
+export interface CustomImportEntry {
+  name: string;
+  nodeId: string;
+  created: number;
+  updated: number;
+  unchanged: number;
+  invalid: string[];
+  error?: string;
+}
+
+export interface CustomImportReport {
+  pageName: string;
+  icons: CustomImportEntry[];
+  skipped: CustomIconSkip[];
+}
+
+export interface SvgSourceState {
+  kind: SvgSourceKind;
+  label: string;
+  mirrorUrl?: string;
+  archiveFiles: number;
+  bundle: SvgBundleMeta | null;
+}
+
+export interface SvgCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface FetchRate {
+  concurrency: number;
+  itemsPerSecond: number;
+  cooldownMs: number;
+}
+
+export type QueueJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface QueueJob {
+  category: string;
+  categoryData: { firstIcon: string; lastIconExclusive: string };
+  icons?: string[];
+  variantProfile?: VariantProfile;
+  status: QueueJobStatus;
+  completedIcons?: number;
+  totalIcons?: number;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface QueueState {
+  jobs: QueueJob[];
+  updatedAt: string;
+}
+
+export interface GenerationCheckpointCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface GenerationCheckpoint {
+  category: string;
+  commitSha: string;
+  // Hash of the run's icon list and variant profile (see getCheckpointScope)
+  scope: string;
+  status: 'in-progress' | 'completed';
+  lastCompletedIcon: string | null;
+  processedIcons: number;
+  totalIcons: number;
+  counts: GenerationCheckpointCounts;
+  // Counts up to lastCompletedIcon, restored on resume (absent in older checkpoints)
+  resumeCounts?: GenerationCheckpointCounts;
+  updatedAt: string;
+}
+
+export interface GenerationPlanGapEntry {
+  iconName: string;
+  existingVariants: number;
+}
+
+export interface GenerationPlanUpdateEntry {
+  iconName: string;
+  reason: string;
+}
+
+export interface GenerationPlan {
+  category: string;
+  commitSha: string;
+  pageName: string;
+  pageExists: boolean;
+  renamePageFrom: string | null;
+  totalIcons: number;
+  variantsPerIcon: number;
+  create: string[];
+  fillGaps: GenerationPlanGapEntry[];
+  update: GenerationPlanUpdateEntry[];
+  fastForward: string[];
+  upToDate: string[];
+  deprecate: string[];
+  estimatedDownloads: number;
+}
+
 export interface PerformanceTestResult {
   iconCount: number;
   time: number;
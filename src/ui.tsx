@@ -3,7 +3,71 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { PLUGIN_MESSAGES, PluginMessage } from '@/types';
+import {
+  PLUGIN_MESSAGES,
+  PluginMessage,
+  GenerationCheckpoint,
+  GenerationConfig,
+  IconListValidation,
+  IconSearchHit,
+  GenerationPlan,
+  RepairScope,
+  FileAuditReport,
+  IconRepairEntry,
+  CustomImportReport,
+  InterpolationEntry,
+  VariantRenameEntry,
+  SetSplitEntry,
+  IconColorRebindResult,
+  SvgSourceState,
+  SvgCacheStats,
+  FetchRate,
+  QueueJob,
+  QueueJobStatus,
+} from '@/types';
+import {
+  ALL_ICON_STYLES,
+  getProfileVariantCount,
+  type VariantProfile,
+} from '@lib/icons/variant-profile';
+import { STYLE_NAMES } from '@lib/icons/variant-formatter';
+import { DEFAULT_CUSTOM_ICONS_PAGE } from '@lib/icons/custom-icons';
+import {
+  DEFAULT_VARIANT_SCHEMA,
+  VARIANT_SCHEMA_PRESETS,
+  VARIANT_VALUE_FORMATS,
+  findVariantSchemaPreset,
+  formatVariantKey,
+  formatVariantValues,
+  validateVariantSchema,
+  type VariantAxis,
+  type VariantSchema,
+  type VariantSchemaPreset,
+} from '@lib/icons/variant-schema';
+import { DEFAULT_COMPONENT_SET_LAYOUT, type ComponentSetLayout } from '@lib/icons/set-layout';
+import {
+  DEFAULT_ICON_COLOR,
+  type IconColorSettings,
+  type IconColorState,
+} from '@lib/tokens/icon-color';
+import { isHexColor } from '@lib/tokens/color';
+import {
+  DEFAULT_STYLING_PROFILE,
+  type StyleColorRole,
+  type StyleRadiusRole,
+  type StyleSpacingRole,
+  type StylingProfile,
+  type StylingProfileState,
+} from '@lib/tokens/styling-profile';
+import {
+  DEFAULT_ICON_REPOSITORY,
+  type IconRepository,
+  type IconStyle,
+} from '@lib/github/url-generator';
+import { parseTarArchive, type ArchiveFile } from '@lib/github/svg-archive';
+import { DEFAULT_MIRROR_URL, type SvgSourceKind } from '@lib/github/svg-source';
+import { hasLegacyIconCategories, isLegacyStyle } from '@lib/github/url-generator';
+import { getSvgBundleMeta, splitSvgBundle, validateSvgBundle } from '@lib/github/svg-bundle';
 // @ts-ignore - JSON import
 import categoriesData from '@/data/categories-summary.json';
 
@@ -34,6 +98,225 @@ interface GenerationState {
   currentIconProgress: number; // 0-100 for current icon variants
 }
 
+// Status colors for generation queue entries
+const QUEUE_STATUS_COLORS: Record<QueueJobStatus, string> = {
+  pending: '#666',
+  running: '#18A0FB',
+  done: '#14AE5C',
+  failed: '#D32F2F',
+};
+
+// Styles a run can download: legacy styles stay hidden until their categories are bundled
+const GENERATION_STYLES: IconStyle[] = hasLegacyIconCategories()
+  ? ALL_ICON_STYLES
+  : ALL_ICON_STYLES.filter((style) => !isLegacyStyle(style));
+
+// Variant profile axes (values in canonical order, matching the upstream matrix)
+type VariantAxisKey = Exclude<keyof VariantProfile, 'fillProperty'>;
+
+const VARIANT_AXES: Array<{
+  key: VariantAxisKey;
+  label: string;
+  values: Array<string | number>;
+  format?: (value: string | number) => string;
+}> = [
+  {
+    key: 'styles',
+    label: 'Style',
+    values: GENERATION_STYLES,
+    format: (v) => STYLE_NAMES[v as IconStyle],
+  },
+  { key: 'weights', label: 'Weight', values: [100, 200, 300, 400, 500, 600, 700] },
+  { key: 'fills', label: 'Fill', values: [0, 1], format: (v) => (v ? 'On' : 'Off') },
+  { key: 'grades', label: 'Grade', values: [-25, 0, 200] },
+  { key: 'opticalSizes', label: 'Size', values: [20, 24, 40, 48], format: (v) => `${v}dp` },
+];
+
+// Variant naming schema editor: axis labels and the variant used to preview value formats
+const SCHEMA_AXIS_LABELS: Record<VariantAxis, string> = {
+  style: 'Style',
+  weight: 'Weight',
+  fill: 'Fill',
+  grade: 'Grade',
+  opticalSize: 'Size',
+};
+
+const SCHEMA_PREVIEW_KEY = {
+  style: 'rounded' as const,
+  variant: {
+    weight: 400 as const,
+    fill: 1 as const,
+    grade: 200 as const,
+    opticalSize: 24 as const,
+  },
+};
+
+const SCHEMA_PRESET_LABELS: Record<VariantSchemaPreset, string> = {
+  material: 'Material (Style=Rounded, Fill=On)',
+  library: 'Library (style=rounded, filled=true)',
+};
+
+const COMPONENT_SET_LAYOUT_LABELS: Record<ComponentSetLayout, string> = {
+  combined: 'One per icon (home)',
+  'per-style': 'One per style (home / Rounded)',
+};
+
+// Styling profile editor: one row per token (variable name and fallback)
+const STYLE_COLOR_LABELS: Record<StyleColorRole, string> = {
+  componentSetFill: 'Set fill',
+  componentSetStroke: 'Set stroke',
+  frameFill: 'Frame fill',
+  pageBackground: 'Page',
+};
+
+const STYLE_RADIUS_LABELS: Record<StyleRadiusRole, string> = {
+  componentSet: 'Set radius',
+  frame: 'Frame radius',
+};
+
+const STYLE_SPACING_LABELS: Record<StyleSpacingRole, string> = {
+  frameGap: 'Gap',
+  framePadding: 'Padding',
+};
+
+const FULL_PROFILE: VariantProfile = {
+  styles: ['rounded', 'outlined', 'sharp'],
+  weights: [100, 200, 300, 400, 500, 600, 700],
+  fills: [0, 1],
+  grades: [-25, 0, 200],
+  opticalSizes: [20, 24, 40, 48],
+};
+
+// Sets a configured run draws from
+type ConfigScope = 'selected' | 'remaining' | 'all';
+
+// Split pasted icon names on whitespace and commas (same rules as parseIconList)
+const parseIconNames = (text: string): string[] => {
+  const names = text
+    .split(/[\s,]+/)
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+  return names.filter((name, index) => names.indexOf(name) === index);
+};
+
+// Replace one pasted icon name with a suggestion
+const replaceIconName = (text: string, from: string, to: string): string =>
+  text
+    .split(/([\s,]+)/)
+    .map((part) => (part.trim().toLowerCase() === from ? to : part))
+    .join('');
+
+// Plan sections in display order
+const planGroups = (plan: GenerationPlan): Array<{ label: string; names: string[] }> => [
+  { label: 'Create', names: plan.create },
+  {
+    label: 'Fill gaps',
+    names: plan.fillGaps.map((entry) => `${entry.iconName} (${entry.existingVariants})`),
+  },
+  { label: 'Update', names: plan.update.map((entry) => entry.iconName) },
+  { label: 'Fast-forward SHA', names: plan.fastForward },
+  { label: 'Up to date', names: plan.upToDate },
+  { label: 'Deprecate', names: plan.deprecate },
+];
+
+// Audit report sections in display order (detail shown next to each icon)
+const auditGroups = (
+  report: FileAuditReport
+): Array<{
+  label: string;
+  entries: Array<{ name: string; pageName: string; nodeId: string; detail: string }>;
+}> => [
+  {
+    label: 'Incomplete',
+    entries: report.incomplete.map((entry) => ({
+      ...entry,
+      detail: `${entry.expected - entry.missing.length}/${entry.expected}: missing ${entry.missing.join('; ')}`,
+    })),
+  },
+  {
+    label: 'Stale commit SHA',
+    entries: report.staleCommitSha.map((entry) => ({
+      ...entry,
+      detail: entry.commitSha ? entry.commitSha.substring(0, 7) : 'no SHA',
+    })),
+  },
+  {
+    label: 'Missing svg_hash',
+    entries: report.missingSvgHash.map((entry) => ({
+      ...entry,
+      detail: `${entry.variants.length} variants`,
+    })),
+  },
+  {
+    label: 'Extra frames',
+    entries: report.extraFrames.map((entry) => ({
+      ...entry,
+      detail: `${entry.variants.length} variants`,
+    })),
+  },
+  {
+    label: 'Leftover fills',
+    entries: report.leftoverFills.map((entry) => ({
+      ...entry,
+      detail: `${entry.variants.length} variants`,
+    })),
+  },
+  {
+    label: 'Duplicates',
+    entries: report.duplicates.flatMap((entry) =>
+      entry.locations.map((location) => ({ ...location, detail: location.pageName }))
+    ),
+  },
+  {
+    label: 'Deprecated',
+    entries: report.deprecated.map((entry) => ({ ...entry, detail: entry.pageName })),
+  },
+];
+
+// Icons the repair command can fix (extra frames, leftover fills, missing variants)
+const repairableNodeIds = (report: FileAuditReport): string[] => {
+  const ids = [...report.incomplete, ...report.extraFrames, ...report.leftoverFills].map(
+    (entry) => entry.nodeId
+  );
+  return ids.filter((id, index) => ids.indexOf(id) === index);
+};
+
+// SVG files sent to the plugin per LOAD_SVG_ARCHIVE message
+const ARCHIVE_CHUNK_SIZE = 2000;
+
+// Icons sent to the plugin per LOAD_SVG_BUNDLE message
+const BUNDLE_CHUNK_ICONS = 50;
+
+// Read an uploaded file, gunzipping .gz / .tgz
+const readUploadedFile = async (file: File): Promise<Uint8Array> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!/\.(tgz|gz)$/i.test(file.name)) {
+    return bytes;
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Read the SVGs from an uploaded .tar / .tar.gz / .tgz
+const readSvgArchive = async (file: File): Promise<ArchiveFile[]> =>
+  parseTarArchive(await readUploadedFile(file));
+
+// Read dropped custom icons: loose .svg files, or the SVGs inside a .tar(.gz)
+const readCustomIconFiles = async (fileList: FileList): Promise<ArchiveFile[]> => {
+  const files: ArchiveFile[] = [];
+  for (const file of Array.from(fileList)) {
+    if (/\.svg$/i.test(file.name)) {
+      files.push({ path: file.webkitRelativePath || file.name, content: await file.text() });
+    } else {
+      files.push(...(await readSvgArchive(file)));
+    }
+  }
+  return files;
+};
+
+// Bytes as megabytes for the cache panel
+const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 function App() {
   console.log('App component mounting');
 
@@ -51,6 +334,66 @@ function App() {
     currentIconProgress: 0,
   });
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>([]);
+  const [checkpoints, setCheckpoints] = useState<Record<string, GenerationCheckpoint>>({});
+  const [plan, setPlan] = useState<GenerationPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [variantProfile, setVariantProfile] = useState<VariantProfile>(FULL_PROFILE);
+  const [runConfig, setRunConfig] = useState<GenerationConfig>({
+    style: 'rounded',
+    weights: [400],
+    pageStrategy: 'category',
+    iconsPerPage: 150,
+  });
+  const [configScope, setConfigScope] = useState<ConfigScope>('selected');
+  const [specificIconsText, setSpecificIconsText] = useState('');
+  const [iconValidation, setIconValidation] = useState<IconListValidation | null>(null);
+  const [useScratchPage, setUseScratchPage] = useState(false);
+  const [scratchPageName, setScratchPageName] = useState('Scratch: icons');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<IconSearchHit[]>([]);
+  const [auditReport, setAuditReport] = useState<FileAuditReport | null>(null);
+  const [isAuditing, setIsAuditing] = useState(false);
+  const [repairLog, setRepairLog] = useState<IconRepairEntry[] | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [svgSource, setSvgSource] = useState<SvgSourceState | null>(null);
+  const [mirrorUrl, setMirrorUrl] = useState(DEFAULT_MIRROR_URL);
+  const [isLoadingArchive, setIsLoadingArchive] = useState(false);
+  const [svgCacheStats, setSvgCacheStats] = useState<SvgCacheStats | null>(null);
+  const [iconRepository, setIconRepository] = useState<IconRepository>(DEFAULT_ICON_REPOSITORY);
+  const [fetchRate, setFetchRate] = useState<FetchRate | null>(null);
+  const [customImportStyle, setCustomImportStyle] = useState<IconStyle>('rounded');
+  const [customImportPage, setCustomImportPage] = useState(DEFAULT_CUSTOM_ICONS_PAGE);
+  const [customImport, setCustomImport] = useState<CustomImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [interpolationWeights, setInterpolationWeights] = useState('350, 450');
+  const [interpolationGrades, setInterpolationGrades] = useState('');
+  const [interpolationLog, setInterpolationLog] = useState<InterpolationEntry[] | null>(null);
+  const [isInterpolating, setIsInterpolating] = useState(false);
+  const [variantSchema, setVariantSchema] = useState<VariantSchema>(DEFAULT_VARIANT_SCHEMA);
+  const [savedVariantSchema, setSavedVariantSchema] =
+    useState<VariantSchema>(DEFAULT_VARIANT_SCHEMA);
+  const [renameFrom, setRenameFrom] = useState<VariantSchemaPreset | 'current'>('current');
+  const [variantRenameLog, setVariantRenameLog] = useState<VariantRenameEntry[] | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [componentSetLayout, setComponentSetLayout] = useState<ComponentSetLayout>(
+    DEFAULT_COMPONENT_SET_LAYOUT
+  );
+  const [splitLog, setSplitLog] = useState<SetSplitEntry[] | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [iconColorSettings, setIconColorSettings] = useState<IconColorSettings>(DEFAULT_ICON_COLOR);
+  const [iconColor, setIconColor] = useState<IconColorState>({
+    settings: null,
+    boundVariable: null,
+  });
+  const [iconColorRebind, setIconColorRebind] = useState<IconColorRebindResult | null>(null);
+  const [isRepainting, setIsRepainting] = useState(false);
+  const [stylingDraft, setStylingDraft] = useState<StylingProfile>(DEFAULT_STYLING_PROFILE);
+  const [stylingProfile, setStylingProfile] = useState<StylingProfileState>({
+    profile: DEFAULT_STYLING_PROFILE,
+    unresolved: [],
+  });
+  const searchQueryRef = useRef('');
   const logsEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll logs to bottom
@@ -58,11 +401,52 @@ function App() {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  // Search icons (debounced; the plugin also checks which ones exist in the file)
+  useEffect(() => {
+    searchQueryRef.current = searchQuery;
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      parent.postMessage(
+        { pluginMessage: { type: PLUGIN_MESSAGES.SEARCH_ICONS, query: searchQuery } },
+        '*'
+      );
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
   // Add log entry
   const addLog = (level: 'info' | 'warning' | 'error', message: string) => {
     setLogs((prev) => [...prev, { timestamp: new Date(), level, message }]);
   };
 
+  // Apply a queue snapshot from the plugin
+  const applyQueueState = (jobs: QueueJob[]) => {
+    setQueueJobs(jobs);
+
+    // Keep the progress panel on the set the queue is currently running
+    const runningJob = jobs.find((job) => job.status === 'running');
+    if (runningJob) {
+      const runningCategory = categories.find((c) => c.name === runningJob.category);
+      setGenerationState((prev) =>
+        prev.isRunning && prev.category === runningJob.category
+          ? prev
+          : {
+              isRunning: true,
+              category: runningJob.category,
+              totalIcons: runningCategory?.count ?? 0,
+              completedIcons: 0,
+              currentIcon: null,
+              currentIconProgress: 0,
+            }
+      );
+    }
+  };
+
   // Handle messages from plugin
   useEffect(() => {
     window.onmessage = (event: MessageEvent) => {
@@ -73,6 +457,70 @@ function App() {
         case PLUGIN_MESSAGES.INIT:
           addLog('info', 'Plugin initialized');
 
+          if (msg.variantProfile) {
+            setVariantProfile(msg.variantProfile);
+          }
+
+          if (msg.svgCacheStats) {
+            setSvgCacheStats(msg.svgCacheStats);
+          }
+
+          if (msg.iconRepository) {
+            setIconRepository(msg.iconRepository);
+          }
+
+          if (msg.variantSchema) {
+            setVariantSchema(msg.variantSchema);
+            setSavedVariantSchema(msg.variantSchema);
+          }
+
+          if (msg.setLayout) {
+            setComponentSetLayout(msg.setLayout);
+          }
+
+          if (msg.iconColor) {
+            setIconColor(msg.iconColor);
+            setIconColorSettings(msg.iconColor.settings ?? DEFAULT_ICON_COLOR);
+          }
+
+          if (msg.stylingProfile) {
+            setStylingProfile(msg.stylingProfile);
+            setStylingDraft(msg.stylingProfile.profile);
+          }
+
+          if (msg.svgSource) {
+            setSvgSource(msg.svgSource);
+            setMirrorUrl(msg.svgSource.mirrorUrl || DEFAULT_MIRROR_URL);
+            if (msg.svgSource.kind === 'archive' && msg.svgSource.archiveFiles === 0) {
+              addLog('warning', 'SVG source is an archive - upload it again before generating');
+            }
+            if (msg.svgSource.kind === 'bundle' && !msg.svgSource.bundle) {
+              addLog('warning', 'SVG source is a bundle - load it again before generating');
+            }
+          }
+
+          // Restore resumable checkpoints (cancelled or crashed runs)
+          if (msg.checkpoints) {
+            const restored: Record<string, GenerationCheckpoint> = {};
+            for (const checkpoint of msg.checkpoints) {
+              restored[checkpoint.category] = checkpoint;
+              addLog(
+                'info',
+                `${checkpoint.category} can resume from ${checkpoint.lastCompletedIcon} (${checkpoint.processedIcons}/${checkpoint.totalIcons})`
+              );
+            }
+            setCheckpoints(restored);
+          }
+
+          // Restore persisted queue (plugin may have been closed mid-run)
+          if (msg.queue) {
+            setQueueJobs(msg.queue.jobs);
+            const pending = msg.queue.jobs.filter((job) => job.status === 'pending').length;
+            if (pending > 0) {
+              addLog('info', `Generation queue has ${pending} pending set(s) - resume to continue`);
+            }
+          }
+
           // Smart category selection based on existing pages
           if (msg.pageNames && msg.pageNames.length > 0) {
             // Check if any page name matches a category name (exact match or by set number)
@@ -130,8 +578,12 @@ function App() {
             ...prev,
             currentIcon: msg.currentIcon || prev.currentIcon,
             completedIcons: msg.completedIcons ?? prev.completedIcons,
+            totalIcons: msg.totalIcons ?? prev.totalIcons,
             currentIconProgress: msg.currentIconProgress ?? prev.currentIconProgress,
           }));
+          if (msg.fetchRate) {
+            setFetchRate(msg.fetchRate);
+          }
           break;
 
         case PLUGIN_MESSAGES.GENERATION_COMPLETE:
@@ -142,19 +594,238 @@ function App() {
             currentIcon: null,
             currentIconProgress: 0,
           }));
+          setFetchRate(null);
+          parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.GET_SVG_CACHE_STATS } }, '*');
           break;
 
         case PLUGIN_MESSAGES.ERROR:
           addLog('error', msg.message || 'An error occurred');
+          setIsPlanning(false);
+          setIsAuditing(false);
+          setIsRepairing(false);
+          setIsImporting(false);
+          setIsInterpolating(false);
+          setIsRenaming(false);
           setGenerationState((prev) => ({
             ...prev,
             isRunning: false,
           }));
+          setFetchRate(null);
           break;
 
         case 'WARNING':
           addLog('warning', msg.message || 'Warning');
           break;
+
+        case PLUGIN_MESSAGES.GENERATION_PLAN:
+          setIsPlanning(false);
+          if (msg.plan) {
+            setPlan(msg.plan);
+            addLog(
+              'info',
+              `Plan for ${msg.plan.category}: ~${msg.plan.estimatedDownloads.toLocaleString()} variant downloads`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.ICON_VALIDATION:
+          if (msg.iconValidation) {
+            setIconValidation(msg.iconValidation);
+            addLog(
+              msg.iconValidation.unknown.length > 0 ? 'warning' : 'info',
+              `Icon list: ${msg.iconValidation.valid.length} found, ${msg.iconValidation.unknown.length} unknown`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.ICON_SEARCH_RESULTS:
+          // Ignore results for a query the user has already changed
+          if (msg.searchResults && msg.query === searchQueryRef.current) {
+            setSearchResults(msg.searchResults);
+          }
+          break;
+
+        case PLUGIN_MESSAGES.AUDIT_REPORT:
+          setIsAuditing(false);
+          if (msg.auditReport) {
+            const report = msg.auditReport;
+            setAuditReport(report);
+            const issues = auditGroups(report).reduce(
+              (total, group) => total + group.entries.length,
+              0
+            );
+            addLog(
+              issues > 0 ? 'warning' : 'info',
+              `Audit: ${report.componentSetsScanned} sets on ${report.pagesScanned} pages, ${issues} issue(s)`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.REPAIR_RESULT:
+          setIsRepairing(false);
+          if (msg.repairLog && msg.repairLog.length > 0) {
+            const log = msg.repairLog;
+            setRepairLog(log);
+            const repaired = log.filter((entry) => entry.changes.length > 0).length;
+            const failed = log.filter((entry) => entry.errors.length > 0).length;
+            addLog(
+              failed > 0 ? 'warning' : 'info',
+              `Repair: ${repaired} of ${log.length} icon(s) changed${failed > 0 ? `, ${failed} with errors` : ''}`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.INTERPOLATION_RESULT:
+          setIsInterpolating(false);
+          if (msg.interpolationLog && msg.interpolationLog.length > 0) {
+            const log = msg.interpolationLog;
+            setInterpolationLog(log);
+            const added = log.reduce((sum, entry) => sum + entry.added, 0);
+            const failed = log.filter((entry) => entry.failed.length > 0).length;
+            addLog(
+              failed > 0 ? 'warning' : 'info',
+              `Interpolation: ${added} variant(s) added to ${log.length} icon(s)` +
+                (failed > 0 ? `, ${failed} icon(s) could not be fully interpolated` : '')
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.VARIANT_SCHEMA_STATE:
+          if (msg.variantSchema) {
+            setVariantSchema(msg.variantSchema);
+            setSavedVariantSchema(msg.variantSchema);
+            addLog(
+              'info',
+              `Variant naming: ${formatVariantKey(SCHEMA_PREVIEW_KEY, msg.variantSchema)}`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.VARIANT_RENAME_RESULT:
+          setIsRenaming(false);
+          if (msg.variantRenameLog && msg.variantRenameLog.length > 0) {
+            const log = msg.variantRenameLog;
+            setVariantRenameLog(log);
+            const renamed = log.reduce((sum, entry) => sum + entry.renamed, 0);
+            const unparsed = log.reduce((sum, entry) => sum + entry.unparsed.length, 0);
+            addLog(
+              unparsed > 0 ? 'warning' : 'info',
+              `Rename: ${renamed} variant(s) in ${log.length} icon(s)` +
+                (unparsed > 0 ? `, ${unparsed} name(s) not recognised` : '')
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.COMPONENT_SET_LAYOUT_STATE:
+          if (msg.setLayout) {
+            setComponentSetLayout(msg.setLayout);
+            addLog('info', `Component sets: ${COMPONENT_SET_LAYOUT_LABELS[msg.setLayout]}`);
+          }
+          break;
+
+        case PLUGIN_MESSAGES.SET_SPLIT_RESULT:
+          setIsSplitting(false);
+          if (msg.setSplitLog && msg.setSplitLog.length > 0) {
+            const log = msg.setSplitLog;
+            setSplitLog(log);
+            const failed = log.filter((entry) => entry.error).length;
+            addLog(
+              failed > 0 ? 'warning' : 'info',
+              `Split: ${log.length - failed} icon(s) into one set per style` +
+                (failed > 0 ? `, ${failed} failed` : '')
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.ICON_COLOR_STATE:
+          if (msg.iconColor) {
+            const state = msg.iconColor;
+            setIconColor(state);
+            setIconColorSettings(state.settings ?? DEFAULT_ICON_COLOR);
+            addLog(
+              'info',
+              state.settings
+                ? `Icon colour: ${state.boundVariable ?? state.settings.fallback}`
+                : 'Icon colour: from the SVG'
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.ICON_COLOR_REBIND_RESULT:
+          setIsRepainting(false);
+          if (msg.iconColorRebind) {
+            const result = msg.iconColorRebind;
+            setIconColorRebind(result);
+            addLog(
+              'info',
+              `Repainted ${result.variants} variant(s) in ${result.componentSets} icon(s) with ${result.boundVariable ?? 'the fallback colour'}`
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.STYLING_PROFILE_STATE:
+          if (msg.stylingProfile) {
+            const state = msg.stylingProfile;
+            setStylingProfile(state);
+            setStylingDraft(state.profile);
+            addLog(
+              'info',
+              state.unresolved.length > 0
+                ? `Styling saved (${state.unresolved.length} variable(s) not found)`
+                : 'Styling saved'
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.CUSTOM_IMPORT_RESULT:
+          setIsImporting(false);
+          if (msg.customImport) {
+            const report = msg.customImport;
+            setCustomImport(report);
+            const failed = report.icons.filter((entry) => entry.error).length;
+            addLog(
+              failed > 0 || report.skipped.length > 0 ? 'warning' : 'info',
+              `Import: ${report.icons.length - failed} icon(s) on "${report.pageName}"` +
+                (failed > 0 ? `, ${failed} failed` : '') +
+                (report.skipped.length > 0 ? `, ${report.skipped.length} file(s) skipped` : '')
+            );
+          }
+          break;
+
+        case PLUGIN_MESSAGES.SVG_SOURCE_STATE:
+          if (msg.svgSource) {
+            setSvgSource(msg.svgSource);
+            setIsLoadingArchive(false);
+            addLog('info', `SVG source: ${msg.svgSource.label}`);
+          }
+          break;
+
+        case PLUGIN_MESSAGES.SVG_CACHE_STATS:
+          if (msg.svgCacheStats) {
+            setSvgCacheStats(msg.svgCacheStats);
+          }
+          break;
+
+        case PLUGIN_MESSAGES.ICON_REPOSITORY_STATE:
+          if (msg.iconRepository) {
+            const { owner, repo, path } = msg.iconRepository;
+            setIconRepository(msg.iconRepository);
+            addLog('info', `Icon repository: ${owner}/${repo}/${path}`);
+          }
+          break;
+
+        case PLUGIN_MESSAGES.CHECKPOINT_STATE:
+          if (msg.checkpoint) {
+            const checkpoint = msg.checkpoint;
+            setCheckpoints((prev) => ({ ...prev, [checkpoint.category]: checkpoint }));
+          }
+          break;
+
+        case PLUGIN_MESSAGES.QUEUE_STATE:
+          if (msg.queue) {
+            applyQueueState(msg.queue.jobs);
+          }
+          break;
       }
     };
 
@@ -166,11 +837,91 @@ function App() {
   // Get selected category data
   const selectedCategoryData = categories.find((c) => c.name === selectedCategory);
 
-  // Start generation
-  const handleStart = () => {
+  // Checkpoint of the selected set, if a previous run stopped part-way
+  const selectedCheckpoint = checkpoints[selectedCategory];
+  const resumableCheckpoint =
+    selectedCheckpoint?.status === 'in-progress' && selectedCheckpoint.lastCompletedIcon
+      ? selectedCheckpoint
+      : null;
+
+  // Store a variant profile edit and send it to the plugin
+  const saveVariantProfile = (updated: VariantProfile) => {
+    setVariantProfile(updated);
+    setPlan(null);
+
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_VARIANT_PROFILE, variantProfile: updated } },
+      '*'
+    );
+  };
+
+  // Toggle one value of a variant profile axis (an axis can't be emptied)
+  const handleToggleVariant = (axis: (typeof VARIANT_AXES)[number], value: string | number) => {
+    const current = variantProfile[axis.key] as Array<string | number>;
+    const next = current.includes(value)
+      ? current.filter((v) => v !== value)
+      : axis.values.filter((v) => v === value || current.includes(v));
+
+    if (next.length === 0) {
+      addLog('warning', `At least one ${axis.label.toLowerCase()} must be selected`);
+      return;
+    }
+
+    const updated = { ...variantProfile, [axis.key]: next } as VariantProfile;
+    // A single fill leaves nothing for the Fill property to toggle
+    if (axis.key === 'fills' && next.length < 2) {
+      delete updated.fillProperty;
+    }
+    saveVariantProfile(updated);
+  };
+
+  // Switch Fill between a variant axis and a boolean component property
+  const handleToggleFillProperty = () => {
+    const updated: VariantProfile = { ...variantProfile };
+    if (variantProfile.fillProperty) {
+      delete updated.fillProperty;
+    } else {
+      updated.fillProperty = true;
+    }
+    saveVariantProfile(updated);
+  };
+
+  // Plan shown only while it matches the selected set
+  const selectedPlan = plan && plan.category === selectedCategory ? plan : null;
+
+  // Request a dry-run plan for the selected set
+  const handlePlan = () => {
+    if (!selectedCategoryData) return;
+
+    addLog('info', `Planning ${selectedCategoryData.name} (dry run, no changes)...`);
+    setIsPlanning(true);
+    setPlan(null);
+
+    parent.postMessage(
+      {
+        pluginMessage: {
+          type: PLUGIN_MESSAGES.START_GENERATION,
+          category: selectedCategoryData.name,
+          categoryData: selectedCategoryData,
+          planOnly: true,
+        },
+      },
+      '*'
+    );
+  };
+
+  // Start generation (optionally resuming from the set's checkpoint)
+  const handleStart = (resume = false) => {
     if (!selectedCategoryData) return;
 
-    addLog('info', `Starting generation for ${selectedCategoryData.name}`);
+    setPlan(null);
+
+    addLog(
+      'info',
+      resume && resumableCheckpoint
+        ? `Resuming ${selectedCategoryData.name} from ${resumableCheckpoint.lastCompletedIcon}`
+        : `Starting generation for ${selectedCategoryData.name}`
+    );
     addLog('info', `Total icons to process: ${selectedCategoryData.count}`);
     addLog(
       'info',
@@ -193,12 +944,442 @@ function App() {
           category: selectedCategoryData.name,
           categoryData: selectedCategoryData,
           testIconCount: null, // Always process all icons
+          resume,
+        },
+      },
+      '*'
+    );
+  };
+
+  // Queue sets and start running them back-to-back
+  const handleQueue = (queued: Category[]) => {
+    if (queued.length === 0) return;
+
+    addLog(
+      'info',
+      `Queueing ${queued.length} set(s): ${queued[0].name} → ${queued[queued.length - 1].name}`
+    );
+
+    parent.postMessage(
+      {
+        pluginMessage: {
+          type: PLUGIN_MESSAGES.QUEUE_START,
+          categories: queued.map((cat) => ({
+            category: cat.name,
+            categoryData: { firstIcon: cat.firstIcon, lastIconExclusive: cat.lastIconExclusive },
+          })),
         },
       },
       '*'
     );
   };
 
+  // Toggle a weight of the configured run (at least one must stay selected)
+  const handleToggleConfigWeight = (weight: number) => {
+    const next = runConfig.weights.includes(weight)
+      ? runConfig.weights.filter((w) => w !== weight)
+      : [...runConfig.weights, weight].sort((a, b) => a - b);
+
+    if (next.length === 0) {
+      addLog('warning', 'At least one weight must be selected');
+      return;
+    }
+
+    setRunConfig({ ...runConfig, weights: next });
+  };
+
+  // Run a GenerationConfig (style, weights, page strategy, sets, specific icons)
+  const handleStartConfigured = () => {
+    const scoped =
+      configScope === 'selected'
+        ? categories.filter((c) => c.name === selectedCategory)
+        : configScope === 'remaining'
+          ? remainingCategories
+          : categories;
+    const specificIcons = parseIconNames(specificIconsText);
+    const hasSpecificIcons = specificIcons.length > 0;
+
+    // A pasted list is placed by set (or on the scratch page), regardless of the selected sets
+    const config: GenerationConfig = {
+      ...runConfig,
+      categories: hasSpecificIcons ? undefined : scoped.map((c) => c.name),
+      specificIcons: hasSpecificIcons ? specificIcons : undefined,
+      scratchPage: hasSpecificIcons && useScratchPage ? scratchPageName : undefined,
+    };
+
+    addLog(
+      'info',
+      `Starting configured run: ${config.style}, weights ${config.weights.join('/')}, ` +
+        (hasSpecificIcons
+          ? `${specificIcons.length} specific icon(s) → ${config.scratchPage ?? 'their set pages'}`
+          : `${config.pageStrategy} pages, ${scoped.length} set(s)`)
+    );
+
+    setPlan(null);
+    setGenerationState({
+      isRunning: true,
+      category: null,
+      totalIcons: 0,
+      completedIcons: 0,
+      currentIcon: null,
+      currentIconProgress: 0,
+    });
+
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.START_GENERATION, config } }, '*');
+  };
+
+  // Ask the plugin to check the pasted icon list
+  const handleValidateIcons = () => {
+    setIconValidation(null);
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.VALIDATE_ICONS, text: specificIconsText } },
+      '*'
+    );
+  };
+
+  // Swap an unknown name for a suggestion and re-check the list
+  const handleUseSuggestion = (name: string, suggestion: string) => {
+    const text = replaceIconName(specificIconsText, name, suggestion);
+    setSpecificIconsText(text);
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.VALIDATE_ICONS, text } }, '*');
+  };
+
+  // Select and zoom to a component set
+  const handleJumpToNode = (nodeId: string) => {
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.JUMP_TO_ICON, nodeId } }, '*');
+  };
+
+  // Select and zoom to a generated icon
+  const handleJumpToIcon = (hit: IconSearchHit) => {
+    if (!hit.componentSet) return;
+    handleJumpToNode(hit.componentSet.id);
+  };
+
+  // Audit every set page in the file
+  const handleAudit = () => {
+    setIsAuditing(true);
+    addLog('info', 'Auditing file...');
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.AUDIT_FILE } }, '*');
+  };
+
+  // Repair icons in place (selection, current page, or icons flagged by the audit)
+  const handleRepair = (scope: RepairScope, nodeIds?: string[]) => {
+    setIsRepairing(true);
+    setRepairLog(null);
+    addLog(
+      'info',
+      `Repairing ${scope === 'nodes' ? `${nodeIds?.length ?? 0} audited icon(s)` : scope}...`
+    );
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.REPAIR_ICONS, scope, nodeIds } },
+      '*'
+    );
+  };
+
+  // Download the audit report as JSON
+  const handleExportAudit = () => {
+    if (!auditReport) return;
+    const blob = new Blob([JSON.stringify(auditReport, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `icon-audit-${auditReport.generatedAt.substring(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    addLog('info', 'Exported audit report');
+  };
+
+  // Choose where variant SVGs are downloaded from
+  const handleSetSvgSource = (kind: SvgSourceKind) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_SVG_SOURCE, settings: { kind, mirrorUrl } } },
+      '*'
+    );
+  };
+
+  // Save the icon repository (null resets to the one the icon list was built from)
+  const handleSetIconRepository = (repository: IconRepository | null) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_ICON_REPOSITORY, repository } },
+      '*'
+    );
+  };
+
+  // Load a .tar(.gz) of symbols/web and switch to it
+  const handleLoadArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoadingArchive(true);
+    addLog('info', `Reading ${file.name}...`);
+    try {
+      const files = await readSvgArchive(file);
+      if (files.length === 0) {
+        addLog('error', `No SVG files found in ${file.name}`);
+        setIsLoadingArchive(false);
+        return;
+      }
+
+      for (let i = 0; i < files.length; i += ARCHIVE_CHUNK_SIZE) {
+        const chunk: Record<string, string> = {};
+        for (const entry of files.slice(i, i + ARCHIVE_CHUNK_SIZE)) {
+          chunk[entry.path] = entry.content;
+        }
+        parent.postMessage(
+          {
+            pluginMessage: {
+              type: PLUGIN_MESSAGES.LOAD_SVG_ARCHIVE,
+              files: chunk,
+              reset: i === 0,
+              done: i + ARCHIVE_CHUNK_SIZE >= files.length,
+            },
+          },
+          '*'
+        );
+      }
+      handleSetSvgSource('archive');
+    } catch (error) {
+      addLog('error', `Failed to read ${file.name}: ${error}`);
+      setIsLoadingArchive(false);
+    }
+  };
+
+  const handleSetVariantSchema = (schema: VariantSchema | null) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_VARIANT_SCHEMA, variantSchema: schema } },
+      '*'
+    );
+  };
+
+  // Edit one axis of the draft naming schema
+  const handleEditSchemaProperty = (axis: VariantAxis, field: 'name' | 'format', value: string) => {
+    setVariantSchema({
+      ...variantSchema,
+      properties: {
+        ...variantSchema.properties,
+        [axis]: { ...variantSchema.properties[axis], [field]: value },
+      },
+    });
+  };
+
+  // Move an axis one place earlier in the draft naming schema
+  const handleMoveSchemaAxis = (index: number) => {
+    const order = [...variantSchema.order];
+    [order[index - 1], order[index]] = [order[index], order[index - 1]];
+    setVariantSchema({ ...variantSchema, order });
+  };
+
+  // Rename existing variants to the draft schema (saved only when the whole document is renamed)
+  const handleRenameVariants = (scope: RepairScope) => {
+    setIsRenaming(true);
+    setVariantRenameLog(null);
+    addLog('info', `Renaming variants (${scope})...`);
+    parent.postMessage(
+      {
+        pluginMessage: {
+          type: PLUGIN_MESSAGES.RENAME_VARIANTS,
+          scope,
+          from: renameFrom === 'current' ? savedVariantSchema : VARIANT_SCHEMA_PRESETS[renameFrom],
+          to: variantSchema,
+        },
+      },
+      '*'
+    );
+  };
+
+  // Choose one ComponentSet per icon or per style for generation (persisted by the plugin)
+  const handleSetComponentSetLayout = (layout: ComponentSetLayout) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_COMPONENT_SET_LAYOUT, setLayout: layout } },
+      '*'
+    );
+  };
+
+  // Split combined sets of the selected icons or the whole page by style
+  const handleSplitSets = (scope: RepairScope) => {
+    setIsSplitting(true);
+    setSplitLog(null);
+    addLog('info', `Splitting component sets by style (${scope})...`);
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SPLIT_COMPONENT_SETS, scope } },
+      '*'
+    );
+  };
+
+  // Save the icon colour (null goes back to the SVG colour); persisted by the plugin
+  const handleSetIconColor = (settings: IconColorSettings | null) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_ICON_COLOR, iconColor: settings } },
+      '*'
+    );
+  };
+
+  // Repaint existing variants of the selected icons or the whole page with the saved colour
+  const handleRebindIconColor = (scope: RepairScope) => {
+    setIsRepainting(true);
+    setIconColorRebind(null);
+    addLog('info', `Repainting icons with the icon colour (${scope})...`);
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.REBIND_ICON_COLOR, scope } }, '*');
+  };
+
+  // Save the styling profile in this file (null resets to the default styling)
+  const handleSetStylingProfile = (profile: StylingProfile | null) => {
+    parent.postMessage(
+      { pluginMessage: { type: PLUGIN_MESSAGES.SET_STYLING_PROFILE, stylingProfile: profile } },
+      '*'
+    );
+  };
+
+  // Edit one radius/spacing token of the styling draft
+  const updateStyleNumber = (
+    group: 'radii' | 'spacing',
+    role: StyleRadiusRole | StyleSpacingRole,
+    field: 'variable' | 'fallback',
+    value: string
+  ) => {
+    const tokens = stylingDraft[group] as Record<string, { variable: string; fallback: number }>;
+    setStylingDraft({
+      ...stylingDraft,
+      [group]: {
+        ...tokens,
+        [role]: {
+          ...tokens[role],
+          [field]: field === 'fallback' ? parseFloat(value) || 0 : value,
+        },
+      },
+    });
+  };
+
+  // Derive in-between weights/grades for the selected icons or the whole page
+  const handleInterpolate = (scope: RepairScope) => {
+    const parseValues = (text: string) =>
+      text
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number);
+    setIsInterpolating(true);
+    setInterpolationLog(null);
+    addLog('info', `Interpolating variants (${scope})...`);
+    parent.postMessage(
+      {
+        pluginMessage: {
+          type: PLUGIN_MESSAGES.INTERPOLATE_VARIANTS,
+          scope,
+          axes: {
+            weights: parseValues(interpolationWeights),
+            grades: parseValues(interpolationGrades),
+          },
+        },
+      },
+      '*'
+    );
+  };
+
+  // Import the user's own SVGs as icon ComponentSets
+  const handleImportCustomIcons = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    setIsImporting(true);
+    setCustomImport(null);
+    try {
+      const files = await readCustomIconFiles(fileList);
+      event.target.value = '';
+      if (files.length === 0) {
+        addLog('error', 'No SVG files found');
+        setIsImporting(false);
+        return;
+      }
+
+      addLog('info', `Importing ${files.length} SVG file(s)...`);
+      for (let i = 0; i < files.length; i += ARCHIVE_CHUNK_SIZE) {
+        parent.postMessage(
+          {
+            pluginMessage: {
+              type: PLUGIN_MESSAGES.IMPORT_CUSTOM_ICONS,
+              files: files.slice(i, i + ARCHIVE_CHUNK_SIZE),
+              style: customImportStyle,
+              pageName: customImportPage,
+              reset: i === 0,
+              done: i + ARCHIVE_CHUNK_SIZE >= files.length,
+            },
+          },
+          '*'
+        );
+      }
+    } catch (error) {
+      event.target.value = '';
+      addLog('error', `Failed to read custom icons: ${error}`);
+      setIsImporting(false);
+    }
+  };
+
+  // Load an offline bundle from scripts/build-svg-bundle.ts and switch to it
+  const handleLoadBundle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoadingArchive(true);
+    addLog('info', `Reading ${file.name}...`);
+    try {
+      const bundle = validateSvgBundle(
+        JSON.parse(new TextDecoder().decode(await readUploadedFile(file)))
+      );
+      const chunks = splitSvgBundle(bundle, BUNDLE_CHUNK_ICONS);
+      if (chunks.length === 0) {
+        addLog('error', `${file.name} contains no icons`);
+        setIsLoadingArchive(false);
+        return;
+      }
+
+      chunks.forEach((chunk, i) => {
+        parent.postMessage(
+          {
+            pluginMessage: {
+              type: PLUGIN_MESSAGES.LOAD_SVG_BUNDLE,
+              meta: i === 0 ? getSvgBundleMeta(bundle) : undefined,
+              index: chunk.index,
+              blobs: chunk.blobs,
+              done: i === chunks.length - 1,
+            },
+          },
+          '*'
+        );
+      });
+      handleSetSvgSource('bundle');
+    } catch (error) {
+      addLog('error', `Failed to read ${file.name}: ${error}`);
+      setIsLoadingArchive(false);
+    }
+  };
+
+  // Refresh the SVG cache panel
+  const handleRefreshCacheStats = () => {
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.GET_SVG_CACHE_STATS } }, '*');
+  };
+
+  // Delete every cached SVG
+  const handleClearCache = () => {
+    addLog('info', 'Clearing SVG cache');
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.CLEAR_SVG_CACHE } }, '*');
+  };
+
+  // Resume pending queue jobs
+  const handleResumeQueue = () => {
+    addLog('info', 'Resuming generation queue');
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.QUEUE_RESUME } }, '*');
+  };
+
+  // Clear the queue
+  const handleClearQueue = () => {
+    addLog('info', 'Generation queue cleared');
+    parent.postMessage({ pluginMessage: { type: PLUGIN_MESSAGES.QUEUE_CLEAR } }, '*');
+  };
+
   // Cancel generation
   const handleCancel = () => {
     addLog('warning', 'Cancelling generation...');
@@ -281,65 +1462,1120 @@ function App() {
       )
       .join('\n');
 
-    const blob = new Blob([logText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `material-icons-logs-${new Date().toISOString().slice(0, 10)}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const blob = new Blob([logText], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `material-icons-logs-${new Date().toISOString().slice(0, 10)}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    addLog('info', 'Logs downloaded');
+  };
+
+  // Clear logs
+  const handleClearLogs = () => {
+    setLogs([]);
+  };
+
+  // Selected set and every set after it (for "queue remaining")
+  const selectedIndex = categories.findIndex((c) => c.name === selectedCategory);
+  const remainingCategories = selectedIndex >= 0 ? categories.slice(selectedIndex) : [];
+  const hasPendingJobs = queueJobs.some((job) => job.status === 'pending');
+
+  // Calculate overall progress percentage
+  const overallProgress =
+    generationState.totalIcons > 0
+      ? Math.round((generationState.completedIcons / generationState.totalIcons) * 100)
+      : 0;
+
+  return (
+    <div style={styles.container}>
+      <h2 style={styles.title}>Material Icons Generator</h2>
+
+      {/* Icon Set Selection */}
+      <div style={styles.section}>
+        <label style={styles.label}>
+          Icon Set ({selectedCategoryData?.count || 0} icons,{' '}
+          {selectedCategoryData?.components || 0} variants)
+        </label>
+        <select
+          style={styles.select}
+          value={selectedCategory}
+          onChange={(e) => setSelectedCategory(e.target.value)}
+          disabled={generationState.isRunning}
+        >
+          {categories.map((cat) => (
+            <option key={cat.name} value={cat.name}>
+              {cat.name} ({cat.count} icons)
+            </option>
+          ))}
+        </select>
+        {selectedCategoryData && (
+          <div style={styles.categoryInfo}>
+            Range: {selectedCategoryData.firstIcon} → {selectedCategoryData.lastIcon}
+          </div>
+        )}
+      </div>
+
+      {/* Icon Search */}
+      <div style={styles.section}>
+        <label style={styles.label}>Find Icon</label>
+        <input
+          type="search"
+          style={{ ...styles.select, boxSizing: 'border-box' }}
+          placeholder="Search icons, e.g. shopping cart"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+        {searchQuery.trim() && (
+          <div style={{ ...styles.queueList, marginTop: '6px' }}>
+            {searchResults.length === 0 && <div style={styles.queueEntry}>No matching icons</div>}
+            {searchResults.map((hit) => (
+              <div key={hit.name} style={styles.queueEntry}>
+                <span style={styles.queueName} title={hit.category ?? undefined}>
+                  {hit.name}
+                  <span style={styles.searchMeta}> {hit.category?.split(':')[0] ?? ''}</span>
+                </span>
+                {hit.componentSet ? (
+                  <span style={styles.searchStatus}>
+                    <span
+                      title={`On page "${hit.componentSet.pageName}"`}
+                      style={{ color: QUEUE_STATUS_COLORS.done }}
+                    >
+                      {hit.componentSet.variantCount} variants
+                      {hit.componentSet.commitSha
+                        ? ` · ${hit.componentSet.commitSha.substring(0, 7)}`
+                        : ''}
+                    </span>
+                    <button
+                      style={{ ...styles.smallButton, padding: '0 6px' }}
+                      onClick={() => handleJumpToIcon(hit)}
+                    >
+                      Jump
+                    </button>
+                  </span>
+                ) : (
+                  <span style={styles.searchMeta}>not generated</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Variant Profile */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Variant profile ({getProfileVariantCount(variantProfile)} variants per icon)
+        </summary>
+        {VARIANT_AXES.map((axis) => (
+          <div key={axis.key} style={styles.profileRow}>
+            <span style={styles.profileLabel}>{axis.label}</span>
+            {axis.values.map((value) => (
+              <label key={String(value)} style={styles.profileOption}>
+                <input
+                  type="checkbox"
+                  checked={(variantProfile[axis.key] as Array<string | number>).includes(value)}
+                  onChange={() => handleToggleVariant(axis, value)}
+                  disabled={generationState.isRunning}
+                />
+                {axis.format ? axis.format(value) : value}
+              </label>
+            ))}
+          </div>
+        ))}
+        <label style={styles.profileRow}>
+          <input
+            type="checkbox"
+            checked={variantProfile.fillProperty === true}
+            onChange={handleToggleFillProperty}
+            disabled={generationState.isRunning || variantProfile.fills.length < 2}
+          />
+          Fill as a component property (one variant for both fills)
+        </label>
+        <div style={styles.hint}>
+          {hasLegacyIconCategories()
+            ? 'Legacy styles have no weight, fill or grade axes and only 20dp/24dp sizes.'
+            : 'Legacy styles are hidden until their icon categories are bundled (pnpm icons:update).'}
+          {variantProfile.fillProperty &&
+            ' Icons built with a Fill axis are rebuilt on their next generation; instances of their old variants need swapping.'}
+        </div>
+      </details>
+
+      {/* Variant Naming */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Variant naming ({findVariantSchemaPreset(savedVariantSchema) ?? 'custom'})
+        </summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Preset</span>
+          <select
+            style={styles.inlineSelect}
+            value={findVariantSchemaPreset(variantSchema) ?? 'custom'}
+            onChange={(e) =>
+              setVariantSchema(VARIANT_SCHEMA_PRESETS[e.target.value as VariantSchemaPreset])
+            }
+            disabled={generationState.isRunning || isRenaming}
+          >
+            {(Object.keys(SCHEMA_PRESET_LABELS) as VariantSchemaPreset[]).map((preset) => (
+              <option key={preset} value={preset}>
+                {SCHEMA_PRESET_LABELS[preset]}
+              </option>
+            ))}
+            <option value="custom" disabled>
+              Custom
+            </option>
+          </select>
+        </div>
+        {variantSchema.order.map((axis, index) => (
+          <div key={axis} style={styles.profileRow}>
+            <span style={styles.profileLabel}>{SCHEMA_AXIS_LABELS[axis]}</span>
+            <input
+              type="text"
+              style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+              value={variantSchema.properties[axis].name}
+              onChange={(e) => handleEditSchemaProperty(axis, 'name', e.target.value)}
+              disabled={generationState.isRunning || isRenaming}
+            />
+            <select
+              style={styles.inlineSelect}
+              value={variantSchema.properties[axis].format}
+              onChange={(e) => handleEditSchemaProperty(axis, 'format', e.target.value)}
+              disabled={
+                generationState.isRunning || isRenaming || VARIANT_VALUE_FORMATS[axis].length < 2
+              }
+            >
+              {VARIANT_VALUE_FORMATS[axis].map((format) => (
+                <option key={format} value={format}>
+                  {
+                    formatVariantValues(SCHEMA_PREVIEW_KEY, {
+                      ...variantSchema,
+                      properties: { ...variantSchema.properties, [axis]: { name: '', format } },
+                    })[axis]
+                  }
+                </option>
+              ))}
+            </select>
+            <button
+              style={{ ...styles.smallButton, padding: '0 6px' }}
+              onClick={() => handleMoveSchemaAxis(index)}
+              disabled={generationState.isRunning || isRenaming || index === 0}
+              title="Move earlier in the name"
+            >
+              ↑
+            </button>
+          </div>
+        ))}
+        {validateVariantSchema(variantSchema).length > 0 ? (
+          <div style={{ ...styles.hint, color: QUEUE_STATUS_COLORS.failed }}>
+            {validateVariantSchema(variantSchema).join('; ')}
+          </div>
+        ) : (
+          <div style={styles.hint}>{formatVariantKey(SCHEMA_PREVIEW_KEY, variantSchema)}</div>
+        )}
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetVariantSchema(variantSchema)}
+            disabled={
+              generationState.isRunning ||
+              isRenaming ||
+              validateVariantSchema(variantSchema).length > 0
+            }
+          >
+            Save
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetVariantSchema(null)}
+            disabled={generationState.isRunning || isRenaming}
+          >
+            Reset
+          </button>
+        </div>
+        <div style={styles.hint}>
+          Saving only changes how new variants are named. Rename the document to switch schemas:
+          sets in another schema are treated as incomplete by the next generation run.
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Rename from</span>
+          <select
+            style={styles.inlineSelect}
+            value={renameFrom}
+            onChange={(e) => setRenameFrom(e.target.value as VariantSchemaPreset | 'current')}
+            disabled={generationState.isRunning || isRenaming}
+          >
+            <option value="current">Saved schema</option>
+            {(Object.keys(SCHEMA_PRESET_LABELS) as VariantSchemaPreset[]).map((preset) => (
+              <option key={preset} value={preset}>
+                {SCHEMA_PRESET_LABELS[preset]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRenameVariants('selection')}
+            disabled={
+              generationState.isRunning ||
+              isRenaming ||
+              validateVariantSchema(variantSchema).length > 0
+            }
+          >
+            Rename Selection
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRenameVariants('page')}
+            disabled={
+              generationState.isRunning ||
+              isRenaming ||
+              validateVariantSchema(variantSchema).length > 0
+            }
+          >
+            Rename Page
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRenameVariants('document')}
+            disabled={
+              generationState.isRunning ||
+              isRenaming ||
+              validateVariantSchema(variantSchema).length > 0
+            }
+          >
+            Rename Document
+          </button>
+        </div>
+        {variantRenameLog && variantRenameLog.length > 0 && (
+          <div style={{ ...styles.planList, marginTop: '6px' }}>
+            {variantRenameLog
+              .filter((entry) => entry.unparsed.length > 0)
+              .map((entry) => (
+                <details key={entry.nodeId}>
+                  <summary>
+                    {entry.name}
+                    <span style={{ color: QUEUE_STATUS_COLORS.failed }}>
+                      {' '}
+                      ({entry.unparsed.length} not recognised)
+                    </span>
+                  </summary>
+                  <div style={styles.planNames}>
+                    {entry.unparsed.map((name) => (
+                      <div key={name}>{name}</div>
+                    ))}
+                  </div>
+                </details>
+              ))}
+            <div style={styles.planTotal}>
+              {variantRenameLog.reduce((sum, entry) => sum + entry.renamed, 0)} renamed ·{' '}
+              {variantRenameLog.reduce((sum, entry) => sum + entry.unchanged, 0)} unchanged across{' '}
+              {variantRenameLog.length} icon(s)
+            </div>
+          </div>
+        )}
+      </details>
+
+      {/* Component Set Layout */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Component sets ({componentSetLayout === 'per-style' ? 'one per style' : 'one per icon'})
+        </summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Layout</span>
+          <select
+            style={styles.inlineSelect}
+            value={componentSetLayout}
+            onChange={(e) => handleSetComponentSetLayout(e.target.value as ComponentSetLayout)}
+            disabled={generationState.isRunning || isSplitting}
+          >
+            {(Object.keys(COMPONENT_SET_LAYOUT_LABELS) as ComponentSetLayout[]).map((layout) => (
+              <option key={layout} value={layout}>
+                {COMPONENT_SET_LAYOUT_LABELS[layout]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={styles.hint}>
+          One set per style keeps sets a third of the size, which Figma opens and swaps much faster.
+          Generation splits combined sets as it reaches them; split existing icons now below.
+          Variants are moved, so instances keep working.
+        </div>
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSplitSets('selection')}
+            disabled={generationState.isRunning || isSplitting}
+          >
+            Split Selection
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSplitSets('page')}
+            disabled={generationState.isRunning || isSplitting}
+          >
+            Split Page
+          </button>
+        </div>
+        {splitLog && splitLog.length > 0 && (
+          <div style={{ ...styles.planList, marginTop: '6px' }}>
+            {splitLog
+              .filter((entry) => entry.error || entry.unparsed.length > 0)
+              .map((entry) => (
+                <details key={entry.nodeId}>
+                  <summary>
+                    {entry.name}
+                    <span style={{ color: QUEUE_STATUS_COLORS.failed }}>
+                      {' '}
+                      ({entry.error ?? `${entry.unparsed.length} not recognised`})
+                    </span>
+                  </summary>
+                  <div style={styles.planNames}>
+                    {entry.unparsed.map((name) => (
+                      <div key={name}>{name}</div>
+                    ))}
+                  </div>
+                </details>
+              ))}
+            <div style={styles.planTotal}>
+              {splitLog.filter((entry) => !entry.error).length} icon(s) split into{' '}
+              {splitLog.reduce((sum, entry) => sum + entry.sets.length, 0)} set(s)
+            </div>
+          </div>
+        )}
+      </details>
+
+      {/* Icon Colour */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Icon colour (
+          {iconColor.settings
+            ? (iconColor.boundVariable ?? iconColor.settings.fallback)
+            : 'from the SVG'}
+          )
+        </summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Variable</span>
+          <input
+            type="text"
+            style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+            value={iconColorSettings.variable}
+            placeholder="e.g. sys/color/on-surface"
+            onChange={(e) =>
+              setIconColorSettings({ ...iconColorSettings, variable: e.target.value })
+            }
+            disabled={generationState.isRunning || isRepainting}
+          />
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Fallback</span>
+          <input
+            type="text"
+            style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+            value={iconColorSettings.fallback}
+            placeholder="#000000"
+            onChange={(e) =>
+              setIconColorSettings({ ...iconColorSettings, fallback: e.target.value })
+            }
+            disabled={generationState.isRunning || isRepainting}
+          />
+        </div>
+        {!isHexColor(iconColorSettings.fallback) && (
+          <div style={{ ...styles.hint, color: QUEUE_STATUS_COLORS.failed }}>
+            Fallback must be a hex colour such as #1B1B1F
+          </div>
+        )}
+        {iconColor.settings?.variable && !iconColor.boundVariable && (
+          <div style={{ ...styles.hint, color: QUEUE_STATUS_COLORS.failed }}>
+            Variable "{iconColor.settings.variable}" was not found - icons use the fallback
+          </div>
+        )}
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetIconColor(iconColorSettings)}
+            disabled={
+              generationState.isRunning || isRepainting || !isHexColor(iconColorSettings.fallback)
+            }
+          >
+            Save
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetIconColor(null)}
+            disabled={generationState.isRunning || isRepainting}
+          >
+            Use SVG colour
+          </button>
+        </div>
+        <div style={styles.hint}>
+          New and updated variants are painted with the saved colour. Unchanged variants keep their
+          old fills - repaint existing icons after switching variables.
+        </div>
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRebindIconColor('selection')}
+            disabled={generationState.isRunning || isRepainting || !iconColor.settings}
+          >
+            Repaint Selection
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRebindIconColor('page')}
+            disabled={generationState.isRunning || isRepainting || !iconColor.settings}
+          >
+            Repaint Page
+          </button>
+        </div>
+        {iconColorRebind && (
+          <div style={styles.hint}>
+            {iconColorRebind.variants} variant(s) in {iconColorRebind.componentSets} icon(s)
+            repainted
+          </div>
+        )}
+      </details>
+
+      {/* Styling Profile */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Styling (
+          {stylingProfile.unresolved.length > 0
+            ? `${stylingProfile.unresolved.length} variable(s) not found`
+            : 'this file'}
+          )
+        </summary>
+        {(Object.keys(STYLE_COLOR_LABELS) as StyleColorRole[]).map((role) => (
+          <div key={role} style={styles.profileRow}>
+            <span style={styles.profileLabel}>{STYLE_COLOR_LABELS[role]}</span>
+            <input
+              type="text"
+              style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+              value={stylingDraft.colors[role].variable}
+              placeholder="Variable (optional)"
+              onChange={(e) =>
+                setStylingDraft({
+                  ...stylingDraft,
+                  colors: {
+                    ...stylingDraft.colors,
+                    [role]: { ...stylingDraft.colors[role], variable: e.target.value },
+                  },
+                })
+              }
+              disabled={generationState.isRunning}
+            />
+            <input
+              type="text"
+              style={styles.numberInput}
+              value={stylingDraft.colors[role].fallback}
+              onChange={(e) =>
+                setStylingDraft({
+                  ...stylingDraft,
+                  colors: {
+                    ...stylingDraft.colors,
+                    [role]: { ...stylingDraft.colors[role], fallback: e.target.value },
+                  },
+                })
+              }
+              disabled={generationState.isRunning}
+              title="Fallback hex"
+            />
+          </div>
+        ))}
+        {(Object.keys(STYLE_RADIUS_LABELS) as Array<keyof typeof STYLE_RADIUS_LABELS>).map(
+          (role) => (
+            <div key={role} style={styles.profileRow}>
+              <span style={styles.profileLabel}>{STYLE_RADIUS_LABELS[role]}</span>
+              <input
+                type="text"
+                style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+                value={stylingDraft.radii[role].variable}
+                placeholder="Variable (optional)"
+                onChange={(e) => updateStyleNumber('radii', role, 'variable', e.target.value)}
+                disabled={generationState.isRunning}
+              />
+              <input
+                type="number"
+                min={0}
+                style={styles.numberInput}
+                value={stylingDraft.radii[role].fallback}
+                onChange={(e) => updateStyleNumber('radii', role, 'fallback', e.target.value)}
+                disabled={generationState.isRunning}
+                title="Fallback (px)"
+              />
+            </div>
+          )
+        )}
+        {(Object.keys(STYLE_SPACING_LABELS) as Array<keyof typeof STYLE_SPACING_LABELS>).map(
+          (role) => (
+            <div key={role} style={styles.profileRow}>
+              <span style={styles.profileLabel}>{STYLE_SPACING_LABELS[role]}</span>
+              <input
+                type="text"
+                style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+                value={stylingDraft.spacing[role].variable}
+                placeholder="Variable (optional)"
+                onChange={(e) => updateStyleNumber('spacing', role, 'variable', e.target.value)}
+                disabled={generationState.isRunning}
+              />
+              <input
+                type="number"
+                min={0}
+                style={styles.numberInput}
+                value={stylingDraft.spacing[role].fallback}
+                onChange={(e) => updateStyleNumber('spacing', role, 'fallback', e.target.value)}
+                disabled={generationState.isRunning}
+                title="Fallback (px)"
+              />
+            </div>
+          )
+        )}
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Width</span>
+          <input
+            type="number"
+            min={100}
+            style={styles.numberInput}
+            value={stylingDraft.frameWidth}
+            onChange={(e) =>
+              setStylingDraft({ ...stylingDraft, frameWidth: parseInt(e.target.value) || 0 })
+            }
+            disabled={generationState.isRunning}
+            title="Page frame width (px)"
+          />
+        </div>
+        {!Object.values(stylingDraft.colors).every((token) => isHexColor(token.fallback)) && (
+          <div style={{ ...styles.hint, color: QUEUE_STATUS_COLORS.failed }}>
+            Colour fallbacks must be hex colours such as #F2F2F2
+          </div>
+        )}
+        {stylingProfile.unresolved.length > 0 && (
+          <div style={{ ...styles.hint, color: QUEUE_STATUS_COLORS.failed }}>
+            Not found, fallbacks used: {stylingProfile.unresolved.join(', ')}
+          </div>
+        )}
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetStylingProfile(stylingDraft)}
+            disabled={
+              generationState.isRunning ||
+              !Object.values(stylingDraft.colors).every((token) => isHexColor(token.fallback))
+            }
+          >
+            Save
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetStylingProfile(null)}
+            disabled={generationState.isRunning}
+          >
+            Reset
+          </button>
+        </div>
+        <div style={styles.hint}>
+          Stored in this file. Page frames are restyled on the next generation; new component sets
+          and pages are styled when they are created.
+        </div>
+      </details>
+
+      {/* Interpolated Variants */}
+      <details style={styles.section}>
+        <summary style={styles.label}>Interpolated weights &amp; grades</summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Weights</span>
+          <input
+            type="text"
+            style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+            value={interpolationWeights}
+            placeholder="e.g. 350, 450"
+            onChange={(e) => setInterpolationWeights(e.target.value)}
+            disabled={generationState.isRunning || isInterpolating}
+          />
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Grades</span>
+          <input
+            type="text"
+            style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+            value={interpolationGrades}
+            placeholder="e.g. 100"
+            onChange={(e) => setInterpolationGrades(e.target.value)}
+            disabled={generationState.isRunning || isInterpolating}
+          />
+        </div>
+        <div style={styles.hint}>
+          Blends the outlines of the neighbouring upstream weights/grades (100-700, -25-200) into
+          extra variants for each icon&apos;s styles, fills and sizes. Icons whose neighbours
+          don&apos;t share a point structure are listed below.
+        </div>
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleInterpolate('selection')}
+            disabled={generationState.isRunning || isInterpolating}
+          >
+            Interpolate Selection
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleInterpolate('page')}
+            disabled={generationState.isRunning || isInterpolating}
+          >
+            Interpolate Page
+          </button>
+        </div>
+        {interpolationLog && interpolationLog.length > 0 && (
+          <div style={{ ...styles.planList, marginTop: '6px' }}>
+            {interpolationLog
+              .filter((entry) => entry.failed.length > 0)
+              .map((entry) => (
+                <details key={entry.nodeId}>
+                  <summary>
+                    {entry.name}
+                    <span style={{ color: QUEUE_STATUS_COLORS.failed }}>
+                      {' '}
+                      ({entry.failed.length} not possible)
+                    </span>
+                  </summary>
+                  <div style={styles.planNames}>
+                    {entry.failed.map((line) => (
+                      <div key={line}>{line}</div>
+                    ))}
+                  </div>
+                </details>
+              ))}
+            <div style={styles.planTotal}>
+              {interpolationLog.reduce((sum, entry) => sum + entry.added, 0)} added ·{' '}
+              {interpolationLog.reduce((sum, entry) => sum + entry.updated, 0)} updated ·{' '}
+              {interpolationLog.reduce((sum, entry) => sum + entry.unchanged, 0)} unchanged across{' '}
+              {interpolationLog.length} icon(s)
+            </div>
+          </div>
+        )}
+      </details>
 
-    addLog('info', 'Logs downloaded');
-  };
+      {/* SVG Source */}
+      <details style={styles.section}>
+        <summary style={styles.label}>SVG source ({svgSource?.label ?? 'GitHub'})</summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Source</span>
+          <select
+            style={styles.inlineSelect}
+            value={svgSource?.kind ?? 'github'}
+            onChange={(e) => handleSetSvgSource(e.target.value as SvgSourceKind)}
+            disabled={generationState.isRunning}
+          >
+            <option value="github">GitHub (raw.githubusercontent.com)</option>
+            <option value="mirror">Local mirror</option>
+            <option value="archive">Uploaded archive</option>
+            <option value="bundle">Offline bundle</option>
+          </select>
+        </div>
+        {svgSource?.kind === 'mirror' && (
+          <div style={styles.profileRow}>
+            <span style={styles.profileLabel}>URL</span>
+            <input
+              type="text"
+              style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+              value={mirrorUrl}
+              onChange={(e) => setMirrorUrl(e.target.value)}
+              onBlur={() => handleSetSvgSource('mirror')}
+              disabled={generationState.isRunning}
+            />
+          </div>
+        )}
+        {svgSource?.kind === 'mirror' && (
+          <div style={styles.hint}>Serve a checkout with: pnpm icons:serve --dir=…/symbols/web</div>
+        )}
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Archive</span>
+          <input
+            type="file"
+            accept=".tar,.tgz,.gz"
+            onChange={handleLoadArchive}
+            disabled={generationState.isRunning || isLoadingArchive}
+          />
+        </div>
+        {svgSource && svgSource.archiveFiles > 0 && (
+          <div style={styles.hint}>
+            {svgSource.archiveFiles.toLocaleString()} SVGs loaded (kept until the plugin closes)
+          </div>
+        )}
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Bundle</span>
+          <input
+            type="file"
+            accept=".json,.gz"
+            onChange={handleLoadBundle}
+            disabled={generationState.isRunning || isLoadingArchive}
+          />
+        </div>
+        {svgSource?.bundle && (
+          <div style={styles.hint}>
+            {svgSource.bundle.iconCount.toLocaleString()} icons at{' '}
+            {svgSource.bundle.commitSha.substring(0, 7)}, built{' '}
+            {svgSource.bundle.createdAt.substring(0, 10)} (kept until the plugin closes)
+          </div>
+        )}
+      </details>
 
-  // Clear logs
-  const handleClearLogs = () => {
-    setLogs([]);
-  };
+      {/* Icon Repository */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          Icon repository ({iconRepository.owner}/{iconRepository.repo})
+        </summary>
+        {(
+          [
+            ['owner', 'Owner'],
+            ['repo', 'Repo'],
+            ['path', 'Path'],
+            ['filenamePattern', 'Filename'],
+          ] as Array<[keyof IconRepository, string]>
+        ).map(([key, label]) => (
+          <div key={key} style={styles.profileRow}>
+            <span style={styles.profileLabel}>{label}</span>
+            <input
+              type="text"
+              style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+              value={iconRepository[key]}
+              placeholder={DEFAULT_ICON_REPOSITORY[key]}
+              onChange={(e) => setIconRepository({ ...iconRepository, [key]: e.target.value })}
+              disabled={generationState.isRunning}
+            />
+          </div>
+        ))}
+        <div style={styles.hint}>
+          Filename tokens: {'{icon} {modifiers} {weight} {grade} {fill} {size}'}. Fork-only icons
+          appear after rebuilding the icon list with pnpm icons:update --owner=… --repo=…
+        </div>
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetIconRepository(iconRepository)}
+            disabled={generationState.isRunning}
+          >
+            Save
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleSetIconRepository(null)}
+            disabled={generationState.isRunning}
+          >
+            Reset
+          </button>
+        </div>
+      </details>
 
-  // Calculate overall progress percentage
-  const overallProgress =
-    generationState.totalIcons > 0
-      ? Math.round((generationState.completedIcons / generationState.totalIcons) * 100)
-      : 0;
+      {/* Custom Icons */}
+      <details style={styles.section}>
+        <summary style={styles.label}>Import custom icons</summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Style</span>
+          <select
+            style={styles.inlineSelect}
+            value={customImportStyle}
+            onChange={(e) => setCustomImportStyle(e.target.value as IconStyle)}
+            disabled={generationState.isRunning || isImporting}
+          >
+            {ALL_ICON_STYLES.map((style) => (
+              <option key={style} value={style}>
+                {STYLE_NAMES[style]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Page</span>
+          <input
+            type="text"
+            style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+            value={customImportPage}
+            placeholder={DEFAULT_CUSTOM_ICONS_PAGE}
+            onChange={(e) => setCustomImportPage(e.target.value)}
+            disabled={generationState.isRunning || isImporting}
+          />
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Files</span>
+          <input
+            type="file"
+            multiple
+            accept=".svg,.tar,.tgz,.gz"
+            onChange={handleImportCustomIcons}
+            disabled={generationState.isRunning || isImporting}
+          />
+        </div>
+        <div style={styles.hint}>
+          Name files like upstream ({'{icon}_wght300fill1_24px.svg'}, style from the folder or the
+          select above) or {'{icon}_{style}_{weight}_{fill}.svg'}. Re-importing only updates changed
+          variants.
+        </div>
+        {customImport && (customImport.icons.length > 0 || customImport.skipped.length > 0) && (
+          <div style={{ ...styles.planList, marginTop: '6px' }}>
+            {customImport.icons.map((entry) => (
+              <div key={entry.name} style={styles.queueEntry} title={entry.invalid.join('\n')}>
+                <span style={styles.queueName}>
+                  {entry.name}
+                  <span style={styles.searchMeta}>
+                    {' '}
+                    {entry.error ??
+                      `${entry.created} new · ${entry.updated} updated · ${entry.unchanged} unchanged` +
+                        (entry.invalid.length > 0 ? ` · ${entry.invalid.length} invalid` : '')}
+                  </span>
+                </span>
+                {entry.nodeId && (
+                  <button
+                    style={{ ...styles.smallButton, padding: '0 6px' }}
+                    onClick={() => handleJumpToNode(entry.nodeId)}
+                  >
+                    Jump
+                  </button>
+                )}
+              </div>
+            ))}
+            {customImport.skipped.length > 0 && (
+              <details>
+                <summary>Skipped files: {customImport.skipped.length}</summary>
+                <div style={styles.planNames}>
+                  {customImport.skipped.map((entry) => (
+                    <div key={`${entry.path}-${entry.reason}`}>
+                      {entry.path}: {entry.reason}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            )}
+          </div>
+        )}
+      </details>
 
-  return (
-    <div style={styles.container}>
-      <h2 style={styles.title}>Material Icons Generator</h2>
+      {/* SVG Cache */}
+      <details style={styles.section}>
+        <summary style={styles.label}>
+          SVG cache
+          {svgCacheStats &&
+            ` (${svgCacheStats.entries.toLocaleString()} SVGs, ${formatMegabytes(svgCacheStats.bytes)} of ${formatMegabytes(svgCacheStats.maxBytes)})`}
+        </summary>
+        {svgCacheStats && (
+          <div style={styles.queueList}>
+            <div style={styles.queueEntry}>
+              <span>This session</span>
+              <span style={styles.searchMeta}>
+                {svgCacheStats.hits} hits · {svgCacheStats.misses} misses ·{' '}
+                {svgCacheStats.evictions} evicted
+              </span>
+            </div>
+          </div>
+        )}
+        <div style={{ ...styles.profileRow, marginTop: '6px' }}>
+          <button style={styles.smallButton} onClick={handleRefreshCacheStats}>
+            Refresh
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={handleClearCache}
+            disabled={generationState.isRunning}
+          >
+            Clear Cache
+          </button>
+        </div>
+      </details>
 
-      {/* Icon Set Selection */}
-      <div style={styles.section}>
-        <label style={styles.label}>
-          Icon Set ({selectedCategoryData?.count || 0} icons,{' '}
-          {selectedCategoryData?.components || 0} variants)
-        </label>
-        <select
-          style={styles.select}
-          value={selectedCategory}
-          onChange={(e) => setSelectedCategory(e.target.value)}
-          disabled={generationState.isRunning}
-        >
-          {categories.map((cat) => (
-            <option key={cat.name} value={cat.name}>
-              {cat.name} ({cat.count} icons)
-            </option>
+      {/* Configured Run */}
+      <details style={styles.section}>
+        <summary style={styles.label}>Custom run</summary>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Style</span>
+          <select
+            style={styles.inlineSelect}
+            value={runConfig.style}
+            onChange={(e) =>
+              setRunConfig({ ...runConfig, style: e.target.value as GenerationConfig['style'] })
+            }
+            disabled={generationState.isRunning}
+          >
+            {GENERATION_STYLES.map((style) => (
+              <option key={style} value={style}>
+                {STYLE_NAMES[style]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Weight</span>
+          {[100, 200, 300, 400, 500, 600, 700].map((weight) => (
+            <label key={weight} style={styles.profileOption}>
+              <input
+                type="checkbox"
+                checked={runConfig.weights.includes(weight)}
+                onChange={() => handleToggleConfigWeight(weight)}
+                disabled={generationState.isRunning}
+              />
+              {weight}
+            </label>
           ))}
-        </select>
-        {selectedCategoryData && (
-          <div style={styles.categoryInfo}>
-            Range: {selectedCategoryData.firstIcon} → {selectedCategoryData.lastIcon}
-          </div>
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Sets</span>
+          <select
+            style={styles.inlineSelect}
+            value={configScope}
+            onChange={(e) => setConfigScope(e.target.value as ConfigScope)}
+            disabled={generationState.isRunning || specificIconsText.trim().length > 0}
+            title="Specific icons are placed on their own set pages"
+          >
+            <option value="selected">Selected set</option>
+            <option value="remaining">Selected and later ({remainingCategories.length})</option>
+            <option value="all">All sets ({categories.length})</option>
+          </select>
+        </div>
+        <div style={styles.profileRow}>
+          <span style={styles.profileLabel}>Pages</span>
+          <select
+            style={styles.inlineSelect}
+            value={runConfig.pageStrategy}
+            onChange={(e) =>
+              setRunConfig({
+                ...runConfig,
+                pageStrategy: e.target.value as GenerationConfig['pageStrategy'],
+              })
+            }
+            disabled={generationState.isRunning}
+          >
+            <option value="category">One page per set</option>
+            <option value="alphabetical">Alphabetical pages</option>
+            <option value="hybrid">Per set, split large sets</option>
+          </select>
+          {runConfig.pageStrategy !== 'category' && (
+            <input
+              type="number"
+              min={1}
+              style={styles.numberInput}
+              value={runConfig.iconsPerPage ?? 150}
+              onChange={(e) =>
+                setRunConfig({ ...runConfig, iconsPerPage: parseInt(e.target.value) || undefined })
+              }
+              disabled={generationState.isRunning}
+              title="Icons per page"
+            />
+          )}
+        </div>
+        <textarea
+          style={styles.textarea}
+          placeholder="Specific icons (optional): home, search, settings"
+          value={specificIconsText}
+          onChange={(e) => {
+            setSpecificIconsText(e.target.value);
+            setIconValidation(null);
+          }}
+          disabled={generationState.isRunning}
+          rows={2}
+        />
+        {specificIconsText.trim().length > 0 && (
+          <>
+            <div style={styles.profileRow}>
+              <label style={styles.profileOption}>
+                <input
+                  type="checkbox"
+                  checked={useScratchPage}
+                  onChange={(e) => setUseScratchPage(e.target.checked)}
+                  disabled={generationState.isRunning}
+                />
+                Scratch page
+              </label>
+              <input
+                type="text"
+                style={{ ...styles.inlineSelect, padding: '3px 4px' }}
+                value={scratchPageName}
+                onChange={(e) => setScratchPageName(e.target.value)}
+                disabled={generationState.isRunning || !useScratchPage}
+              />
+              <button
+                style={styles.smallButton}
+                onClick={handleValidateIcons}
+                disabled={generationState.isRunning}
+              >
+                Check Icons
+              </button>
+            </div>
+            {iconValidation && (
+              <div style={styles.planList}>
+                <div>
+                  {iconValidation.valid.length} found →{' '}
+                  {useScratchPage
+                    ? scratchPageName
+                    : `${
+                        new Set(
+                          iconValidation.valid
+                            .map((entry) => entry.category)
+                            .filter((category) => category !== null)
+                        ).size
+                      } set page(s)`}
+                </div>
+                {iconValidation.unknown.map((entry) => (
+                  <div key={entry.name}>
+                    <span style={{ color: '#D32F2F' }}>{entry.name}</span>
+                    {entry.suggestions.length > 0 ? ' → ' : ' (no similar icons)'}
+                    {entry.suggestions.map((suggestion) => (
+                      <button
+                        key={suggestion}
+                        style={{ ...styles.smallButton, padding: '0 6px', marginRight: '4px' }}
+                        onClick={() => handleUseSuggestion(entry.name, suggestion)}
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
         )}
-      </div>
+        <button
+          style={{ ...styles.smallButton, width: '100%', marginTop: '6px' }}
+          onClick={handleStartConfigured}
+          disabled={generationState.isRunning}
+        >
+          Run Custom Generation
+        </button>
+      </details>
 
       {/* Action Button */}
       <div style={styles.section}>
         {!generationState.isRunning ? (
-          <button style={{ ...styles.button, ...styles.primaryButton }} onClick={handleStart}>
-            Start Import
-          </button>
+          <>
+            {resumableCheckpoint && (
+              <button
+                style={{ ...styles.button, ...styles.primaryButton, marginBottom: '8px' }}
+                onClick={() => handleStart(true)}
+                title={`${resumableCheckpoint.processedIcons}/${resumableCheckpoint.totalIcons} icons processed`}
+              >
+                Resume {selectedCategory.split(':')[0]} from {resumableCheckpoint.lastCompletedIcon}
+              </button>
+            )}
+            <button
+              style={{
+                ...styles.button,
+                ...(resumableCheckpoint ? styles.secondaryButton : styles.primaryButton),
+              }}
+              onClick={() => handleStart(false)}
+            >
+              {resumableCheckpoint ? 'Start From Beginning' : 'Start Import'}
+            </button>
+            <button
+              style={{ ...styles.smallButton, width: '100%', marginTop: '8px' }}
+              onClick={handlePlan}
+              disabled={isPlanning}
+              title="Classify icons without changing the document or downloading SVGs"
+            >
+              {isPlanning ? 'Planning...' : 'Preview Plan (dry run)'}
+            </button>
+          </>
         ) : (
           <button style={{ ...styles.button, ...styles.dangerButton }} onClick={handleCancel}>
             Cancel / Stop
@@ -347,6 +2583,198 @@ function App() {
         )}
       </div>
 
+      {/* Dry-run Plan */}
+      {selectedPlan && !generationState.isRunning && (
+        <div style={styles.section}>
+          <div style={styles.logsHeader}>
+            <label style={styles.label}>Plan: {selectedPlan.category}</label>
+            <div style={styles.logsActions}>
+              <button style={styles.smallButton} onClick={() => handleStart(false)}>
+                Approve &amp; Run
+              </button>
+              <button style={styles.smallButton} onClick={() => setPlan(null)}>
+                Dismiss
+              </button>
+            </div>
+          </div>
+          <div style={styles.planList}>
+            {!selectedPlan.pageExists && <div>New page will be created</div>}
+            {selectedPlan.renamePageFrom && (
+              <div>Page &quot;{selectedPlan.renamePageFrom}&quot; will be renamed</div>
+            )}
+            {planGroups(selectedPlan).map(({ label, names }) => (
+              <details key={label}>
+                <summary>
+                  {label}: {names.length}
+                </summary>
+                <div style={styles.planNames}>{names.join(', ') || '—'}</div>
+              </details>
+            ))}
+            <div style={styles.planTotal}>
+              Estimated downloads: {selectedPlan.estimatedDownloads.toLocaleString()} SVGs (
+              {selectedPlan.variantsPerIcon} per icon)
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Generation Queue */}
+      <div style={styles.section}>
+        <div style={styles.logsHeader}>
+          <label style={styles.label}>Queue</label>
+          <div style={styles.logsActions}>
+            <button
+              style={styles.smallButton}
+              onClick={() => handleQueue(remainingCategories)}
+              disabled={generationState.isRunning || remainingCategories.length === 0}
+              title="Queue the selected set and every set after it"
+            >
+              Queue Remaining ({remainingCategories.length})
+            </button>
+            <button
+              style={styles.smallButton}
+              onClick={handleResumeQueue}
+              disabled={generationState.isRunning || !hasPendingJobs}
+              title="Run pending sets in the queue"
+            >
+              Resume
+            </button>
+            <button
+              style={styles.smallButton}
+              onClick={handleClearQueue}
+              disabled={generationState.isRunning || queueJobs.length === 0}
+              title="Remove all sets from the queue"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+        {queueJobs.length > 0 && (
+          <div style={styles.queueList}>
+            {queueJobs.map((job) => (
+              <div key={job.category} style={styles.queueEntry} title={job.error}>
+                <span style={styles.queueName}>{job.category}</span>
+                <span style={{ ...styles.queueStatus, color: QUEUE_STATUS_COLORS[job.status] }}>
+                  {job.status}
+                  {job.totalIcons ? ` (${job.completedIcons ?? 0}/${job.totalIcons})` : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* File Audit */}
+      <div style={styles.section}>
+        <div style={styles.logsHeader}>
+          <label style={styles.label}>File Health</label>
+          <div style={styles.logsActions}>
+            <button
+              style={styles.smallButton}
+              onClick={handleAudit}
+              disabled={generationState.isRunning || isAuditing}
+              title="Check every set page for incomplete, stale or malformed icons"
+            >
+              {isAuditing ? 'Auditing...' : 'Audit File'}
+            </button>
+            <button
+              style={styles.smallButton}
+              onClick={handleExportAudit}
+              disabled={!auditReport}
+              title="Download the last audit report as JSON"
+            >
+              Export JSON
+            </button>
+          </div>
+        </div>
+        <div style={{ ...styles.logsActions, marginBottom: '6px' }}>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRepair('selection')}
+            disabled={generationState.isRunning || isRepairing}
+            title="Fix frames, fills, missing variants and order of the selected icons"
+          >
+            Repair Selection
+          </button>
+          <button
+            style={styles.smallButton}
+            onClick={() => handleRepair('page')}
+            disabled={generationState.isRunning || isRepairing}
+            title="Fix every icon on the current page"
+          >
+            Repair Page
+          </button>
+          {auditReport && (
+            <button
+              style={styles.smallButton}
+              onClick={() => handleRepair('nodes', repairableNodeIds(auditReport))}
+              disabled={
+                generationState.isRunning ||
+                isRepairing ||
+                repairableNodeIds(auditReport).length === 0
+              }
+              title="Fix the icons the last audit flagged"
+            >
+              Repair Audited ({repairableNodeIds(auditReport).length})
+            </button>
+          )}
+        </div>
+        {auditReport && (
+          <div style={styles.planList}>
+            <div>
+              {auditReport.componentSetsScanned} sets on {auditReport.pagesScanned} pages (commit{' '}
+              {auditReport.commitSha.substring(0, 7)})
+            </div>
+            {auditGroups(auditReport).map(({ label, entries }) => (
+              <details key={label}>
+                <summary>
+                  {label}: {entries.length}
+                </summary>
+                {entries.map((entry) => (
+                  <div key={`${label}-${entry.nodeId}`} style={styles.queueEntry}>
+                    <span style={styles.queueName} title={entry.detail}>
+                      {entry.name}
+                      <span style={styles.searchMeta}> {entry.detail}</span>
+                    </span>
+                    <button
+                      style={{ ...styles.smallButton, padding: '0 6px' }}
+                      onClick={() => handleJumpToNode(entry.nodeId)}
+                    >
+                      Jump
+                    </button>
+                  </div>
+                ))}
+              </details>
+            ))}
+          </div>
+        )}
+        {repairLog && (
+          <div style={{ ...styles.planList, marginTop: '6px' }}>
+            {repairLog
+              .filter((entry) => entry.changes.length > 0 || entry.errors.length > 0)
+              .map((entry) => (
+                <details key={entry.nodeId}>
+                  <summary>
+                    {entry.name}
+                    {entry.errors.length > 0 && (
+                      <span style={{ color: QUEUE_STATUS_COLORS.failed }}> (errors)</span>
+                    )}
+                  </summary>
+                  <div style={styles.planNames}>
+                    {[...entry.changes, ...entry.errors].map((line) => (
+                      <div key={line}>{line}</div>
+                    ))}
+                  </div>
+                </details>
+              ))}
+            <div style={styles.planTotal}>
+              {repairLog.filter((entry) => entry.changes.length === 0).length} of {repairLog.length}{' '}
+              icon(s) needed no changes
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Progress Indicator */}
       {generationState.isRunning && (
         <div style={styles.section}>
@@ -382,6 +2810,14 @@ function App() {
               </div>
             </div>
           )}
+
+          {fetchRate && (
+            <div style={styles.fetchRate}>
+              Downloads: {fetchRate.concurrency} parallel · {fetchRate.itemsPerSecond} SVGs/s
+              {fetchRate.cooldownMs > 0 &&
+                ` · rate limited, resuming in ${Math.ceil(fetchRate.cooldownMs / 1000)}s`}
+            </div>
+          )}
         </div>
       )}
 
@@ -553,6 +2989,11 @@ const styles: Record<string, React.CSSProperties> = {
     backgroundColor: '#18A0FB',
     color: 'white',
   },
+  secondaryButton: {
+    backgroundColor: 'white',
+    color: '#18A0FB',
+    border: '1px solid #18A0FB',
+  },
   dangerButton: {
     backgroundColor: '#F24822',
     color: 'white',
@@ -560,6 +3001,10 @@ const styles: Record<string, React.CSSProperties> = {
   progressSection: {
     marginBottom: '12px',
   },
+  fetchRate: {
+    fontSize: '11px',
+    color: '#666',
+  },
   progressHeader: {
     display: 'flex',
     justifyContent: 'space-between',
@@ -609,6 +3054,101 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: 'pointer',
     transition: 'background-color 0.2s',
   },
+  profileRow: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '11px',
+    marginBottom: '4px',
+  },
+  profileLabel: {
+    width: '48px',
+    color: '#666',
+  },
+  searchMeta: {
+    color: '#999',
+    fontSize: '10px',
+  },
+  searchStatus: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '10px',
+  },
+  inlineSelect: {
+    flex: 1,
+    padding: '2px 4px',
+    border: '1px solid #ccc',
+    borderRadius: '3px',
+    fontSize: '11px',
+    backgroundColor: 'white',
+  },
+  numberInput: {
+    width: '56px',
+    padding: '2px 4px',
+    border: '1px solid #ccc',
+    borderRadius: '3px',
+    fontSize: '11px',
+  },
+  textarea: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '6px',
+    border: '1px solid #ccc',
+    borderRadius: '3px',
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    resize: 'vertical',
+  },
+  profileOption: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '2px',
+    cursor: 'pointer',
+  },
+  planList: {
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    maxHeight: '160px',
+    overflowY: 'auto',
+    padding: '6px 8px',
+    fontSize: '11px',
+    lineHeight: '1.6',
+  },
+  planNames: {
+    color: '#666',
+    fontFamily: 'monospace',
+    wordBreak: 'break-word',
+    paddingLeft: '12px',
+  },
+  planTotal: {
+    marginTop: '4px',
+    fontWeight: 600,
+  },
+  queueList: {
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    maxHeight: '96px',
+    overflowY: 'auto',
+    padding: '4px 8px',
+    fontSize: '11px',
+  },
+  queueEntry: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '2px 0',
+  },
+  queueName: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  queueStatus: {
+    fontWeight: 600,
+    whiteSpace: 'nowrap',
+  },
   logsContainer: {
     border: '1px solid #ccc',
     borderRadius: '4px',